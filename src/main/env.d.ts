@@ -0,0 +1 @@
+/// <reference types="electron-vite/node" />
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { formatAsMarkdown, formatAsText } from "./formatters";
+import {
+  formatAsJson,
+  formatAsMarkdown,
+  formatAsText,
+  formatCacheReportCsv,
+} from "./formatters";
 import {
   buildConversation,
   buildMessage,
@@ -186,3 +191,185 @@ describe("formatAsText edge cases", () => {
     expect(text).toContain("System instruction");
   });
 });
+
+// ─── session chains ─────────────────────────────────────────────────
+
+describe("session chain exports", () => {
+  const conversation = buildConversation({
+    messages: [
+      buildMessage({ content: "Start the migration" }),
+      buildAssistantMessage({ content: "Schema migrated" }),
+      buildMessage({ content: "Now the data" }),
+    ],
+    messageCount: 3,
+    chain: [
+      { id: "/a.jsonl", sessionId: "session-a", timestamp: "2025-01-01T10:00:00Z", firstMessageIndex: 0, messageCount: 2 },
+      { id: "/b.jsonl", sessionId: "session-b", timestamp: "2025-01-02T10:00:00Z", firstMessageIndex: 2, messageCount: 1 },
+    ],
+  });
+
+  it("starts each session of the chain with a heading in markdown", () => {
+    const md = formatAsMarkdown(conversation);
+
+    expect(md.indexOf("# Session 1 of 2")).toBeLessThan(md.indexOf("Start the migration"));
+    expect(md.indexOf("# Session 2 of 2")).toBeGreaterThan(md.indexOf("Schema migrated"));
+    expect(md.indexOf("# Session 2 of 2")).toBeLessThan(md.indexOf("Now the data"));
+    expect(md).toContain("*session-b, ");
+  });
+
+  it("starts each session of the chain with a heading in text", () => {
+    const text = formatAsText(conversation);
+
+    expect(text).toContain("=== Session 1 of 2: session-a (");
+    expect(text.indexOf("=== Session 2 of 2: session-b (")).toBeGreaterThan(text.indexOf("Schema migrated"));
+  });
+
+  it("adds no session headings to a single conversation", () => {
+    const single = buildConversation({ messages: [buildMessage({ content: "Hi" })] });
+
+    expect(formatAsMarkdown(single)).not.toContain("# Session");
+    expect(formatAsText(single)).not.toContain("=== Session");
+  });
+});
+
+// ─── compaction ─────────────────────────────────────────────────────
+
+describe("compaction exports", () => {
+  const conversation = buildConversation({
+    messages: [
+      buildMessage({ content: "Fix the login bug" }),
+      buildMessage({
+        type: "system",
+        content: "Summary: the login bug is fixed",
+        compaction: { trigger: "auto", preTokens: 152000 },
+      }),
+      buildMessage({ content: "Now the tests" }),
+    ],
+    messageCount: 3,
+  });
+
+  it("writes a compaction as its own section with the summary", () => {
+    const md = formatAsMarkdown(conversation);
+
+    expect(md).toContain(
+      "---\n\n## Compaction Summary\n\n*Conversation compacted automatically at 152,000 tokens*\n\nSummary: the login bug is fixed\n\n---",
+    );
+    expect(md).not.toContain("## Claude");
+  });
+
+  it("labels a compaction in text exports", () => {
+    const text = formatAsText(conversation);
+
+    expect(text).toContain(
+      "[Conversation compacted automatically at 152,000 tokens]\nSummary: the login bug is fixed",
+    );
+  });
+});
+
+// ─── thinking ───────────────────────────────────────────────────────
+
+describe("thinking in exports", () => {
+  const conversation = buildConversation({
+    messages: [
+      buildMessage({ content: "Why does the build fail?" }),
+      buildAssistantMessage({
+        content: "The lockfile is stale.",
+        thinking: ["Check the lockfile first"],
+      }),
+    ],
+    messageCount: 2,
+  });
+
+  it("leaves thinking out unless asked for", () => {
+    expect(formatAsMarkdown(conversation)).not.toContain("Check the lockfile");
+    expect(formatAsText(conversation)).not.toContain("Check the lockfile");
+    expect(formatAsJson(conversation)).not.toContain("Check the lockfile");
+  });
+
+  it("writes thinking as a collapsed section before the answer in markdown", () => {
+    const md = formatAsMarkdown(conversation, { thinking: true });
+
+    expect(md).toContain(
+      "<details>\n<summary>Thinking</summary>\n\nCheck the lockfile first\n\n</details>\n\nThe lockfile is stale.",
+    );
+  });
+
+  it("labels thinking in text and keeps it in json", () => {
+    expect(formatAsText(conversation, { thinking: true })).toContain(
+      "[Thinking]\nCheck the lockfile first\n\nThe lockfile is stale.",
+    );
+    expect(
+      JSON.parse(formatAsJson(conversation, { thinking: true })).messages[1]
+        .thinking,
+    ).toEqual(["Check the lockfile first"]);
+  });
+});
+
+describe("formatCacheReportCsv", () => {
+  const stats = {
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheReadTokens: 800,
+    cacheCreationTokens: 100,
+    hitRatio: 0.8,
+    cost: 0.5,
+    uncachedCost: 2,
+  };
+
+  it("writes a row per group with what caching saved", () => {
+    const csv = formatCacheReportCsv({
+      totals: stats,
+      daily: [{ date: "2025-03-01", ...stats }],
+      byProject: [{ key: "/proj/a", label: "a", ...stats }],
+      byProfile: [{ key: "work", label: "💼 Work", ...stats }],
+      sessions: [
+        {
+          id: "/p/s1.jsonl",
+          title: 'Fix "login", again',
+          projectName: "a",
+          account: "work",
+          timestamp: "2025-03-01T10:00:00Z",
+          lowReuse: true,
+          ...stats,
+        },
+      ],
+    });
+
+    expect(csv.split("\n")).toEqual([
+      "group,name,project,profile,date,input_tokens,cache_write_tokens,cache_read_tokens,output_tokens,hit_ratio,cost_usd,uncached_cost_usd,saved_usd,low_reuse",
+      "total,,,,,100,100,800,50,0.8000,0.5000,2.0000,1.5000,",
+      "day,2025-03-01,,,2025-03-01,100,100,800,50,0.8000,0.5000,2.0000,1.5000,",
+      "project,a,/proj/a,,,100,100,800,50,0.8000,0.5000,2.0000,1.5000,",
+      "profile,💼 Work,,work,,100,100,800,50,0.8000,0.5000,2.0000,1.5000,",
+      'session,"Fix ""login"", again",a,work,2025-03-01T10:00:00Z,100,100,800,50,0.8000,0.5000,2.0000,1.5000,yes',
+    ]);
+  });
+
+  it("keeps titles that look like formulas from running in a spreadsheet", () => {
+    const session = {
+      projectName: "a",
+      account: "work",
+      timestamp: "2025-03-01T10:00:00Z",
+      lowReuse: false,
+      ...stats,
+    };
+    const csv = formatCacheReportCsv({
+      totals: { ...stats, cost: 3 },
+      daily: [],
+      byProject: [{ key: "/proj/a", label: "@SUM(A1:A2)", ...stats }],
+      byProfile: [],
+      sessions: [
+        { id: "/p/s1.jsonl", title: '=HYPERLINK("http://x","y")', ...session },
+        { id: "/p/s2.jsonl", title: "-2+3", ...session },
+        { id: "/p/s3.jsonl", title: "+cmd", ...session },
+      ],
+    });
+
+    const lines = csv.split("\n");
+    expect(lines[1]).toBe("total,,,,,100,100,800,50,0.8000,3.0000,2.0000,-1.0000,");
+    expect(lines[2]).toBe("project,'@SUM(A1:A2),/proj/a,,,100,100,800,50,0.8000,0.5000,2.0000,1.5000,");
+    expect(lines[3]).toMatch(/^session,"'=HYPERLINK\(""http:\/\/x"",""y""\)",/);
+    expect(lines[4]).toMatch(/^session,'-2\+3,/);
+    expect(lines[5]).toMatch(/^session,'\+cmd,/);
+  });
+});
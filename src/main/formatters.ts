@@ -1,6 +1,51 @@
-import type { Conversation } from "../shared/types";
+import type {
+  CacheReport,
+  CacheStats,
+  Conversation,
+  ConversationMessage,
+  SessionChainPart,
+} from "../shared/types";
+import { describeCompaction } from "../shared/compaction";
 
-export function formatAsMarkdown(conversation: Conversation): string {
+// The session chain parts by the index of their first message
+function chainPartsByStart(
+  conversation: Conversation,
+): Map<number, { part: SessionChainPart; number: number }> {
+  const parts = new Map<number, { part: SessionChainPart; number: number }>();
+  conversation.chain?.forEach((part, i) =>
+    parts.set(part.firstMessageIndex, { part, number: i + 1 }),
+  );
+  return parts;
+}
+
+export interface FormatOptions {
+  /** Include assistant thinking blocks; they are left out by default */
+  thinking?: boolean;
+}
+
+// The message's thinking blocks when the export asks for them
+function thinkingOf(
+  message: ConversationMessage,
+  options: FormatOptions,
+): string[] {
+  return options.thinking ? (message.thinking ?? []) : [];
+}
+
+export function formatAsJson(
+  conversation: Conversation,
+  options: FormatOptions = {},
+): string {
+  if (options.thinking) return JSON.stringify(conversation, null, 2);
+  const messages = conversation.messages.map(
+    ({ thinking: _thinking, ...message }) => message,
+  );
+  return JSON.stringify({ ...conversation, messages }, null, 2);
+}
+
+export function formatAsMarkdown(
+  conversation: Conversation,
+  options: FormatOptions = {},
+): string {
   const timestamp = conversation.timestamp
     ? new Date(conversation.timestamp).toLocaleString()
     : "Unknown";
@@ -17,13 +62,49 @@ export function formatAsMarkdown(conversation: Conversation): string {
     "",
   ];
 
-  for (const message of conversation.messages || []) {
+  const chainParts = chainPartsByStart(conversation);
+  const chainLength = conversation.chain?.length ?? 0;
+
+  for (const [index, message] of (conversation.messages || []).entries()) {
+    const start = chainParts.get(index);
+    if (start) {
+      lines.push(`# Session ${start.number} of ${chainLength}`);
+      lines.push("");
+      lines.push(
+        `*${start.part.sessionId}, ${new Date(start.part.timestamp).toLocaleString()}*`,
+      );
+      lines.push("");
+    }
+    if (message.compaction) {
+      lines.push("---");
+      lines.push("");
+      lines.push("## Compaction Summary");
+      lines.push("");
+      lines.push(`*${describeCompaction(message.compaction)}*`);
+      lines.push("");
+      if (message.content) {
+        lines.push(message.content);
+        lines.push("");
+      }
+      lines.push("---");
+      lines.push("");
+      continue;
+    }
     const role = message.type === "user" ? "## You" : "## Claude";
     const time = message.timestamp
       ? ` *(${new Date(message.timestamp).toLocaleTimeString()})*`
       : "";
     lines.push(`${role}${time}`);
     lines.push("");
+    for (const thinking of thinkingOf(message, options)) {
+      lines.push("<details>");
+      lines.push("<summary>Thinking</summary>");
+      lines.push("");
+      lines.push(thinking);
+      lines.push("");
+      lines.push("</details>");
+      lines.push("");
+    }
     lines.push(message.content || "");
     lines.push("");
   }
@@ -31,7 +112,10 @@ export function formatAsMarkdown(conversation: Conversation): string {
   return lines.join("\n");
 }
 
-export function formatAsText(conversation: Conversation): string {
+export function formatAsText(
+  conversation: Conversation,
+  options: FormatOptions = {},
+): string {
   const timestamp = conversation.timestamp
     ? new Date(conversation.timestamp).toLocaleString()
     : "Unknown";
@@ -49,12 +133,35 @@ export function formatAsText(conversation: Conversation): string {
     "",
   ];
 
-  for (const message of conversation.messages || []) {
+  const chainParts = chainPartsByStart(conversation);
+  const chainLength = conversation.chain?.length ?? 0;
+
+  for (const [index, message] of (conversation.messages || []).entries()) {
+    const start = chainParts.get(index);
+    if (start) {
+      lines.push(
+        `=== Session ${start.number} of ${chainLength}: ${start.part.sessionId} (${new Date(start.part.timestamp).toLocaleString()}) ===`,
+      );
+      lines.push("");
+    }
+    if (message.compaction) {
+      lines.push(`[${describeCompaction(message.compaction)}]`);
+      lines.push(message.content || "");
+      lines.push("");
+      lines.push("---");
+      lines.push("");
+      continue;
+    }
     const role = message.type === "user" ? "[You]" : "[Claude]";
     const time = message.timestamp
       ? ` (${new Date(message.timestamp).toLocaleTimeString()})`
       : "";
     lines.push(`${role}${time}`);
+    for (const thinking of thinkingOf(message, options)) {
+      lines.push("[Thinking]");
+      lines.push(thinking);
+      lines.push("");
+    }
     lines.push(message.content || "");
     lines.push("");
     lines.push("---");
@@ -63,3 +170,91 @@ export function formatAsText(conversation: Conversation): string {
 
   return lines.join("\n");
 }
+
+const CACHE_REPORT_COLUMNS = [
+  "group",
+  "name",
+  "project",
+  "profile",
+  "date",
+  "input_tokens",
+  "cache_write_tokens",
+  "cache_read_tokens",
+  "output_tokens",
+  "hit_ratio",
+  "cost_usd",
+  "uncached_cost_usd",
+  "saved_usd",
+  "low_reuse",
+];
+
+// A CSV field, quoted when it holds a separator, quote or line break. Text a
+// spreadsheet would run as a formula (a title starting with "=", say) is
+// prefixed with an apostrophe so it opens as text; numbers are left alone.
+function csvField(value: string | number): string {
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function cacheStatsFields(stats: CacheStats): Array<string | number> {
+  return [
+    stats.inputTokens,
+    stats.cacheCreationTokens,
+    stats.cacheReadTokens,
+    stats.outputTokens,
+    stats.hitRatio === null ? "" : stats.hitRatio.toFixed(4),
+    stats.cost.toFixed(4),
+    stats.uncachedCost.toFixed(4),
+    (stats.uncachedCost - stats.cost).toFixed(4),
+  ];
+}
+
+/**
+ * The cache report as one CSV table: a row for the whole period, then one
+ * per day, project, profile and session, told apart by the `group` column.
+ */
+export function formatCacheReportCsv(report: CacheReport): string {
+  const rows: Array<Array<string | number>> = [
+    ["total", "", "", "", "", ...cacheStatsFields(report.totals), ""],
+    ...report.daily.map((day) => [
+      "day",
+      day.date,
+      "",
+      "",
+      day.date,
+      ...cacheStatsFields(day),
+      "",
+    ]),
+    ...report.byProject.map((project) => [
+      "project",
+      project.label,
+      project.key,
+      "",
+      "",
+      ...cacheStatsFields(project),
+      "",
+    ]),
+    ...report.byProfile.map((profile) => [
+      "profile",
+      profile.label,
+      "",
+      profile.key,
+      "",
+      ...cacheStatsFields(profile),
+      "",
+    ]),
+    ...report.sessions.map((session) => [
+      "session",
+      session.title,
+      session.projectName,
+      session.account,
+      session.timestamp,
+      ...cacheStatsFields(session),
+      session.lowReuse ? "yes" : "no",
+    ]),
+  ];
+  return [CACHE_REPORT_COLUMNS, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\n");
+}
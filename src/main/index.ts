@@ -7,7 +7,17 @@ import { homedir } from "os";
 import { electronApp, optimizer, is } from "@electron-toolkit/utils";
 import { ConversationScanner } from "./services/scanner";
 import { SearchIndexer } from "./services/indexer";
+import { ConversationWatcher } from "./services/watcher";
+import { IndexCache, diffCachedMetas } from "./services/index-cache";
 import { PtyManager } from "./services/pty-manager";
+import { RegexSearchRunner } from "./services/regex-search-runner";
+import { SemanticIndex, type SemanticHit } from "./services/semantic-index";
+import { EmbeddingWorker } from "./services/embedding-runner";
+import { readToolOutputPage } from "./services/tool-output";
+import { getHighlightText } from "../shared/query-parser";
+import { isInDateRange, toDayString } from "../shared/date-range";
+import { totalTokens } from "../shared/pricing";
+import { buildCacheReport } from "../shared/cache-report";
 import type {
   PtySpawnOptions,
   Profile,
@@ -17,14 +27,36 @@ import type {
   GitInfo,
   CreateWorktreeOptions,
   CreateWorktreeResult,
+  ConversationsChangedEvent,
+  ConversationMeta,
+  SearchSuggestions,
+  RegexSearchOptions,
+  RegexSearchStartResult,
+  DateRangeOption,
+  SearchPage,
+  SearchPageOptions,
+  ExportOptions,
+  ModelPrice,
+  FileTimelineEntry,
+  FileTimelinePage,
 } from "../shared/types";
 import { execFileNoThrow } from "./utils/execFileNoThrow";
-import { formatAsMarkdown, formatAsText } from "./formatters";
+import {
+  formatAsJson,
+  formatAsMarkdown,
+  formatAsText,
+  formatCacheReportCsv,
+} from "./formatters";
 import { parseWorktrees } from "./worktree-parser";
 
 let mainWindow: BrowserWindow | null = null;
 let scanner: ConversationScanner | null = null;
 let indexer: SearchIndexer | null = null;
+let watcher: ConversationWatcher | null = null;
+// Built the first time a search asks for similar meaning
+let semanticIndex: SemanticIndex | null = null;
+const embeddingWorker = new EmbeddingWorker();
+const regexSearchRunner = new RegexSearchRunner();
 const ptyManagers = new Map<string, PtyManager>();
 
 function getPrefsPath(): string {
@@ -40,6 +72,8 @@ async function loadPreferences(): Promise<Record<string, unknown>> {
   }
 }
 
+let preferencesWrite: Promise<void> = Promise.resolve();
+
 async function savePreferences(prefs: Record<string, unknown>): Promise<void> {
   const dir = app.getPath("userData");
   await mkdir(dir, { recursive: true });
@@ -133,15 +167,10 @@ async function ensureProfilesExist(): Promise<ProfilesConfig> {
 async function getProfileUsage(profileDir: string): Promise<{
   conversations: number;
   lastUsed: string | null;
-  tokensThisMonth: number;
 }> {
   const projectsDir = join(profileDir, "projects");
   let conversations = 0;
   let latestMtime = 0;
-  let tokensThisMonth = 0;
-
-  const now = new Date();
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
 
   try {
     const projectDirs = await readdir(projectsDir);
@@ -162,32 +191,6 @@ async function getProfileUsage(profileDir: string): Promise<{
                 if (fStat.size === 0) return;
                 conversations++;
                 if (fStat.mtimeMs > latestMtime) latestMtime = fStat.mtimeMs;
-                if (fStat.mtimeMs >= startOfMonth) {
-                  try {
-                    const content = await readFile(fPath, "utf-8");
-                    for (const line of content.split("\n")) {
-                      if (!line.trim()) continue;
-                      try {
-                        const parsed = JSON.parse(line);
-                        if (
-                          parsed.type === "assistant" &&
-                          parsed.message?.usage
-                        ) {
-                          const u = parsed.message.usage;
-                          tokensThisMonth +=
-                            (u.input_tokens || 0) +
-                            (u.output_tokens || 0) +
-                            (u.cache_creation_input_tokens || 0) +
-                            (u.cache_read_input_tokens || 0);
-                        }
-                      } catch {
-                        /* skip malformed lines */
-                      }
-                    }
-                  } catch {
-                    /* skip unreadable files */
-                  }
-                }
               } catch {
                 /* skip missing/unreadable files */
               }
@@ -205,10 +208,20 @@ async function getProfileUsage(profileDir: string): Promise<{
   return {
     conversations,
     lastUsed: latestMtime > 0 ? new Date(latestMtime).toISOString() : null,
-    tokensThisMonth,
   };
 }
 
+// Tokens each profile used since the start of the month, from the index
+function getTokensThisMonth(): Record<string, number> {
+  const startOfMonth = toDayString(new Date()).slice(0, 8) + "01";
+  const tokens: Record<string, number> = {};
+  for (const row of indexer?.getUsageRows() ?? []) {
+    if (row.date < startOfMonth) continue;
+    tokens[row.account] = (tokens[row.account] ?? 0) + totalTokens(row);
+  }
+  return tokens;
+}
+
 function createWindow(): void {
   mainWindow = new BrowserWindow({
     width: 1200,
@@ -242,21 +255,216 @@ function createWindow(): void {
   }
 }
 
-async function initializeSearch(profiles: Profile[]): Promise<void> {
-  scanner = new ConversationScanner(profiles);
-  indexer = new SearchIndexer();
+function getIndexCachePath(): string {
+  return join(app.getPath("userData"), "index-cache.json");
+}
+
+// Watcher syncs and cache saves both touch the whole index; running them one at
+// a time guarantees a cache export never captures a half-applied change.
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+function withIndexLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = indexQueue.then(task, task);
+  indexQueue = run.catch(() => {});
+  return run;
+}
 
-  scanner.setProgressCallback((scanned, total) => {
+const INDEX_CACHE_SAVE_DELAY_MS = 10_000;
+// Conversations of a file's timeline read per request
+const FILE_TIMELINE_PAGE_SIZE = 10;
+let indexCacheSaveTimer: NodeJS.Timeout | null = null;
+
+function saveIndexCache(
+  activeScanner: ConversationScanner,
+  activeIndexer: SearchIndexer,
+): Promise<void> {
+  return withIndexLock(async () => {
+    // Skip saves queued before a rebuild replaced the scanner
+    if (scanner !== activeScanner) return;
+    const index = await activeIndexer.exportIndex();
+    await new IndexCache(getIndexCachePath()).save(
+      activeScanner.getFileEntries(),
+      index,
+    );
+  }).catch((err) => console.error("Failed to save index cache:", err));
+}
+
+function scheduleIndexCacheSave(
+  activeScanner: ConversationScanner,
+  activeIndexer: SearchIndexer,
+): void {
+  if (indexCacheSaveTimer) clearTimeout(indexCacheSaveTimer);
+  indexCacheSaveTimer = setTimeout(() => {
+    indexCacheSaveTimer = null;
+    saveIndexCache(activeScanner, activeIndexer);
+  }, INDEX_CACHE_SAVE_DELAY_MS);
+}
+
+function getSemanticIndexPath(): string {
+  return join(app.getPath("userData"), "semantic-index.json");
+}
+
+let semanticIndexSaveTimer: NodeJS.Timeout | null = null;
+
+// Embed new and changed conversations in the background, on the embedding
+// worker thread, then save the vectors. A newer sync supersedes one that is still running.
+function syncSemanticIndex(
+  activeScanner: ConversationScanner,
+  activeSemanticIndex: SemanticIndex,
+): void {
+  activeSemanticIndex
+    .sync(
+      activeScanner.getAllMeta(),
+      (id) => activeScanner.readConversation(id),
+      (status) => {
+        mainWindow?.webContents.send("semantic-index-progress", status);
+      },
+    )
+    .then((finished) => {
+      if (!finished || semanticIndex !== activeSemanticIndex) return;
+      if (semanticIndexSaveTimer) clearTimeout(semanticIndexSaveTimer);
+      semanticIndexSaveTimer = setTimeout(() => {
+        semanticIndexSaveTimer = null;
+        activeSemanticIndex
+          .save(getSemanticIndexPath())
+          .catch((err) => console.error("Failed to save semantic index:", err));
+      }, INDEX_CACHE_SAVE_DELAY_MS);
+    })
+    .catch((err) => console.error("Failed to update semantic index:", err));
+}
+
+async function ensureSemanticIndex(): Promise<SemanticIndex | null> {
+  if (semanticIndex) return semanticIndex;
+  const activeScanner = scanner;
+  if (!activeScanner) return null;
+  const loaded = await SemanticIndex.load(getSemanticIndexPath(), embeddingWorker.embed);
+  // Another search may have loaded it meanwhile, or a rebuild replaced the scanner
+  if (semanticIndex || scanner !== activeScanner) return semanticIndex;
+  semanticIndex = loaded;
+  syncSemanticIndex(activeScanner, loaded);
+  return loaded;
+}
+
+// Keyword results still come back when the query cannot be embedded
+async function searchSemanticIndex(
+  activeSemanticIndex: SemanticIndex,
+  text: string,
+  limit: number,
+): Promise<SemanticHit[] | undefined> {
+  try {
+    return await activeSemanticIndex.search(text, limit);
+  } catch (err) {
+    console.error("Failed to search semantic index:", err);
+    return undefined;
+  }
+}
+
+async function initializeSearch(
+  profiles: Profile[],
+  options: { coldStart?: boolean } = {},
+): Promise<void> {
+  watcher?.stop();
+  watcher = null;
+  if (indexCacheSaveTimer) clearTimeout(indexCacheSaveTimer);
+  indexCacheSaveTimer = null;
+  semanticIndex?.stop();
+  if (options.coldStart) {
+    if (semanticIndexSaveTimer) clearTimeout(semanticIndexSaveTimer);
+    semanticIndexSaveTimer = null;
+    semanticIndex = null;
+    await SemanticIndex.clear(getSemanticIndexPath());
+  }
+
+  const activeScanner = new ConversationScanner(profiles);
+  let activeIndexer = new SearchIndexer();
+
+  activeScanner.setProgressCallback((scanned, total) => {
     mainWindow?.webContents.send("scan-progress", { scanned, total });
   });
 
+  const indexCache = new IndexCache(getIndexCachePath());
+  if (options.coldStart) await indexCache.clear();
+  let cached = options.coldStart ? null : await indexCache.load();
+
+  // Restore the cached index before scanning: messages of stale files are
+  // streamed into it while they are re-parsed.
+  if (cached) {
+    try {
+      const cachedMetas: ConversationMeta[] = [];
+      for (const entry of cached.files.values()) {
+        if (entry.meta) cachedMetas.push(entry.meta);
+      }
+      activeIndexer.importIndex(cached.index, cachedMetas);
+    } catch (err) {
+      console.error("Failed to restore index cache, rebuilding:", err);
+      cached = null;
+      activeIndexer = new SearchIndexer();
+    }
+  }
+
+  scanner = activeScanner;
+  indexer = activeIndexer;
+  activeScanner.setMessageSink(activeIndexer);
+
   console.log("Scanning for conversations...");
-  const metas = await scanner.scanAllMeta();
+  const metas = await activeScanner.scanAllMeta(cached?.files);
   console.log(`Found ${metas.length} conversations`);
 
-  console.log("Building search index...");
-  await indexer.buildIndex(metas);
+  if (cached) {
+    const changes = diffCachedMetas(cached.files, metas);
+    activeIndexer.applyChanges(changes);
+    console.log(
+      `Restored search index from cache (${changes.added.length + changes.updated.length} re-parsed, ${changes.removed.length} removed)`,
+    );
+  } else {
+    console.log("Building search index...");
+    await activeIndexer.buildIndex(metas);
+  }
+  activeIndexer.setSessionChains(activeScanner.getSessionChains());
   console.log("Search index ready");
+
+  saveIndexCache(activeScanner, activeIndexer);
+  if (semanticIndex) syncSemanticIndex(activeScanner, semanticIndex);
+  await startWatching(activeScanner, activeIndexer);
+}
+
+async function startWatching(
+  activeScanner: ConversationScanner,
+  activeIndexer: SearchIndexer,
+): Promise<void> {
+  const activeWatcher = new ConversationWatcher(
+    activeScanner.getProjectsDirs(),
+  );
+  activeWatcher.setChangeCallback(() =>
+    withIndexLock(async () => {
+      const changes = await activeScanner.scanChanges();
+      // The index may have been rebuilt while the scan was running
+      if (watcher !== activeWatcher) return;
+      if (
+        changes.added.length === 0 &&
+        changes.updated.length === 0 &&
+        changes.removed.length === 0
+      ) {
+        return;
+      }
+
+      activeIndexer.applyChanges(changes);
+      activeIndexer.setSessionChains(activeScanner.getSessionChains());
+      scheduleIndexCacheSave(activeScanner, activeIndexer);
+      if (semanticIndex) syncSemanticIndex(activeScanner, semanticIndex);
+      const event: ConversationsChangedEvent = {
+        added: changes.added.map((m) => m.id),
+        updated: changes.updated.map((m) => m.id),
+        removed: changes.removed,
+      };
+      mainWindow?.webContents.send("conversations-changed", event);
+    }),
+  );
+
+  watcher = activeWatcher;
+  await activeWatcher.start();
+  // Catch anything written between the initial scan and the watcher starting
+  activeWatcher.requestSync();
 }
 
 // IPC Handlers
@@ -266,10 +474,118 @@ function setupIpcHandlers(): void {
     async (
       _event,
       query: string,
-      filters?: { project?: string; limit?: number },
+      filters?: {
+        project?: string;
+        limit?: number;
+        fuzzy?: boolean;
+        semantic?: boolean;
+        thinking?: boolean;
+        dateRange?: DateRangeOption;
+      },
     ) => {
+      const activeIndexer = indexer;
+      if (!activeIndexer) return [];
+      const limit = filters?.limit || 10000;
+      const results = activeIndexer.search(
+        query,
+        limit,
+        filters?.project,
+        filters?.fuzzy,
+        filters?.dateRange,
+        filters?.thinking,
+      );
+
+      // Operators and exclusions carry no meaning to compare against
+      const text = getHighlightText(query);
+      if (!filters?.semantic || !text) return results;
+      const activeSemanticIndex = await ensureSemanticIndex();
+      const hits =
+        activeSemanticIndex &&
+        (await searchSemanticIndex(activeSemanticIndex, text, limit));
+      if (!hits) return results;
+      return activeIndexer.blendSemanticHits(
+        query,
+        results,
+        hits,
+        limit,
+        filters.project,
+        filters.dateRange,
+      );
+    },
+  );
+
+  // The sidebar's paged search; search above returns one flat list
+  ipcMain.handle(
+    "search-page",
+    async (
+      _event,
+      query: string,
+      options?: SearchPageOptions,
+    ): Promise<SearchPage> => {
+      const activeIndexer = indexer;
+      if (!activeIndexer) return { results: [], total: 0, nextCursor: null };
+
+      const text = getHighlightText(query);
+      const activeSemanticIndex =
+        options?.semantic && text ? await ensureSemanticIndex() : null;
+      return activeIndexer.searchPage(
+        query,
+        options,
+        activeSemanticIndex
+          ? await searchSemanticIndex(activeSemanticIndex, text, Infinity)
+          : undefined,
+      );
+    },
+  );
+
+  // Matches stream back on "regex-search-event" until a "done" event
+  ipcMain.handle(
+    "regex-search-start",
+    async (
+      event,
+      pattern: string,
+      options?: RegexSearchOptions,
+    ): Promise<RegexSearchStartResult> => {
+      if (!scanner) return { success: false, error: "Index is not ready" };
+      const metas = scanner
+        .getAllMeta()
+        .filter(
+          (meta) =>
+            (!options?.project || meta.projectPath === options.project) &&
+            (!options?.account || meta.account === options.account) &&
+            isInDateRange(meta.timestamp, options?.dateRange ?? "all"),
+        );
+      const sender = event.sender;
+      return regexSearchRunner.start(
+        pattern,
+        options?.caseSensitive ?? false,
+        metas,
+        (searchEvent) => {
+          if (!sender.isDestroyed()) sender.send("regex-search-event", searchEvent);
+        },
+      );
+    },
+  );
+
+  ipcMain.handle("regex-search-cancel", async (_event, searchId: string) => {
+    return regexSearchRunner.cancel(searchId);
+  });
+
+  ipcMain.handle(
+    "get-search-suggestions",
+    async (): Promise<SearchSuggestions> => {
+      if (!indexer) {
+        return { projects: [], branches: [], models: [], tools: [], accounts: [] };
+      }
+      return indexer.getSearchSuggestions();
+    },
+  );
+
+  ipcMain.handle(
+    "find-similar-conversations",
+    async (_event, id: string, limit?: number) => {
       if (!indexer) return [];
-      return indexer.search(query, filters?.limit || 10000, filters?.project);
+      return indexer.findSimilar(id, limit);
     },
   );
 
@@ -278,6 +594,33 @@ function setupIpcHandlers(): void {
     return scanner.getConversation(id);
   });
 
+  ipcMain.handle(
+    "get-subagent-transcript",
+    async (_event, id: string, agentId: string) => {
+      if (!scanner) return null;
+      return scanner.getSubagentTranscript(id, agentId);
+    },
+  );
+
+  ipcMain.handle("get-session-chain", async (_event, id: string) => {
+    if (!scanner) return null;
+    return scanner.getSessionChainConversation(id);
+  });
+
+  ipcMain.handle(
+    "read-tool-output",
+    async (_event, id: string, outputPath: string, offset?: number) => {
+      const filePath = scanner?.resolveToolOutputPath(id, outputPath);
+      if (!filePath) return null;
+      try {
+        return await readToolOutputPage(filePath, offset);
+      } catch (err) {
+        console.error(`Error reading tool output ${filePath}:`, err);
+        return null;
+      }
+    },
+  );
+
   ipcMain.handle("get-projects", async () => {
     if (!scanner) return [];
     return scanner.getProjects();
@@ -295,7 +638,8 @@ function setupIpcHandlers(): void {
   ipcMain.handle("rebuild-index", async () => {
     const config = await loadProfilesConfig();
     const enabledProfiles = config.profiles.filter((p) => p.enabled);
-    await initializeSearch(enabledProfiles);
+    // An explicit rebuild ignores the on-disk cache and re-parses everything
+    await initializeSearch(enabledProfiles, { coldStart: true });
     return true;
   });
 
@@ -311,11 +655,19 @@ function setupIpcHandlers(): void {
 
   ipcMain.handle(
     "export-conversation",
-    async (_event, id: string, format: "markdown" | "json" | "text") => {
+    async (
+      _event,
+      id: string,
+      format: "markdown" | "json" | "text",
+      options?: ExportOptions,
+    ) => {
       if (!scanner || !mainWindow)
         return { success: false, error: "Not initialized" };
 
-      const conversation = await scanner.getConversation(id);
+      // A whole session chain is exported as one conversation
+      const conversation = options?.chain
+        ? await scanner.getSessionChainConversation(id)
+        : await scanner.getConversation(id);
       if (!conversation)
         return { success: false, error: "Conversation not found" };
 
@@ -327,9 +679,12 @@ function setupIpcHandlers(): void {
 
       const sessionPrefix =
         conversation.sessionId?.slice(0, 8) || Date.now().toString();
+      const baseName = conversation.chain
+        ? "conversation-chain"
+        : "conversation";
       const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
         title: "Export Conversation",
-        defaultPath: `conversation-${sessionPrefix}.${extensions[format]}`,
+        defaultPath: `${baseName}-${sessionPrefix}.${extensions[format]}`,
         filters: [
           {
             name: format.charAt(0).toUpperCase() + format.slice(1),
@@ -340,13 +695,14 @@ function setupIpcHandlers(): void {
 
       if (canceled || !filePath) return { success: false, canceled: true };
 
+      const formatOptions = { thinking: options?.thinking };
       let content: string;
       if (format === "json") {
-        content = JSON.stringify(conversation, null, 2);
+        content = formatAsJson(conversation, formatOptions);
       } else if (format === "markdown") {
-        content = formatAsMarkdown(conversation);
+        content = formatAsMarkdown(conversation, formatOptions);
       } else {
-        content = formatAsText(conversation);
+        content = formatAsText(conversation, formatOptions);
       }
 
       try {
@@ -365,7 +721,13 @@ function setupIpcHandlers(): void {
   ipcMain.handle(
     "set-preferences",
     async (_event, prefs: Record<string, unknown>) => {
-      await savePreferences(prefs);
+      // Callers send only the keys they changed; keep everything else. Writes
+      // are queued so two quick updates can't each drop the other's keys.
+      const write = preferencesWrite.then(async () =>
+        savePreferences({ ...(await loadPreferences()), ...prefs }),
+      );
+      preferencesWrite = write.catch(() => {});
+      await write;
       return true;
     },
   );
@@ -465,10 +827,80 @@ function setupIpcHandlers(): void {
     },
   );
 
+  ipcMain.handle("get-usage-stats", async () => {
+    return indexer?.getUsageRows() ?? [];
+  });
+
+  ipcMain.handle("get-tool-stats", async () => {
+    return indexer?.getToolUsageRows() ?? [];
+  });
+
+  ipcMain.handle("get-file-hotspots", async () => {
+    return indexer?.getFileHotspots() ?? [];
+  });
+
+  ipcMain.handle(
+    "get-file-timeline",
+    async (
+      _event,
+      projectPath: string,
+      filePath: string,
+      offset: number = 0,
+    ): Promise<FileTimelinePage> => {
+      if (!indexer || !scanner) return { entries: [], total: 0, nextOffset: null };
+      const editors = indexer.getFileEditors(projectPath, filePath);
+      const page = editors.slice(offset, offset + FILE_TIMELINE_PAGE_SIZE);
+      // Each read stops at the last line a change to the file was recorded on
+      const entries: FileTimelineEntry[] = [];
+      for (const { locations, ...editor } of page) {
+        const edits = await scanner.getFileEdits(editor.id, filePath, locations);
+        if (edits.length > 0) entries.push({ ...editor, edits });
+      }
+      const end = offset + page.length;
+      return { entries, total: editors.length, nextOffset: end < editors.length ? end : null };
+    },
+  );
+
+  ipcMain.handle("get-session-usage", async () => {
+    return indexer?.getSessionUsage() ?? [];
+  });
+
+  ipcMain.handle(
+    "export-cache-report",
+    async (_event, since: string, pricing: ModelPrice[]) => {
+      if (!indexer || !mainWindow)
+        return { success: false, error: "Not initialized" };
+
+      const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: "Export Cache Report",
+        defaultPath: `cache-report-${toDayString(new Date())}.csv`,
+        filters: [{ name: "CSV", extensions: ["csv"] }],
+      });
+      if (canceled || !filePath) return { success: false, canceled: true };
+
+      const { profiles } = await loadProfilesConfig();
+      const labels = new Map(profiles.map((p) => [p.id, p.label]));
+      const report = buildCacheReport(
+        indexer.getSessionUsage(),
+        pricing,
+        since,
+        (account) => labels.get(account) ?? account,
+      );
+
+      try {
+        await writeFile(filePath, formatCacheReportCsv(report), "utf-8");
+        return { success: true, filePath };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    },
+  );
+
   ipcMain.handle("get-profiles-usage", async () => {
     const config = await loadProfilesConfig();
     const enabledProfiles = config.profiles.filter((p) => p.enabled);
     const indexerStats = indexer?.getStatsByAccount() ?? {};
+    const tokensThisMonth = getTokensThisMonth();
     const results = await Promise.all(
       enabledProfiles.map(async (p) => {
         const resolvedDir = p.configDir.replace(/^~/, homedir());
@@ -476,7 +908,12 @@ function setupIpcHandlers(): void {
         const extra = indexerStats[p.id] ?? { messages: 0, projects: 0 };
         return [
           p.id,
-          { ...usage, messages: extra.messages, projects: extra.projects },
+          {
+            ...usage,
+            tokensThisMonth: tokensThisMonth[p.id] ?? 0,
+            messages: extra.messages,
+            projects: extra.projects,
+          },
         ] as const;
       }),
     );
@@ -669,6 +1106,10 @@ app.on("window-all-closed", () => {
 });
 
 app.on("before-quit", () => {
+  watcher?.stop();
+  regexSearchRunner.cancel();
+  semanticIndex?.stop();
+  embeddingWorker.stop();
   for (const manager of ptyManagers.values()) {
     if (manager.isActive()) {
       manager.kill().catch(() => {});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { EMBEDDING_DIMENSIONS, cosineSimilarity } from './embedding'
+import { embedTexts } from './embedding-model'
+
+// Runs the bundled model, which takes a moment to load
+describe('embedTexts', { timeout: 30000 }, () => {
+  it('returns a unit vector of fixed size for each text', async () => {
+    const vectors = await embedTexts(['deploy the docker image', 'why is the build failing?'])
+    expect(vectors).toHaveLength(2)
+    for (const vector of vectors) {
+      expect(vector).toHaveLength(EMBEDDING_DIMENSIONS)
+      expect(cosineSimilarity(vector, vector)).toBeCloseTo(1)
+    }
+  })
+
+  it('places texts about the same thing in other words closer together', async () => {
+    const [query, related, unrelated] = await embedTexts([
+      'login is broken',
+      'users cannot sign in after the password reset',
+      'make the sidebar button blue'
+    ])
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated))
+  })
+
+  it('keeps texts in order across batches', async () => {
+    const texts = Array.from({ length: 40 }, (_, i) => `step ${i} of the migration`)
+    const vectors = await embedTexts(texts)
+    const [last] = await embedTexts([texts[39]])
+    expect(vectors).toHaveLength(40)
+    expect(cosineSimilarity(vectors[39], last)).toBeCloseTo(1)
+  })
+})
@@ -0,0 +1,45 @@
+import { initModel, type EmbeddingsModel } from '@energetic-ai/embeddings'
+import { modelSource } from '@energetic-ai/model-embeddings-en'
+
+/**
+ * Runs the embedding model (see embedding.ts). Only the embedding worker
+ * thread imports this, so TensorFlow.js is never loaded into the main process.
+ */
+
+// Texts per model run; every text in a run is padded to the longest one
+const BATCH_SIZE = 32
+
+let model: Promise<EmbeddingsModel> | null = null
+
+function loadModel(): Promise<EmbeddingsModel> {
+  model ??= initModel(modelSource).catch((err) => {
+    // Let the next call try again
+    model = null
+    throw err
+  })
+  return model
+}
+
+function toUnitVector(values: number[]): Float32Array {
+  const vector = Float32Array.from(values)
+  let norm = 0
+  for (const value of vector) norm += value * value
+  norm = Math.sqrt(norm)
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm
+  }
+  return vector
+}
+
+/**
+ * Embed texts into unit-length vectors, in order. The model is loaded on the
+ * first call, which takes a moment.
+ */
+export async function embedTexts(texts: string[]): Promise<Float32Array[]> {
+  const vectors: Float32Array[] = []
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const embeddings = await (await loadModel()).embed(texts.slice(i, i + BATCH_SIZE))
+    for (const values of embeddings) vectors.push(toUnitVector(values))
+  }
+  return vectors
+}
@@ -0,0 +1,63 @@
+import type { Worker } from 'worker_threads'
+import createEmbeddingWorker from './embedding.worker?nodeWorker'
+import type { EmbeddingResponse } from './embedding'
+
+interface PendingRequest {
+  resolve: (vectors: Float32Array[]) => void
+  reject: (err: Error) => void
+}
+
+/**
+ * Embeds texts in a worker thread, so running the model over every
+ * conversation in the background never blocks the main process. The thread
+ * starts with the first request, loading the model, and is started again
+ * after a crash.
+ */
+export class EmbeddingWorker {
+  private worker: Worker | null = null
+  private pending = new Map<number, PendingRequest>()
+  private nextRequestId = 1
+
+  // An arrow function, so it can be handed to SemanticIndex as it is
+  embed = (texts: string[]): Promise<Float32Array[]> => {
+    const worker = this.worker ?? this.start()
+    const id = this.nextRequestId++
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      worker.postMessage({ id, texts })
+    })
+  }
+
+  /** Terminate the thread; requests still running fail. */
+  stop(): void {
+    const worker = this.worker
+    if (!worker) return
+    this.worker = null
+    this.failPending(new Error('Embedding worker stopped'))
+    void worker.terminate()
+  }
+
+  private start(): Worker {
+    const worker = createEmbeddingWorker({})
+    // An idle thread must not keep the app from quitting
+    worker.unref()
+    worker.on('message', ({ id, vectors, error }: EmbeddingResponse) => {
+      const request = this.pending.get(id)
+      this.pending.delete(id)
+      if (vectors) request?.resolve(vectors)
+      else request?.reject(new Error(error ?? 'Embedding failed'))
+    })
+    worker.on('error', (err) => {
+      if (this.worker !== worker) return
+      this.worker = null
+      this.failPending(err)
+    })
+    this.worker = worker
+    return worker
+  }
+
+  private failPending(err: Error): void {
+    for (const request of this.pending.values()) request.reject(err)
+    this.pending.clear()
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Sentence embeddings from the Universal Sentence Encoder lite, a small
+ * English model whose weights (about 26 MB) ship with the app in
+ * `@energetic-ai/model-embeddings-en`. It runs on the CPU through the
+ * TensorFlow.js WebAssembly backend: no GPU, no network, no download. The
+ * model itself runs in the embedding worker thread, see embedding-model.ts.
+ */
+
+/**
+ * Identifies the vectors below. Vectors stored by a different version are
+ * thrown away and re-embedded, so bump it whenever the model changes.
+ */
+export const EMBEDDING_MODEL = 'universal-sentence-encoder-lite-v1'
+export const EMBEDDING_DIMENSIONS = 512
+
+// Sent to the embedding worker thread, which answers with the vectors of the texts in order
+export interface EmbeddingRequest {
+  id: number
+  texts: string[]
+}
+
+// `error` is set instead of `vectors` when the texts could not be embedded
+export interface EmbeddingResponse {
+  id: number
+  vectors?: Float32Array[]
+  error?: string
+}
+
+/** Cosine similarity of two vectors returned by `embedTexts()`, which are unit length. */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i]
+  return dot
+}
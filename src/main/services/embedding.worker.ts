@@ -0,0 +1,20 @@
+import { parentPort } from 'worker_threads'
+import { embedTexts } from './embedding-model'
+import type { EmbeddingRequest, EmbeddingResponse } from './embedding'
+
+// Entry point of the embedding worker thread, started by EmbeddingWorker.
+// Requests are answered in turn; the vectors' buffers are transferred rather than copied.
+let queue = Promise.resolve()
+
+parentPort?.on('message', ({ id, texts }: EmbeddingRequest) => {
+  queue = queue.then(async () => {
+    try {
+      const vectors = await embedTexts(texts)
+      const response: EmbeddingResponse = { id, vectors }
+      parentPort?.postMessage(response, vectors.map((vector) => vector.buffer as ArrayBuffer))
+    } catch (err) {
+      const response: EmbeddingResponse = { id, error: err instanceof Error ? err.message : String(err) }
+      parentPort?.postMessage(response)
+    }
+  })
+})
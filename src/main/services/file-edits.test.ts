@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { FileEditTally, countPatchLines, toFileEdit } from './file-edits'
+import { buildToolResultEntry, buildToolUseEntry } from '../../test/factories'
+import type { TranscriptEntry } from './transcript-tally'
+
+const patch = [{ oldStart: 1, oldLines: 2, newStart: 1, newLines: 3, lines: [' a', '-b', '+c', '+d'] }]
+
+// A tool result carrying the given change
+function toolResult(id: string, toolUseResult: unknown, overrides: TranscriptEntry = {}): TranscriptEntry {
+  return buildToolResultEntry(id, 'ok', { toolUseResult, ...overrides })
+}
+
+describe('countPatchLines', () => {
+  it('counts added and removed lines, not context', () => {
+    expect(countPatchLines(patch)).toEqual({ linesAdded: 2, linesRemoved: 1 })
+  })
+})
+
+describe('FileEditTally', () => {
+  it('sums edits and lines changed by file', () => {
+    const tally = new FileEditTally('s1')
+    tally.add(buildToolUseEntry('t1', 'Edit'), 1)
+    tally.add(toolResult('t1', { filePath: '/p/a.ts', oldString: 'b', newString: 'c\nd', structuredPatch: patch }), 2)
+    tally.add(buildToolUseEntry('t2', 'MultiEdit'), 3)
+    tally.add(toolResult('t2', { filePath: '/p/a.ts', edits: [], structuredPatch: patch }, { timestamp: '2025-03-02T09:00:00' }), 4)
+    tally.add(buildToolUseEntry('t3', 'Write'), 5)
+    tally.add(toolResult('t3', { type: 'create', filePath: '/p/b.ts', content: 'one\ntwo\nthree', structuredPatch: [] }), 6)
+    tally.add(toolResult('t4', { type: 'text', file: { filePath: '/p/c.ts' } }), 7)
+
+    expect(tally.entries()).toEqual([
+      {
+        filePath: '/p/a.ts',
+        edits: 2,
+        linesAdded: 4,
+        linesRemoved: 2,
+        lastEdited: '2025-03-02T09:00:00',
+        locations: [
+          { lineNumber: 2, tool: 'Edit' },
+          { lineNumber: 4, tool: 'MultiEdit' }
+        ]
+      },
+      {
+        filePath: '/p/b.ts',
+        edits: 1,
+        linesAdded: 3,
+        linesRemoved: 0,
+        lastEdited: '2025-03-01T10:00:00',
+        locations: [{ lineNumber: 6, tool: 'Write' }]
+      }
+    ])
+  })
+
+  it('moves the locations of sub-agent changes onto the line that reported them', () => {
+    const agent = new FileEditTally('a1')
+    agent.add(buildToolUseEntry('t1', 'Edit', { sessionId: 'a1' }), 1)
+    agent.add(toolResult('t1', { filePath: '/p/a.ts', structuredPatch: patch }, { sessionId: 'a1' }), 2)
+
+    const tally = new FileEditTally('s1')
+    tally.addEntries(agent.entries(), { agentId: 'agent-1', lineNumber: 9 })
+
+    expect(tally.entries()[0].locations).toEqual([{ lineNumber: 9, tool: 'Edit', agentId: 'agent-1', agentLine: 2 }])
+    expect(agent.entries()[0].locations).toEqual([{ lineNumber: 2, tool: 'Edit' }])
+  })
+
+  it('leaves changes copied from another session out', () => {
+    const tally = new FileEditTally('s1')
+    tally.add(toolResult('t1', { filePath: '/p/a.ts', oldString: 'b', structuredPatch: patch }, { sessionId: 's0' }), 1)
+
+    expect(tally.entries()).toEqual([])
+  })
+})
+
+describe('toFileEdit', () => {
+  it('reads the change at a recorded location with its tool and diff', () => {
+    const entry = toolResult('t1', { filePath: '/p/a.ts', structuredPatch: patch, userModified: true })
+
+    expect(toFileEdit(entry, { lineNumber: 9, tool: 'MultiEdit', agentId: 'agent-1', agentLine: 2 })).toEqual({
+      lineNumber: 9,
+      timestamp: '2025-03-01T10:00:00',
+      tool: 'MultiEdit',
+      agentId: 'agent-1',
+      linesAdded: 2,
+      linesRemoved: 1,
+      result: {
+        type: 'edit',
+        filePath: '/p/a.ts',
+        oldString: '',
+        newString: '',
+        structuredPatch: patch,
+        userModified: true,
+        replaceAll: false
+      }
+    })
+    expect(toFileEdit(toolResult('t2', { type: 'text' }), { lineNumber: 3, tool: 'Read' })).toBeNull()
+  })
+})
@@ -0,0 +1,142 @@
+import type { EditToolResult, FileEdit, FileEditLocation, FileEditStat, StructuredPatchHunk, WriteToolResult } from '../../shared/types'
+import { ToolNames, contentBlocks, isFromOtherSession, type TranscriptEntry, type TranscriptTally } from './transcript-tally'
+
+interface FileChange {
+  result: EditToolResult | WriteToolResult
+  linesAdded: number
+  linesRemoved: number
+}
+
+/** Lines a patch adds and removes. */
+export function countPatchLines(hunks: StructuredPatchHunk[]): { linesAdded: number; linesRemoved: number } {
+  let linesAdded = 0
+  let linesRemoved = 0
+  for (const hunk of hunks) {
+    for (const line of hunk.lines ?? []) {
+      if (line.startsWith('+')) linesAdded++
+      else if (line.startsWith('-')) linesRemoved++
+    }
+  }
+  return { linesAdded, linesRemoved }
+}
+
+/**
+ * The change a tool result records: a patch from Edit, MultiEdit or a Write
+ * over an existing file, or a file Write created. Null for results that
+ * changed nothing.
+ */
+function toFileChange(raw: unknown): FileChange | null {
+  if (!raw || typeof raw !== 'object') return null
+  const result = raw as Record<string, unknown>
+  if (typeof result.filePath !== 'string' || !result.filePath) return null
+
+  if (Array.isArray(result.structuredPatch) && result.structuredPatch.length > 0) {
+    const structuredPatch = result.structuredPatch as StructuredPatchHunk[]
+    return {
+      result: {
+        type: 'edit',
+        filePath: result.filePath,
+        oldString: typeof result.oldString === 'string' ? result.oldString : '',
+        newString: typeof result.newString === 'string' ? result.newString : '',
+        structuredPatch,
+        userModified: result.userModified === true,
+        replaceAll: result.replaceAll === true
+      },
+      ...countPatchLines(structuredPatch)
+    }
+  }
+
+  if (result.type === 'create') {
+    const content = typeof result.content === 'string' ? result.content : ''
+    return {
+      result: { type: 'write', filePath: result.filePath },
+      linesAdded: content ? content.split('\n').length : 0,
+      linesRemoved: 0
+    }
+  }
+
+  return null
+}
+
+/**
+ * The change recorded at a location found by `FileEditTally`, with its diff.
+ * Null when the entry holds no change.
+ */
+export function toFileEdit(entry: TranscriptEntry, location: FileEditLocation): FileEdit | null {
+  const change = toFileChange(entry.toolUseResult)
+  if (!change) return null
+  return {
+    lineNumber: location.lineNumber,
+    timestamp: entry.timestamp ?? '',
+    tool: location.tool,
+    ...(location.agentId !== undefined && { agentId: location.agentId }),
+    ...change
+  }
+}
+
+/** Sums the file changes of a transcript by file, with the line of each change. */
+export class FileEditTally implements TranscriptTally<FileEditStat> {
+  private stats = new Map<string, FileEditStat>()
+  private toolNames = new ToolNames()
+
+  constructor(private readonly sessionId?: string) {}
+
+  add(entry: TranscriptEntry, lineNumber: number): void {
+    if ((entry.type !== 'user' && entry.type !== 'assistant') || entry.isMeta) return
+    if (isFromOtherSession(entry, this.sessionId)) return
+    const blocks = contentBlocks(entry)
+
+    if (entry.type === 'assistant') {
+      this.toolNames.add(blocks)
+      return
+    }
+
+    const change = toFileChange(entry.toolUseResult)
+    if (!change) return
+    const toolUseId = blocks.find((block) => block.type === 'tool_result')?.tool_use_id
+    const tool = this.toolNames.get(toolUseId) ?? (change.result.type === 'write' ? 'Write' : 'Edit')
+
+    this.addEntries([
+      {
+        filePath: change.result.filePath,
+        edits: 1,
+        linesAdded: change.linesAdded,
+        linesRemoved: change.linesRemoved,
+        lastEdited: entry.timestamp ?? '',
+        locations: [{ lineNumber, tool }]
+      }
+    ])
+  }
+
+  /**
+   * Given the sub-agent that made the changes and the line of the Task result
+   * that reported it, their locations move onto that line.
+   */
+  addEntries(stats: FileEditStat[], spawnedBy?: { agentId: string; lineNumber: number }): void {
+    for (const stat of stats) {
+      const locations = spawnedBy
+        ? stat.locations.map(({ lineNumber, tool }) => ({
+            lineNumber: spawnedBy.lineNumber,
+            tool,
+            agentId: spawnedBy.agentId,
+            agentLine: lineNumber
+          }))
+        : stat.locations
+      const existing = this.stats.get(stat.filePath)
+      if (existing) {
+        existing.edits += stat.edits
+        existing.linesAdded += stat.linesAdded
+        existing.linesRemoved += stat.linesRemoved
+        if (stat.lastEdited > existing.lastEdited) existing.lastEdited = stat.lastEdited
+        existing.locations.push(...locations)
+      } else {
+        this.stats.set(stat.filePath, { ...stat, locations: [...locations] })
+      }
+    }
+  }
+
+  /** One entry per changed file, by path. */
+  entries(): FileEditStat[] {
+    return Array.from(this.stats.values()).sort((a, b) => a.filePath.localeCompare(b.filePath))
+  }
+}
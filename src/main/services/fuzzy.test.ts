@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { Vocabulary, editDistance, splitIdentifier, stem, tokenize } from './fuzzy'
+
+describe('splitIdentifier', () => {
+  it('splits camelCase, PascalCase and acronyms', () => {
+    expect(splitIdentifier('refreshToken')).toEqual(['refresh', 'Token'])
+    expect(splitIdentifier('HTTPServer2')).toEqual(['HTTP', 'Server', '2'])
+  })
+
+  it('leaves plain words whole', () => {
+    expect(splitIdentifier('docker')).toEqual(['docker'])
+  })
+})
+
+describe('stem', () => {
+  it('reduces inflections to a common stem', () => {
+    expect(new Set(['deploy', 'deploys', 'deployed', 'deploying'].map(stem))).toEqual(new Set(['deploy']))
+    expect(new Set(['cache', 'caches', 'cached', 'caching'].map(stem))).toEqual(new Set(['cach']))
+    expect(stem('running')).toBe(stem('runs'))
+    expect(stem('dependencies')).toBe('dependency')
+  })
+
+  it('leaves short words and double-s endings alone', () => {
+    expect(stem('bus')).toBe('bus')
+    expect(stem('class')).toBe('class')
+  })
+})
+
+describe('tokenize', () => {
+  it('stems words, splits identifiers and drops stop words', () => {
+    expect(tokenize('The refreshToken is failing')).toEqual(['refresh', 'token', 'fail'])
+  })
+})
+
+describe('editDistance', () => {
+  it('counts an adjacent transposition as one edit', () => {
+    expect(editDistance('dokcer', 'docker', 2)).toBe(1)
+  })
+
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('kubernets', 'kubernetes', 2)).toBe(1)
+    expect(editDistance('postgress', 'postgres', 2)).toBe(1)
+    expect(editDistance('webpak', 'webpack', 2)).toBe(1)
+    expect(editDistance('same', 'same', 2)).toBe(0)
+  })
+
+  it('stops at the limit', () => {
+    expect(editDistance('docker', 'kubernetes', 2)).toBe(3)
+    expect(editDistance('abcdef', 'ghijkl', 1)).toBe(2)
+  })
+})
+
+describe('Vocabulary', () => {
+  it('expands a typo to the indexed word', () => {
+    const vocabulary = new Vocabulary()
+    vocabulary.add('c1', 'restart the docker daemon')
+    expect(vocabulary.expand('dokcer')).toEqual(['docker'])
+  })
+
+  it('expands to other inflections of the word', () => {
+    const vocabulary = new Vocabulary()
+    vocabulary.add('c1', 'Deployed to staging, then deploying to prod')
+    expect(vocabulary.expand('deploy').sort()).toEqual(['deployed', 'deploying'])
+  })
+
+  it('expands an identifier part to the identifiers containing it', () => {
+    const vocabulary = new Vocabulary()
+    vocabulary.add('c1', 'call refreshToken() before getAccessToken()')
+    expect(vocabulary.expand('token').sort()).toEqual(['getaccesstoken', 'refreshtoken'])
+  })
+
+  it('does not allow typos in short words', () => {
+    const vocabulary = new Vocabulary()
+    vocabulary.add('c1', 'big bus dug')
+    expect(vocabulary.expand('bug')).toEqual([])
+  })
+
+  it('ranks closer words first', () => {
+    const vocabulary = new Vocabulary()
+    vocabulary.add('c1', 'postgres postgresql')
+    expect(vocabulary.expand('postgrse')[0]).toBe('postgres')
+  })
+
+  it('ignores words too long to be typed', () => {
+    const vocabulary = new Vocabulary()
+    vocabulary.add('c1', `sha ${'a1'.repeat(30)} end`)
+    expect(vocabulary.size).toBe(2)
+  })
+
+  it('forgets the words of a removed conversation that no other one uses', () => {
+    const vocabulary = new Vocabulary()
+    vocabulary.add('c1', 'restart the docker daemon, then refreshToken')
+    vocabulary.add('c2', 'docker compose')
+    vocabulary.add('c2', 'docker again')
+
+    vocabulary.remove('c1')
+
+    expect(vocabulary.expand('dokcer')).toEqual(['docker'])
+    expect(vocabulary.expand('deamon')).toEqual([])
+    expect(vocabulary.expand('token')).toEqual([])
+    vocabulary.remove('c2')
+    expect(vocabulary.size).toBe(0)
+  })
+
+  it('survives a JSON round trip', () => {
+    const vocabulary = new Vocabulary()
+    vocabulary.add('c1', 'refreshToken caching')
+    vocabulary.add('c2', 'caching')
+    const restored = Vocabulary.fromJSON(vocabulary.toJSON())
+    expect(restored.expand('token')).toEqual(['refreshtoken'])
+    expect(restored.expand('cache')).toEqual(['caching'])
+
+    restored.remove('c1')
+    expect(restored.expand('token')).toEqual([])
+    expect(restored.expand('cache')).toEqual(['caching'])
+  })
+})
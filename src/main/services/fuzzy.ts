@@ -0,0 +1,267 @@
+// Words longer than this are hashes, base64 or minified code, not something anyone types
+const MAX_WORD_LENGTH = 40
+// Closest vocabulary words a fuzzy term expands to
+const MAX_EXPANSIONS = 20
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'had', 'has',
+  'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so',
+  'that', 'the', 'then', 'there', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'why', 'will',
+  'with', 'you', 'your'
+])
+
+/**
+ * Typos allowed for a query term of this length. Short words get none: with
+ * one edit, "bug" would also match "big", "bus", "dug" and "mug".
+ */
+function maxEditsFor(length: number): number {
+  if (length < 4) return 0
+  if (length < 8) return 1
+  return 2
+}
+
+/**
+ * Split an identifier into its words: `refreshToken` → refresh, Token;
+ * `HTTPServer2` → HTTP, Server, 2. snake_case and kebab-case never reach this
+ * point, since the tokenizer already splits on punctuation.
+ */
+export function splitIdentifier(word: string): string[] {
+  return word.match(/\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{N}+/gu) ?? [word]
+}
+
+/**
+ * A deliberately small English stemmer, enough to treat "deploying",
+ * "deployed" and "deploys" — or "cache", "caching" and "caches" — as one word.
+ */
+export function stem(word: string): string {
+  let w = word.toLowerCase()
+  if (w.length < 4) return w
+
+  if (w.endsWith('ies')) return w.slice(0, -3) + 'y'
+  if (w.endsWith('ing') && w.length > 5) w = w.slice(0, -3)
+  else if (w.endsWith('ed') && w.length > 4) w = w.slice(0, -2)
+  else if (/(s|x|z|ch|sh)es$/.test(w)) w = w.slice(0, -2)
+  else if (w.endsWith('s') && !w.endsWith('ss')) w = w.slice(0, -1)
+
+  // "running" → "runn" → "run"; "caching" / "cache" → "cach"
+  if (/([^aeiouls])\1$/.test(w)) w = w.slice(0, -1)
+  else if (w.endsWith('e') && w.length > 3) w = w.slice(0, -1)
+  return w
+}
+
+/** The stemmed, lower-cased content words of a text. */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const word of text.match(/[\p{L}\p{N}]+/gu) ?? []) {
+    for (const part of splitIdentifier(word)) {
+      const lower = part.toLowerCase()
+      if (lower.length < 2 || STOP_WORDS.has(lower)) continue
+      tokens.push(stem(lower))
+    }
+  }
+  return tokens
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions, so "dokcer" is one edit from "docker"). Gives up and
+ * returns `max + 1` as soon as the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previousRow: number[] = []
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow
+    previousRow = row
+    row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1)
+      }
+      row[j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+  }
+  return row[b.length]
+}
+
+interface SerializedVocabulary {
+  words: string[]
+  // Conversation id -> indexes into words
+  owners: Array<[string, number[]]>
+  // Index into words -> the parts of that identifier
+  parts: Array<[number, string[]]>
+}
+
+// Lowercased parts of an identifier worth matching on their own; none for a plain word
+function identifierParts(token: string): string[] {
+  const parts = splitIdentifier(token)
+  if (parts.length < 2) return []
+  return parts.filter((part) => part.length >= 3).map((part) => part.toLowerCase())
+}
+
+/**
+ * Every word the search index has seen, for fuzzy search. FlexSearch only
+ * matches whole words and their prefixes, so a fuzzy term is first expanded
+ * to the indexed words it most likely meant — typos, other inflections, and
+ * identifiers it is part of — and those are searched instead.
+ *
+ * Words are counted per conversation and dropped with the last conversation
+ * using them. They are kept by length, so a term is only compared with words
+ * close enough in length to be within its allowed typos.
+ */
+export class Vocabulary {
+  // Lowercased word -> number of conversations using it
+  private words: Map<string, number> = new Map()
+  // Conversation id -> the words it added
+  private owners: Map<string, Set<string>> = new Map()
+  private wordsByLength: Map<number, Set<string>> = new Map()
+  private stems: Map<string, Set<string>> = new Map()
+  // Lowercased identifier part -> identifiers containing it, e.g. "token" -> "refreshtoken"
+  private parts: Map<string, Set<string>> = new Map()
+  private partsByLength: Map<number, Set<string>> = new Map()
+  // Identifier -> its parts, to take it out of `parts` again
+  private partsOf: Map<string, string[]> = new Map()
+
+  get size(): number {
+    return this.words.size
+  }
+
+  /** Add the words of a text used by a conversation. */
+  add(owner: string, text: string): void {
+    if (!text) return
+    let owned = this.owners.get(owner)
+    for (const token of text.split(/[^\p{L}\p{N}]+/u)) {
+      if (token.length < 2 || token.length > MAX_WORD_LENGTH) continue
+
+      const word = token.toLowerCase()
+      if (!owned) {
+        owned = new Set()
+        this.owners.set(owner, owned)
+      }
+      if (owned.has(word)) continue
+      owned.add(word)
+
+      const count = this.words.get(word)
+      this.words.set(word, (count ?? 0) + 1)
+      if (count === undefined) this.insert(word, identifierParts(token))
+    }
+  }
+
+  /** Forget the words of a conversation that no other conversation uses. */
+  remove(owner: string): void {
+    const owned = this.owners.get(owner)
+    if (!owned) return
+    this.owners.delete(owner)
+    for (const word of owned) {
+      const count = (this.words.get(word) ?? 1) - 1
+      if (count > 0) this.words.set(word, count)
+      else this.delete(word)
+    }
+  }
+
+  private insert(word: string, parts: string[]): void {
+    addToSet(this.wordsByLength, word.length, word)
+    addToSet(this.stems, stem(word), word)
+    if (parts.length === 0) return
+    this.partsOf.set(word, parts)
+    for (const part of parts) {
+      addToSet(this.partsByLength, part.length, part)
+      addToSet(this.parts, part, word)
+    }
+  }
+
+  private delete(word: string): void {
+    this.words.delete(word)
+    deleteFromSet(this.wordsByLength, word.length, word)
+    deleteFromSet(this.stems, stem(word), word)
+    for (const part of this.partsOf.get(word) ?? []) {
+      deleteFromSet(this.parts, part, word)
+      if (!this.parts.has(part)) deleteFromSet(this.partsByLength, part.length, part)
+    }
+    this.partsOf.delete(word)
+  }
+
+  /**
+   * Indexed words that approximately match `term`, closest first: the same
+   * stem, then identifiers containing the term, then words within a few typos.
+   * The term itself is not included — it is searched exactly anyway.
+   */
+  expand(term: string): string[] {
+    const query = term.toLowerCase()
+    const maxEdits = maxEditsFor(query.length)
+    const distances = new Map<string, number>()
+    const consider = (word: string, distance: number): void => {
+      if (word === query) return
+      const previous = distances.get(word)
+      if (previous === undefined || distance < previous) distances.set(word, distance)
+    }
+
+    for (const word of this.stems.get(stem(query)) ?? []) consider(word, 0)
+
+    for (let length = query.length - maxEdits; length <= query.length + maxEdits; length++) {
+      for (const part of this.partsByLength.get(length) ?? []) {
+        const distance = part === query ? 0 : editDistance(query, part, maxEdits)
+        if (distance > maxEdits) continue
+        // Slightly behind whole words at the same distance
+        for (const word of this.parts.get(part) ?? []) consider(word, distance + 0.5)
+      }
+
+      if (maxEdits === 0) continue
+      for (const word of this.wordsByLength.get(length) ?? []) {
+        const distance = editDistance(query, word, maxEdits)
+        if (distance <= maxEdits) consider(word, distance)
+      }
+    }
+
+    return Array.from(distances)
+      .sort(([wordA, a], [wordB, b]) => a - b || (this.words.get(wordB) ?? 0) - (this.words.get(wordA) ?? 0))
+      .slice(0, MAX_EXPANSIONS)
+      .map(([word]) => word)
+  }
+
+  toJSON(): string {
+    const words = Array.from(this.words.keys())
+    const indexes = new Map(words.map((word, i) => [word, i]))
+    const serialized: SerializedVocabulary = {
+      words,
+      owners: Array.from(this.owners, ([owner, owned]) => [owner, Array.from(owned, (word) => indexes.get(word)!)]),
+      parts: Array.from(this.partsOf, ([word, parts]) => [indexes.get(word)!, parts])
+    }
+    return JSON.stringify(serialized)
+  }
+
+  static fromJSON(json: string): Vocabulary {
+    const vocabulary = new Vocabulary()
+    const { words, owners, parts } = JSON.parse(json) as SerializedVocabulary
+    const partsOf = new Map(parts)
+    for (const [owner, indexes] of owners) {
+      const owned = new Set(indexes.map((i) => words[i]))
+      vocabulary.owners.set(owner, owned)
+      for (const word of owned) vocabulary.words.set(word, (vocabulary.words.get(word) ?? 0) + 1)
+    }
+    words.forEach((word, i) => {
+      if (vocabulary.words.has(word)) vocabulary.insert(word, partsOf.get(i) ?? [])
+    })
+    return vocabulary
+  }
+}
+
+function addToSet<K>(map: Map<K, Set<string>>, key: K, value: string): void {
+  const set = map.get(key)
+  if (set) set.add(value)
+  else map.set(key, new Set([value]))
+}
+
+function deleteFromSet<K>(map: Map<K, Set<string>>, key: K, value: string): void {
+  const set = map.get(key)
+  if (!set) return
+  set.delete(value)
+  if (set.size === 0) map.delete(key)
+}
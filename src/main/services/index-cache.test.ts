@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile, readFile, access } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { IndexCache, INDEX_CACHE_VERSION, diffCachedMetas } from './index-cache'
+import { buildConversationMeta, resetFactoryCounter } from '../../test/factories'
+import type { CachedFileEntry } from '../../shared/types'
+
+let tempDirs: string[] = []
+
+afterEach(async () => {
+  for (const dir of tempDirs) {
+    await rm(dir, { recursive: true, force: true }).catch(() => {})
+  }
+  tempDirs = []
+  resetFactoryCounter()
+})
+
+async function cachePath(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'index-cache-test-'))
+  tempDirs.push(dir)
+  return join(dir, 'nested', 'index-cache.json')
+}
+
+describe('IndexCache', () => {
+  it('round-trips file entries and the serialized index', async () => {
+    const path = await cachePath()
+    const cache = new IndexCache(path)
+    const meta = buildConversationMeta({ id: '/a.jsonl', filePath: '/a.jsonl' })
+    const files = new Map<string, CachedFileEntry>([
+      ['/a.jsonl', { size: 10, mtimeMs: 1000, meta }],
+      ['/empty.jsonl', { size: 3, mtimeMs: 2000, meta: null }],
+    ])
+
+    await cache.save(files, { reg: '{"a":1}' })
+    const loaded = await cache.load()
+
+    expect(loaded).not.toBeNull()
+    expect(loaded!.files.get('/a.jsonl')).toEqual({ size: 10, mtimeMs: 1000, meta })
+    expect(loaded!.files.get('/empty.jsonl')!.meta).toBeNull()
+    expect(loaded!.index).toEqual({ reg: '{"a":1}' })
+  })
+
+  it('does not leave the temp file behind after saving', async () => {
+    const path = await cachePath()
+    await new IndexCache(path).save(new Map(), {})
+    await expect(access(`${path}.tmp`)).rejects.toThrow()
+  })
+
+  it('returns null when the cache file does not exist', async () => {
+    const cache = new IndexCache(await cachePath())
+    expect(await cache.load()).toBeNull()
+  })
+
+  it('returns null for a corrupt cache file', async () => {
+    const path = await cachePath()
+    const cache = new IndexCache(path)
+    await cache.save(new Map(), {})
+    await writeFile(path, '{not json', 'utf-8')
+    expect(await cache.load()).toBeNull()
+  })
+
+  it('discards a cache written with a different schema version', async () => {
+    const path = await cachePath()
+    const cache = new IndexCache(path)
+    await cache.save(new Map(), {})
+
+    const raw = JSON.parse(await readFile(path, 'utf-8'))
+    expect(raw.version).toBe(INDEX_CACHE_VERSION)
+    raw.version = INDEX_CACHE_VERSION + 1
+    await writeFile(path, JSON.stringify(raw), 'utf-8')
+
+    expect(await cache.load()).toBeNull()
+  })
+
+  it('clear removes the cache file and tolerates a missing one', async () => {
+    const path = await cachePath()
+    const cache = new IndexCache(path)
+    await cache.save(new Map(), {})
+    await cache.clear()
+    expect(await cache.load()).toBeNull()
+    await expect(cache.clear()).resolves.toBeUndefined()
+  })
+})
+
+describe('diffCachedMetas', () => {
+  it('classifies reused, re-parsed, new and vanished conversations', () => {
+    const reused = buildConversationMeta({ id: 'reused' })
+    const stale = buildConversationMeta({ id: 'stale' })
+    const gone = buildConversationMeta({ id: 'gone' })
+    const files = new Map<string, CachedFileEntry>([
+      ['reused', { size: 1, mtimeMs: 1, meta: reused }],
+      ['stale', { size: 1, mtimeMs: 1, meta: stale }],
+      ['gone', { size: 1, mtimeMs: 1, meta: gone }],
+      ['no-messages', { size: 1, mtimeMs: 1, meta: null }],
+    ])
+
+    const reparsed = { ...stale, messageCount: 99 }
+    const added = buildConversationMeta({ id: 'added' })
+
+    const changes = diffCachedMetas(files, [reused, reparsed, added])
+
+    expect(changes.added).toEqual([added])
+    expect(changes.updated).toEqual([reparsed])
+    expect(changes.removed).toEqual(['gone'])
+  })
+})
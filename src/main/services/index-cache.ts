@@ -0,0 +1,88 @@
+import { readFile, writeFile, mkdir, rename, rm } from 'fs/promises'
+import { dirname } from 'path'
+import type { CachedFileEntry, ConversationChanges, ConversationMeta } from '../../shared/types'
+
+// Bump whenever ConversationMeta or the FlexSearch document layout changes;
+// a cache written with a different version is discarded on load.
+export const INDEX_CACHE_VERSION = 15
+
+interface IndexCacheFile {
+  version: number
+  files: Record<string, CachedFileEntry>
+  index: Record<string, string>
+}
+
+export interface IndexCacheSnapshot {
+  files: Map<string, CachedFileEntry>
+  index: Record<string, string>
+}
+
+/**
+ * Persists scanned conversation metadata (keyed by file path, size and mtime)
+ * together with the serialized search index, so a warm start only re-parses
+ * files that changed since the last run.
+ */
+export class IndexCache {
+  constructor(private cachePath: string) {}
+
+  async load(): Promise<IndexCacheSnapshot | null> {
+    try {
+      const data = await readFile(this.cachePath, 'utf-8')
+      const parsed = JSON.parse(data) as IndexCacheFile
+      if (parsed.version !== INDEX_CACHE_VERSION || !parsed.files || !parsed.index) {
+        return null
+      }
+      return { files: new Map(Object.entries(parsed.files)), index: parsed.index }
+    } catch {
+      // Missing or corrupt cache — fall back to a cold scan
+      return null
+    }
+  }
+
+  async save(files: Map<string, CachedFileEntry>, index: Record<string, string>): Promise<void> {
+    const payload: IndexCacheFile = {
+      version: INDEX_CACHE_VERSION,
+      files: Object.fromEntries(files),
+      index
+    }
+    await mkdir(dirname(this.cachePath), { recursive: true })
+    // Write to a temp file first so a crash mid-write never leaves a truncated cache
+    const tmpPath = `${this.cachePath}.tmp`
+    await writeFile(tmpPath, JSON.stringify(payload), 'utf-8')
+    await rename(tmpPath, this.cachePath)
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.cachePath, { force: true })
+  }
+}
+
+/**
+ * Compare the conversations stored in the cache with a fresh scan. Metas
+ * reused from the cache are the same objects, so anything that is not
+ * identical was re-parsed.
+ */
+export function diffCachedMetas(
+  files: Map<string, CachedFileEntry>,
+  current: ConversationMeta[]
+): ConversationChanges {
+  const previous = new Map<string, ConversationMeta>()
+  for (const entry of files.values()) {
+    if (entry.meta) previous.set(entry.meta.id, entry.meta)
+  }
+
+  const changes: ConversationChanges = { added: [], updated: [], removed: [] }
+  const currentIds = new Set<string>()
+
+  for (const meta of current) {
+    currentIds.add(meta.id)
+    const before = previous.get(meta.id)
+    if (!before) changes.added.push(meta)
+    else if (before !== meta) changes.updated.push(meta)
+  }
+  for (const id of previous.keys()) {
+    if (!currentIds.has(id)) changes.removed.push(id)
+  }
+
+  return changes
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { SearchIndexer } from './indexer'
 import { buildConversationMeta, resetFactoryCounter } from '../../test/factories'
+import type { IndexedToolCall } from '../../shared/types'
 
 describe('SearchIndexer', () => {
   let indexer: SearchIndexer
@@ -40,6 +41,522 @@ describe('SearchIndexer', () => {
     })
   })
 
+  // ─── incremental updates ────────────────────────────────────────
+
+  describe('incremental updates', () => {
+    it('upsertDocument adds a new conversation to the index', async () => {
+      await indexer.buildIndex([buildConversationMeta({ contentSnippet: 'existing' })])
+
+      indexer.upsertDocument(buildConversationMeta({ id: 'new', contentSnippet: 'freshly created session' }))
+
+      expect(indexer.getDocumentCount()).toBe(2)
+      expect(indexer.search('freshly').map((r) => r.id)).toEqual(['new'])
+    })
+
+    it('upsertDocument replaces the indexed content of an existing conversation', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'old words' })])
+
+      indexer.upsertDocument(buildConversationMeta({ id: 'c1', contentSnippet: 'brand new words', messageCount: 9 }))
+
+      expect(indexer.getDocumentCount()).toBe(1)
+      expect(indexer.search('old')).toHaveLength(0)
+      const results = indexer.search('brand')
+      expect(results).toHaveLength(1)
+      expect(results[0].messageCount).toBe(9)
+    })
+
+    it('removeDocument drops the conversation from search results', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'c1', contentSnippet: 'shared term' }),
+        buildConversationMeta({ id: 'c2', contentSnippet: 'shared term' }),
+      ])
+
+      indexer.removeDocument('c1')
+
+      expect(indexer.getDocumentCount()).toBe(1)
+      expect(indexer.search('shared').map((r) => r.id)).toEqual(['c2'])
+      expect(indexer.search('').map((r) => r.id)).toEqual(['c2'])
+    })
+
+    it('removeDocument ignores unknown ids', async () => {
+      await indexer.buildIndex([buildConversationMeta()])
+      indexer.removeDocument('missing')
+      expect(indexer.getDocumentCount()).toBe(1)
+    })
+
+    it('applyChanges applies removals, additions and updates together', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'keep', contentSnippet: 'alpha' }),
+        buildConversationMeta({ id: 'gone', contentSnippet: 'alpha' }),
+      ])
+
+      indexer.applyChanges({
+        added: [buildConversationMeta({ id: 'added', contentSnippet: 'alpha' })],
+        updated: [buildConversationMeta({ id: 'keep', contentSnippet: 'beta' })],
+        removed: ['gone'],
+      })
+
+      expect(indexer.search('alpha').map((r) => r.id)).toEqual(['added'])
+      expect(indexer.search('beta').map((r) => r.id)).toEqual(['keep'])
+    })
+
+    it('buildIndex drops documents that are no longer present', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'stale' })])
+      await indexer.buildIndex([buildConversationMeta({ id: 'c2', contentSnippet: 'fresh' })])
+
+      expect(indexer.search('stale')).toHaveLength(0)
+    })
+  })
+
+  // ─── exportIndex / importIndex ──────────────────────────────────
+
+  describe('exportIndex / importIndex', () => {
+    it('restores a searchable index from an export', async () => {
+      const metas = [
+        buildConversationMeta({ id: 'c1', contentSnippet: 'kubernetes deployment' }),
+        buildConversationMeta({ id: 'c2', contentSnippet: 'react hooks' }),
+      ]
+      await indexer.buildIndex(metas)
+      const exported = await indexer.exportIndex()
+
+      const restored = new SearchIndexer()
+      restored.importIndex(exported, metas)
+
+      expect(restored.getDocumentCount()).toBe(2)
+      expect(restored.search('kubernetes').map((r) => r.id)).toEqual(['c1'])
+      expect(restored.search('').map((r) => r.id).sort()).toEqual(['c1', 'c2'])
+    })
+
+    it('supports incremental changes after an import', async () => {
+      const metas = [buildConversationMeta({ id: 'c1', contentSnippet: 'alpha' })]
+      await indexer.buildIndex(metas)
+      const exported = await indexer.exportIndex()
+
+      const restored = new SearchIndexer()
+      restored.importIndex(exported, metas)
+      restored.applyChanges({
+        added: [buildConversationMeta({ id: 'c2', contentSnippet: 'alpha' })],
+        updated: [],
+        removed: ['c1'],
+      })
+
+      expect(restored.search('alpha').map((r) => r.id)).toEqual(['c2'])
+    })
+
+    it('keeps the word pairs that quoted phrases are matched by', async () => {
+      const metas = [buildConversationMeta({ id: 'c1', contentSnippet: 'x' })]
+      await indexer.buildIndex(metas)
+      indexer.addMessage({ conversationId: 'c1', lineNumber: 2, role: 'user', content: 'the token refresh fails' })
+      const exported = await indexer.exportIndex()
+
+      const restored = new SearchIndexer()
+      restored.importIndex(exported, metas)
+
+      expect(restored.search('"token refresh"').map((r) => r.id)).toEqual(['c1'])
+      expect(restored.search('"refresh token"')).toHaveLength(0)
+      // The text itself is not kept
+      expect(JSON.stringify(exported)).not.toContain('the token refresh fails')
+    })
+
+    it('keeps the lines of tool calls, so a call is neither added twice nor left behind', async () => {
+      const metas = [buildConversationMeta({ id: 'c1', contentSnippet: 'x' })]
+      await indexer.buildIndex(metas)
+      indexer.addToolCall({ conversationId: 'c1', lineNumber: 3, toolName: 'Bash', command: 'terraform apply' })
+      const exported = await indexer.exportIndex()
+
+      const restored = new SearchIndexer()
+      restored.importIndex(exported, metas)
+      restored.addToolCall({ conversationId: 'c1', lineNumber: 3, toolName: 'Bash', command: 'kubectl rollout' })
+
+      expect(restored.search('kubectl')).toHaveLength(0)
+      expect(restored.search('terraform').map((r) => r.id)).toEqual(['c1'])
+      restored.applyChanges({ added: [], updated: [], removed: ['c1'] })
+      expect(restored.search('terraform')).toHaveLength(0)
+    })
+  })
+
+  // ─── full-content message index ─────────────────────────────────
+
+  describe('message index', () => {
+    function indexMessages(id: string, messages: Array<[number, string]>): void {
+      indexer.beginConversation(id)
+      for (const [lineNumber, content] of messages) {
+        indexer.addMessage({ conversationId: id, lineNumber, role: 'user', content })
+      }
+    }
+
+    it('finds text that is not part of the content snippet', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'short intro' })])
+      indexMessages('c1', [[1, 'short intro'], [42, 'the flaky websocket reconnect bug']])
+
+      const results = indexer.search('websocket')
+
+      expect(results.map((r) => r.id)).toEqual(['c1'])
+      expect(results[0].matchedMessage).toEqual({ lineNumber: 42 })
+    })
+
+    it('ranks conversation field hits ahead of message-only hits', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'body', contentSnippet: 'unrelated' }),
+        buildConversationMeta({ id: 'snippet', contentSnippet: 'terraform plan' }),
+      ])
+      indexMessages('body', [[3, 'ran terraform apply']])
+
+      expect(indexer.search('terraform').map((r) => r.id)).toEqual(['snippet', 'body'])
+    })
+
+    it('beginConversation replaces previously indexed messages', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'x' })])
+      indexMessages('c1', [[5, 'obsolete wording']])
+      indexMessages('c1', [[5, 'rewritten wording']])
+
+      expect(indexer.search('obsolete')).toHaveLength(0)
+      expect(indexer.search('rewritten').map((r) => r.id)).toEqual(['c1'])
+    })
+
+    it('removeDocument drops the conversation messages too', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'x' })])
+      indexMessages('c1', [[2, 'needle in the body']])
+
+      indexer.removeDocument('c1')
+
+      expect(indexer.search('needle')).toHaveLength(0)
+    })
+
+    it('ignores message hits for conversations that are not indexed', async () => {
+      await indexer.buildIndex([])
+      indexMessages('orphan', [[1, 'stray message']])
+
+      expect(indexer.search('stray')).toHaveLength(0)
+    })
+
+    it('survives an export / import round trip', async () => {
+      const metas = [buildConversationMeta({ id: 'c1', contentSnippet: 'x' })]
+      await indexer.buildIndex(metas)
+      indexMessages('c1', [[7, 'persisted message body']])
+      const exported = await indexer.exportIndex()
+
+      const restored = new SearchIndexer()
+      restored.importIndex(exported, metas)
+
+      const results = restored.search('persisted')
+      expect(results.map((r) => r.id)).toEqual(['c1'])
+      expect(results[0].matchedMessage).toEqual({ lineNumber: 7 })
+
+      restored.removeDocument('c1')
+      expect(restored.search('persisted')).toHaveLength(0)
+    })
+  })
+
+  // ─── thinking ───────────────────────────────────────────────────
+
+  describe('thinking', () => {
+    beforeEach(async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'x' })])
+      indexer.beginConversation('c1')
+      indexer.addMessage({ conversationId: 'c1', lineNumber: 4, role: 'assistant', content: 'The answer' })
+      indexer.addMessage({ conversationId: 'c1', lineNumber: 4, role: 'assistant', content: 'suspect the memoization', thinking: true })
+    })
+
+    it('is searched only when asked for', () => {
+      expect(indexer.search('memoization')).toHaveLength(0)
+
+      const results = indexer.search('memoization', 50, undefined, false, 'all', true)
+      expect(results.map((r) => r.id)).toEqual(['c1'])
+      expect(results[0].matchedMessage).toEqual({ lineNumber: 4 })
+    })
+
+    it('is dropped with the conversation', () => {
+      indexer.beginConversation('c1')
+
+      expect(indexer.searchPage('memoization', { thinking: true }).total).toBe(0)
+    })
+  })
+
+  // ─── tool call index ────────────────────────────────────────────
+
+  describe('tool call index', () => {
+    function indexToolCalls(id: string, calls: Array<Omit<IndexedToolCall, 'conversationId'>>): void {
+      indexer.beginConversation(id)
+      for (const call of calls) indexer.addToolCall({ conversationId: id, ...call })
+    }
+
+    it('finds the conversations that touched a file', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'edited', contentSnippet: 'fix login' }),
+        buildConversationMeta({ id: 'other', contentSnippet: 'unrelated' }),
+      ])
+      indexToolCalls('edited', [{ lineNumber: 9, toolName: 'Edit', filePath: '/repo/src/auth.ts' }])
+      indexToolCalls('other', [{ lineNumber: 4, toolName: 'Read', filePath: '/repo/src/db.ts' }])
+
+      const results = indexer.search('auth.ts')
+
+      expect(results.map((r) => r.id)).toEqual(['edited'])
+      expect(results[0].matchedTool).toEqual({
+        lineNumber: 9,
+        toolName: 'Edit',
+        field: 'filePath',
+        summary: '/repo/src/auth.ts',
+      })
+    })
+
+    it('matches commands, patterns and command output', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'x' })])
+      indexToolCalls('c1', [
+        { lineNumber: 3, toolName: 'Bash', command: 'pnpm test', output: 'FAIL src/session.test.ts' },
+        { lineNumber: 5, toolName: 'Grep', pattern: 'refreshToken' },
+      ])
+
+      expect(indexer.search('"pnpm test"')[0].matchedTool).toMatchObject({ lineNumber: 3, field: 'command' })
+      expect(indexer.search('refreshToken')[0].matchedTool).toMatchObject({ lineNumber: 5, field: 'pattern' })
+      expect(indexer.search('FAIL')[0].matchedTool).toMatchObject({
+        lineNumber: 3,
+        field: 'output',
+        summary: 'pnpm test',
+      })
+    })
+
+    it('counts tool calls as assistant activity for from:', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'x' })])
+      indexToolCalls('c1', [{ lineNumber: 3, toolName: 'Bash', command: 'docker compose up' }])
+
+      expect(indexer.search('docker from:assistant').map((r) => r.id)).toEqual(['c1'])
+      expect(indexer.search('docker from:user')).toHaveLength(0)
+    })
+
+    it('beginConversation and removeDocument drop indexed tool calls', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'x' })])
+      indexToolCalls('c1', [{ lineNumber: 2, toolName: 'Read', filePath: '/repo/old.ts' }])
+      indexToolCalls('c1', [{ lineNumber: 2, toolName: 'Read', filePath: '/repo/new.ts' }])
+
+      expect(indexer.search('old.ts')).toHaveLength(0)
+      expect(indexer.search('new.ts').map((r) => r.id)).toEqual(['c1'])
+
+      indexer.removeDocument('c1')
+      expect(indexer.search('new.ts')).toHaveLength(0)
+    })
+
+    it('survives an export / import round trip', async () => {
+      const metas = [buildConversationMeta({ id: 'c1', contentSnippet: 'x' })]
+      await indexer.buildIndex(metas)
+      indexToolCalls('c1', [{ lineNumber: 6, toolName: 'Write', filePath: '/repo/migrations/001.sql' }])
+      const exported = await indexer.exportIndex()
+
+      const restored = new SearchIndexer()
+      restored.importIndex(exported, metas)
+
+      const results = restored.search('migrations')
+      expect(results[0].matchedTool).toEqual({
+        lineNumber: 6,
+        toolName: 'Write',
+        field: 'filePath',
+        summary: '/repo/migrations/001.sql',
+      })
+
+      restored.removeDocument('c1')
+      expect(restored.search('migrations')).toHaveLength(0)
+    })
+  })
+
+  // ─── fuzzy search ───────────────────────────────────────────────
+
+  describe('fuzzy search', () => {
+    it('falls back to approximate matches when nothing matches exactly', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'c1', contentSnippet: 'restart the docker daemon' }),
+        buildConversationMeta({ id: 'c2', contentSnippet: 'unrelated' }),
+      ])
+
+      const results = indexer.search('dokcer')
+
+      expect(results.map((r) => r.id)).toEqual(['c1'])
+      expect(results[0].approximate).toBe(true)
+      expect(results[0].matchedTerms).toEqual(['docker'])
+      expect(results[0].preview).toContain('docker')
+    })
+
+    it('does not fall back when there is an exact match', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'exact', contentSnippet: 'docker compose' }),
+        buildConversationMeta({ id: 'typo', contentSnippet: 'dokcer compose' }),
+      ])
+
+      const results = indexer.search('docker')
+
+      expect(results.map((r) => r.id)).toEqual(['exact'])
+      expect(results[0].approximate).toBeUndefined()
+    })
+
+    it('includes approximate matches after exact ones in fuzzy mode', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'typo', contentSnippet: 'dokcer compose', timestamp: new Date().toISOString() }),
+        buildConversationMeta({ id: 'exact', contentSnippet: 'docker compose', timestamp: new Date().toISOString() }),
+      ])
+
+      const results = indexer.search('docker', 50, undefined, true)
+
+      expect(results.map((r) => [r.id, r.approximate ?? false])).toEqual([
+        ['exact', false],
+        ['typo', true],
+      ])
+    })
+
+    it('matches identifier parts and other word forms in messages', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'x' })])
+      indexer.beginConversation('c1')
+      indexer.addMessage({ conversationId: 'c1', lineNumber: 4, role: 'assistant', content: 'call refreshToken() first' })
+      indexer.addMessage({ conversationId: 'c1', lineNumber: 8, role: 'user', content: 'it keeps crashing' })
+
+      const token = indexer.search('token', 50, undefined, true)
+      expect(token[0].matchedMessage).toEqual({ lineNumber: 4 })
+      expect(token[0].matchedTerms).toEqual(['refreshtoken'])
+      expect(indexer.search('crashed', 50, undefined, true)[0].matchedMessage).toEqual({ lineNumber: 8 })
+    })
+
+    it('keeps phrases and exclusions exact', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'c1', contentSnippet: 'docker compose up' }),
+        buildConversationMeta({ id: 'c2', contentSnippet: 'docker swarm init' }),
+      ])
+
+      expect(indexer.search('"dokcer compose"', 50, undefined, true)).toHaveLength(0)
+      expect(indexer.search('docker -swrm', 50, undefined, true).map((r) => r.id).sort()).toEqual(['c1', 'c2'])
+    })
+
+    it('keeps the vocabulary across an export / import round trip', async () => {
+      const metas = [buildConversationMeta({ id: 'c1', contentSnippet: 'kubernetes rollout' })]
+      await indexer.buildIndex(metas)
+      const exported = await indexer.exportIndex()
+
+      const restored = new SearchIndexer()
+      restored.importIndex(exported, metas)
+
+      expect(restored.search('kubernets').map((r) => r.id)).toEqual(['c1'])
+    })
+  })
+
+  // ─── semantic blending ──────────────────────────────────────────
+
+  describe('blendSemanticHits', () => {
+    const hit = (conversationId: string, similarity: number, lineNumber = 3) => ({
+      conversationId,
+      lineNumber,
+      excerpt: `excerpt of ${conversationId}`,
+      similarity,
+    })
+
+    it('adds similarity to keyword results and ranks by the blended score', async () => {
+      const now = new Date().toISOString()
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'both', contentSnippet: 'app crash on start', timestamp: now }),
+        buildConversationMeta({ id: 'keyword', contentSnippet: 'app crash on start', timestamp: now }),
+      ])
+      const keyword = indexer.search('crash')
+
+      const results = indexer.blendSemanticHits('crash', keyword, [hit('both', 0.5)], 50)
+
+      expect(results.map((r) => r.id)).toEqual(['both', 'keyword'])
+      expect(results[0].scoreBreakdown?.meaning).toBe(2)
+      expect(results[0].score).toBe(keyword.find((r) => r.id === 'both')!.score + 2)
+      expect(results[0].semantic).toBeUndefined()
+    })
+
+    it('adds conversations only the semantic index found, at the matching message', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'similar', contentSnippet: 'exception thrown while booting' }),
+      ])
+
+      const results = indexer.blendSemanticHits('crash', indexer.search('crash'), [hit('similar', 0.4, 7)], 50)
+
+      expect(results).toHaveLength(1)
+      expect(results[0]).toMatchObject({
+        id: 'similar',
+        semantic: true,
+        preview: 'excerpt of similar',
+        matchedMessage: { lineNumber: 7 },
+      })
+      expect(results[0].scoreBreakdown?.meaning).toBe(1.6)
+    })
+
+    it('applies the project filter and query operators to semantic-only hits', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'web', projectPath: '/dev/web', projectName: 'dev/web', gitBranches: ['main'] }),
+        buildConversationMeta({ id: 'api', projectPath: '/dev/api', projectName: 'dev/api', gitBranches: ['fix-login'] }),
+      ])
+      const hits = [hit('web', 0.5), hit('api', 0.5)]
+
+      expect(indexer.blendSemanticHits('crash', [], hits, 50, '/dev/api').map((r) => r.id)).toEqual(['api'])
+      expect(indexer.blendSemanticHits('crash branch:main', [], hits, 50).map((r) => r.id)).toEqual(['web'])
+    })
+  })
+
+  // ─── findSimilar ────────────────────────────────────────────────
+
+  describe('findSimilar', () => {
+    function indexToolCalls(id: string, calls: Array<Omit<IndexedToolCall, 'conversationId'>>): void {
+      indexer.beginConversation(id)
+      for (const call of calls) indexer.addToolCall({ conversationId: id, ...call })
+    }
+
+    it('ranks conversations by the files, commands and branch they share', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'open', projectPath: '/dev/app', gitBranches: ['fix-login'], contentSnippet: 'x' }),
+        buildConversationMeta({ id: 'edits', projectPath: '/dev/app', contentSnippet: 'y' }),
+        buildConversationMeta({ id: 'branch', projectPath: '/dev/app', gitBranches: ['main', 'fix-login'], contentSnippet: 'z' }),
+        buildConversationMeta({ id: 'project-only', projectPath: '/dev/app', contentSnippet: 'w' }),
+      ])
+      indexToolCalls('open', [
+        { lineNumber: 2, toolName: 'Edit', filePath: '/dev/app/src/auth.ts' },
+        { lineNumber: 3, toolName: 'Bash', command: 'pnpm  test auth' },
+        { lineNumber: 4, toolName: 'Read', filePath: '/dev/app/src/db.ts' },
+      ])
+      indexToolCalls('edits', [
+        { lineNumber: 7, toolName: 'Write', filePath: '/dev/app/src/auth.ts' },
+        { lineNumber: 8, toolName: 'Bash', command: 'pnpm test auth' },
+      ])
+      indexToolCalls('project-only', [{ lineNumber: 5, toolName: 'Read', filePath: '/dev/app/src/db.ts' }])
+
+      const results = indexer.findSimilar('open')
+
+      expect(results.map((r) => r.id)).toEqual(['edits', 'branch'])
+      expect(results[0].similarity).toEqual({
+        files: ['/dev/app/src/auth.ts'],
+        commands: ['pnpm test auth'],
+        terms: [],
+        sameProject: true,
+      })
+      expect(results[0].score).toBe(6)
+      expect(results[1].similarity).toMatchObject({ branch: 'fix-login', sameProject: true })
+    })
+
+    it('finds conversations sharing rare words, but not common ones', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'open', contentSnippet: 'websocket reconnect storm after deploy' }),
+        buildConversationMeta({ id: 'earlier', contentSnippet: 'websocket reconnect loop' }),
+        buildConversationMeta({ id: 'deploy-1', contentSnippet: 'deploy the api' }),
+        buildConversationMeta({ id: 'deploy-2', contentSnippet: 'deploy the web app' }),
+      ])
+
+      const results = indexer.findSimilar('open')
+
+      expect(results.map((r) => r.id)).toEqual(['earlier'])
+      expect(results[0].similarity?.terms.sort()).toEqual(['reconnect', 'websocket'])
+    })
+
+    it('ignores files edited in too many conversations', async () => {
+      await indexer.buildIndex(['a', 'b', 'c'].map((id) => buildConversationMeta({ id, contentSnippet: id })))
+      for (const id of ['a', 'b', 'c']) {
+        indexToolCalls(id, [{ lineNumber: 1, toolName: 'Edit', filePath: '/repo/package.json' }])
+      }
+
+      expect(indexer.findSimilar('a')).toEqual([])
+    })
+
+    it('returns nothing for an unknown conversation', () => {
+      expect(indexer.findSimilar('missing')).toEqual([])
+    })
+  })
+
   // ─── search with query ──────────────────────────────────────────
 
   describe('search with query', () => {
@@ -106,6 +623,200 @@ describe('SearchIndexer', () => {
     })
   })
 
+  // ─── query operators ────────────────────────────────────────────
+
+  describe('query operators', () => {
+    const ids = (query: string): string[] => indexer.search(query).map((r) => r.id)
+
+    function indexMessage(id: string, lineNumber: number, role: 'user' | 'assistant', content: string): void {
+      indexer.addMessage({ conversationId: id, lineNumber, role, content })
+    }
+
+    it('requires every word, anywhere in the conversation', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'both', contentSnippet: 'x' }),
+        buildConversationMeta({ id: 'one', contentSnippet: 'x' }),
+      ])
+      indexMessage('both', 1, 'user', 'the login page')
+      indexMessage('both', 2, 'assistant', 'fixed the redirect')
+      indexMessage('one', 1, 'user', 'the login page')
+
+      expect(ids('login redirect')).toEqual(['both'])
+    })
+
+    it('matches a quoted phrase only within a single message', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'together', contentSnippet: 'the token refresh fails' }),
+        buildConversationMeta({ id: 'apart', contentSnippet: 'token expired refresh the page' }),
+      ])
+      indexMessage('together', 1, 'user', 'the token refresh fails')
+      indexMessage('apart', 1, 'user', 'token expired')
+      indexMessage('apart', 2, 'user', 'refresh the page')
+
+      expect(ids('"token refresh"')).toEqual(['together'])
+    })
+
+    it('matches a quoted phrase only with its words side by side and in order', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'reordered', contentSnippet: 'refresh the token now' }),
+        buildConversationMeta({ id: 'split', contentSnippet: 'token expired refresh the page' }),
+        buildConversationMeta({ id: 'wrapped', contentSnippet: 'x' }),
+      ])
+      indexMessage('reordered', 1, 'user', 'refresh the token now')
+      indexMessage('split', 1, 'user', 'token expired refresh the page')
+      indexMessage('wrapped', 1, 'assistant', 'the Token\n  Refresh runs hourly')
+
+      expect(ids('"token refresh"')).toEqual(['wrapped'])
+      expect(ids('token refresh').sort()).toEqual(['reordered', 'split', 'wrapped'])
+    })
+
+    it('checks a quoted phrase against the tool call field it matched', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'ran', contentSnippet: 'x' }),
+        buildConversationMeta({ id: 'other', contentSnippet: 'x' }),
+      ])
+      indexer.addToolCall({ conversationId: 'ran', lineNumber: 3, toolName: 'Bash', command: 'npm run build' })
+      indexer.addToolCall({ conversationId: 'other', lineNumber: 3, toolName: 'Bash', command: 'npm build run' })
+
+      expect(ids('"run build"')).toEqual(['ran'])
+    })
+
+    it('excludes conversations matching a negated word', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'keep', contentSnippet: 'deploy to staging' }),
+        buildConversationMeta({ id: 'drop', contentSnippet: 'deploy to production' }),
+      ])
+
+      expect(ids('deploy -production')).toEqual(['keep'])
+    })
+
+    it('returns the union of OR groups', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'r', contentSnippet: 'redis cache' }),
+        buildConversationMeta({ id: 'm', contentSnippet: 'memcached cache' }),
+        buildConversationMeta({ id: 'n', contentSnippet: 'no cache' }),
+      ])
+
+      expect(ids('redis OR memcached')).toEqual(['r', 'm'])
+    })
+
+    it('filters by project name or path', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'a', projectName: 'dev/api', projectPath: '/home/u/dev/api' }),
+        buildConversationMeta({ id: 'w', projectName: 'dev/web', projectPath: '/home/u/dev/web' }),
+      ])
+
+      expect(ids('project:API')).toEqual(['a'])
+      expect(ids('-project:api')).toEqual(['w'])
+    })
+
+    it('filters by branch, model, tool, file and account', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({
+          id: 'rich',
+          account: 'work',
+          gitBranches: ['feature/login'],
+          models: ['claude-opus-4-20250514'],
+          toolNames: ['Bash', 'Edit'],
+          filePaths: ['/repo/src/auth.ts'],
+        }),
+        buildConversationMeta({ id: 'plain', toolNames: ['BashOutput'] }),
+      ])
+
+      expect(ids('branch:login')).toEqual(['rich'])
+      expect(ids('model:opus')).toEqual(['rich'])
+      expect(ids('tool:bash')).toEqual(['rich'])
+      expect(ids('file:src/auth.ts')).toEqual(['rich'])
+      expect(ids('account:work')).toEqual(['rich'])
+      expect(ids('account:wor')).toEqual([])
+    })
+
+    it('matches tool names by prefix when the value ends with *', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'gh', toolNames: ['Read', 'mcp__github__create_issue'] }),
+        buildConversationMeta({ id: 'other', toolNames: ['mcp__githubber__search'] }),
+      ])
+
+      expect(ids('tool:mcp__github__*')).toEqual(['gh'])
+      expect(ids('tool:mcp__github')).toEqual([])
+    })
+
+    it('lists operator-only matches newest first', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'old', toolNames: ['Bash'], timestamp: '2025-01-01T00:00:00Z' }),
+        buildConversationMeta({ id: 'new', toolNames: ['Bash'], timestamp: '2025-02-01T00:00:00Z' }),
+      ])
+
+      const results = indexer.search('tool:Bash')
+      expect(results.map((r) => r.id)).toEqual(['new', 'old'])
+      expect(results[0].preview).toBe('Test conversation preview text')
+    })
+
+    it('filters by date with before: and after:', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'jan', timestamp: new Date(2025, 0, 20, 12).toISOString() }),
+        buildConversationMeta({ id: 'feb', timestamp: new Date(2025, 1, 1, 12).toISOString() }),
+      ])
+
+      expect(ids('after:2025-02-01')).toEqual(['feb'])
+      expect(ids('before:2025-02-01')).toEqual(['jan'])
+      expect(ids('after:2025-01-01 before:2025-01-31')).toEqual(['jan'])
+    })
+
+    it('ignores dates it cannot parse', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1' })])
+      expect(ids('after:soon')).toEqual(['c1'])
+    })
+
+    it('restricts text to messages from one side with from:', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'asked', contentSnippet: 'x' }),
+        buildConversationMeta({ id: 'answered', contentSnippet: 'x' }),
+      ])
+      indexMessage('asked', 1, 'user', 'what is a monad')
+      indexMessage('answered', 1, 'user', 'explain this')
+      indexMessage('answered', 4, 'assistant', 'a monad is a monoid')
+
+      expect(ids('monad from:user')).toEqual(['asked'])
+      const results = indexer.search('monad from:assistant')
+      expect(results.map((r) => r.id)).toEqual(['answered'])
+      expect(results[0].matchedMessage).toEqual({ lineNumber: 4 })
+      expect(ids('monad -from:user')).toEqual(['answered'])
+    })
+
+    it('does not match the conversation snippet when from: is given', async () => {
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'snippet only' })])
+      expect(ids('snippet from:user')).toEqual([])
+    })
+
+    it('previews around the free text rather than the operators', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ contentSnippet: 'a'.repeat(300) + ' kafka consumer lag', toolNames: ['Bash'] }),
+      ])
+
+      expect(indexer.search('tool:Bash kafka')[0].preview).toContain('kafka')
+    })
+  })
+
+  // ─── getSearchSuggestions ───────────────────────────────────────
+
+  describe('getSearchSuggestions', () => {
+    it('collects distinct, sorted operator values from indexed conversations', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ projectName: 'web', account: 'work', toolNames: ['Edit', 'Bash'], models: ['m1'], gitBranches: ['main'] }),
+        buildConversationMeta({ projectName: 'api', account: 'default', toolNames: ['Bash'], models: ['m1'], gitBranches: ['dev'] }),
+      ])
+
+      expect(indexer.getSearchSuggestions()).toEqual({
+        projects: ['api', 'web'],
+        branches: ['dev', 'main'],
+        models: ['m1'],
+        tools: ['Bash', 'Edit'],
+        accounts: ['default', 'work'],
+      })
+    })
+  })
+
   // ─── search with empty query ────────────────────────────────────
 
   describe('search with empty query', () => {
@@ -202,6 +913,109 @@ describe('SearchIndexer', () => {
     })
   })
 
+  // ─── search with date range ─────────────────────────────────────
+
+  describe('search with date range', () => {
+    // Local noon, so the day is the same in every time zone the tests run in
+    const day = (date: number): string => new Date(2025, 2, date, 12).toISOString()
+
+    it('filters the whole corpus before applying the limit', async () => {
+      const metas = [
+        ...Array.from({ length: 5 }, (_, i) =>
+          buildConversationMeta({ contentSnippet: 'deploy pipeline', timestamp: day(20 + i) })
+        ),
+        buildConversationMeta({ contentSnippet: 'deploy pipeline', timestamp: day(3) }),
+        buildConversationMeta({ contentSnippet: 'deploy pipeline', timestamp: day(17) }),
+        buildConversationMeta({ contentSnippet: 'deploy pipeline', timestamp: day(18) }),
+      ]
+      await indexer.buildIndex(metas)
+
+      const range = { start: '2025-03-03', end: '2025-03-17' }
+      const results = indexer.search('deploy', 2, undefined, false, range)
+
+      expect(results.map((r) => r.id).sort()).toEqual([metas[5].id, metas[6].id].sort())
+    })
+
+    it('applies to the most recent conversations on an empty query', async () => {
+      const metas = [
+        buildConversationMeta({ timestamp: day(1) }),
+        buildConversationMeta({ timestamp: day(10) }),
+        buildConversationMeta({ timestamp: day(28) }),
+      ]
+      await indexer.buildIndex(metas)
+
+      const results = indexer.search('', 1, undefined, false, { start: '2025-03-01', end: '2025-03-15' })
+
+      expect(results.map((r) => r.id)).toEqual([metas[1].id])
+    })
+  })
+
+  // ─── searchPage ─────────────────────────────────────────────────
+
+  describe('searchPage', () => {
+    const day = (date: number): string => `2025-01-${String(date).padStart(2, '0')}T10:00:00Z`
+
+    it('pages through every match in the chosen order with an accurate total', async () => {
+      const metas = Array.from({ length: 7 }, (_, i) => buildConversationMeta({ timestamp: day(i + 1) }))
+      await indexer.buildIndex(metas)
+
+      const first = indexer.searchPage('', { sortBy: 'oldest', limit: 3 })
+      const second = indexer.searchPage('', { sortBy: 'oldest', limit: 3, cursor: first.nextCursor })
+      const third = indexer.searchPage('', { sortBy: 'oldest', limit: 3, cursor: second.nextCursor })
+
+      expect(first.total).toBe(7)
+      expect([...first.results, ...second.results, ...third.results].map((r) => r.id)).toEqual(metas.map((m) => m.id))
+      expect(third.nextCursor).toBeNull()
+    })
+
+    it('continues after the last result even when newer conversations were added meanwhile', async () => {
+      const metas = Array.from({ length: 4 }, (_, i) => buildConversationMeta({ timestamp: day(i + 1) }))
+      await indexer.buildIndex(metas)
+      const first = indexer.searchPage('', { sortBy: 'recent', limit: 2 })
+
+      indexer.applyChanges({ added: [buildConversationMeta({ timestamp: day(20) })], updated: [], removed: [] })
+      const second = indexer.searchPage('', { sortBy: 'recent', limit: 2, cursor: first.nextCursor })
+
+      expect(first.results.map((r) => r.id)).toEqual([metas[3].id, metas[2].id])
+      expect(second.results.map((r) => r.id)).toEqual([metas[1].id, metas[0].id])
+      expect(second.total).toBe(5)
+    })
+
+    it('filters by profile before counting', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ account: 'work', contentSnippet: 'deploy' }),
+        buildConversationMeta({ account: 'personal', contentSnippet: 'deploy' }),
+      ])
+
+      const result = indexer.searchPage('deploy', { account: 'work' })
+
+      expect(result.total).toBe(1)
+      expect(result.results[0].account).toBe('work')
+    })
+
+    it('starts over from an unreadable cursor', async () => {
+      await indexer.buildIndex([buildConversationMeta(), buildConversationMeta()])
+      expect(indexer.searchPage('', { cursor: 'not-a-cursor' }).results).toHaveLength(2)
+    })
+
+    it('lists each session chain once, as its best-ranked part', async () => {
+      const older = buildConversationMeta({ timestamp: day(1) })
+      const newer = buildConversationMeta({ timestamp: day(2) })
+      const other = buildConversationMeta({ timestamp: day(3) })
+      await indexer.buildIndex([older, newer, other])
+      const chain = [older.id, newer.id]
+      indexer.setSessionChains(new Map([[older.id, chain], [newer.id, chain]]))
+
+      const page = indexer.searchPage('', { sortBy: 'recent' })
+
+      expect(page.total).toBe(2)
+      expect(page.results.map((r) => [r.id, r.chainLength])).toEqual([
+        [other.id, undefined],
+        [newer.id, 2],
+      ])
+    })
+  })
+
   // ─── search with limit ──────────────────────────────────────────
 
   describe('search with limit', () => {
@@ -486,6 +1300,122 @@ describe('SearchIndexer', () => {
     })
   })
 
+  // ─── getUsageRows ───────────────────────────────────────────────
+
+  describe('getUsageRows', () => {
+    const counts = { inputTokens: 10, outputTokens: 20, cacheReadTokens: 30, cacheCreationTokens: 40 }
+
+    it('sums usage by day, model, project and profile', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ account: 'work', projectPath: '/proj/a', projectName: 'a', usage: [{ date: '2025-03-01', model: 'claude-opus-4-1', ...counts }] }),
+        buildConversationMeta({
+          account: 'work',
+          projectPath: '/proj/a',
+          projectName: 'a',
+          usage: [
+            { date: '2025-03-01', model: 'claude-opus-4-1', ...counts },
+            { date: '2025-03-02', model: 'claude-opus-4-1', ...counts },
+          ],
+        }),
+        buildConversationMeta({ account: 'personal', projectPath: '/proj/a', projectName: 'a', usage: [{ date: '2025-03-01', model: 'claude-opus-4-1', ...counts }] }),
+        buildConversationMeta({ account: 'work', projectPath: '/proj/b' }),
+      ])
+
+      expect(indexer.getUsageRows()).toEqual([
+        { date: '2025-03-01', model: 'claude-opus-4-1', projectPath: '/proj/a', projectName: 'a', account: 'work', inputTokens: 20, outputTokens: 40, cacheReadTokens: 60, cacheCreationTokens: 80 },
+        { date: '2025-03-01', model: 'claude-opus-4-1', projectPath: '/proj/a', projectName: 'a', account: 'personal', ...counts },
+        { date: '2025-03-02', model: 'claude-opus-4-1', projectPath: '/proj/a', projectName: 'a', account: 'work', ...counts },
+      ])
+    })
+
+    it('puts a conversation\'s usage on its search results', async () => {
+      const usage = [{ date: '2025-03-01', model: 'claude-opus-4-1', ...counts }]
+      await indexer.buildIndex([buildConversationMeta({ id: 'c1', contentSnippet: 'deploy script', usage })])
+
+      expect(indexer.search('deploy')[0].usage).toEqual(usage)
+    })
+  })
+
+  // ─── getToolUsageRows ───────────────────────────────────────────
+
+  describe('getToolUsageRows', () => {
+    it('sums tool calls by day and tool across conversations', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({
+          toolUsage: [
+            { date: '2025-03-01', tool: 'Bash', calls: 3, failures: 1 },
+            { date: '2025-03-02', tool: 'Read', calls: 1, failures: 0 },
+          ],
+        }),
+        buildConversationMeta({ toolUsage: [{ date: '2025-03-01', tool: 'Bash', calls: 2, failures: 2 }] }),
+        buildConversationMeta(),
+      ])
+
+      expect(indexer.getToolUsageRows()).toEqual([
+        { date: '2025-03-01', tool: 'Bash', calls: 5, failures: 3 },
+        { date: '2025-03-02', tool: 'Read', calls: 1, failures: 0 },
+      ])
+    })
+  })
+
+  // ─── getFileHotspots ────────────────────────────────────────────
+
+  describe('getFileHotspots', () => {
+    function edits(filePath: string, count: number, lastEdited = '2025-03-01T10:00:00Z') {
+      const locations = Array.from({ length: count }, (_, i) => ({ lineNumber: i + 1, tool: 'Edit' }))
+      return { filePath, edits: count, linesAdded: count * 2, linesRemoved: count, lastEdited, locations }
+    }
+
+    it('sums the changes to each file over the sessions of its project, most edited first', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ projectPath: '/proj/a', projectName: 'a', fileEdits: [edits('/proj/a/x.ts', 1), edits('/proj/a/y.ts', 1)] }),
+        buildConversationMeta({ projectPath: '/proj/a', projectName: 'a', fileEdits: [edits('/proj/a/y.ts', 3, '2025-03-05T10:00:00Z')] }),
+        buildConversationMeta({ projectPath: '/proj/b', projectName: 'b', fileEdits: [edits('/proj/a/y.ts', 1)] }),
+      ])
+
+      expect(indexer.getFileHotspots()).toEqual([
+        { filePath: '/proj/a/y.ts', projectPath: '/proj/a', projectName: 'a', edits: 4, linesAdded: 8, linesRemoved: 4, sessions: 2, lastEdited: '2025-03-05T10:00:00Z' },
+        { filePath: '/proj/a/x.ts', projectPath: '/proj/a', projectName: 'a', edits: 1, linesAdded: 2, linesRemoved: 1, sessions: 1, lastEdited: '2025-03-01T10:00:00Z' },
+        { filePath: '/proj/a/y.ts', projectPath: '/proj/b', projectName: 'b', edits: 1, linesAdded: 2, linesRemoved: 1, sessions: 1, lastEdited: '2025-03-01T10:00:00Z' },
+      ])
+    })
+
+    it('lists the conversations of a project that changed a file, newest first, with where the changes are', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'old', projectPath: '/proj/a', timestamp: '2025-03-01T10:00:00Z', fileEdits: [edits('/proj/a/x.ts', 1)] }),
+        buildConversationMeta({ id: 'new', projectPath: '/proj/a', sessionName: 'Refactor x', timestamp: '2025-03-02T10:00:00Z', fileEdits: [edits('/proj/a/x.ts', 2)] }),
+        buildConversationMeta({ id: 'other', projectPath: '/proj/a', fileEdits: [edits('/proj/a/y.ts', 1)] }),
+        buildConversationMeta({ id: 'elsewhere', projectPath: '/proj/b', timestamp: '2025-03-03T10:00:00Z', fileEdits: [edits('/proj/a/x.ts', 1)] }),
+      ])
+
+      const editors = indexer.getFileEditors('/proj/a', '/proj/a/x.ts')
+      expect(editors.map((editor) => editor.id)).toEqual(['new', 'old'])
+      expect(editors[0]).toMatchObject({
+        title: 'Refactor x',
+        locations: [{ lineNumber: 1, tool: 'Edit' }, { lineNumber: 2, tool: 'Edit' }]
+      })
+      expect(indexer.getFileEditors('/proj/b', '/proj/a/x.ts').map((editor) => editor.id)).toEqual(['elsewhere'])
+    })
+  })
+
+  // ─── getSessionUsage ────────────────────────────────────────────
+
+  describe('getSessionUsage', () => {
+    it('lists the conversations that have usage with their project and profile', async () => {
+      const usage = [{ date: '2025-03-01', model: 'claude-opus-4-1', inputTokens: 1, outputTokens: 2, cacheReadTokens: 3, cacheCreationTokens: 4 }]
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'c1', sessionName: 'Fix login', account: 'work', projectPath: '/proj/a', projectName: 'a', timestamp: '2025-03-01T12:00:00Z', usage }),
+        buildConversationMeta({ id: 'c2', preview: 'why is the build slow', usage }),
+        buildConversationMeta({ id: 'c3' }),
+      ])
+
+      expect(indexer.getSessionUsage()).toEqual([
+        { id: 'c1', title: 'Fix login', projectPath: '/proj/a', projectName: 'a', account: 'work', timestamp: '2025-03-01T12:00:00Z', usage },
+        expect.objectContaining({ id: 'c2', title: 'why is the build slow' }),
+      ])
+    })
+  })
+
   // ─── getStatsByAccount ──────────────────────────────────────────
 
   describe('getStatsByAccount', () => {
@@ -554,26 +1484,79 @@ describe('SearchIndexer', () => {
     })
   })
 
-  // ─── Score field ────────────────────────────────────────────────
+  // ─── Relevance scoring ──────────────────────────────────────────
 
-  describe('score field', () => {
-    it('all search results have score: 1', async () => {
-      const metas = [
-        buildConversationMeta({ contentSnippet: 'working on feature implementation' }),
-        buildConversationMeta({ contentSnippet: 'feature testing and validation' }),
-      ]
+  describe('relevance scoring', () => {
+    const ids = (query: string): string[] => indexer.search(query).map((r) => r.id)
+    const daysAgo = (days: number): string => new Date(Date.now() - days * 86_400_000).toISOString()
 
-      await indexer.buildIndex(metas)
+    it('reports a score equal to the sum of its breakdown', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ sessionName: 'feature work', contentSnippet: 'feature testing and feature validation' }),
+      ])
 
-      const queryResults = indexer.search('feature')
-      for (const r of queryResults) {
-        expect(r.score).toBe(1)
-      }
+      const [result] = indexer.search('feature')
+      const { fields, termFrequency, proximity, recency } = result.scoreBreakdown!
+      expect(fields).toBe(3) // session name weight
+      expect(termFrequency).toBeCloseTo(Math.log2(3), 2) // two mentions in the snippet
+      expect(result.score).toBeCloseTo(fields + termFrequency + proximity + recency, 2)
+    })
 
-      const recentResults = indexer.search('')
-      for (const r of recentResults) {
-        expect(r.score).toBe(1)
+    it('ranks a session name match above a body match', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'body', contentSnippet: 'we should migrate the database' }),
+        buildConversationMeta({ id: 'name', sessionName: 'database-migration', contentSnippet: 'x' }),
+      ])
+
+      expect(ids('database')).toEqual(['name', 'body'])
+    })
+
+    it('ranks conversations that mention a term more often higher', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'once', contentSnippet: 'x' }),
+        buildConversationMeta({ id: 'often', contentSnippet: 'x' }),
+      ])
+      indexer.addMessage({ conversationId: 'once', lineNumber: 1, role: 'user', content: 'webpack config' })
+      for (let line = 1; line <= 4; line++) {
+        indexer.addMessage({ conversationId: 'often', lineNumber: line, role: 'user', content: `webpack issue ${line}` })
       }
+
+      expect(ids('webpack')).toEqual(['often', 'once'])
+    })
+
+    it('boosts conversations where the words occur together', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'apart', contentSnippet: 'x' }),
+        buildConversationMeta({ id: 'together', contentSnippet: 'x' }),
+      ])
+      indexer.addMessage({ conversationId: 'apart', lineNumber: 1, role: 'user', content: 'memory is high' })
+      indexer.addMessage({ conversationId: 'apart', lineNumber: 2, role: 'user', content: 'there is a leak' })
+      indexer.addMessage({ conversationId: 'together', lineNumber: 1, role: 'user', content: 'found the memory leak' })
+
+      const results = indexer.search('memory leak')
+      expect(results.map((r) => r.id)).toEqual(['together', 'apart'])
+      expect(results[0].scoreBreakdown!.proximity).toBeGreaterThan(0)
+      expect(results[1].scoreBreakdown!.proximity).toBe(0)
+    })
+
+    it('prefers recent conversations when everything else is equal', async () => {
+      await indexer.buildIndex([
+        buildConversationMeta({ id: 'old', contentSnippet: 'flaky test', timestamp: daysAgo(60) }),
+        buildConversationMeta({ id: 'new', contentSnippet: 'flaky test', timestamp: daysAgo(1) }),
+      ])
+
+      const results = indexer.search('flaky')
+      expect(results.map((r) => r.id)).toEqual(['new', 'old'])
+      expect(results[0].scoreBreakdown!.recency).toBeCloseTo(0.98, 2)
+      expect(results[1].scoreBreakdown!.recency).toBeCloseTo(0.25, 2)
+    })
+
+    it('scores results without query terms by recency alone', async () => {
+      await indexer.buildIndex([buildConversationMeta({ timestamp: daysAgo(30) })])
+
+      const [result] = indexer.search('')
+      expect(result.scoreBreakdown).toEqual({ fields: 0, termFrequency: 0, proximity: 0, recency: 0.5 })
+      expect(result.score).toBe(0.5)
     })
   })
 })
@@ -1,5 +1,37 @@
 import FlexSearch from 'flexsearch'
-import type { Account, ConversationMeta, SearchResult } from '../../shared/types'
+import { parseDateFilter, parseQuery, getHighlightText } from '../../shared/query-parser'
+import { isInDateRange } from '../../shared/date-range'
+import { sortResults } from '../../shared/result-order'
+import { addTokenCounts } from '../../shared/pricing'
+import { Vocabulary, tokenize } from './fuzzy'
+import type { SemanticHit } from './semantic-index'
+import type {
+  Account,
+  ConversationChanges,
+  ConversationMeta,
+  DateRangeOption,
+  FileEditStat,
+  FileEditor,
+  FileHotspot,
+  IndexedMessage,
+  IndexedToolCall,
+  MessageLocation,
+  QueryCondition,
+  QueryFilter,
+  QueryTextTerm,
+  ScoreBreakdown,
+  SearchPage,
+  SearchPageOptions,
+  SearchResult,
+  SearchSuggestions,
+  SessionUsage,
+  SimilarityReasons,
+  ToolCallField,
+  ToolCallLocation,
+  ToolUsageEntry,
+  UsageEntry,
+  UsageRow
+} from '../../shared/types'
 
 interface IndexedDocument {
   id: string
@@ -13,14 +45,197 @@ interface IndexedDocument {
   preview: string
   lastMessageSender: 'user' | 'assistant'
   account: Account
+  models: string[]
+  gitBranches: string[]
+  toolNames: string[]
+  filePaths: string[]
+  usage?: UsageEntry[]
+  toolUsage?: ToolUsageEntry[]
+  fileEdits?: FileEditStat[]
+}
+
+type MessageRole = IndexedMessage['role']
+
+interface MessageDocument {
+  id: number
+  content: string
+  // Word pairs of the content, see wordPairs()
+  phrases: string
+}
+
+interface ToolDocument {
+  id: number
+  filePath: string
+  command: string
+  pattern: string
+  output: string
+  // Word pairs of each field, prefixed with the field's name
+  phrases: string
+}
+
+const TOOL_CALL_FIELDS: ToolCallField[] = ['filePath', 'command', 'pattern', 'output']
+
+// Message ids pack a per-conversation key, the JSONL line number and the
+// message role into one integer, so the message index never has to hold file
+// paths. Lines beyond this limit are not indexed.
+const MAX_INDEXED_LINE = 2 ** 20
+// Each line number gets two slots: even for user messages, odd for assistant
+const SLOTS_PER_CONVERSATION = MAX_INDEXED_LINE * 2
+
+function toMessageSlot(lineNumber: number, role: MessageRole): number {
+  return lineNumber * 2 + (role === 'assistant' ? 1 : 0)
+}
+
+// Upper bound on message hits considered per query before grouping them by conversation
+const MESSAGE_HIT_LIMIT = 20000
+
+// Relevance weights. A term in the session or project name says more about a
+// conversation than one in the body text; see scoreMatch().
+const FIELD_WEIGHTS: Record<string, number> = {
+  sessionName: 3,
+  projectName: 2,
+  sessionId: 2,
+  content: 1,
+  // Tool index fields
+  filePath: 2,
+  command: 2,
+  pattern: 1.5,
+  output: 0.5
+}
+const MESSAGE_FIELD_WEIGHT = 1
+// All words within a single message, and additionally side by side in the snippet or name
+const PROXIMITY_BONUS = 1.5
+const EXACT_PHRASE_BONUS = 1
+// A term matched only through a fuzzy expansion counts for half
+const APPROXIMATE_WEIGHT = 0.5
+// A message identical in meaning to the query is worth about two field matches
+const SEMANTIC_WEIGHT = 4
+// The recency boost starts at 1 and halves every 30 days
+const RECENCY_HALF_LIFE_DAYS = 30
+
+// How one query term matched a conversation
+interface TermMatch {
+  // The indexed word that matched, which differs from the query term when approximate
+  value: string
+  approximate?: boolean
+  fields: string[]
+  // Messages and tool calls containing the term
+  hitCount: number
+  location?: MessageLocation
+  tool?: ToolCallLocation
+}
+
+interface ScoredMatch {
+  location?: MessageLocation
+  tool?: ToolCallLocation
+  // Set when some term matched only approximately, with the words it matched
+  approximateTerms?: string[]
+  score: number
+  breakdown: ScoreBreakdown
+}
+
+// What each kind of overlap is worth when finding similar conversations
+const SIMILARITY_WEIGHTS = { file: 3, command: 2, branch: 1.5, project: 1, term: 0.5 }
+// Files, commands and words shared by more than this share of all conversations
+// (package.json, `git status`, "function") say nothing about two of them
+const MAX_SHARED_SHARE = 0.1
+// Distinctive words of a conversation compared against the others
+const SIMILAR_TERM_LIMIT = 12
+const EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit'])
+const DEFAULT_BRANCHES = new Set(['main', 'master', 'develop', 'HEAD'])
+
+// Results per page when the caller doesn't say
+const PAGE_SIZE = 50
+
+// Where the next page starts: just past lastId, or at offset should it be gone
+interface PageCursor {
+  offset: number
+  lastId: string
+}
+
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(cursor: string): PageCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    return typeof parsed?.offset === 'number' && typeof parsed.lastId === 'string' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function countOccurrences(text: string, term: string): number {
+  const haystack = text.toLowerCase()
+  const needle = term.toLowerCase()
+  let count = 0
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+    count++
+  }
+  return count
+}
+
+/**
+ * The adjacent word pairs of a text as tokens, e.g. "token_refresh", which is
+ * how quoted phrases are matched without keeping the text: a message holds a
+ * phrase when it holds every pair of it. Case and punctuation are ignored, and
+ * a line break counts as a space.
+ */
+function wordPairs(text: string, prefix = ''): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+  const pairs = new Set<string>()
+  for (let i = 1; i < words.length; i++) pairs.add(`${prefix}${words[i - 1]}_${words[i]}`)
+  return Array.from(pairs)
+}
+
+// Word pairs are indexed as they are, one token each
+const PHRASE_FIELD = { field: 'phrases', tokenize: 'strict', encode: (text: string) => text.split(' ') } as const
+
+function getRecencyScore(timestamp: string): number {
+  const ageDays = (Date.now() - new Date(timestamp).getTime()) / 86_400_000
+  if (isNaN(ageDays)) return 0
+  return Math.pow(0.5, Math.max(0, ageDays) / RECENCY_HALF_LIFE_DAYS)
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function sumScore(breakdown: ScoreBreakdown): number {
+  return roundScore(
+    breakdown.fields + breakdown.termFrequency + breakdown.proximity + breakdown.recency + (breakdown.meaning ?? 0)
+  )
 }
 
 export class SearchIndexer {
   private index: FlexSearch.Document<IndexedDocument>
   private documents: Map<string, IndexedDocument> = new Map()
+  private messageIndex: FlexSearch.Document<MessageDocument>
+  private conversationKeys: Map<string, number> = new Map()
+  private conversationIdsByKey: Map<number, string> = new Map()
+  private messageSlots: Map<number, number[]> = new Map()
+  private toolIndex: FlexSearch.Document<ToolDocument>
+  // Extended thinking, one document per line like tool calls; see matchText()
+  private thinkingIndex: FlexSearch.Document<MessageDocument>
+  private thinkingLines: Map<number, Set<number>> = new Map()
+  // Tool name and summary of each indexed tool call, to describe a match
+  private toolCalls: Map<number, { toolName: string; summary: string }> = new Map()
+  private toolLines: Map<number, Set<number>> = new Map()
+  private nextConversationKey = 1
+  // Conversation id → ids of its session chain, see buildSessionChains()
+  private sessionChains: Map<string, string[]> = new Map()
+  private vocabulary = new Vocabulary()
 
   constructor() {
-    this.index = new FlexSearch.Document<IndexedDocument>({
+    this.index = this.createIndex()
+    this.messageIndex = this.createMessageIndex()
+    this.toolIndex = this.createToolIndex()
+    this.thinkingIndex = this.createMessageIndex()
+  }
+
+  private createIndex(): FlexSearch.Document<IndexedDocument> {
+    return new FlexSearch.Document<IndexedDocument>({
       document: {
         id: 'id',
         index: ['content', 'projectName', 'sessionId', 'sessionName'],
@@ -32,110 +247,867 @@ export class SearchIndexer {
     })
   }
 
+  private createMessageIndex(): FlexSearch.Document<MessageDocument> {
+    return new FlexSearch.Document<MessageDocument>({
+      document: {
+        id: 'id',
+        index: [{ field: 'content', tokenize: 'forward' }, PHRASE_FIELD]
+      },
+      resolution: 9
+    })
+  }
+
+  private createToolIndex(): FlexSearch.Document<ToolDocument> {
+    return new FlexSearch.Document<ToolDocument>({
+      document: {
+        id: 'id',
+        index: [
+          { field: 'filePath', tokenize: 'forward' },
+          { field: 'command', tokenize: 'forward' },
+          { field: 'pattern', tokenize: 'forward' },
+          // Output is large and noisy; whole words are enough
+          { field: 'output', tokenize: 'strict' },
+          PHRASE_FIELD
+        ]
+      },
+      resolution: 9
+    })
+  }
+
+  /**
+   * Index conversation-level documents. Message content and tool calls are
+   * streamed in separately through `addMessage()` and `addToolCall()` while
+   * the scanner parses each file.
+   */
   async buildIndex(metas: ConversationMeta[]): Promise<void> {
     this.documents.clear()
+    this.index = this.createIndex()
 
     for (const meta of metas) {
-      const doc: IndexedDocument = {
-        id: meta.id,
-        projectName: meta.projectName,
-        projectPath: meta.projectPath,
-        sessionId: meta.sessionId,
-        sessionName: meta.sessionName,
-        content: meta.contentSnippet,
-        timestamp: meta.timestamp,
-        messageCount: meta.messageCount,
-        preview: meta.preview,
-        lastMessageSender: meta.lastMessageSender,
-        account: meta.account,
-      }
-
+      const doc = this.toDocument(meta)
       this.documents.set(meta.id, doc)
       this.index.add(doc)
+      this.addToVocabulary(doc)
     }
   }
 
-  search(query: string, limit: number = 50, projectFilter?: string): SearchResult[] {
-    if (!query.trim()) {
-      // Return most recent conversations if no query
-      return this.getRecent(limit, projectFilter)
+  /** Add a conversation, or replace it if it is already indexed. */
+  upsertDocument(meta: ConversationMeta): void {
+    const doc = this.toDocument(meta)
+    if (this.documents.has(meta.id)) {
+      this.index.update(doc)
+    } else {
+      this.index.add(doc)
     }
+    this.documents.set(meta.id, doc)
+    this.addToVocabulary(doc)
+  }
+
+  private addToVocabulary(doc: IndexedDocument): void {
+    this.vocabulary.add(doc.id, doc.sessionName)
+    this.vocabulary.add(doc.id, doc.projectName)
+    this.vocabulary.add(doc.id, doc.content)
+  }
+
+  removeDocument(id: string): void {
+    this.vocabulary.remove(id)
+    const key = this.conversationKeys.get(id)
+    if (key !== undefined) {
+      this.removeMessages(key)
+      this.removeToolCalls(key)
+      this.removeThinking(key)
+      this.conversationKeys.delete(id)
+      this.conversationIdsByKey.delete(key)
+    }
+
+    if (!this.documents.delete(id)) return
+    this.index.remove(id)
+  }
 
-    const results = this.index.search(query, {
-      limit: limit * 2, // Get extra to account for filtering
-      enrich: true
+  applyChanges(changes: ConversationChanges): void {
+    for (const id of changes.removed) this.removeDocument(id)
+    for (const meta of [...changes.added, ...changes.updated]) this.upsertDocument(meta)
+  }
+
+  // ─── Message index ──────────────────────────────────────────────
+
+  /**
+   * Drop any messages and tool calls indexed for a conversation that is about
+   * to be re-parsed, and its words; `upsertDocument()` adds back those of the
+   * conversation fields.
+   */
+  beginConversation(conversationId: string): void {
+    this.vocabulary.remove(conversationId)
+    const key = this.conversationKeys.get(conversationId)
+    if (key === undefined) return
+    this.removeMessages(key)
+    this.removeToolCalls(key)
+    this.removeThinking(key)
+  }
+
+  addMessage(message: IndexedMessage): void {
+    if (!message.content || message.lineNumber >= MAX_INDEXED_LINE) return
+
+    const key = this.getConversationKey(message.conversationId)
+    if (message.thinking) {
+      this.addThinking(key, message.lineNumber, message.content)
+      return
+    }
+    const slot = toMessageSlot(message.lineNumber, message.role)
+    this.messageIndex.add({
+      id: key * SLOTS_PER_CONVERSATION + slot,
+      content: message.content,
+      phrases: wordPairs(message.content).join(' ')
     })
+    this.vocabulary.add(message.conversationId, message.content)
 
-    const seen = new Set<string>()
+    const slots = this.messageSlots.get(key)
+    if (slots) slots.push(slot)
+    else this.messageSlots.set(key, [slot])
+  }
+
+  // Thinking is left out of the vocabulary: fuzzy expansions come from what is searched by default
+  private addThinking(key: number, lineNumber: number, content: string): void {
+    const lines = this.thinkingLines.get(key)
+    if (lines?.has(lineNumber)) return
+
+    this.thinkingIndex.add({ id: key * MAX_INDEXED_LINE + lineNumber, content, phrases: wordPairs(content).join(' ') })
+    if (lines) lines.add(lineNumber)
+    else this.thinkingLines.set(key, new Set([lineNumber]))
+  }
+
+  addToolCall(call: IndexedToolCall): void {
+    if (call.lineNumber >= MAX_INDEXED_LINE) return
+
+    const key = this.getConversationKey(call.conversationId)
+    const lines = this.toolLines.get(key)
+    // One tool result per JSONL line
+    if (lines?.has(call.lineNumber)) return
+
+    const id = key * MAX_INDEXED_LINE + call.lineNumber
+    const doc = {
+      id,
+      filePath: call.filePath ?? '',
+      command: call.command ?? '',
+      pattern: call.pattern ?? '',
+      output: call.output ?? ''
+    }
+    const phrases = TOOL_CALL_FIELDS.flatMap((field) => wordPairs(doc[field], `${field}:`))
+    this.toolIndex.add({ ...doc, phrases: phrases.join(' ') })
+    this.toolCalls.set(id, {
+      toolName: call.toolName,
+      summary: call.filePath ?? call.command ?? call.pattern ?? ''
+    })
+    for (const text of [call.filePath, call.command, call.pattern, call.output]) {
+      if (text) this.vocabulary.add(call.conversationId, text)
+    }
+
+    if (lines) lines.add(call.lineNumber)
+    else this.toolLines.set(key, new Set([call.lineNumber]))
+  }
+
+  private getConversationKey(conversationId: string): number {
+    let key = this.conversationKeys.get(conversationId)
+    if (key === undefined) {
+      key = this.nextConversationKey++
+      this.conversationKeys.set(conversationId, key)
+      this.conversationIdsByKey.set(key, conversationId)
+    }
+    return key
+  }
+
+  private removeToolCalls(key: number): void {
+    const lines = this.toolLines.get(key)
+    if (!lines) return
+    for (const line of lines) {
+      const id = key * MAX_INDEXED_LINE + line
+      this.toolIndex.remove(id)
+      this.toolCalls.delete(id)
+    }
+    this.toolLines.delete(key)
+  }
+
+  private removeThinking(key: number): void {
+    const lines = this.thinkingLines.get(key)
+    if (!lines) return
+    for (const line of lines) this.thinkingIndex.remove(key * MAX_INDEXED_LINE + line)
+    this.thinkingLines.delete(key)
+  }
+
+  private removeMessages(key: number): void {
+    const slots = this.messageSlots.get(key)
+    if (!slots) return
+    for (const slot of slots) {
+      this.messageIndex.remove(key * SLOTS_PER_CONVERSATION + slot)
+    }
+    this.messageSlots.delete(key)
+  }
+
+  /** Serialize the FlexSearch indexes so they can be persisted in the index cache. */
+  async exportIndex(): Promise<Record<string, string>> {
+    const data: Record<string, string> = {}
+    // The typings claim documents, but FlexSearch hands out JSON strings
+    await this.index.export((key, value) => {
+      if (value !== undefined) data[`conversations:${key}`] = value as unknown as string
+    })
+    await this.messageIndex.export((key, value) => {
+      if (value !== undefined) data[`messages:${key}`] = value as unknown as string
+    })
+    await this.toolIndex.export((key, value) => {
+      if (value !== undefined) data[`tools:${key}`] = value as unknown as string
+    })
+    await this.thinkingIndex.export((key, value) => {
+      if (value !== undefined) data[`thinking:${key}`] = value as unknown as string
+    })
+    data['conversationKeys'] = JSON.stringify({
+      keys: Array.from(this.conversationKeys),
+      messageSlots: Array.from(this.messageSlots),
+      toolLines: Array.from(this.toolLines, ([key, lines]) => [key, Array.from(lines)]),
+      toolCalls: Array.from(this.toolCalls),
+      thinkingLines: Array.from(this.thinkingLines, ([key, lines]) => [key, Array.from(lines)])
+    })
+    data['vocabulary'] = this.vocabulary.toJSON()
+    return data
+  }
+
+  /**
+   * Restore indexes produced by `exportIndex()`. `metas` must be the
+   * conversations that were indexed at export time; apply any differences
+   * afterwards with `applyChanges()`.
+   */
+  importIndex(data: Record<string, string>, metas: ConversationMeta[]): void {
+    this.index = this.createIndex()
+    this.messageIndex = this.createMessageIndex()
+    this.toolIndex = this.createToolIndex()
+    this.thinkingIndex = this.createMessageIndex()
+    this.documents.clear()
+    this.conversationKeys.clear()
+    this.conversationIdsByKey.clear()
+    this.messageSlots.clear()
+    this.toolLines.clear()
+    this.toolCalls.clear()
+    this.thinkingLines.clear()
+    this.nextConversationKey = 1
+    this.vocabulary = data['vocabulary'] ? Vocabulary.fromJSON(data['vocabulary']) : new Vocabulary()
+
+    for (const [name, value] of Object.entries(data)) {
+      const sep = name.indexOf(':')
+      const target = name.slice(0, sep)
+      const key = name.slice(sep + 1)
+      if (target === 'conversations') {
+        this.index.import(key, value as unknown as IndexedDocument)
+      } else if (target === 'messages') {
+        this.messageIndex.import(key, value as unknown as MessageDocument)
+      } else if (target === 'tools') {
+        this.toolIndex.import(key, value as unknown as ToolDocument)
+      } else if (target === 'thinking') {
+        this.thinkingIndex.import(key, value as unknown as MessageDocument)
+      }
+    }
+
+    if (data['conversationKeys']) {
+      const { keys, messageSlots, toolLines, toolCalls, thinkingLines } = JSON.parse(data['conversationKeys']) as {
+        keys: Array<[string, number]>
+        messageSlots: Array<[number, number[]]>
+        toolLines: Array<[number, number[]]>
+        toolCalls: Array<[number, { toolName: string; summary: string }]>
+        thinkingLines?: Array<[number, number[]]>
+      }
+      for (const [id, key] of keys) {
+        this.conversationKeys.set(id, key)
+        this.conversationIdsByKey.set(key, id)
+        this.nextConversationKey = Math.max(this.nextConversationKey, key + 1)
+      }
+      this.messageSlots = new Map(messageSlots)
+      this.toolLines = new Map(toolLines.map(([key, lines]) => [key, new Set(lines)]))
+      this.toolCalls = new Map(toolCalls)
+      this.thinkingLines = new Map((thinkingLines ?? []).map(([key, lines]) => [key, new Set(lines)]))
+    }
+
+    for (const meta of metas) {
+      this.documents.set(meta.id, this.toDocument(meta))
+    }
+  }
+
+  private toDocument(meta: ConversationMeta): IndexedDocument {
+    return {
+      id: meta.id,
+      projectName: meta.projectName,
+      projectPath: meta.projectPath,
+      sessionId: meta.sessionId,
+      sessionName: meta.sessionName,
+      content: meta.contentSnippet,
+      timestamp: meta.timestamp,
+      messageCount: meta.messageCount,
+      preview: meta.preview,
+      lastMessageSender: meta.lastMessageSender,
+      account: meta.account,
+      models: meta.models,
+      gitBranches: meta.gitBranches,
+      toolNames: meta.toolNames,
+      filePaths: meta.filePaths,
+      usage: meta.usage,
+      toolUsage: meta.toolUsage,
+      fileEdits: meta.fileEdits,
+    }
+  }
+
+  // ─── Search ─────────────────────────────────────────────────────
+
+  /**
+   * Evaluate a query in the search box syntax (see `parseQuery()`) and rank
+   * the matches by relevance. A conversation matched by several `OR` groups
+   * keeps its best score.
+   *
+   * With `fuzzy`, words also match their typos, other inflections and the
+   * identifiers they are part of. An exact search that finds nothing is
+   * retried fuzzily; either way such results are flagged `approximate`.
+   *
+   * With `thinking`, the model's extended thinking is searched as well.
+   *
+   * The project and date range filters apply before `limit`.
+   */
+  search(
+    query: string,
+    limit: number = 50,
+    projectFilter?: string,
+    fuzzy: boolean = false,
+    dateRange: DateRangeOption = 'all',
+    thinking: boolean = false
+  ): SearchResult[] {
+    const { groups } = parseQuery(query)
+    if (groups.length === 0) {
+      // Return most recent conversations if no query
+      return this.getRecent(limit, projectFilter, dateRange)
+    }
+
+    const results = this.rankMatches(query, groups, limit, projectFilter, fuzzy, dateRange, thinking)
+    if (results.length > 0 || fuzzy) return results
+
+    // Only plain words have approximations to fall back on
+    const hasWords = groups.some((group) => group.some((c) => c.kind === 'text' && !c.negated && !c.phrase))
+    return hasWords ? this.rankMatches(query, groups, limit, projectFilter, true, dateRange, thinking) : results
+  }
+
+  /**
+   * One page of results in the sidebar's sort order, with the number of
+   * matches across all pages. Pass `nextCursor` back for the following page;
+   * it continues after the last result handed out, so conversations that
+   * appear above it in the meantime don't shift the next page.
+   */
+  searchPage(query: string, options: SearchPageOptions = {}, semanticHits?: SemanticHit[]): SearchPage {
+    const { project, account, dateRange = 'all', sortBy = 'relevance', fuzzy = false, thinking = false, limit = PAGE_SIZE } = options
+
+    let results = this.search(query, Infinity, project, fuzzy, dateRange, thinking)
+    if (semanticHits) results = this.blendSemanticHits(query, results, semanticHits, Infinity, project, dateRange)
+    if (account) results = results.filter((result) => result.account === account)
+    const ordered = sortResults(this.collapseSessionChains(results), sortBy)
+
+    let start = 0
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null
+    if (cursor) {
+      const last = ordered.findIndex((result) => result.id === cursor.lastId)
+      start = last === -1 ? Math.min(cursor.offset, ordered.length) : last + 1
+    }
+
+    const page = ordered.slice(start, start + Math.max(1, limit))
+    const end = start + page.length
+    return {
+      results: page,
+      total: ordered.length,
+      nextCursor: end < ordered.length ? encodeCursor({ offset: end, lastId: page[page.length - 1].id }) : null
+    }
+  }
+
+  /** Replace the session chains that search results are grouped by. */
+  setSessionChains(chains: Map<string, string[]>): void {
+    this.sessionChains = chains
+  }
+
+  /**
+   * List each session chain once, as its best-ranked part among the results,
+   * so a long piece of work resumed several times doesn't fill the list.
+   */
+  private collapseSessionChains(results: SearchResult[]): SearchResult[] {
+    const listedChains = new Set<string[]>()
+    const collapsed: SearchResult[] = []
+    for (const result of results) {
+      const chain = this.sessionChains.get(result.id)
+      if (!chain) {
+        collapsed.push(result)
+      } else if (!listedChains.has(chain)) {
+        listedChains.add(chain)
+        collapsed.push({ ...result, chainLength: chain.length })
+      }
+    }
+    return collapsed
+  }
+
+  private isInScope(doc: IndexedDocument, projectFilter: string | undefined, dateRange: DateRangeOption): boolean {
+    // Project filter applies to the full path
+    return (!projectFilter || doc.projectPath === projectFilter) && isInDateRange(doc.timestamp, dateRange)
+  }
+
+  private rankMatches(
+    query: string,
+    groups: QueryCondition[][],
+    limit: number,
+    projectFilter: string | undefined,
+    fuzzy: boolean,
+    dateRange: DateRangeOption,
+    thinking: boolean
+  ): SearchResult[] {
+    const best = new Map<string, ScoredMatch>()
+    for (const group of groups) {
+      for (const [id, match] of this.evaluateGroup(group, fuzzy, thinking)) {
+        const previous = best.get(id)
+        if (!previous || match.score > previous.score) {
+          best.set(id, {
+            ...match,
+            location: match.location ?? previous?.location,
+            tool: match.tool ?? previous?.tool
+          })
+        }
+      }
+    }
+
+    // Stable sort: equal scores keep FlexSearch's rank order
+    const ranked = Array.from(best).sort(([, a], [, b]) => b.score - a.score)
+    const highlightText = getHighlightText(query)
     const searchResults: SearchResult[] = []
 
-    // FlexSearch returns results grouped by field
-    for (const fieldResult of results) {
-      if (!fieldResult.result) continue
+    for (const [id, match] of ranked) {
+      const doc = this.documents.get(id)
+      if (!doc || !this.isInScope(doc, projectFilter, dateRange)) continue
+
+      // An approximate match is previewed at the word that was actually found
+      const previewText = match.approximateTerms?.join(' ') ?? highlightText
+      const preview = previewText
+        ? this.generatePreview(doc.content, previewText)
+        : doc.preview || this.truncateText(doc.content, 200)
+
+      searchResults.push({
+        id: doc.id,
+        projectName: doc.projectName,
+        projectPath: doc.projectPath,
+        sessionId: doc.sessionId,
+        sessionName: doc.sessionName,
+        preview,
+        timestamp: doc.timestamp,
+        messageCount: doc.messageCount,
+        score: match.score,
+        scoreBreakdown: match.breakdown,
+        lastMessageSender: doc.lastMessageSender,
+        account: doc.account,
+        ...(doc.usage && { usage: doc.usage }),
+        ...(match.location && { matchedMessage: match.location }),
+        ...(match.tool && { matchedTool: match.tool }),
+        ...(match.approximateTerms && { approximate: true, matchedTerms: match.approximateTerms }),
+      })
+
+      if (searchResults.length >= limit) break
+    }
+
+    return searchResults
+  }
+
+  /**
+   * Blend nearest-neighbour hits of the semantic index into keyword results:
+   * similarity adds a `meaning` part to the score. Conversations only the
+   * semantic index found must still pass the query's filters, and are
+   * flagged `semantic`.
+   */
+  blendSemanticHits(
+    query: string,
+    keywordResults: SearchResult[],
+    hits: SemanticHit[],
+    limit: number,
+    projectFilter?: string,
+    dateRange: DateRangeOption = 'all'
+  ): SearchResult[] {
+    const { groups } = parseQuery(query)
+    const keywordById = new Map(keywordResults.map((result) => [result.id, result]))
+    const blended = new Map<string, SearchResult>()
+
+    for (const hit of hits) {
+      const meaning = roundScore(hit.similarity * SEMANTIC_WEIGHT)
+      const keyword = keywordById.get(hit.conversationId)
+      if (keyword) {
+        const breakdown: ScoreBreakdown = {
+          ...(keyword.scoreBreakdown ?? { fields: 0, termFrequency: 0, proximity: 0, recency: 0 }),
+          meaning
+        }
+        blended.set(keyword.id, { ...keyword, score: sumScore(breakdown), scoreBreakdown: breakdown })
+        continue
+      }
+
+      const doc = this.documents.get(hit.conversationId)
+      if (!doc || !this.isInScope(doc, projectFilter, dateRange)) continue
+      if (groups.length > 0 && !groups.some((group) => this.matchesGroupFilters(doc, group))) continue
+
+      const breakdown: ScoreBreakdown = {
+        fields: 0,
+        termFrequency: 0,
+        proximity: 0,
+        recency: roundScore(getRecencyScore(doc.timestamp)),
+        meaning
+      }
+      blended.set(doc.id, {
+        id: doc.id,
+        projectName: doc.projectName,
+        projectPath: doc.projectPath,
+        sessionId: doc.sessionId,
+        sessionName: doc.sessionName,
+        preview: hit.excerpt,
+        timestamp: doc.timestamp,
+        messageCount: doc.messageCount,
+        score: sumScore(breakdown),
+        scoreBreakdown: breakdown,
+        lastMessageSender: doc.lastMessageSender,
+        account: doc.account,
+        ...(doc.usage && { usage: doc.usage }),
+        matchedMessage: { lineNumber: hit.lineNumber },
+        semantic: true
+      })
+    }
+
+    for (const result of keywordResults) {
+      if (!blended.has(result.id)) blended.set(result.id, result)
+    }
+    return Array.from(blended.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+
+  private matchesGroupFilters(doc: IndexedDocument, group: QueryCondition[]): boolean {
+    return group.every((c) => c.kind !== 'filter' || this.matchesFilter(doc, c))
+  }
+
+  private evaluateGroup(group: QueryCondition[], fuzzy: boolean, thinking: boolean): Map<string, ScoredMatch> {
+    const terms = group.filter((c): c is QueryTextTerm => c.kind === 'text')
+    const filters = group.filter((c): c is QueryFilter => c.kind === 'filter')
+    const roles = this.getAllowedRoles(filters)
+    const positive = terms.filter((t) => !t.negated)
+
+    // Conversation id -> the match of every positive term, in rank order of the first
+    let matches: Map<string, TermMatch[]>
+    if (positive.length > 0) {
+      matches = new Map(Array.from(this.matchTerm(positive[0], roles, fuzzy, thinking), ([id, match]) => [id, [match]]))
+      for (const term of positive.slice(1)) {
+        const hits = this.matchTerm(term, roles, fuzzy, thinking)
+        for (const [id, termMatches] of matches) {
+          const hit = hits.get(id)
+          if (hit) termMatches.push(hit)
+          else matches.delete(id)
+        }
+      }
+    } else {
+      matches = new Map(this.getDocumentsByRecency().map((doc) => [doc.id, []]))
+    }
+
+    // Exclusions apply to the whole conversation, whoever wrote the text
+    for (const term of terms.filter((t) => t.negated)) {
+      for (const id of this.matchText(term, undefined, thinking).keys()) matches.delete(id)
+    }
+
+    // Conversations where all the words occur in one message, in any order, for the proximity boost
+    const phraseText = positive.length > 1 ? positive.map((t) => t.value).join(' ') : null
+    const together = phraseText
+      ? this.matchText({ kind: 'text', value: phraseText, phrase: false, negated: false }, roles, thinking)
+      : new Map<string, TermMatch>()
+
+    const scored = new Map<string, ScoredMatch>()
+    for (const [id, termMatches] of matches) {
+      const doc = this.documents.get(id)
+      if (!doc || !filters.every((f) => this.matchesFilter(doc, f))) continue
 
-      for (const item of fieldResult.result) {
-        const id = typeof item === 'object' ? item.id : item
-        if (seen.has(String(id))) continue
-        seen.add(String(id))
+      const breakdown = this.scoreMatch(doc, termMatches, together.has(id), phraseText)
+      const approximate = termMatches.some((m) => m.approximate)
+      scored.set(id, {
+        location: termMatches.find((m) => m.location)?.location,
+        tool: termMatches.find((m) => m.tool)?.tool,
+        ...(approximate && { approximateTerms: termMatches.map((m) => m.value) }),
+        score: sumScore(breakdown),
+        breakdown
+      })
+    }
 
-        const doc = this.documents.get(String(id))
-        if (!doc) continue
+    return scored
+  }
 
-        // Apply project filter on the full path
-        if (projectFilter && doc.projectPath !== projectFilter) {
+  /**
+   * `matchText()`, plus in fuzzy mode the conversations where only an
+   * approximation of the word occurs. Phrases are always matched exactly.
+   */
+  private matchTerm(
+    term: QueryTextTerm,
+    roles: Set<MessageRole> | undefined,
+    fuzzy: boolean,
+    thinking: boolean
+  ): Map<string, TermMatch> {
+    const hits = this.matchText(term, roles, thinking)
+    if (!fuzzy || term.phrase) return hits
+
+    for (const word of this.vocabulary.expand(term.value)) {
+      for (const [id, match] of this.matchText({ ...term, value: word }, roles, thinking)) {
+        const hit = hits.get(id)
+        if (!hit) {
+          hits.set(id, { ...match, approximate: true })
           continue
         }
+        hit.hitCount += match.hitCount
+        for (const field of match.fields) if (!hit.fields.includes(field)) hit.fields.push(field)
+        hit.location ??= match.location
+        hit.tool ??= match.tool
+      }
+    }
+    return hits
+  }
+
+  /**
+   * Conversations containing a word or phrase, in FlexSearch rank order.
+   * Hits in the conversation fields come first, then messages, then tool
+   * calls. Message and tool hits point at the exact line, and the first (best
+   * ranked) one per conversation wins. With `roles`, only messages written by
+   * those roles count; tool calls and thinking belong to the assistant. Thinking
+   * is searched only with `thinking`, after messages and tool calls.
+   *
+   * A phrase of several words is looked up by its word pairs, see
+   * wordPairs(), so it matches within one message or tool call field only;
+   * the conversation fields, which mix every message, are not searched.
+   */
+  private matchText(term: QueryTextTerm, roles?: Set<MessageRole>, thinking = false): Map<string, TermMatch> {
+    const hits = new Map<string, TermMatch>()
+    const getMatch = (id: string): TermMatch => {
+      let match = hits.get(id)
+      if (!match) {
+        match = { value: term.value, fields: [], hitCount: 0 }
+        hits.set(id, match)
+      }
+      return match
+    }
 
-        const preview = this.generatePreview(doc.content, query)
+    // The snippet mixes both sides of the conversation, so it only counts without from:
+    if (!roles && !term.phrase) {
+      const results = this.index.search(term.value, { limit: Math.max(this.documents.size, 1) })
+      // FlexSearch returns results grouped by field
+      for (const fieldResult of results) {
+        for (const id of fieldResult.result) getMatch(String(id)).fields.push(fieldResult.field)
+      }
+    }
+
+    const pairs = term.phrase ? wordPairs(term.value) : []
+    // A field's word search, or with a phrase of several words, its pair search
+    const searchField = <T>(index: FlexSearch.Document<T>, field: string, prefix = ''): FlexSearch.Id[] => {
+      const [result] =
+        pairs.length > 0
+          ? index.search(pairs.map((pair) => prefix + pair).join(' '), { index: ['phrases'], limit: MESSAGE_HIT_LIMIT })
+          : index.search(term.value, { index: [field], limit: MESSAGE_HIT_LIMIT })
+      return result?.result ?? []
+    }
+
+    for (const messageId of searchField(this.messageIndex, 'content')) {
+      const numericId = Number(messageId)
+      const conversationId = this.conversationIdsByKey.get(Math.floor(numericId / SLOTS_PER_CONVERSATION))
+      if (!conversationId) continue
+
+      const slot = numericId % SLOTS_PER_CONVERSATION
+      if (roles && !roles.has(slot % 2 === 1 ? 'assistant' : 'user')) continue
+
+      const match = getMatch(conversationId)
+      match.hitCount++
+      match.location ??= { lineNumber: Math.floor(slot / 2) }
+    }
 
-        searchResults.push({
-          id: doc.id,
-          projectName: doc.projectName,
-          projectPath: doc.projectPath,
-          sessionId: doc.sessionId,
-          sessionName: doc.sessionName,
-          preview,
-          timestamp: doc.timestamp,
-          messageCount: doc.messageCount,
-          score: 1,
-          lastMessageSender: doc.lastMessageSender,
-          account: doc.account,
-        })
+    if (!roles || roles.has('assistant')) {
+      for (const field of TOOL_CALL_FIELDS) {
+        for (const toolId of searchField(this.toolIndex, field, `${field}:`)) {
+          const numericId = Number(toolId)
+          const conversationId = this.conversationIdsByKey.get(Math.floor(numericId / MAX_INDEXED_LINE))
+          if (!conversationId) continue
 
-        if (searchResults.length >= limit) break
+          const match = getMatch(conversationId)
+          match.hitCount++
+          if (!match.fields.includes(field)) match.fields.push(field)
+          if (!match.tool) {
+            const call = this.toolCalls.get(numericId)
+            match.tool = {
+              lineNumber: numericId % MAX_INDEXED_LINE,
+              toolName: call?.toolName ?? 'unknown',
+              field,
+              summary: call?.summary ?? ''
+            }
+          }
+        }
       }
+    }
 
-      if (searchResults.length >= limit) break
+    if (thinking && (!roles || roles.has('assistant'))) {
+      for (const thinkingId of searchField(this.thinkingIndex, 'content')) {
+        const numericId = Number(thinkingId)
+        const conversationId = this.conversationIdsByKey.get(Math.floor(numericId / MAX_INDEXED_LINE))
+        if (!conversationId) continue
+
+        const match = getMatch(conversationId)
+        match.hitCount++
+        match.location ??= { lineNumber: numericId % MAX_INDEXED_LINE }
+      }
     }
 
-    return searchResults
+    return hits
   }
 
-  private getRecent(limit: number, projectFilter?: string): SearchResult[] {
-    let docs = Array.from(this.documents.values())
+  /**
+   * Relevance of one conversation: where each term matched (session and
+   * project names outweigh body text), how often it occurs, whether the
+   * terms appear together, and how recent the conversation is.
+   */
+  private scoreMatch(
+    doc: IndexedDocument,
+    termMatches: TermMatch[],
+    together: boolean,
+    phraseText: string | null
+  ): ScoreBreakdown {
+    let fields = 0
+    let termFrequency = 0
+    for (const match of termMatches) {
+      const weight = match.approximate ? APPROXIMATE_WEIGHT : 1
+      fields += weight * Math.max(
+        match.hitCount > 0 ? MESSAGE_FIELD_WEIGHT : 0,
+        ...match.fields.map((field) => FIELD_WEIGHTS[field] ?? 1)
+      )
+      termFrequency += Math.log2(1 + match.hitCount + countOccurrences(doc.content, match.value))
+    }
+
+    let proximity = together ? PROXIMITY_BONUS : 0
+    if (phraseText && (countOccurrences(doc.content, phraseText) > 0 || countOccurrences(doc.sessionName, phraseText) > 0)) {
+      proximity += EXACT_PHRASE_BONUS
+    }
 
-    if (projectFilter) {
-      docs = docs.filter((d) => d.projectPath === projectFilter)
+    return {
+      fields: roundScore(fields),
+      termFrequency: roundScore(termFrequency),
+      proximity: roundScore(proximity),
+      recency: roundScore(getRecencyScore(doc.timestamp))
+    }
+  }
+
+  // Roles that text must come from, or undefined when from: does not narrow it
+  private getAllowedRoles(filters: QueryFilter[]): Set<MessageRole> | undefined {
+    const roles = new Set<MessageRole>(['user', 'assistant'])
+    for (const filter of filters) {
+      if (filter.operator !== 'from') continue
+      const role = filter.value.toLowerCase()
+      if (role !== 'user' && role !== 'assistant') continue
+      if (filter.negated) roles.delete(role)
+      else for (const r of roles) if (r !== role) roles.delete(r)
+    }
+    return roles.size === 2 ? undefined : roles
+  }
+
+  private matchesFilter(doc: IndexedDocument, filter: QueryFilter): boolean {
+    const value = filter.value.toLowerCase()
+    const contains = (field: string): boolean => field.toLowerCase().includes(value)
+    let matches: boolean
+
+    switch (filter.operator) {
+      case 'project':
+        matches = contains(doc.projectName) || contains(doc.projectPath)
+        break
+      case 'branch':
+        matches = doc.gitBranches.some(contains)
+        break
+      case 'model':
+        matches = doc.models.some(contains)
+        break
+      case 'tool':
+        // A trailing * matches a prefix, e.g. every tool of an MCP server
+        matches = value.endsWith('*')
+          ? doc.toolNames.some((name) => name.toLowerCase().startsWith(value.slice(0, -1)))
+          : doc.toolNames.some((name) => name.toLowerCase() === value)
+        break
+      case 'file':
+        matches = doc.filePaths.some(contains)
+        break
+      case 'account':
+        matches = doc.account.toLowerCase() === value
+        break
+      case 'before':
+      case 'after': {
+        // An unparseable date is ignored rather than hiding everything mid-typing
+        const date = parseDateFilter(filter.value)
+        if (!date) return true
+        const timestamp = new Date(doc.timestamp).getTime()
+        matches = filter.operator === 'before' ? timestamp < date.getTime() : timestamp >= date.getTime()
+        break
+      }
+      case 'from':
+        // Applied to text matches in evaluateGroup()
+        return true
     }
 
-    // Sort by timestamp descending
-    docs.sort((a, b) =>
+    return filter.negated ? !matches : matches
+  }
+
+  private getDocumentsByRecency(): IndexedDocument[] {
+    return Array.from(this.documents.values()).sort((a, b) =>
       new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     )
+  }
+
+  /** Distinct operator values across the index, for search bar autocomplete. */
+  getSearchSuggestions(): SearchSuggestions {
+    const projects = new Set<string>()
+    const branches = new Set<string>()
+    const models = new Set<string>()
+    const tools = new Set<string>()
+    const accounts = new Set<string>()
+
+    for (const doc of this.documents.values()) {
+      projects.add(doc.projectName)
+      accounts.add(doc.account)
+      for (const branch of doc.gitBranches) branches.add(branch)
+      for (const model of doc.models) models.add(model)
+      for (const tool of doc.toolNames) tools.add(tool)
+    }
+
+    const sorted = (values: Set<string>): string[] => Array.from(values).sort((a, b) => a.localeCompare(b))
+    return {
+      projects: sorted(projects),
+      branches: sorted(branches),
+      models: sorted(models),
+      tools: sorted(tools),
+      accounts: sorted(accounts)
+    }
+  }
+
+  private getRecent(limit: number, projectFilter: string | undefined, dateRange: DateRangeOption): SearchResult[] {
+    const docs = this.getDocumentsByRecency().filter((doc) => this.isInScope(doc, projectFilter, dateRange))
 
-    return docs.slice(0, limit).map((doc) => ({
-      id: doc.id,
-      projectName: doc.projectName,
-      projectPath: doc.projectPath,
-      sessionId: doc.sessionId,
-      sessionName: doc.sessionName,
-      preview: doc.preview || this.truncateText(doc.content, 200),
-      timestamp: doc.timestamp,
-      messageCount: doc.messageCount,
-      score: 1,
-      lastMessageSender: doc.lastMessageSender,
-      account: doc.account,
-    }))
+    return docs.slice(0, limit).map((doc) => {
+      // Without query terms only the recency part applies
+      const breakdown: ScoreBreakdown = {
+        fields: 0,
+        termFrequency: 0,
+        proximity: 0,
+        recency: roundScore(getRecencyScore(doc.timestamp))
+      }
+      return {
+        id: doc.id,
+        projectName: doc.projectName,
+        projectPath: doc.projectPath,
+        sessionId: doc.sessionId,
+        sessionName: doc.sessionName,
+        preview: doc.preview || this.truncateText(doc.content, 200),
+        timestamp: doc.timestamp,
+        messageCount: doc.messageCount,
+        score: sumScore(breakdown),
+        scoreBreakdown: breakdown,
+        lastMessageSender: doc.lastMessageSender,
+        account: doc.account,
+        ...(doc.usage && { usage: doc.usage }),
+      }
+    })
   }
 
   private generatePreview(content: string, query: string): string {
@@ -163,6 +1135,125 @@ export class SearchIndexer {
     return text.slice(0, maxLength) + '...'
   }
 
+  // ─── Similar conversations ──────────────────────────────────────
+
+  /**
+   * Conversations most like the given one: files both edited, commands both
+   * ran, a shared feature branch, the same project, and rare words both
+   * contain. A conversation needs more than the project in common to count.
+   */
+  findSimilar(id: string, limit: number = 20): SearchResult[] {
+    const source = this.documents.get(id)
+    if (!source) return []
+
+    const maxShared = Math.max(2, this.documents.size * MAX_SHARED_SHARE)
+    const candidates = new Map<string, SimilarityReasons>()
+    const getReasons = (otherId: string): SimilarityReasons | null => {
+      if (otherId === id || !this.documents.has(otherId)) return null
+      let reasons = candidates.get(otherId)
+      if (!reasons) {
+        reasons = { files: [], commands: [], terms: [], sameProject: false }
+        candidates.set(otherId, reasons)
+      }
+      return reasons
+    }
+
+    const { files, commands } = this.getSharedToolUse()
+    for (const [path, ids] of files) {
+      if (!ids.has(id) || ids.size > maxShared) continue
+      for (const otherId of ids) getReasons(otherId)?.files.push(path)
+    }
+    for (const [command, ids] of commands) {
+      if (!ids.has(id) || ids.size > maxShared) continue
+      for (const otherId of ids) getReasons(otherId)?.commands.push(command)
+    }
+
+    const branches = source.gitBranches.filter((branch) => !DEFAULT_BRANCHES.has(branch))
+    if (branches.length > 0) {
+      for (const doc of this.documents.values()) {
+        if (doc.projectPath !== source.projectPath) continue
+        const branch = doc.gitBranches.find((b) => branches.includes(b))
+        const reasons = branch ? getReasons(doc.id) : null
+        if (reasons) reasons.branch = branch
+      }
+    }
+
+    for (const [term, ids] of this.getDistinctiveTerms(source, maxShared)) {
+      for (const otherId of ids) getReasons(otherId)?.terms.push(term)
+    }
+
+    const scored: Array<{ doc: IndexedDocument; reasons: SimilarityReasons; score: number }> = []
+    for (const [otherId, reasons] of candidates) {
+      const doc = this.documents.get(otherId)!
+      reasons.sameProject = doc.projectPath === source.projectPath
+      const score =
+        reasons.files.length * SIMILARITY_WEIGHTS.file +
+        reasons.commands.length * SIMILARITY_WEIGHTS.command +
+        (reasons.branch ? SIMILARITY_WEIGHTS.branch : 0) +
+        (reasons.sameProject ? SIMILARITY_WEIGHTS.project : 0) +
+        reasons.terms.length * SIMILARITY_WEIGHTS.term
+      scored.push({ doc, reasons, score: roundScore(score) })
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || b.doc.timestamp.localeCompare(a.doc.timestamp))
+      .slice(0, limit)
+      .map(({ doc, reasons, score }) => ({
+        id: doc.id,
+        projectName: doc.projectName,
+        projectPath: doc.projectPath,
+        sessionId: doc.sessionId,
+        sessionName: doc.sessionName,
+        preview: doc.preview || this.truncateText(doc.content, 200),
+        timestamp: doc.timestamp,
+        messageCount: doc.messageCount,
+        score,
+        lastMessageSender: doc.lastMessageSender,
+        account: doc.account,
+        ...(doc.usage && { usage: doc.usage }),
+        similarity: reasons
+      }))
+  }
+
+  // Files edited and Bash commands run, each with the conversations that did so
+  private getSharedToolUse(): { files: Map<string, Set<string>>; commands: Map<string, Set<string>> } {
+    const files = new Map<string, Set<string>>()
+    const commands = new Map<string, Set<string>>()
+    const add = (map: Map<string, Set<string>>, value: string, conversationId: string): void => {
+      const ids = map.get(value)
+      if (ids) ids.add(conversationId)
+      else map.set(value, new Set([conversationId]))
+    }
+
+    for (const [toolId, call] of this.toolCalls) {
+      const conversationId = this.conversationIdsByKey.get(Math.floor(toolId / MAX_INDEXED_LINE))
+      if (!conversationId || !call.summary) continue
+      if (EDIT_TOOLS.has(call.toolName)) add(files, call.summary, conversationId)
+      else if (call.toolName === 'Bash') add(commands, call.summary.trim().replace(/\s+/g, ' '), conversationId)
+    }
+    return { files, commands }
+  }
+
+  /**
+   * The rarest words of a conversation's name and snippet that some other
+   * conversation contains too, with the conversations containing each.
+   */
+  private getDistinctiveTerms(source: IndexedDocument, maxShared: number): Array<[string, string[]]> {
+    const words = new Set(
+      tokenize(`${source.sessionName} ${source.content}`).filter((word) => word.length >= 4 && !/^\d+$/.test(word))
+    )
+    const terms: Array<[string, string[]]> = []
+    for (const word of words) {
+      const ids = new Set<string>()
+      for (const fieldResult of this.index.search(word, { index: ['content', 'sessionName'], limit: Math.ceil(maxShared) + 1 })) {
+        for (const hitId of fieldResult.result) ids.add(String(hitId))
+      }
+      ids.delete(source.id)
+      if (ids.size > 0 && ids.size < maxShared) terms.push([word, Array.from(ids)])
+    }
+    return terms.sort(([, a], [, b]) => a.length - b.length).slice(0, SIMILAR_TERM_LIMIT)
+  }
+
   getDocumentCount(): number {
     return this.documents.size
   }
@@ -199,6 +1290,107 @@ export class SearchIndexer {
       .map(([date, stats]) => ({ date, ...stats }))
   }
 
+  /**
+   * Token usage of every conversation, summed by day, model, project and
+   * profile, for the usage dashboard to group and price.
+   */
+  getUsageRows(): UsageRow[] {
+    const rows = new Map<string, UsageRow>()
+    for (const doc of this.documents.values()) {
+      for (const entry of doc.usage ?? []) {
+        const key = `${entry.date}\0${entry.model}\0${doc.account}\0${doc.projectPath}`
+        const row = rows.get(key)
+        if (row) {
+          addTokenCounts(row, entry)
+        } else {
+          rows.set(key, { ...entry, projectPath: doc.projectPath, projectName: doc.projectName, account: doc.account })
+        }
+      }
+    }
+    return Array.from(rows.values()).sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  /** Every changed file with its edits summed over the sessions of its project. */
+  getFileHotspots(): FileHotspot[] {
+    const files = new Map<string, FileHotspot>()
+    for (const doc of this.documents.values()) {
+      for (const stat of doc.fileEdits ?? []) {
+        const key = `${doc.projectPath}\0${stat.filePath}`
+        const file = files.get(key)
+        if (file) {
+          file.edits += stat.edits
+          file.linesAdded += stat.linesAdded
+          file.linesRemoved += stat.linesRemoved
+          file.sessions++
+          if (stat.lastEdited > file.lastEdited) file.lastEdited = stat.lastEdited
+        } else {
+          const { locations: _locations, ...totals } = stat
+          files.set(key, { ...totals, projectPath: doc.projectPath, projectName: doc.projectName, sessions: 1 })
+        }
+      }
+    }
+    return Array.from(files.values()).sort((a, b) => b.edits - a.edits)
+  }
+
+  /**
+   * The conversations of a project that changed a file, newest first, with
+   * where each change was recorded. Counted per project like
+   * `getFileHotspots()`.
+   */
+  getFileEditors(projectPath: string, filePath: string): FileEditor[] {
+    const editors: FileEditor[] = []
+    for (const doc of this.documents.values()) {
+      if (doc.projectPath !== projectPath) continue
+      const stat = doc.fileEdits?.find((s) => s.filePath === filePath)
+      if (!stat) continue
+      editors.push({
+        id: doc.id,
+        title: doc.sessionName || doc.preview,
+        projectName: doc.projectName,
+        account: doc.account,
+        timestamp: doc.timestamp,
+        locations: stat.locations
+      })
+    }
+    return editors.sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+  }
+
+  /** Token usage of each conversation that has any, for the cache report. */
+  getSessionUsage(): SessionUsage[] {
+    const sessions: SessionUsage[] = []
+    for (const doc of this.documents.values()) {
+      if (!doc.usage?.length) continue
+      sessions.push({
+        id: doc.id,
+        title: doc.sessionName || doc.preview,
+        projectPath: doc.projectPath,
+        projectName: doc.projectName,
+        account: doc.account,
+        timestamp: doc.timestamp,
+        usage: doc.usage
+      })
+    }
+    return sessions
+  }
+
+  /** Tool calls and failures of every conversation, summed by day and tool. */
+  getToolUsageRows(): ToolUsageEntry[] {
+    const rows = new Map<string, ToolUsageEntry>()
+    for (const doc of this.documents.values()) {
+      for (const entry of doc.toolUsage ?? []) {
+        const key = `${entry.date}\0${entry.tool}`
+        const row = rows.get(key)
+        if (row) {
+          row.calls += entry.calls
+          row.failures += entry.failures
+        } else {
+          rows.set(key, { ...entry })
+        }
+      }
+    }
+    return Array.from(rows.values()).sort((a, b) => a.date.localeCompare(b.date))
+  }
+
   getStatsByAccount(): Record<string, { messages: number; projects: number }> {
     const acc: Record<string, { messages: number; projects: Set<string> }> = {}
     for (const doc of this.documents.values()) {
@@ -0,0 +1,113 @@
+import type { Worker } from 'worker_threads'
+import createRegexSearchWorker from './regex-search.worker?nodeWorker'
+import { compileSearchRegex, type FileMatches, type RegexSearchJob, type RegexWorkerMessage } from './regex-search'
+import type { ConversationMeta, RegexSearchEvent, RegexSearchStartResult, SearchResult } from '../../shared/types'
+
+interface ActiveSearch {
+  searchId: string
+  worker: Worker
+  scanned: number
+  total: number
+  emit: (event: RegexSearchEvent) => void
+}
+
+/**
+ * Runs regex searches over the conversation files in a worker thread, so a
+ * slow pattern never blocks the main process. Only one search runs at a time:
+ * starting another cancels it.
+ */
+export class RegexSearchRunner {
+  private active: ActiveSearch | null = null
+  private nextSearchId = 1
+
+  start(
+    pattern: string,
+    caseSensitive: boolean,
+    metas: ConversationMeta[],
+    emit: (event: RegexSearchEvent) => void
+  ): RegexSearchStartResult {
+    try {
+      compileSearchRegex(pattern, caseSensitive)
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+
+    this.cancel()
+
+    // Newest conversations first, so the likeliest hits stream in early
+    const ordered = [...metas].sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    const byPath = new Map(ordered.map((meta) => [meta.filePath, meta]))
+    const job: RegexSearchJob = { pattern, caseSensitive, filePaths: ordered.map((meta) => meta.filePath) }
+
+    const searchId = `regex-${this.nextSearchId++}`
+    const worker = createRegexSearchWorker({ workerData: job })
+    const search: ActiveSearch = { searchId, worker, scanned: 0, total: ordered.length, emit }
+    this.active = search
+
+    worker.on('message', (message: RegexWorkerMessage) => {
+      if (this.active !== search) return
+      switch (message.type) {
+        case 'file': {
+          const meta = byPath.get(message.filePath)
+          if (meta) emit({ searchId, type: 'result', result: toSearchResult(meta, message) })
+          break
+        }
+        case 'progress':
+          search.scanned = message.scanned
+          emit({ searchId, type: 'progress', scanned: message.scanned, total: search.total })
+          break
+        case 'done':
+          search.scanned = message.scanned
+          this.finish(search, false)
+          break
+      }
+    })
+    worker.on('error', (err) => {
+      if (this.active === search) this.finish(search, false, err.message)
+    })
+
+    return { success: true, searchId }
+  }
+
+  /** Stop the running search, or only the given one. Returns whether a search was stopped. */
+  cancel(searchId?: string): boolean {
+    const search = this.active
+    if (!search || (searchId !== undefined && search.searchId !== searchId)) return false
+    this.finish(search, true)
+    return true
+  }
+
+  private finish(search: ActiveSearch, cancelled: boolean, error?: string): void {
+    this.active = null
+    void search.worker.terminate()
+    search.emit({
+      searchId: search.searchId,
+      type: 'done',
+      scanned: search.scanned,
+      total: search.total,
+      cancelled,
+      ...(error && { error })
+    })
+  }
+}
+
+function toSearchResult(meta: ConversationMeta, found: FileMatches): SearchResult {
+  const first = found.matches[0]
+  return {
+    id: meta.id,
+    projectName: meta.projectName,
+    projectPath: meta.projectPath,
+    sessionId: meta.sessionId,
+    sessionName: meta.sessionName,
+    preview: first?.excerpt ?? meta.preview,
+    timestamp: meta.timestamp,
+    messageCount: meta.messageCount,
+    // More matches rank higher under the Relevance sort
+    score: found.matchCount,
+    lastMessageSender: meta.lastMessageSender,
+    account: meta.account,
+    ...(first && { matchedMessage: { lineNumber: first.lineNumber } }),
+    regexMatches: found.matches,
+    regexMatchCount: found.matchCount
+  }
+}
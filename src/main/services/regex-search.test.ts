@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { compileSearchRegex, runRegexSearch, searchConversationFile, type RegexWorkerMessage } from './regex-search'
+
+let tempDirs: string[] = []
+
+afterEach(async () => {
+  for (const dir of tempDirs) {
+    await rm(dir, { recursive: true, force: true }).catch(() => {})
+  }
+  tempDirs = []
+})
+
+async function writeConversation(lines: string[]): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'regex-search-test-'))
+  tempDirs.push(dir)
+  const filePath = join(dir, 'session.jsonl')
+  await writeFile(filePath, lines.join('\n'), 'utf-8')
+  return filePath
+}
+
+const user = (text: string): string => JSON.stringify({ type: 'user', message: { content: text } })
+const assistant = (text: string): string =>
+  JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text }] } })
+
+describe('compileSearchRegex', () => {
+  it('is case-insensitive unless asked otherwise', () => {
+    expect(compileSearchRegex('err', false).test('ERR')).toBe(true)
+    expect(compileSearchRegex('err', true).test('ERR')).toBe(false)
+  })
+
+  it('throws for an invalid pattern', () => {
+    expect(() => compileSearchRegex('(', false)).toThrow(SyntaxError)
+  })
+})
+
+describe('searchConversationFile', () => {
+  it('reports the line number, role and excerpt of each match', async () => {
+    const filePath = await writeConversation([
+      user('why does the build fail?'),
+      '',
+      assistant('The log says:\nError: ECONNREFUSED 127.0.0.1:5432\nso postgres is not running.'),
+    ])
+
+    const { matches, matchCount } = await searchConversationFile(filePath, compileSearchRegex('E[A-Z]{3,}', true))
+
+    expect(matchCount).toBe(1)
+    expect(matches).toEqual([
+      { lineNumber: 3, role: 'assistant', excerpt: 'Error: ECONNREFUSED 127.0.0.1:5432', start: 7, end: 19 },
+    ])
+  })
+
+  it('trims long lines around the match', async () => {
+    const filePath = await writeConversation([user(`${'a'.repeat(100)} 550e8400-e29b-41d4 ${'b'.repeat(100)}`)])
+
+    const { matches } = await searchConversationFile(filePath, compileSearchRegex('[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}', false))
+
+    const [match] = matches
+    expect(match.excerpt.startsWith('...')).toBe(true)
+    expect(match.excerpt.endsWith('...')).toBe(true)
+    expect(match.excerpt.slice(match.start, match.end)).toBe('550e8400-e29b-41d4')
+  })
+
+  it('counts every match but keeps a limited number of excerpts', async () => {
+    const filePath = await writeConversation([user('id-1 id-2 id-3'), assistant('id-4')])
+
+    const { matches, matchCount } = await searchConversationFile(filePath, compileSearchRegex('id-\\d', false), 2)
+
+    expect(matchCount).toBe(4)
+    expect(matches.map((m) => m.excerpt.slice(m.start, m.end))).toEqual(['id-1', 'id-2'])
+  })
+
+  it('skips meta entries, other entry types and empty matches', async () => {
+    const filePath = await writeConversation([
+      JSON.stringify({ type: 'user', isMeta: true, message: { content: 'needle' } }),
+      JSON.stringify({ type: 'summary', summary: 'needle' }),
+      'not json',
+      user('no match here'),
+    ])
+
+    expect((await searchConversationFile(filePath, compileSearchRegex('needle', false))).matchCount).toBe(0)
+    expect((await searchConversationFile(filePath, compileSearchRegex('x*', false))).matchCount).toBe(0)
+  })
+})
+
+describe('runRegexSearch', () => {
+  it('posts files with matches, then done', async () => {
+    const hit = await writeConversation([user('TypeError: undefined is not a function')])
+    const miss = await writeConversation([user('all good')])
+    const messages: RegexWorkerMessage[] = []
+
+    await runRegexSearch(
+      { pattern: 'TypeError', caseSensitive: true, filePaths: [hit, miss, join(tmpdir(), 'missing.jsonl')] },
+      (message) => messages.push(message)
+    )
+
+    expect(messages.map((m) => m.type)).toEqual(['file', 'done'])
+    expect(messages[0]).toMatchObject({ type: 'file', filePath: hit, matchCount: 1 })
+    expect(messages[1]).toEqual({ type: 'done', scanned: 3 })
+  })
+})
@@ -0,0 +1,121 @@
+import { createReadStream } from 'fs'
+import { createInterface } from 'readline'
+import { ConversationScanner } from './scanner'
+import type { RegexLineMatch } from '../../shared/types'
+
+// Line excerpts kept per conversation; further matches are only counted
+export const MAX_MATCHES_PER_FILE = 20
+// Characters of context shown on each side of a match
+const EXCERPT_CONTEXT = 60
+// Progress is reported after this many files
+const PROGRESS_INTERVAL = 25
+
+export interface RegexSearchJob {
+  pattern: string
+  caseSensitive: boolean
+  filePaths: string[]
+}
+
+export interface FileMatches {
+  matches: RegexLineMatch[]
+  matchCount: number
+}
+
+// Posted by the worker thread to the main process
+export type RegexWorkerMessage =
+  | ({ type: 'file'; filePath: string } & FileMatches)
+  | { type: 'progress'; scanned: number }
+  | { type: 'done'; scanned: number }
+
+/** Throws a SyntaxError for an invalid pattern. */
+export function compileSearchRegex(pattern: string, caseSensitive: boolean): RegExp {
+  return new RegExp(pattern, caseSensitive ? 'g' : 'gi')
+}
+
+/**
+ * Run a regex over the displayed text of every user and assistant message in
+ * a conversation file. Line numbers match `ConversationMessage.lineNumber`.
+ */
+export async function searchConversationFile(
+  filePath: string,
+  regex: RegExp,
+  maxMatches: number = MAX_MATCHES_PER_FILE
+): Promise<FileMatches> {
+  const result: FileMatches = { matches: [], matchCount: 0 }
+  const rl = createInterface({
+    input: createReadStream(filePath),
+    crlfDelay: Infinity
+  })
+
+  let lineNumber = 0
+  for await (const line of rl) {
+    lineNumber++
+    if (!line.trim()) continue
+
+    let entry
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      continue
+    }
+    if ((entry.type !== 'user' && entry.type !== 'assistant') || entry.isMeta) continue
+
+    const text = ConversationScanner.extractContent(entry.message?.content)
+    if (!text) continue
+
+    for (const match of text.matchAll(regex)) {
+      // Patterns like `a*` also match the empty string everywhere
+      if (match[0].length === 0) continue
+      result.matchCount++
+      if (result.matches.length < maxMatches) {
+        result.matches.push({ lineNumber, role: entry.type, ...toExcerpt(text, match.index!, match[0].length) })
+      }
+    }
+  }
+
+  return result
+}
+
+// The text line around a match, trimmed to some context on either side
+function toExcerpt(text: string, index: number, length: number): Pick<RegexLineMatch, 'excerpt' | 'start' | 'end'> {
+  const lineStart = index === 0 ? 0 : text.lastIndexOf('\n', index - 1) + 1
+  const lineEndIndex = text.indexOf('\n', index + length)
+  const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex
+
+  const from = Math.max(lineStart, index - EXCERPT_CONTEXT)
+  const to = Math.min(lineEnd, index + length + EXCERPT_CONTEXT)
+  const prefix = from > lineStart ? '...' : ''
+  const suffix = to < lineEnd ? '...' : ''
+
+  const start = prefix.length + index - from
+  return {
+    excerpt: prefix + text.slice(from, to) + suffix,
+    start,
+    end: start + length
+  }
+}
+
+/**
+ * Search conversation files one by one, reporting each file with matches as
+ * soon as it has been read. Runs inside the regex search worker.
+ */
+export async function runRegexSearch(
+  job: RegexSearchJob,
+  post: (message: RegexWorkerMessage) => void
+): Promise<void> {
+  const regex = compileSearchRegex(job.pattern, job.caseSensitive)
+  let scanned = 0
+
+  for (const filePath of job.filePaths) {
+    try {
+      const result = await searchConversationFile(filePath, regex)
+      if (result.matchCount > 0) post({ type: 'file', filePath, ...result })
+    } catch {
+      // Deleted or unreadable since the last scan
+    }
+    scanned++
+    if (scanned % PROGRESS_INTERVAL === 0) post({ type: 'progress', scanned })
+  }
+
+  post({ type: 'done', scanned })
+}
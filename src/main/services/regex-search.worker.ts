@@ -0,0 +1,8 @@
+import { parentPort, workerData } from 'worker_threads'
+import { runRegexSearch, type RegexSearchJob, type RegexWorkerMessage } from './regex-search'
+
+// Entry point of the regex search worker thread, started by RegexSearchRunner.
+// Cancelling a search terminates the thread, even mid-match.
+runRegexSearch(workerData as RegexSearchJob, (message: RegexWorkerMessage) => {
+  parentPort?.postMessage(message)
+})
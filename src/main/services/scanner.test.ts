@@ -1,8 +1,8 @@
-import { mkdtemp, rm, mkdir, copyFile, writeFile } from 'fs/promises'
+import { mkdtemp, rm, mkdir, copyFile, writeFile, appendFile, utimes } from 'fs/promises'
 import { join } from 'path'
 import { tmpdir } from 'os'
 import { ConversationScanner } from './scanner'
-import type { Profile } from '../../shared/types'
+import type { IndexedMessage, IndexedToolCall, Profile } from '../../shared/types'
 
 const FIXTURES_DIR = join(__dirname, '..', '..', 'test', 'fixtures')
 
@@ -213,29 +213,23 @@ describe('ConversationScanner', () => {
     })
   })
 
-  // ─── extractContent (private) ─────────────────────────────────────
+  // ─── extractContent ───────────────────────────────────────────────
 
   describe('extractContent', () => {
-    let scanner: ConversationScanner
-
-    beforeEach(() => {
-      scanner = new ConversationScanner([])
-    })
-
     it('returns empty string for falsy content', () => {
-      const extract = (scanner as any).extractContent.bind(scanner)
+      const extract = ConversationScanner.extractContent
       expect(extract(null)).toBe('')
       expect(extract(undefined)).toBe('')
       expect(extract('')).toBe('')
     })
 
     it('handles plain string content', () => {
-      const extract = (scanner as any).extractContent.bind(scanner)
+      const extract = ConversationScanner.extractContent
       expect(extract('Hello world')).toBe('Hello world')
     })
 
     it('handles array with text blocks', () => {
-      const extract = (scanner as any).extractContent.bind(scanner)
+      const extract = ConversationScanner.extractContent
       const content = [
         { type: 'text', text: 'First part.' },
         { type: 'text', text: 'Second part.' },
@@ -244,7 +238,7 @@ describe('ConversationScanner', () => {
     })
 
     it('handles array with tool_result blocks containing string content', () => {
-      const extract = (scanner as any).extractContent.bind(scanner)
+      const extract = ConversationScanner.extractContent
       const content = [
         { type: 'tool_result', content: 'Tool output here' },
       ]
@@ -252,7 +246,7 @@ describe('ConversationScanner', () => {
     })
 
     it('returns empty for tool_result with non-string content', () => {
-      const extract = (scanner as any).extractContent.bind(scanner)
+      const extract = ConversationScanner.extractContent
       const content = [
         { type: 'tool_result', content: { nested: true } },
       ]
@@ -260,7 +254,7 @@ describe('ConversationScanner', () => {
     })
 
     it('filters out tool_use blocks (no text)', () => {
-      const extract = (scanner as any).extractContent.bind(scanner)
+      const extract = ConversationScanner.extractContent
       const content = [
         { type: 'text', text: 'Some text' },
         { type: 'tool_use', id: 'x', name: 'Read', input: {} },
@@ -269,7 +263,7 @@ describe('ConversationScanner', () => {
     })
 
     it('returns empty for non-string non-array content', () => {
-      const extract = (scanner as any).extractContent.bind(scanner)
+      const extract = ConversationScanner.extractContent
       expect(extract(42)).toBe('')
       expect(extract({ type: 'text' })).toBe('')
     })
@@ -277,50 +271,56 @@ describe('ConversationScanner', () => {
 
   // ─── cleanContent (private) ───────────────────────────────────────
 
-  describe('cleanContent', () => {
-    let scanner: ConversationScanner
-
-    beforeEach(() => {
-      scanner = new ConversationScanner([])
+  describe('extractThinking', () => {
+    it('reads thinking blocks and <thinking> tags in text', () => {
+      const content = [
+        { type: 'thinking', thinking: '  Look at the config first.  ' },
+        { type: 'text', text: '<thinking>Maybe the cache</thinking>It was the cache.' },
+        { type: 'thinking', thinking: '   ' },
+      ]
+      expect(ConversationScanner.extractThinking(content)).toEqual(['Look at the config first.', 'Maybe the cache'])
+      expect(ConversationScanner.extractThinking('no thoughts here')).toEqual([])
     })
+  })
 
+  describe('cleanContent', () => {
     it('removes system-reminder tags', () => {
-      const clean = (scanner as any).cleanContent.bind(scanner)
+      const clean = (ConversationScanner as any).cleanContent
       expect(clean('<system-reminder>secret</system-reminder>hello')).toBe('hello')
     })
 
     it('removes thinking tags', () => {
-      const clean = (scanner as any).cleanContent.bind(scanner)
+      const clean = (ConversationScanner as any).cleanContent
       expect(clean('before<thinking>thoughts</thinking>after')).toBe('beforeafter')
     })
 
     it('removes fast_mode_info tags', () => {
-      const clean = (scanner as any).cleanContent.bind(scanner)
+      const clean = (ConversationScanner as any).cleanContent
       expect(clean('text<fast_mode_info>info</fast_mode_info>more')).toBe('textmore')
     })
 
     it('removes ide_selection tags', () => {
-      const clean = (scanner as any).cleanContent.bind(scanner)
+      const clean = (ConversationScanner as any).cleanContent
       expect(clean('<ide_selection>code</ide_selection>rest')).toBe('rest')
     })
 
     it('collapses multiple spaces into one', () => {
-      const clean = (scanner as any).cleanContent.bind(scanner)
+      const clean = (ConversationScanner as any).cleanContent
       expect(clean('a    b     c')).toBe('a b c')
     })
 
     it('limits consecutive blank lines to one', () => {
-      const clean = (scanner as any).cleanContent.bind(scanner)
+      const clean = (ConversationScanner as any).cleanContent
       expect(clean('a\n\n\n\n\nb')).toBe('a\n\nb')
     })
 
     it('trims leading and trailing whitespace', () => {
-      const clean = (scanner as any).cleanContent.bind(scanner)
+      const clean = (ConversationScanner as any).cleanContent
       expect(clean('  hello  ')).toBe('hello')
     })
 
     it('handles nested tags within content', () => {
-      const clean = (scanner as any).cleanContent.bind(scanner)
+      const clean = (ConversationScanner as any).cleanContent
       const input = '<system-reminder>You are Claude\nwith multiline</system-reminder>Please help'
       expect(clean(input)).toBe('Please help')
     })
@@ -905,4 +905,800 @@ describe('ConversationScanner', () => {
       expect(lru.size).toBe(0)
     })
   })
+
+  // ─── scanChanges (incremental) ────────────────────────────────────
+
+  describe('scanChanges', () => {
+    const line = (type: string, text: string, ts: string): string =>
+      JSON.stringify({ type, cwd: '/p', sessionId: 's1', timestamp: ts, message: { content: text } })
+
+    it('reports nothing when no file changed', async () => {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content: line('user', 'hello', '2025-01-01T00:00:00Z') },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      await scanner.scanAllMeta()
+
+      const changes = await scanner.scanChanges()
+      expect(changes).toEqual({ added: [], updated: [], removed: [] })
+    })
+
+    it('reports new files as added and registers their project', async () => {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content: line('user', 'hello', '2025-01-01T00:00:00Z') },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      await scanner.scanAllMeta()
+
+      await mkdir(join(configDir, 'projects', '-q'), { recursive: true })
+      await writeFile(
+        join(configDir, 'projects', '-q', 's2.jsonl'),
+        JSON.stringify({ type: 'user', cwd: '/q', sessionId: 's2', timestamp: '2025-01-02T00:00:00Z', message: { content: 'new' } })
+      )
+
+      const changes = await scanner.scanChanges()
+      expect(changes.added.map((m) => m.sessionId)).toEqual(['s2'])
+      expect(changes.updated).toHaveLength(0)
+      expect(scanner.getProjects()).toEqual(['/p', '/q'])
+    })
+
+    it('re-parses appended files and evicts them from the LRU', async () => {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content: line('user', 'hello', '2025-01-01T00:00:00Z') + '\n' },
+      ])
+      const filePath = join(configDir, 'projects', '-p', 's1.jsonl')
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      await scanner.scanAllMeta()
+      await scanner.getConversation(filePath)
+
+      await appendFile(filePath, line('assistant', 'hi there', '2025-01-01T00:00:05Z') + '\n')
+
+      const changes = await scanner.scanChanges()
+      expect(changes.updated).toHaveLength(1)
+      expect(changes.updated[0].messageCount).toBe(2)
+      expect(changes.updated[0].timestamp).toBe('2025-01-01T00:00:05Z')
+
+      const lru = (scanner as any).conversationLRU as Map<string, unknown>
+      expect(lru.has(filePath)).toBe(false)
+    })
+
+    it('tolerates a partially written trailing line and picks it up once complete', async () => {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content: line('user', 'hello', '2025-01-01T00:00:00Z') + '\n' },
+      ])
+      const filePath = join(configDir, 'projects', '-p', 's1.jsonl')
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      await scanner.scanAllMeta()
+
+      const next = line('assistant', 'streamed reply', '2025-01-01T00:00:05Z')
+      await appendFile(filePath, next.slice(0, 20))
+
+      let changes = await scanner.scanChanges()
+      expect(changes.updated[0].messageCount).toBe(1)
+
+      await appendFile(filePath, next.slice(20) + '\n')
+      changes = await scanner.scanChanges()
+      expect(changes.updated[0].messageCount).toBe(2)
+    })
+
+    it('detects a changed mtime even when the size is unchanged', async () => {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content: line('user', 'aaaa', '2025-01-01T00:00:00Z') },
+      ])
+      const filePath = join(configDir, 'projects', '-p', 's1.jsonl')
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      await scanner.scanAllMeta()
+
+      await writeFile(filePath, line('user', 'bbbb', '2025-01-01T00:00:00Z'))
+      const later = new Date(Date.now() + 60_000)
+      await utimes(filePath, later, later)
+
+      const changes = await scanner.scanChanges()
+      expect(changes.updated).toHaveLength(1)
+      expect(changes.updated[0].contentSnippet).toBe('bbbb')
+    })
+
+    it('reports deleted files as removed', async () => {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content: line('user', 'hello', '2025-01-01T00:00:00Z') },
+      ])
+      const filePath = join(configDir, 'projects', '-p', 's1.jsonl')
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      await scanner.scanAllMeta()
+
+      await rm(filePath)
+
+      const changes = await scanner.scanChanges()
+      expect(changes.removed).toEqual([filePath])
+      expect(await scanner.getConversation(filePath)).toBeNull()
+      expect(scanner.getProjects()).toEqual([])
+    })
+  })
+
+  // ─── scanAllMeta with cached entries ──────────────────────────────
+
+  describe('scanAllMeta with cached file entries', () => {
+    const content = [
+      '{"type":"user","cwd":"/p","sessionId":"s1","timestamp":"2025-01-01T00:00:00Z","message":{"content":"hello"}}',
+      '{"type":"assistant","timestamp":"2025-01-01T00:00:01Z","message":{"content":"hi"}}',
+    ].join('\n')
+
+    it('reuses cached metas for files whose size and mtime are unchanged', async () => {
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const first = new ConversationScanner([makeProfile(configDir)])
+      await first.scanAllMeta()
+      const entries = first.getFileEntries()
+
+      const second = new ConversationScanner([makeProfile(configDir)])
+      const parseSpy = vi.spyOn(second as any, 'parseConversationMeta')
+      const metas = await second.scanAllMeta(entries)
+
+      expect(parseSpy).not.toHaveBeenCalled()
+      expect(metas).toHaveLength(1)
+      expect(metas[0]).toBe(entries.get(metas[0].filePath)!.meta)
+      expect(second.getProjects()).toEqual(['/p'])
+      expect(await second.getConversation(metas[0].id)).not.toBeNull()
+    })
+
+    it('re-parses files whose stamp no longer matches the cache', async () => {
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const first = new ConversationScanner([makeProfile(configDir)])
+      await first.scanAllMeta()
+      const entries = first.getFileEntries()
+
+      const filePath = join(configDir, 'projects', '-p', 's1.jsonl')
+      await appendFile(filePath, '\n{"type":"user","timestamp":"2025-01-02T00:00:00Z","message":{"content":"more"}}')
+
+      const second = new ConversationScanner([makeProfile(configDir)])
+      const metas = await second.scanAllMeta(entries)
+
+      expect(metas[0].messageCount).toBe(3)
+      expect(metas[0]).not.toBe(entries.get(filePath)!.meta)
+    })
+
+    it('re-parses cached entries that belong to a different profile', async () => {
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const first = new ConversationScanner([makeProfile(configDir, 'old-id')])
+      await first.scanAllMeta()
+
+      const second = new ConversationScanner([makeProfile(configDir, 'new-id')])
+      const metas = await second.scanAllMeta(first.getFileEntries())
+
+      expect(metas[0].account).toBe('new-id')
+    })
+
+    it('records files without messages so they are not re-parsed next time', async () => {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 'meta.jsonl', fixturePath: join(FIXTURES_DIR, 'meta-only.jsonl') },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      await scanner.scanAllMeta()
+
+      const entries = scanner.getFileEntries()
+      expect(entries.size).toBe(1)
+      expect(Array.from(entries.values())[0].meta).toBeNull()
+    })
+
+    it('reports progress for reused files before parsing stale ones', async () => {
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const first = new ConversationScanner([makeProfile(configDir)])
+      await first.scanAllMeta()
+
+      const second = new ConversationScanner([makeProfile(configDir)])
+      const onProgress = vi.fn()
+      second.setProgressCallback(onProgress)
+      await second.scanAllMeta(first.getFileEntries())
+
+      expect(onProgress).toHaveBeenCalledWith(1, 1)
+    })
+  })
+
+  // ─── message sink ─────────────────────────────────────────────────
+
+  describe('message sink', () => {
+    it('streams every message with the line number getConversation reports', async () => {
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","timestamp":"2025-01-01T00:00:00Z","message":{"content":"first question"}}',
+        '',
+        '{"type":"summary","summary":"ignored"}',
+        '{"type":"assistant","timestamp":"2025-01-01T00:00:01Z","message":{"content":"a long answer"}}',
+      ].join('\n')
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const sink = { beginConversation: vi.fn(), addMessage: vi.fn(), addToolCall: vi.fn() }
+      scanner.setMessageSink(sink)
+
+      const [meta] = await scanner.scanAllMeta()
+
+      expect(sink.beginConversation).toHaveBeenCalledWith(meta.id)
+      const conversation = await scanner.getConversation(meta.id)
+      expect(sink.addMessage.mock.calls.map(([m]: [IndexedMessage]) => [m.role, m.lineNumber, m.content])).toEqual(
+        conversation!.messages.map((m) => [m.type, m.lineNumber, m.content])
+      )
+    })
+
+    it('streams tool calls with their input and output fields on the result line', async () => {
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","timestamp":"2025-01-01T00:00:00Z","message":{"content":"run the tests"}}',
+        '{"type":"assistant","timestamp":"2025-01-01T00:00:01Z","message":{"content":[{"type":"tool_use","id":"t1","name":"Bash","input":{"command":"pnpm test"}}]}}',
+        '{"type":"user","timestamp":"2025-01-01T00:00:02Z","toolUseResult":{"stdout":"3 passed","stderr":"warn: slow","interrupted":false},"message":{"content":[{"type":"tool_result","tool_use_id":"t1","content":"3 passed"}]}}',
+        '{"type":"assistant","timestamp":"2025-01-01T00:00:03Z","message":{"content":[{"type":"tool_use","id":"t2","name":"Grep","input":{"pattern":"refreshToken","path":"/p/src"}}]}}',
+        '{"type":"user","timestamp":"2025-01-01T00:00:04Z","toolUseResult":{"mode":"files_with_matches","filenames":["/p/src/auth.ts"],"numFiles":1,"numLines":0},"message":{"content":[{"type":"tool_result","tool_use_id":"t2","content":"/p/src/auth.ts"}]}}',
+      ].join('\n')
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const sink = { beginConversation: vi.fn(), addMessage: vi.fn(), addToolCall: vi.fn() }
+      scanner.setMessageSink(sink)
+
+      const [meta] = await scanner.scanAllMeta()
+
+      const calls = sink.addToolCall.mock.calls.map(([c]: [IndexedToolCall]) => c)
+      expect(calls).toEqual([
+        { conversationId: meta.id, lineNumber: 3, toolName: 'Bash', command: 'pnpm test', output: '3 passed\nwarn: slow' },
+        { conversationId: meta.id, lineNumber: 5, toolName: 'Grep', filePath: '/p/src', pattern: 'refreshToken', output: '/p/src/auth.ts' },
+      ])
+    })
+
+    it('takes the file path of edits from the tool result', async () => {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', fixturePath: join(FIXTURES_DIR, 'sample-conversation.jsonl') },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const sink = { beginConversation: vi.fn(), addMessage: vi.fn(), addToolCall: vi.fn() }
+      scanner.setMessageSink(sink)
+
+      await scanner.scanAllMeta()
+
+      expect(sink.addToolCall.mock.calls.map(([c]: [IndexedToolCall]) => [c.lineNumber, c.toolName, c.filePath])).toEqual([
+        [3, 'Read', '/Users/test/dev/my-project/src/auth.ts'],
+        [5, 'Edit', '/Users/test/dev/my-project/src/auth.ts'],
+      ])
+    })
+  })
+
+  // ─── search metadata ──────────────────────────────────────────────
+
+  describe('search metadata', () => {
+    it('collects models, branches, tool names and touched files', async () => {
+      const content = [
+        '{"type":"user","cwd":"/p","gitBranch":"feature/x","timestamp":"2025-01-01T00:00:00Z","message":{"content":"fix auth"}}',
+        '{"type":"assistant","gitBranch":"feature/x","timestamp":"2025-01-01T00:00:01Z","message":{"model":"claude-opus-4","content":[{"type":"tool_use","id":"t1","name":"Read","input":{"file_path":"/p/src/auth.ts"}},{"type":"tool_use","id":"t2","name":"Bash","input":{"command":"ls"}}]}}',
+        '{"type":"assistant","gitBranch":"main","timestamp":"2025-01-01T00:00:02Z","message":{"model":"<synthetic>","content":[{"type":"tool_use","id":"t3","name":"Read","input":{"file_path":"/p/src/auth.ts"}}]}}',
+      ].join('\n')
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+
+      const [meta] = await scanner.scanAllMeta()
+
+      expect(meta.models).toEqual(['claude-opus-4'])
+      expect(meta.gitBranches).toEqual(['feature/x', 'main'])
+      expect(meta.toolNames).toEqual(['Read', 'Bash'])
+      expect(meta.filePaths).toEqual(['/p/src/auth.ts'])
+    })
+  })
+
+  // ─── sub-agents ───────────────────────────────────────────────────
+
+  describe('token usage', () => {
+    it('sums the usage of the session and its sub-agents by day and model', async () => {
+      const usage = '"usage":{"input_tokens":10,"output_tokens":20,"cache_read_input_tokens":300,"cache_creation_input_tokens":40}'
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","timestamp":"2025-01-01T10:00:00","message":{"content":"go"}}',
+        `{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:01","message":{"id":"m1","model":"claude-sonnet-4-5","content":[{"type":"text","text":"ok"}],${usage}}}`,
+        `{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:02","message":{"id":"m1","model":"claude-sonnet-4-5","content":[{"type":"tool_use","id":"t1","name":"Task","input":{}}],${usage}}}`,
+        '{"type":"user","sessionId":"s1","timestamp":"2025-01-01T10:00:05","toolUseResult":{"agentId":"a1","content":[]},"message":{"content":[{"type":"tool_result","tool_use_id":"t1","content":"done"}]}}',
+      ].join('\n')
+      const agent = `{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:03","message":{"id":"m2","model":"claude-haiku-4-5","content":[{"type":"text","text":"looked"}],${usage}}}`
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content },
+        { projectDir: '-p/s1/subagents', fileName: 'agent-a1.jsonl', content: agent },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+
+      const [meta] = await scanner.scanAllMeta()
+
+      const counts = { inputTokens: 10, outputTokens: 20, cacheReadTokens: 300, cacheCreationTokens: 40 }
+      expect(meta.usage).toEqual([
+        { date: '2025-01-01', model: 'claude-haiku-4-5', ...counts },
+        { date: '2025-01-01', model: 'claude-sonnet-4-5', ...counts },
+      ])
+      expect((await scanner.getConversation(meta.id))!.usage).toEqual(meta.usage)
+    })
+
+    it('lists the turns of a conversation with the tools that ran before each', async () => {
+      const usage = '"usage":{"input_tokens":10,"output_tokens":20}'
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","timestamp":"2025-01-01T10:00:00Z","message":{"content":"go"}}',
+        `{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:03Z","message":{"id":"m1","model":"claude-sonnet-4-5","content":[{"type":"tool_use","id":"t1","name":"Read","input":{}}],${usage}}}`,
+        '{"type":"user","sessionId":"s1","timestamp":"2025-01-01T10:00:04Z","message":{"content":[{"type":"tool_result","tool_use_id":"t1","content":"text"}]}}',
+        `{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:10Z","message":{"id":"m2","model":"claude-sonnet-4-5","content":[{"type":"text","text":"done"}],${usage}}}`,
+      ].join('\n')
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+
+      const [meta] = await scanner.scanAllMeta()
+      const conversation = await scanner.getConversation(meta.id)
+
+      expect(conversation!.turns).toMatchObject([
+        { lineNumber: 2, waitMs: 3000, toolsBefore: [], outputTokens: 20 },
+        { lineNumber: 4, waitMs: 6000, toolsBefore: ['Read'] },
+      ])
+    })
+
+    it('places each turn on the message its response is shown as, on its branch', async () => {
+      const usage = '"model":"claude-sonnet-4-5","usage":{"input_tokens":10,"output_tokens":20}'
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","uuid":"u1","parentUuid":null,"timestamp":"2025-01-01T10:00:00Z","message":{"content":"go"}}',
+        `{"type":"assistant","sessionId":"s1","uuid":"r1","parentUuid":"u1","timestamp":"2025-01-01T10:00:01Z","message":{"id":"m1","content":[{"type":"tool_use","id":"t1","name":"Read","input":{}}],${usage}}}`,
+        '{"type":"user","sessionId":"s1","uuid":"t1r","parentUuid":"r1","timestamp":"2025-01-01T10:00:02Z","toolUseResult":{},"message":{"content":[{"type":"tool_result","tool_use_id":"t1","content":"text"}]}}',
+        `{"type":"assistant","sessionId":"s1","uuid":"r2","parentUuid":"t1r","timestamp":"2025-01-01T10:00:03Z","message":{"id":"m2","content":[{"type":"text","text":"done"}],${usage}}}`,
+        `{"type":"assistant","sessionId":"s1","uuid":"r3","parentUuid":"u1","timestamp":"2025-01-01T10:00:04Z","message":{"id":"m3","content":[{"type":"tool_use","id":"t2","name":"Bash","input":{}}],${usage}}}`,
+      ].join('\n')
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      const conversation = await scanner.getConversation(meta.id)
+
+      // The last response was rewound before its tool ran, so nothing shows it
+      expect(conversation!.turns!.map((turn) => turn.messageUuid)).toEqual(['t1r', 'r2', undefined])
+    })
+  })
+
+  describe('tool usage', () => {
+    it('counts the tool calls of the session and its sub-agents with their failures', async () => {
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","timestamp":"2025-01-01T10:00:00","message":{"content":"go"}}',
+        '{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:01","message":{"content":[{"type":"tool_use","id":"t1","name":"Bash","input":{"command":"make"}}]}}',
+        '{"type":"user","sessionId":"s1","timestamp":"2025-01-01T10:00:02","toolUseResult":{"stdout":"","stderr":"make: *** No targets","interrupted":false},"message":{"content":[{"type":"tool_result","tool_use_id":"t1","content":"make: *** No targets"}]}}',
+        '{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:03","message":{"content":[{"type":"tool_use","id":"t2","name":"Task","input":{}}]}}',
+        '{"type":"user","sessionId":"s1","timestamp":"2025-01-01T10:00:09","toolUseResult":{"agentId":"a1","content":[]},"message":{"content":[{"type":"tool_result","tool_use_id":"t2","content":"done"}]}}',
+      ].join('\n')
+      const agent = [
+        '{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:04","message":{"content":[{"type":"tool_use","id":"a1t1","name":"Read","input":{"file_path":"/p/x"}}]}}',
+        '{"type":"user","sessionId":"s1","timestamp":"2025-01-01T10:00:05","message":{"content":[{"type":"tool_result","tool_use_id":"a1t1","is_error":true,"content":"<tool_use_error>File does not exist.</tool_use_error>"}]}}',
+      ].join('\n')
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content },
+        { projectDir: '-p/s1/subagents', fileName: 'agent-a1.jsonl', content: agent },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+
+      const [meta] = await scanner.scanAllMeta()
+
+      expect(meta.toolUsage).toEqual([
+        { date: '2025-01-01', tool: 'Bash', calls: 1, failures: 1 },
+        { date: '2025-01-01', tool: 'Read', calls: 1, failures: 1 },
+        { date: '2025-01-01', tool: 'Task', calls: 1, failures: 0 },
+      ])
+    })
+  })
+
+  describe('file edits', () => {
+    const patch = '[{"oldStart":1,"oldLines":1,"newStart":1,"newLines":2,"lines":["-a","+b","+c"]}]'
+    const content = [
+      '{"type":"user","cwd":"/p","sessionId":"s1","timestamp":"2025-01-01T10:00:00Z","message":{"content":"go"}}',
+      '{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:01Z","message":{"content":[{"type":"tool_use","id":"t1","name":"Edit","input":{"file_path":"/p/a.ts"}}]}}',
+      `{"type":"user","sessionId":"s1","timestamp":"2025-01-01T10:00:02Z","toolUseResult":{"filePath":"/p/a.ts","oldString":"a","newString":"b\\nc","structuredPatch":${patch}},"message":{"content":[{"type":"tool_result","tool_use_id":"t1","content":"ok"}]}}`,
+      '{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:03Z","message":{"content":[{"type":"tool_use","id":"t2","name":"Task","input":{}}]}}',
+      '{"type":"user","sessionId":"s1","timestamp":"2025-01-01T10:00:09Z","toolUseResult":{"agentId":"a1","content":[]},"message":{"content":[{"type":"tool_result","tool_use_id":"t2","content":"done"}]}}',
+    ].join('\n')
+    const agent = [
+      '{"type":"assistant","sessionId":"s1","timestamp":"2025-01-01T10:00:04Z","message":{"content":[{"type":"tool_use","id":"a1t1","name":"Write","input":{"file_path":"/p/a.ts"}}]}}',
+      `{"type":"user","sessionId":"s1","timestamp":"2025-01-01T10:00:05Z","toolUseResult":{"type":"update","filePath":"/p/a.ts","content":"d","structuredPatch":${patch}},"message":{"content":[{"type":"tool_result","tool_use_id":"a1t1","content":"ok"}]}}`,
+    ].join('\n')
+
+    async function createSession(): Promise<ConversationScanner> {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content },
+        { projectDir: '-p/s1/subagents', fileName: 'agent-a1.jsonl', content: agent },
+      ])
+      return new ConversationScanner([makeProfile(configDir)])
+    }
+
+    it('sums the changes of the session and its sub-agents by file', async () => {
+      const scanner = await createSession()
+
+      const [meta] = await scanner.scanAllMeta()
+
+      expect(meta.fileEdits).toEqual([
+        {
+          filePath: '/p/a.ts',
+          edits: 2,
+          linesAdded: 4,
+          linesRemoved: 2,
+          lastEdited: '2025-01-01T10:00:05Z',
+          locations: [
+            { lineNumber: 3, tool: 'Edit' },
+            { lineNumber: 5, tool: 'Write', agentId: 'a1', agentLine: 2 },
+          ],
+        },
+      ])
+    })
+
+    it('lists the changes to a file with their diffs, a sub-agent\'s on the Task result', async () => {
+      const scanner = await createSession()
+      const [meta] = await scanner.scanAllMeta()
+
+      const edits = await scanner.getFileEdits(meta.id, '/p/a.ts', meta.fileEdits![0].locations)
+
+      expect(edits.map(({ lineNumber, tool, agentId }) => ({ lineNumber, tool, agentId }))).toEqual([
+        { lineNumber: 3, tool: 'Edit', agentId: undefined },
+        { lineNumber: 5, tool: 'Write', agentId: 'a1' },
+      ])
+      expect(edits[0].result).toMatchObject({ type: 'edit', oldString: 'a', newString: 'b\nc' })
+      expect(await scanner.getFileEdits(meta.id, '/p/other.ts', meta.fileEdits![0].locations)).toEqual([])
+      expect(await scanner.getFileEdits(meta.id, '/p/a.ts', [{ lineNumber: 3, tool: 'Edit' }])).toHaveLength(1)
+    })
+  })
+
+  describe('sub-agents', () => {
+    const parent = [
+      '{"type":"user","cwd":"/p","sessionId":"s1","timestamp":"2025-01-01T00:00:00Z","message":{"content":"audit the auth module"}}',
+      '{"type":"assistant","timestamp":"2025-01-01T00:00:01Z","message":{"content":[{"type":"tool_use","id":"t1","name":"Task","input":{"description":"Audit auth","subagent_type":"Explore","prompt":"Find token handling"}}]}}',
+      '{"type":"user","timestamp":"2025-01-01T00:00:09Z","toolUseResult":{"status":"completed","prompt":"Find token handling","agentId":"a1b2"},"message":{"content":[{"type":"tool_result","tool_use_id":"t1","content":"Done"}]}}',
+    ].join('\n')
+    const subagent = [
+      '{"type":"user","isSidechain":true,"agentId":"a1b2","sessionId":"s1","timestamp":"2025-01-01T00:00:02Z","message":{"content":"Find token handling"}}',
+      '{"type":"assistant","isSidechain":true,"agentId":"a1b2","timestamp":"2025-01-01T00:00:03Z","message":{"content":[{"type":"text","text":"Looking at refreshToken"},{"type":"tool_use","id":"s1t1","name":"Grep","input":{"pattern":"refreshToken","path":"/p/src/auth"}}]}}',
+      '{"type":"user","isSidechain":true,"agentId":"a1b2","timestamp":"2025-01-01T00:00:04Z","toolUseResult":{"mode":"files_with_matches","filenames":["/p/src/auth/token.ts"],"numFiles":1,"numLines":0},"message":{"content":[{"type":"tool_result","tool_use_id":"s1t1","content":"/p/src/auth/token.ts"}]}}',
+    ].join('\n')
+
+    async function createSession(): Promise<string> {
+      return createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content: parent },
+        { projectDir: '-p/s1/subagents', fileName: 'agent-a1b2.jsonl', content: subagent },
+      ])
+    }
+
+    it('indexes sub-agent text on the Task result line of the parent, not as conversations of their own', async () => {
+      const configDir = await createSession()
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const sink = { beginConversation: vi.fn(), addMessage: vi.fn(), addToolCall: vi.fn() }
+      scanner.setMessageSink(sink)
+
+      const metas = await scanner.scanAllMeta()
+
+      expect(metas).toHaveLength(1)
+      const spawned = sink.addMessage.mock.calls
+        .map(([m]: [IndexedMessage]) => m)
+        .find((m: IndexedMessage) => m.content.includes('refreshToken'))
+      expect(spawned).toMatchObject({ conversationId: metas[0].id, lineNumber: 3, role: 'assistant' })
+      expect(spawned!.content).toContain('Find token handling')
+      expect(metas[0].toolNames).toEqual(['Task', 'Grep'])
+      expect(metas[0].filePaths).toEqual(['/p/src/auth'])
+    })
+
+    it('caps the indexed text and file paths of a long sub-agent transcript', async () => {
+      const reads = Array.from({ length: 600 }, (_, i) =>
+        `{"type":"assistant","isSidechain":true,"timestamp":"2025-01-01T00:00:03Z","message":{"content":[{"type":"tool_use","id":"r${i}","name":"Read","input":{"file_path":"/p/src/file${i}.ts"}}]}}`
+      )
+      const long = [
+        `{"type":"user","isSidechain":true,"timestamp":"2025-01-01T00:00:02Z","message":{"content":"${'scan '.repeat(3000)}"}}`,
+        ...reads,
+        `{"type":"assistant","isSidechain":true,"timestamp":"2025-01-01T00:00:04Z","message":{"content":[{"type":"text","text":"${'found '.repeat(3000)}"}]}}`,
+      ].join('\n')
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', content: parent },
+        { projectDir: '-p/s1/subagents', fileName: 'agent-a1b2.jsonl', content: long },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const sink = { beginConversation: vi.fn(), addMessage: vi.fn(), addToolCall: vi.fn() }
+      scanner.setMessageSink(sink)
+
+      const [meta] = await scanner.scanAllMeta()
+
+      const spawned = sink.addMessage.mock.calls
+        .map(([m]: [IndexedMessage]) => m)
+        .find((m: IndexedMessage) => m.lineNumber === 3 && m.role === 'assistant')
+      expect(spawned!.content).toHaveLength(20_000)
+      expect(spawned!.content).toContain('scan')
+      expect(meta.filePaths).toHaveLength(500)
+    })
+
+    it('links the Task result to the call that spawned it', async () => {
+      const configDir = await createSession()
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      const conversation = await scanner.getConversation(meta.id)
+      const result = conversation!.messages.find((m) => m.metadata?.toolResults)!.metadata!.toolResults![0]
+      expect(result).toEqual({
+        type: 'taskAgent',
+        status: 'completed',
+        prompt: 'Find token handling',
+        agentId: 'a1b2',
+        description: 'Audit auth',
+        subagentType: 'Explore',
+      })
+    })
+
+    it('reads the transcript of a sub-agent', async () => {
+      const configDir = await createSession()
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      const transcript = await scanner.getSubagentTranscript(meta.id, 'a1b2')
+
+      expect(transcript!.messages.map((m) => m.type)).toEqual(['user', 'assistant', 'user'])
+      expect(transcript!.messages[1].content).toBe('Looking at refreshToken')
+      expect(transcript!.messages[2].metadata?.toolResults?.[0].type).toBe('grep')
+    })
+
+    it('returns null for unknown sub-agents and ids outside the subagents directory', async () => {
+      const configDir = await createSession()
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      expect(await scanner.getSubagentTranscript(meta.id, 'missing')).toBeNull()
+      expect(await scanner.getSubagentTranscript(meta.id, '../../s1')).toBeNull()
+      expect(await scanner.getSubagentTranscript('unknown', 'a1b2')).toBeNull()
+    })
+  })
+
+  // ─── persisted tool outputs ───────────────────────────────────────
+
+  describe('persisted tool outputs', () => {
+    it('parses the saved file and preview of a persisted-output notice', () => {
+      const notice = [
+        '<persisted-output>',
+        'Output too large (120.5KB). Full output saved to: /p/s1/tool-results/toolu_1.txt',
+        '',
+        'Preview (first 2KB):',
+        'PASS src/auth.test.ts',
+        '</persisted-output>',
+      ].join('\n')
+
+      expect(ConversationScanner.parsePersistedOutput(notice)).toEqual({
+        path: '/p/s1/tool-results/toolu_1.txt',
+        preview: 'PASS src/auth.test.ts',
+      })
+      expect(ConversationScanner.parsePersistedOutput('PASS src/auth.test.ts')).toBeNull()
+    })
+
+    it('links Bash results to their saved output and shows the preview in place of the notice', async () => {
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content: '' }])
+      const outputPath = join(configDir, 'projects', '-p', 's1', 'tool-results', 'toolu_1.txt')
+      const notice = `<persisted-output>\nOutput too large (120.5KB). Full output saved to: ${outputPath}\n\nPreview (first 2KB):\nPASS src/auth.test.ts\n</persisted-output>`
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","timestamp":"2025-01-01T00:00:00Z","message":{"content":"run the tests"}}',
+        '{"type":"assistant","timestamp":"2025-01-01T00:00:01Z","message":{"content":[{"type":"tool_use","id":"t1","name":"Bash","input":{"command":"pnpm test"}}]}}',
+        JSON.stringify({
+          type: 'user',
+          timestamp: '2025-01-01T00:00:02Z',
+          toolUseResult: { stdout: notice, stderr: '', interrupted: false },
+          message: { content: [{ type: 'tool_result', tool_use_id: 't1', content: notice }] },
+        }),
+      ].join('\n')
+      await writeFile(join(configDir, 'projects', '-p', 's1.jsonl'), content, 'utf-8')
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      const conversation = await scanner.getConversation(meta.id)
+      const result = conversation!.messages.find((m) => m.metadata?.toolResults)!.metadata!.toolResults![0]
+      expect(result).toMatchObject({
+        type: 'bash',
+        stdout: 'PASS src/auth.test.ts',
+        persistedOutput: { path: outputPath, preview: 'PASS src/auth.test.ts' },
+      })
+      expect(scanner.resolveToolOutputPath(meta.id, outputPath)).toBe(outputPath)
+    })
+
+    it('only resolves output paths inside the session tool-results directory', async () => {
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's1.jsonl', fixturePath: join(FIXTURES_DIR, 'sample-conversation.jsonl') },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+      const sessionDir = join(configDir, 'projects', '-p', 's1')
+
+      expect(scanner.resolveToolOutputPath(meta.id, 'toolu_1.txt')).toBe(join(sessionDir, 'tool-results', 'toolu_1.txt'))
+      expect(scanner.resolveToolOutputPath(meta.id, join(sessionDir, 'tool-results', '..', 's1.jsonl'))).toBeNull()
+      expect(scanner.resolveToolOutputPath(meta.id, '/etc/passwd')).toBeNull()
+      expect(scanner.resolveToolOutputPath('unknown', 'toolu_1.txt')).toBeNull()
+    })
+  })
+
+  // ─── message threading ────────────────────────────────────────────
+
+  describe('compaction', () => {
+    it('shows a /compact boundary with the summary that follows it', async () => {
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","uuid":"u1","parentUuid":null,"timestamp":"2025-01-01T00:00:00Z","message":{"content":"first"}}',
+        '{"type":"system","subtype":"compact_boundary","content":"Conversation compacted","uuid":"c1","parentUuid":null,"logicalParentUuid":"u1","timestamp":"2025-01-01T00:01:00Z","compactMetadata":{"trigger":"manual","preTokens":152000}}',
+        '{"type":"user","isCompactSummary":true,"uuid":"s1","parentUuid":"c1","timestamp":"2025-01-01T00:01:01Z","message":{"content":"Summary: we fixed the login bug"}}',
+        '{"type":"user","uuid":"u2","parentUuid":"s1","timestamp":"2025-01-01T00:02:00Z","message":{"content":"next"}}',
+      ].join('\n')
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      const { messages } = (await scanner.getConversation(meta.id))!
+
+      expect(messages).toHaveLength(3)
+      expect(messages[1]).toMatchObject({
+        type: 'system',
+        content: 'Summary: we fixed the login bug',
+        uuid: 'c1',
+        parentUuid: 'u1',
+        lineNumber: 3,
+        compaction: { trigger: 'manual', preTokens: 152000 },
+      })
+      expect(messages[2]).toMatchObject({ uuid: 'u2', parentUuid: 'c1' })
+    })
+
+    it('shows the summary entries a continued session opens with as one divider', async () => {
+      const content = [
+        '{"type":"summary","summary":"Login bug fix","leafUuid":"x1"}',
+        '{"type":"summary","summary":"Session refactor","leafUuid":"x2"}',
+        '{"type":"user","cwd":"/p","sessionId":"s1","uuid":"u1","parentUuid":null,"timestamp":"2025-01-01T00:00:00Z","message":{"content":"go on"}}',
+        '{"type":"summary","summary":"Appended later","leafUuid":"u1"}',
+      ].join('\n')
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      const { messages } = (await scanner.getConversation(meta.id))!
+
+      expect(messages.map((m) => [m.content, m.parentUuid, m.compaction])).toEqual([
+        ['Login bug fix\nSession refactor', undefined, { fromSummaryEntries: true }],
+        ['go on', undefined, undefined],
+      ])
+    })
+  })
+
+  describe('thinking', () => {
+    it('keeps an assistant message\'s thinking apart from its content', async () => {
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","uuid":"u1","timestamp":"2025-01-01T00:00:00Z","message":{"content":"why?"}}',
+        '{"type":"assistant","uuid":"a1","parentUuid":"u1","timestamp":"2025-01-01T00:00:01Z","message":{"content":[{"type":"thinking","thinking":"The user wants a reason"}]}}',
+        '{"type":"assistant","uuid":"a2","parentUuid":"a1","timestamp":"2025-01-01T00:00:02Z","message":{"content":[{"type":"text","text":"<thinking>short</thinking>Because."}]}}',
+      ].join('\n')
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      const { messages } = (await scanner.getConversation(meta.id))!
+
+      expect(messages.map((m) => [m.content, m.thinking])).toEqual([
+        ['why?', undefined],
+        ['', ['The user wants a reason']],
+        ['Because.', ['short']],
+      ])
+    })
+  })
+
+  describe('message threading', () => {
+    it('links shown messages to their nearest shown parent, across skipped entries and compaction boundaries', async () => {
+      const content = [
+        '{"type":"user","cwd":"/p","sessionId":"s1","uuid":"u1","parentUuid":null,"timestamp":"2025-01-01T00:00:00Z","message":{"content":"first"}}',
+        '{"type":"assistant","uuid":"a1","parentUuid":"u1","timestamp":"2025-01-01T00:00:01Z","message":{"content":[{"type":"tool_use","id":"t1","name":"Bash","input":{"command":"ls"}}]}}',
+        '{"type":"user","uuid":"r1","parentUuid":"a1","timestamp":"2025-01-01T00:00:02Z","toolUseResult":{"stdout":"a.ts","stderr":"","interrupted":false},"message":{"content":[{"type":"tool_result","tool_use_id":"t1","content":"a.ts"}]}}',
+        '{"type":"system","subtype":"compact_boundary","uuid":"c1","parentUuid":null,"logicalParentUuid":"r1","timestamp":"2025-01-01T00:00:03Z"}',
+        '{"type":"user","uuid":"u2","parentUuid":"c1","timestamp":"2025-01-01T00:00:04Z","message":{"content":"after compaction"}}',
+        '{"type":"user","uuid":"u3","parentUuid":"r1","timestamp":"2025-01-01T00:00:05Z","message":{"content":"rewound"}}',
+        '{"type":"assistant","uuid":"x1","timestamp":"2025-01-01T00:00:06Z","message":{"content":"no parent recorded"}}',
+      ].join('\n')
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's1.jsonl', content }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      const conversation = await scanner.getConversation(meta.id)
+
+      expect(conversation!.messages.map((m) => [m.uuid, m.parentUuid])).toEqual([
+        ['u1', null],
+        ['r1', 'u1'],
+        ['c1', 'r1'],
+        ['u2', 'c1'],
+        ['u3', 'r1'],
+        ['x1', undefined],
+      ])
+    })
+  })
+
+  describe('session chains', () => {
+    const first = [
+      '{"type":"user","cwd":"/p","sessionId":"s-aaa","uuid":"u1","parentUuid":null,"timestamp":"2025-01-01T00:00:00Z","message":{"content":"start"}}',
+      '{"type":"assistant","sessionId":"s-aaa","uuid":"a1","parentUuid":"u1","timestamp":"2025-01-01T00:00:01Z","message":{"content":"first answer"}}',
+    ]
+
+    it('records the thread tips of a file and what it continues from', async () => {
+      const continued = [
+        '{"type":"summary","summary":"Earlier work","leafUuid":"a1"}',
+        '{"type":"user","cwd":"/p","sessionId":"s-bbb","uuid":"u2","parentUuid":null,"timestamp":"2025-01-02T00:00:00Z","message":{"content":"go on"}}',
+      ]
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's-aaa.jsonl', content: first.join('\n') },
+        { projectDir: '-p', fileName: 's-bbb.jsonl', content: continued.join('\n') },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [newer, older] = await scanner.scanAllMeta()
+
+      expect(older.leafUuids).toEqual(['a1'])
+      expect(older.continuesFrom).toBeUndefined()
+      expect(newer.continuesFrom).toEqual({ uuids: ['a1'], sessionIds: [] })
+      expect(scanner.getSessionChains().get(newer.id)).toEqual([older.id, newer.id])
+    })
+
+    it('merges a continued session after the one it continues', async () => {
+      const continued = [
+        '{"type":"summary","summary":"Earlier work","leafUuid":"a1"}',
+        '{"type":"user","cwd":"/p","sessionId":"s-bbb","uuid":"u2","parentUuid":null,"timestamp":"2025-01-02T00:00:00Z","message":{"content":"go on"}}',
+      ]
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's-aaa.jsonl', content: first.join('\n') },
+        { projectDir: '-p', fileName: 's-bbb.jsonl', content: continued.join('\n') },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [newer, older] = await scanner.scanAllMeta()
+
+      const chain = await scanner.getSessionChainConversation(older.id)
+
+      expect(chain!.id).toBe(newer.id)
+      // The continued session opens with its summary, and its thread follows on from it
+      expect(chain!.messages.map((m) => [m.uuid ?? m.content, m.parentUuid])).toEqual([
+        ['u1', null],
+        ['a1', 'u1'],
+        ['Earlier work', undefined],
+        ['u2', undefined],
+      ])
+      expect(chain!.chain).toEqual([
+        { id: older.id, sessionId: 's-aaa', timestamp: older.timestamp, firstMessageIndex: 0, messageCount: 2 },
+        { id: newer.id, sessionId: 's-bbb', timestamp: newer.timestamp, firstMessageIndex: 2, messageCount: 2 },
+      ])
+    })
+
+    it('shows messages a resumed session copied from its predecessor once', async () => {
+      const resumed = [
+        ...first,
+        '{"type":"user","cwd":"/p","sessionId":"s-ccc","uuid":"u3","parentUuid":"a1","timestamp":"2025-01-03T00:00:00Z","message":{"content":"resumed"}}',
+      ]
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's-aaa.jsonl', content: first.join('\n') },
+        { projectDir: '-p', fileName: 's-ccc.jsonl', content: resumed.join('\n') },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [newer] = await scanner.scanAllMeta()
+
+      const chain = await scanner.getSessionChainConversation(newer.id)
+
+      expect(newer.continuesFrom).toEqual({ uuids: [], sessionIds: ['s-aaa'] })
+      expect(chain!.messages.map((m) => m.content)).toEqual(['start', 'first answer', 'resumed'])
+      expect(chain!.chain!.map((part) => part.messageCount)).toEqual([2, 1])
+    })
+
+    it('keeps the turns of every part, those a resumed session copied once', async () => {
+      const usage = '"model":"claude-sonnet-4-5","usage":{"input_tokens":10,"output_tokens":20}'
+      const answered = [
+        first[0],
+        `{"type":"assistant","sessionId":"s-aaa","uuid":"a1","parentUuid":"u1","timestamp":"2025-01-01T00:00:01Z","message":{"id":"m1","content":"first answer",${usage}}}`,
+      ]
+      const resumed = [
+        ...answered,
+        '{"type":"user","cwd":"/p","sessionId":"s-ccc","uuid":"u3","parentUuid":"a1","timestamp":"2025-01-03T00:00:00Z","message":{"content":"resumed"}}',
+        `{"type":"assistant","sessionId":"s-ccc","uuid":"a3","parentUuid":"u3","timestamp":"2025-01-03T00:00:05Z","message":{"id":"m3","content":"second answer",${usage}}}`,
+      ]
+      const configDir = await createConfig([
+        { projectDir: '-p', fileName: 's-aaa.jsonl', content: answered.join('\n') },
+        { projectDir: '-p', fileName: 's-ccc.jsonl', content: resumed.join('\n') },
+      ])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [newer] = await scanner.scanAllMeta()
+
+      const chain = await scanner.getSessionChainConversation(newer.id)
+
+      expect(chain!.turns!.map((turn) => [turn.messageUuid, turn.lineNumber])).toEqual([
+        ['a1', 2],
+        ['a3', 4],
+      ])
+    })
+
+    it('returns null for a session that stands alone', async () => {
+      const configDir = await createConfig([{ projectDir: '-p', fileName: 's-aaa.jsonl', content: first.join('\n') }])
+      const scanner = new ConversationScanner([makeProfile(configDir)])
+      const [meta] = await scanner.scanAllMeta()
+
+      expect(await scanner.getSessionChainConversation(meta.id)).toBeNull()
+    })
+  })
 })
@@ -1,17 +1,58 @@
 import { readdir, stat } from 'fs/promises'
-import { join } from 'path'
+import { basename, join, resolve, sep } from 'path'
 import { homedir } from 'os'
 import { createReadStream } from 'fs'
 import { createInterface } from 'readline'
-import type { Account, ConversationMeta, Conversation, ConversationMessage, MessageMetadata, ToolResult, ToolUseBlock, StructuredPatchHunk, Profile } from '../../shared/types'
+import { buildSessionChains } from './session-chains'
+import { UsageTally, mergeUsage } from './usage'
+import { ToolTally } from './tool-usage'
+import { FileEditTally, toFileEdit } from './file-edits'
+import { TurnRecorder } from './turns'
+import type { Account, CachedFileEntry, ConversationMeta, ConversationChanges, IndexedMessage, IndexedToolCall, Conversation, ConversationMessage, MessageMetadata, PersistedOutputRef, SessionChainPart, TurnStat, FileEdit, FileEditLocation, FileEditStat, ToolResult, ToolUsageEntry, ToolUseBlock, StructuredPatchHunk, Profile, UsageEntry } from '../../shared/types'
+
+interface FileTask {
+  filePath: string
+  fallbackName: string
+  account: Account
+  size: number
+  mtimeMs: number
+}
+
+/**
+ * Receives every user/assistant message and tool call while a file is parsed,
+ * so full text can be indexed without holding whole transcripts in memory.
+ */
+export interface MessageSink {
+  beginConversation(conversationId: string): void
+  addMessage(message: IndexedMessage): void
+  addToolCall(call: IndexedToolCall): void
+}
+
+// Bash/Grep output beyond this is not indexed
+const TOOL_OUTPUT_MAX = 2000
+// Text of a sub-agent transcript indexed with its parent; its final report is
+// also in the parent's Task result, so the start is what matters
+const SUBAGENT_TEXT_MAX = 20_000
+// Distinct file paths kept per conversation, sub-agents included
+const FILE_PATHS_MAX = 500
+
+// Notice left in a transcript in place of an output saved to tool-results/
+const PERSISTED_OUTPUT_RE = /<persisted-output>([\s\S]*?)<\/persisted-output>/
+// Thinking written inline in text; cleanContent() strips it from the reply
+const THINKING_TAG_RE = /<thinking>([\s\S]*?)<\/thinking>/g
 
 export class ConversationScanner {
   private configDirs: Array<{ projectsDir: string; account: Account }>
   private metadataCache: Map<string, ConversationMeta> = new Map()
+  // Size/mtime of every file seen by the last scan, used to detect stale files
+  private fileStamps: Map<string, { size: number; mtimeMs: number }> = new Map()
   private conversationLRU: Map<string, Conversation> = new Map()
   private readonly LRU_MAX = 5
   private projects: Set<string> = new Set()
   private onProgress?: (scanned: number, total: number) => void
+  private messageSink?: MessageSink
+  // Built from metadataCache on first use after each scan
+  private sessionChains: Map<string, string[]> | null = null
 
   constructor(profiles: Profile[]) {
     const home = homedir()
@@ -27,6 +68,10 @@ export class ConversationScanner {
     this.onProgress = cb
   }
 
+  setMessageSink(sink: MessageSink): void {
+    this.messageSink = sink
+  }
+
   private addToLRU(id: string, conversation: Conversation): void {
     this.conversationLRU.delete(id)
     this.conversationLRU.set(id, conversation)
@@ -36,13 +81,118 @@ export class ConversationScanner {
     }
   }
 
-  async scanAllMeta(): Promise<ConversationMeta[]> {
+  getProjectsDirs(): string[] {
+    return this.configDirs.map((c) => c.projectsDir)
+  }
+
+  /**
+   * Scan every profile's projects directory. Files whose size, mtime and
+   * account match an entry in `cachedFiles` reuse the cached meta instead of
+   * being re-parsed.
+   */
+  async scanAllMeta(cachedFiles?: Map<string, CachedFileEntry>): Promise<ConversationMeta[]> {
     const metas: ConversationMeta[] = []
     this.metadataCache.clear()
     this.conversationLRU.clear()
     this.projects.clear()
+    this.fileStamps.clear()
+    this.sessionChains = null
+
+    const addMeta = (meta: ConversationMeta | null): void => {
+      if (!meta) return
+      this.projects.add(meta.projectPath)
+      metas.push(meta)
+      this.metadataCache.set(meta.id, meta)
+    }
 
-    const fileTasks: { filePath: string; fallbackName: string; account: Account }[] = []
+    const fileTasks = await this.collectFileTasks()
+    const staleTasks: FileTask[] = []
+
+    for (const task of fileTasks) {
+      const cached = cachedFiles?.get(task.filePath)
+      const fresh = cached
+        && cached.size === task.size
+        && cached.mtimeMs === task.mtimeMs
+        && (!cached.meta || cached.meta.account === task.account)
+      if (fresh) {
+        this.fileStamps.set(task.filePath, { size: task.size, mtimeMs: task.mtimeMs })
+        addMeta(cached.meta)
+      } else {
+        staleTasks.push(task)
+      }
+    }
+
+    const total = fileTasks.length
+    const reused = total - staleTasks.length
+    if (reused > 0) this.onProgress?.(reused, total)
+
+    await this.parseFileTasks(staleTasks, (_filePath, meta) => addMeta(meta),
+      (scanned) => this.onProgress?.(reused + scanned, total))
+
+    metas.sort((a, b) =>
+      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    )
+
+    return metas
+  }
+
+  /** Snapshot of every scanned file for persisting in the index cache. */
+  getFileEntries(): Map<string, CachedFileEntry> {
+    const entries = new Map<string, CachedFileEntry>()
+    for (const [filePath, stamp] of this.fileStamps) {
+      entries.set(filePath, { ...stamp, meta: this.metadataCache.get(filePath) ?? null })
+    }
+    return entries
+  }
+
+  /**
+   * Re-parse only files whose size or mtime changed since the last scan, and
+   * report which conversations were added, updated or removed. Files that are
+   * still being written are picked up again on the next call because their
+   * stamp keeps changing; a trailing partial line is skipped like any other
+   * malformed line.
+   */
+  async scanChanges(): Promise<ConversationChanges> {
+    const changes: ConversationChanges = { added: [], updated: [], removed: [] }
+    const fileTasks = await this.collectFileTasks()
+    const present = new Set(fileTasks.map((t) => t.filePath))
+
+    for (const filePath of Array.from(this.fileStamps.keys())) {
+      if (present.has(filePath)) continue
+      this.fileStamps.delete(filePath)
+      this.conversationLRU.delete(filePath)
+      if (this.metadataCache.delete(filePath)) {
+        changes.removed.push(filePath)
+      }
+    }
+
+    const staleTasks = fileTasks.filter((task) => {
+      const stamp = this.fileStamps.get(task.filePath)
+      return !stamp || stamp.size !== task.size || stamp.mtimeMs !== task.mtimeMs
+    })
+
+    await this.parseFileTasks(staleTasks, (filePath, meta) => {
+      this.conversationLRU.delete(filePath)
+      if (!meta) {
+        if (this.metadataCache.delete(filePath)) changes.removed.push(filePath)
+        return
+      }
+      if (this.metadataCache.has(meta.id)) {
+        changes.updated.push(meta)
+      } else {
+        changes.added.push(meta)
+      }
+      this.metadataCache.set(meta.id, meta)
+    })
+
+    this.projects = new Set(Array.from(this.metadataCache.values()).map((m) => m.projectPath))
+    this.sessionChains = null
+
+    return changes
+  }
+
+  private async collectFileTasks(): Promise<FileTask[]> {
+    const fileTasks: FileTask[] = []
 
     for (const { projectsDir, account } of this.configDirs) {
       try {
@@ -60,7 +210,7 @@ export class ConversationScanner {
           for (const filePath of jsonlFiles) {
             const fileStats = await stat(filePath)
             if (fileStats.size === 0) continue
-            fileTasks.push({ filePath, fallbackName, account })
+            fileTasks.push({ filePath, fallbackName, account, size: fileStats.size, mtimeMs: fileStats.mtimeMs })
           }
         }
       } catch (err) {
@@ -70,9 +220,16 @@ export class ConversationScanner {
       }
     }
 
+    return fileTasks
+  }
+
+  private async parseFileTasks(
+    fileTasks: FileTask[],
+    onParsed: (filePath: string, meta: ConversationMeta | null) => void,
+    onBatch?: (scanned: number) => void
+  ): Promise<void> {
     const BATCH_SIZE = 10
     let scanned = 0
-    const total = fileTasks.length
 
     for (let i = 0; i < fileTasks.length; i += BATCH_SIZE) {
       const batch = fileTasks.slice(i, i + BATCH_SIZE)
@@ -80,28 +237,22 @@ export class ConversationScanner {
         batch.map(({ filePath, fallbackName, account }) =>
           this.parseConversationMeta(filePath, fallbackName, account).catch((err) => {
             console.error(`Error parsing ${filePath}:`, err)
-            return null
+            return undefined
           })
         )
       )
 
-      for (const meta of results) {
-        if (meta && meta.messageCount > 0) {
-          this.projects.add(meta.projectPath)
-          metas.push(meta)
-          this.metadataCache.set(meta.id, meta)
-        }
-      }
+      results.forEach((meta, j) => {
+        const task = batch[j]
+        // A failed parse leaves the stamp unset so the file is retried next time
+        if (meta === undefined) return
+        this.fileStamps.set(task.filePath, { size: task.size, mtimeMs: task.mtimeMs })
+        onParsed(task.filePath, meta && meta.messageCount > 0 ? meta : null)
+      })
 
       scanned += batch.length
-      this.onProgress?.(scanned, total)
+      onBatch?.(scanned)
     }
-
-    metas.sort((a, b) =>
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    )
-
-    return metas
   }
 
   private async parseConversationMeta(filePath: string, fallbackProjectName: string, account: Account): Promise<ConversationMeta | null> {
@@ -116,11 +267,34 @@ export class ConversationScanner {
     let snippetLength = 0
     const SNIPPET_MAX = 5000
     const PREVIEW_MAX = 200
+    const models = new Set<string>()
+    const gitBranches = new Set<string>()
+    const toolNames = new Set<string>()
+    const filePaths = new Set<string>()
+    // Tool calls waiting for their result, by tool_use id
+    const pendingToolUses = new Map<string, ToolUseBlock>()
+    // Sub-agents reported by a Task result, with the line of that result
+    const spawnedAgents = new Map<string, number>()
+    // Continuity with other sessions, see SessionReferences
+    const fileSessionId = basename(filePath, '.jsonl')
+    const entryUuids = new Set<string>()
+    const messageUuids = new Set<string>()
+    const parentUuids = new Set<string>()
+    const referencedUuids = new Set<string>()
+    const referencedSessionIds = new Set<string>()
+    const usage = new UsageTally(fileSessionId)
+    const toolUsage = new ToolTally(fileSessionId)
+    const fileEdits = new FileEditTally(fileSessionId)
+
+    this.messageSink?.beginConversation(filePath)
 
     const fileStream = createReadStream(filePath)
     const rl = createInterface({ input: fileStream, crlfDelay: Infinity })
 
+    // Counted like parseConversation() so indexed line numbers match ConversationMessage.lineNumber
+    let lineNumber = 0
     for await (const line of rl) {
+      lineNumber++
       if (!line.trim()) continue
 
       try {
@@ -132,14 +306,55 @@ export class ConversationScanner {
         if (entry.timestamp && (!latestTimestamp || entry.timestamp > latestTimestamp)) {
           latestTimestamp = entry.timestamp
         }
+        if (entry.gitBranch) gitBranches.add(entry.gitBranch)
+        usage.add(entry)
+        toolUsage.add(entry)
+        fileEdits.add(entry, lineNumber)
+
+        if (entry.type === 'summary' && typeof entry.leafUuid === 'string') referencedUuids.add(entry.leafUuid)
+        if (typeof entry.sessionId === 'string' && entry.sessionId !== fileSessionId) {
+          referencedSessionIds.add(entry.sessionId)
+        }
+        if (typeof entry.uuid === 'string') {
+          entryUuids.add(entry.uuid)
+          const parent = entry.parentUuid ?? entry.logicalParentUuid
+          if (typeof parent === 'string') {
+            parentUuids.add(parent)
+            referencedUuids.add(parent)
+          }
+          if (entry.type === 'user' || entry.type === 'assistant') messageUuids.add(entry.uuid)
+        }
 
         if ((entry.type === 'user' || entry.type === 'assistant') && !entry.isMeta) {
-          const content = this.extractContent(entry.message?.content)
+          if (entry.message?.model && entry.message.model !== '<synthetic>') models.add(entry.message.model)
+          for (const block of this.extractToolUseBlocks(entry.message?.content)) {
+            toolNames.add(block.name)
+            const toolFilePath = this.extractToolFilePath(block.input)
+            if (toolFilePath && filePaths.size < FILE_PATHS_MAX) filePaths.add(toolFilePath)
+            if (this.messageSink) pendingToolUses.set(block.id, block)
+          }
+
+          if (entry.type === 'user' && typeof entry.toolUseResult?.agentId === 'string') {
+            spawnedAgents.set(entry.toolUseResult.agentId, lineNumber)
+          }
+
+          if (this.messageSink && entry.type === 'assistant') {
+            const thinking = ConversationScanner.extractThinking(entry.message?.content).join('\n')
+            if (thinking) this.messageSink.addMessage({ conversationId: filePath, lineNumber, role: 'assistant', content: thinking, thinking: true })
+          }
+
+          if (this.messageSink && entry.type === 'user' && entry.toolUseResult) {
+            const toolCall = this.toIndexedToolCall(filePath, lineNumber, entry, pendingToolUses)
+            if (toolCall) this.messageSink.addToolCall(toolCall)
+          }
+
+          const content = ConversationScanner.extractContent(entry.message?.content)
           if (content) {
             messageCount++
             if (entry.type === 'user' || entry.type === 'assistant') {
               lastMessageSender = entry.type
             }
+            this.messageSink?.addMessage({ conversationId: filePath, lineNumber, role: entry.type, content })
             if (previewParts.join(' ').length < PREVIEW_MAX) {
               previewParts.push(content)
             }
@@ -163,9 +378,37 @@ export class ConversationScanner {
 
     if (messageCount === 0) return null
 
+    for (const [agentId, resultLine] of spawnedAgents) {
+      const subagentPath = this.getSubagentPath(filePath, agentId)
+      const subagent = subagentPath && await this.readSubagent(subagentPath).catch(() => null)
+      if (!subagent) continue
+      for (const name of subagent.toolNames) toolNames.add(name)
+      for (const path of subagent.filePaths) {
+        if (filePaths.size < FILE_PATHS_MAX) filePaths.add(path)
+      }
+      usage.addEntries(subagent.usage)
+      toolUsage.addEntries(subagent.toolUsage)
+      fileEdits.addEntries(subagent.fileEdits, { agentId, lineNumber: resultLine })
+      // Indexed in the unused assistant slot of the Task result line, so a hit
+      // inside the sub-agent opens the parent at the call that spawned it
+      if (subagent.text) {
+        this.messageSink?.addMessage({ conversationId: filePath, lineNumber: resultLine, role: 'assistant', content: subagent.text })
+      }
+    }
+
     const projectPath = cwd || fallbackProjectName
     const preview = previewParts.join(' ').slice(0, PREVIEW_MAX)
 
+    // Thread tips another session can continue from, and what this one continues
+    const leafUuids = Array.from(messageUuids).filter((uuid) => !parentUuids.has(uuid))
+    const continuesFrom = {
+      uuids: Array.from(referencedUuids).filter((uuid) => !entryUuids.has(uuid)),
+      sessionIds: Array.from(referencedSessionIds),
+    }
+    const usageEntries = usage.entries()
+    const toolUsageEntries = toolUsage.entries()
+    const fileEditStats = fileEdits.entries()
+
     return {
       id: filePath,
       filePath,
@@ -179,6 +422,15 @@ export class ConversationScanner {
       contentSnippet: snippetParts.join(' '),
       lastMessageSender,
       account,
+      models: Array.from(models),
+      gitBranches: Array.from(gitBranches),
+      toolNames: Array.from(toolNames),
+      filePaths: Array.from(filePaths),
+      ...(leafUuids.length > 0 && { leafUuids }),
+      ...((continuesFrom.uuids.length > 0 || continuesFrom.sessionIds.length > 0) && { continuesFrom }),
+      ...(usageEntries.length > 0 && { usage: usageEntries }),
+      ...(toolUsageEntries.length > 0 && { toolUsage: toolUsageEntries }),
+      ...(fileEditStats.length > 0 && { fileEdits: fileEditStats }),
     }
   }
 
@@ -195,7 +447,8 @@ export class ConversationScanner {
       if (stats.isFile() && entry.endsWith('.jsonl')) {
         results.push(fullPath)
       } else if (stats.isDirectory()) {
-        // Recurse into session UUID dirs (skip subagents, tool-results)
+        // Recurse into session UUID dirs. Sub-agent transcripts are read with
+        // their parent session, and tool-results holds no transcripts
         if (entry !== 'subagents' && entry !== 'tool-results') {
           const nested = await this.findJsonlFiles(fullPath)
           results.push(...nested)
@@ -206,6 +459,71 @@ export class ConversationScanner {
     return results
   }
 
+  /**
+   * Where Claude Code keeps the transcript of a sub-agent spawned by a session:
+   * `<session>/subagents/agent-<agentId>.jsonl` next to `<session>.jsonl`.
+   * Null for agent ids that could escape that directory.
+   */
+  private getSubagentPath(filePath: string, agentId: string): string | null {
+    if (!/^[\w-]+$/.test(agentId)) return null
+    return join(filePath.replace(/\.jsonl$/, ''), 'subagents', `agent-${agentId}.jsonl`)
+  }
+
+  /**
+   * The searchable parts of a sub-agent transcript. Sub-agents finish before
+   * the Task result that reports them is written, so re-parsing the parent
+   * whenever it changes keeps them up to date.
+   */
+  private async readSubagent(
+    filePath: string
+  ): Promise<{ text: string; toolNames: string[]; filePaths: string[]; usage: UsageEntry[]; toolUsage: ToolUsageEntry[]; fileEdits: FileEditStat[] }> {
+    const textParts: string[] = []
+    let textLength = 0
+    const toolNames = new Set<string>()
+    const filePaths = new Set<string>()
+    // Sub-agent entries carry the parent's session id, so none count as copied
+    const usage = new UsageTally()
+    const toolUsage = new ToolTally()
+    const fileEdits = new FileEditTally()
+
+    const rl = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity })
+    let lineNumber = 0
+    for await (const line of rl) {
+      lineNumber++
+      if (!line.trim()) continue
+      try {
+        const entry = JSON.parse(line)
+        usage.add(entry)
+        toolUsage.add(entry)
+        fileEdits.add(entry, lineNumber)
+        if ((entry.type !== 'user' && entry.type !== 'assistant') || entry.isMeta) continue
+        for (const block of this.extractToolUseBlocks(entry.message?.content)) {
+          toolNames.add(block.name)
+          const toolFilePath = this.extractToolFilePath(block.input)
+          if (toolFilePath && filePaths.size < FILE_PATHS_MAX) filePaths.add(toolFilePath)
+        }
+        const content = ConversationScanner.extractContent(entry.message?.content)
+        if (content && textLength < SUBAGENT_TEXT_MAX) {
+          const part = content.slice(0, SUBAGENT_TEXT_MAX - textLength)
+          textParts.push(part)
+          // Counting the separator they are joined with
+          textLength += part.length + 2
+        }
+      } catch {
+        // Skip malformed JSON lines
+      }
+    }
+
+    return {
+      text: textParts.join('\n\n'),
+      toolNames: Array.from(toolNames),
+      filePaths: Array.from(filePaths),
+      usage: usage.entries(),
+      toolUsage: toolUsage.entries(),
+      fileEdits: fileEdits.entries()
+    }
+  }
+
   private decodeProjectName(encoded: string): string {
     // Convert -Users-ronenmars-Desktop-dev-ak-chatbot to /Users/ronenmars/Desktop/dev/ak/chatbot
     return encoded.replace(/^-/, '/').replace(/-/g, '/')
@@ -221,6 +539,10 @@ export class ConversationScanner {
 
     // Track pending tool_use blocks from assistant messages to match with results
     const pendingToolUses = new Map<string, ToolUseBlock>()
+    // Parent of every entry with a uuid, including ones not shown as messages
+    const entryParents = new Map<string, string | null>()
+    const shownUuids = new Set<string>()
+    const turns = new TurnRecorder()
 
     const fileStream = createReadStream(filePath)
     const rl = createInterface({
@@ -235,6 +557,12 @@ export class ConversationScanner {
 
       try {
         const entry = JSON.parse(line)
+        turns.add(entry, lineNumber)
+
+        if (entry.uuid && 'parentUuid' in entry) {
+          // Compaction starts a new chain whose logical parent is the last compacted message
+          entryParents.set(entry.uuid, entry.parentUuid ?? entry.logicalParentUuid ?? null)
+        }
 
         if (entry.cwd && !cwd) {
           cwd = entry.cwd
@@ -254,6 +582,62 @@ export class ConversationScanner {
           }
         }
 
+        if (entry.type === 'system' && entry.subtype === 'compact_boundary') {
+          const parentUuid = entry.uuid ? this.findShownParent(entry.uuid, entryParents, shownUuids) : undefined
+          if (entry.uuid) shownUuids.add(entry.uuid)
+          const { trigger, preTokens } = entry.compactMetadata ?? {}
+          messages.push({
+            type: 'system',
+            content: '',
+            timestamp: entry.timestamp || '',
+            uuid: entry.uuid || undefined,
+            ...(parentUuid !== undefined && { parentUuid }),
+            lineNumber,
+            compaction: {
+              ...((trigger === 'manual' || trigger === 'auto') && { trigger }),
+              ...(typeof preTokens === 'number' && { preTokens }),
+            },
+          })
+          continue
+        }
+
+        // Summary entries opening a file summarize the session it continues, and make up one divider
+        if (entry.type === 'summary' && typeof entry.summary === 'string') {
+          const previous = messages[messages.length - 1]
+          if (previous?.compaction?.fromSummaryEntries) {
+            previous.content += '\n' + entry.summary
+            textParts.push(entry.summary)
+          } else if (!previous) {
+            messages.push({ type: 'system', content: entry.summary, timestamp: '', lineNumber, compaction: { fromSummaryEntries: true } })
+            textParts.push(entry.summary)
+          }
+          continue
+        }
+
+        if (entry.type === 'user' && entry.isCompactSummary) {
+          const summary = ConversationScanner.extractContent(entry.message?.content)
+          const boundary = messages[messages.length - 1]
+          if (boundary?.compaction && !boundary.compaction.fromSummaryEntries && !boundary.content) {
+            // The summary belongs to the boundary just before it, and search hits on it open there
+            boundary.content = summary
+            boundary.lineNumber = lineNumber
+          } else {
+            const parentUuid = entry.uuid ? this.findShownParent(entry.uuid, entryParents, shownUuids) : undefined
+            if (entry.uuid) shownUuids.add(entry.uuid)
+            messages.push({
+              type: 'system',
+              content: summary,
+              timestamp: entry.timestamp || '',
+              uuid: entry.uuid || undefined,
+              ...(parentUuid !== undefined && { parentUuid }),
+              lineNumber,
+              compaction: {},
+            })
+          }
+          if (summary) textParts.push(summary)
+          continue
+        }
+
         if (entry.type === 'user' || entry.type === 'assistant') {
           if (entry.isMeta) continue
 
@@ -272,12 +656,14 @@ export class ConversationScanner {
           if (hasToolUseResult) {
             const classified = this.classifyToolResult(entry.toolUseResult, entry.message?.content, pendingToolUses)
             if (classified) {
+              this.attachPersistedOutput(classified, entry.message?.content)
               toolResults = [classified]
             }
           }
 
-          const content = this.extractContent(entry.message?.content)
-          if (content || isToolResultMessage) {
+          const content = ConversationScanner.extractContent(entry.message?.content)
+          const thinking = entry.type === 'assistant' ? ConversationScanner.extractThinking(entry.message?.content) : []
+          if (content || isToolResultMessage || thinking.length > 0) {
             const metadata: MessageMetadata = {}
 
             if (entry.message?.model) metadata.model = entry.message.model
@@ -298,14 +684,21 @@ export class ConversationScanner {
             if (toolUseBlocks.length > 0) metadata.toolUseBlocks = toolUseBlocks
             if (toolResults) metadata.toolResults = toolResults
 
+            let parentUuid = entry.uuid ? this.findShownParent(entry.uuid, entryParents, shownUuids) : undefined
+            if (entry.uuid) shownUuids.add(entry.uuid)
+            // A thread that starts after summary entries carries on from them
+            if (parentUuid === null && messages[messages.length - 1]?.compaction?.fromSummaryEntries) parentUuid = undefined
+
             messages.push({
               type: entry.type,
               content: content || '',
               timestamp: entry.timestamp || '',
               uuid: entry.uuid || undefined,
+              ...(parentUuid !== undefined && { parentUuid }),
               metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
               lineNumber,
-              isToolResult: isToolResultMessage || undefined
+              isToolResult: isToolResultMessage || undefined,
+              ...(thinking.length > 0 && { thinking })
             })
             if (content) textParts.push(content)
           }
@@ -319,6 +712,7 @@ export class ConversationScanner {
 
     const id = filePath // Use file path as unique ID
     const projectPath = cwd || fallbackProjectName
+    const turnStats = this.placeTurns(turns.result(), messages, entryParents, shownUuids)
 
     return {
       id,
@@ -332,14 +726,67 @@ export class ConversationScanner {
       timestamp: latestTimestamp || new Date().toISOString(),
       messageCount: messages.length,
       account,
+      ...(turnStats.length > 0 && { turns: turnStats }),
     }
   }
 
-  private extractContent(content: unknown): string {
+  /**
+   * Turns with the message each response is shown as: its own, or for a
+   * response of tool calls alone, the first shown message that follows from
+   * it, usually their results. A turn with no shown message keeps none.
+   */
+  private placeTurns(
+    turns: TurnStat[],
+    messages: ConversationMessage[],
+    entryParents: Map<string, string | null>,
+    shownUuids: Set<string>
+  ): TurnStat[] {
+    // Each entry not shown → the first shown message after it on its branch
+    const shownAs = new Map<string, string>()
+    for (const message of messages) {
+      if (!message.uuid) continue
+      let parent = entryParents.get(message.uuid)
+      for (let steps = 0; parent && !shownUuids.has(parent) && !shownAs.has(parent) && steps < entryParents.size; steps++) {
+        shownAs.set(parent, message.uuid)
+        parent = entryParents.get(parent)
+      }
+    }
+
+    return turns.map((turn) => {
+      if (!turn.messageUuid || shownUuids.has(turn.messageUuid)) return turn
+      const { messageUuid, ...rest } = turn
+      const shown = shownAs.get(messageUuid)
+      return shown ? { ...rest, messageUuid: shown } : rest
+    })
+  }
+
+  /**
+   * Follow a message's parent chain past entries that are not shown (tool
+   * calls without text, meta and system entries) to the nearest shown one.
+   * Undefined when the chain is not recorded or leaves the file.
+   */
+  private findShownParent(
+    uuid: string,
+    entryParents: Map<string, string | null>,
+    shownUuids: Set<string>
+  ): string | null | undefined {
+    if (!entryParents.has(uuid)) return undefined
+    let parent = entryParents.get(uuid)
+    // Bounded in case a malformed file links entries in a cycle
+    for (let steps = 0; parent && steps < entryParents.size; steps++) {
+      if (shownUuids.has(parent)) return parent
+      if (!entryParents.has(parent)) return undefined
+      parent = entryParents.get(parent)
+    }
+    return parent ? undefined : null
+  }
+
+  /** The displayed text of a message: text blocks and tool result text, without system tags. */
+  static extractContent(content: unknown): string {
     if (!content) return ''
 
     if (typeof content === 'string') {
-      return this.cleanContent(content)
+      return ConversationScanner.cleanContent(content)
     }
 
     if (Array.isArray(content)) {
@@ -353,13 +800,36 @@ export class ConversationScanner {
           return ''
         })
         .filter(Boolean)
-        .map(this.cleanContent)
+        .map(ConversationScanner.cleanContent)
         .join(' ')
     }
 
     return ''
   }
 
+  /** The model's extended thinking in a message: thinking blocks, and <thinking> tags in its text. */
+  static extractThinking(content: unknown): string[] {
+    const blocks: string[] = []
+    const addTagged = (text: string): void => {
+      for (const match of text.matchAll(THINKING_TAG_RE)) {
+        if (match[1].trim()) blocks.push(match[1].trim())
+      }
+    }
+
+    if (typeof content === 'string') {
+      addTagged(content)
+    } else if (Array.isArray(content)) {
+      for (const item of content) {
+        if (item?.type === 'thinking' && typeof item.thinking === 'string' && item.thinking.trim()) {
+          blocks.push(item.thinking.trim())
+        } else if (item?.type === 'text' && typeof item.text === 'string') {
+          addTagged(item.text)
+        }
+      }
+    }
+    return blocks
+  }
+
   private extractToolUseNames(content: unknown): string[] {
     if (!Array.isArray(content)) return []
     return content
@@ -378,6 +848,52 @@ export class ConversationScanner {
       }))
   }
 
+  /**
+   * Searchable fields of a tool result entry, combining the classified result
+   * with the input of the tool_use it answers (command, pattern, file path).
+   */
+  private toIndexedToolCall(
+    conversationId: string,
+    lineNumber: number,
+    entry: { toolUseResult: Record<string, unknown>; message?: { content?: unknown } },
+    pendingToolUses: Map<string, ToolUseBlock>
+  ): IndexedToolCall | null {
+    const content = entry.message?.content
+    const toolUseId = Array.isArray(content)
+      ? content.find((item) => item?.type === 'tool_result')?.tool_use_id
+      : undefined
+    const block = toolUseId ? pendingToolUses.get(toolUseId) : undefined
+    const result = this.classifyToolResult(entry.toolUseResult, content, pendingToolUses)
+    if (toolUseId) pendingToolUses.delete(toolUseId)
+    const input = block?.input ?? {}
+    const call: IndexedToolCall = { conversationId, lineNumber, toolName: block?.name ?? 'unknown' }
+
+    if (result && (result.type === 'edit' || result.type === 'write' || result.type === 'read')) {
+      call.filePath = result.filePath
+    } else {
+      call.filePath = this.extractToolFilePath(input) ?? undefined
+    }
+    if (typeof input.command === 'string' && input.command) call.command = input.command
+    if (typeof input.pattern === 'string' && input.pattern) call.pattern = input.pattern
+
+    let output = ''
+    if (result?.type === 'bash') output = [result.stdout, result.stderr].filter(Boolean).join('\n')
+    else if (result?.type === 'grep') output = result.content || result.filenames.join('\n')
+    else if (result?.type === 'glob') output = result.filenames.join('\n')
+    if (output) call.output = output.slice(0, TOOL_OUTPUT_MAX)
+
+    return call.filePath || call.command || call.pattern || call.output ? call : null
+  }
+
+  // The file a Read/Edit/Write/Glob/Grep/NotebookEdit call operated on, if any
+  private extractToolFilePath(input: Record<string, unknown>): string | null {
+    for (const key of ['file_path', 'notebook_path', 'path']) {
+      const value = input[key]
+      if (typeof value === 'string' && value) return value
+    }
+    return null
+  }
+
   /**
    * Check if a user message content array consists entirely of tool_result blocks
    * (no human text).
@@ -466,11 +982,14 @@ export class ConversationScanner {
 
     // Task agent: has status + prompt + agentId
     if ('status' in raw && 'prompt' in raw && 'agentId' in raw) {
+      const input = this.findToolUse(messageContent, _pendingToolUses)?.input
       return {
         type: 'taskAgent',
         status: raw.status as string,
         prompt: raw.prompt as string,
-        agentId: raw.agentId as string
+        agentId: raw.agentId as string,
+        ...(typeof input?.description === 'string' && { description: input.description }),
+        ...(typeof input?.subagent_type === 'string' && { subagentType: input.subagent_type })
       }
     }
 
@@ -499,37 +1018,68 @@ export class ConversationScanner {
     // Generic message (e.g., EnterPlanMode)
     if ('message' in raw && Object.keys(raw).length === 1) {
       // Determine tool name from the content's tool_use_id
-      let toolName = 'unknown'
-      if (Array.isArray(messageContent)) {
-        const toolResultItem = messageContent.find((i: Record<string, unknown>) => i?.type === 'tool_result')
-        if (toolResultItem?.tool_use_id) {
-          const pending = _pendingToolUses.get(toolResultItem.tool_use_id as string)
-          if (pending) toolName = pending.name
-        }
-      }
       return {
         type: 'generic',
-        toolName,
+        toolName: this.findToolUse(messageContent, _pendingToolUses)?.name ?? 'unknown',
         data: raw
       }
     }
 
     // Fallback: Generic with best-effort tool name
-    let toolName = 'unknown'
-    if (Array.isArray(messageContent)) {
-      const toolResultItem = messageContent.find((i: Record<string, unknown>) => i?.type === 'tool_result')
-      if (toolResultItem?.tool_use_id) {
-        const pending = _pendingToolUses.get(toolResultItem.tool_use_id as string)
-        if (pending) toolName = pending.name
-      }
-    }
     return {
       type: 'generic',
-      toolName,
+      toolName: this.findToolUse(messageContent, _pendingToolUses)?.name ?? 'unknown',
       data: raw
     }
   }
 
+  /**
+   * Link a tool result to the file Claude Code saved its output to when it was
+   * too large to keep inline. The `<persisted-output>` notice left in its
+   * place is replaced by the preview it carries.
+   */
+  private attachPersistedOutput(result: ToolResult, messageContent: unknown): void {
+    if (result.type !== 'bash' && result.type !== 'grep' && result.type !== 'generic') return
+
+    const inline = result.type === 'bash' ? result.stdout : result.type === 'grep' ? result.content : undefined
+    const persisted = (inline && ConversationScanner.parsePersistedOutput(inline))
+      || ConversationScanner.parsePersistedOutput(this.extractToolResultText(messageContent))
+    if (!persisted) return
+
+    result.persistedOutput = persisted
+    if (result.type === 'bash') result.stdout = result.stdout.replace(PERSISTED_OUTPUT_RE, persisted.preview)
+    if (result.type === 'grep' && result.content) result.content = result.content.replace(PERSISTED_OUTPUT_RE, persisted.preview)
+  }
+
+  /** The saved file and preview named by a `<persisted-output>` notice, if the text has one. */
+  static parsePersistedOutput(text: string): PersistedOutputRef | null {
+    const body = text.match(PERSISTED_OUTPUT_RE)?.[1]
+    const path = body?.match(/saved to:\s*(\S+)/i)?.[1]
+    if (!body || !path) return null
+    const preview = body.match(/Preview[^\n]*:\n([\s\S]*)$/i)?.[1] ?? ''
+    return { path, preview: preview.trim() }
+  }
+
+  // The text of the tool_result blocks in a message, whether a string or text blocks
+  private extractToolResultText(content: unknown): string {
+    if (!Array.isArray(content)) return ''
+    return content
+      .filter((item) => item?.type === 'tool_result')
+      .map((item) => {
+        if (typeof item.content === 'string') return item.content
+        if (!Array.isArray(item.content)) return ''
+        return item.content.map((block: { text?: unknown }) => (typeof block?.text === 'string' ? block.text : '')).join('\n')
+      })
+      .join('\n')
+  }
+
+  // The tool_use block a tool result message answers, if it was seen earlier
+  private findToolUse(messageContent: unknown, pendingToolUses: Map<string, ToolUseBlock>): ToolUseBlock | undefined {
+    if (!Array.isArray(messageContent)) return undefined
+    const toolResultItem = messageContent.find((i: Record<string, unknown>) => i?.type === 'tool_result')
+    return toolResultItem?.tool_use_id ? pendingToolUses.get(toolResultItem.tool_use_id as string) : undefined
+  }
+
   // System tags injected by Claude Code hooks, IDE integrations, and the runtime.
   // Single regex with backreference ensures matched open/close pairs in one pass.
   private static SYSTEM_TAG_RE = new RegExp(
@@ -559,7 +1109,7 @@ export class ConversationScanner {
     'g'
   )
 
-  private cleanContent(text: string): string {
+  private static cleanContent(text: string): string {
     return text
       .replace(ConversationScanner.SYSTEM_TAG_RE, '')
       // Collapse horizontal whitespace (spaces, tabs) while preserving newlines
@@ -583,21 +1133,200 @@ export class ConversationScanner {
       return cached
     }
 
+    const conversation = await this.readConversation(id)
+    if (conversation) {
+      this.addToLRU(id, conversation)
+    }
+    return conversation
+  }
+
+  /**
+   * Parse a conversation without keeping it in the LRU, for background work
+   * that walks every conversation and would otherwise evict the ones in view.
+   */
+  async readConversation(id: string): Promise<Conversation | null> {
     const meta = this.metadataCache.get(id)
     if (!meta) return null
 
     try {
       const conversation = await this.parseConversation(meta.filePath, meta.projectName, meta.account)
-      if (conversation) {
-        this.addToLRU(id, conversation)
-      }
-      return conversation
+      // Counted by the last scan, which also read the sub-agents
+      return conversation && meta.usage ? { ...conversation, usage: meta.usage } : conversation
     } catch (err) {
       console.error(`Error re-parsing conversation ${id}:`, err)
       return null
     }
   }
 
+  /** Every file in a chain of resumed or continued sessions → the chain's ids, oldest first. */
+  getSessionChains(): Map<string, string[]> {
+    if (!this.sessionChains) this.sessionChains = buildSessionChains(this.getAllMeta())
+    return this.sessionChains
+  }
+
+  /**
+   * The whole session chain a conversation belongs to as one conversation:
+   * the parts' messages oldest first, with messages a resumed session copied
+   * from its predecessor shown once. Null when it stands alone.
+   */
+  async getSessionChainConversation(id: string): Promise<Conversation | null> {
+    const ids = this.getSessionChains().get(id)
+    if (!ids) return null
+
+    const messages: ConversationMessage[] = []
+    const chain: SessionChainPart[] = []
+    const fullTexts: string[] = []
+    const usage: UsageEntry[] = []
+    const turns: TurnStat[] = []
+    const seenUuids = new Set<string>()
+    let latest: Conversation | null = null
+
+    for (const partId of ids) {
+      const part = await this.readConversation(partId)
+      if (!part) continue
+      latest = part
+      fullTexts.push(part.fullText)
+      usage.push(...(part.usage ?? []))
+
+      const firstMessageIndex = messages.length
+      const previousUuid = messages[messages.length - 1]?.uuid
+      const copiedUuids = new Set<string>()
+      for (const message of part.messages) {
+        if (message.uuid) {
+          if (seenUuids.has(message.uuid)) {
+            copiedUuids.add(message.uuid)
+            continue
+          }
+          seenUuids.add(message.uuid)
+        }
+        // A part that starts a fresh thread carries on from the end of the previous one
+        if (message.parentUuid === null && firstMessageIndex > 0) {
+          messages.push({ ...message, parentUuid: previousUuid })
+        } else {
+          messages.push(message)
+        }
+      }
+      // Turns are placed by their message, as line numbers repeat across the parts' files
+      for (const turn of part.turns ?? []) {
+        if (turn.messageUuid && copiedUuids.has(turn.messageUuid)) continue
+        turns.push(turn)
+      }
+      if (messages.length > firstMessageIndex) {
+        chain.push({
+          id: part.id,
+          sessionId: part.sessionId,
+          timestamp: part.timestamp,
+          firstMessageIndex,
+          messageCount: messages.length - firstMessageIndex,
+        })
+      }
+    }
+
+    if (!latest) return null
+    const { turns: _turns, ...rest } = latest
+    return {
+      ...rest,
+      messages,
+      fullText: fullTexts.join(' '),
+      messageCount: messages.length,
+      chain,
+      ...(turns.length > 0 && { turns }),
+      ...(usage.length > 0 && { usage: mergeUsage(usage) })
+    }
+  }
+
+  /** The transcript of a sub-agent spawned by a conversation, parsed like a conversation of its own. */
+  async getSubagentTranscript(id: string, agentId: string): Promise<Conversation | null> {
+    const meta = this.metadataCache.get(id)
+    const subagentPath = meta && this.getSubagentPath(meta.filePath, agentId)
+    if (!meta || !subagentPath) return null
+
+    try {
+      return await this.parseConversation(subagentPath, meta.projectName, meta.account)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error parsing sub-agent ${agentId} of ${id}:`, err)
+      }
+      return null
+    }
+  }
+
+  /**
+   * The changes a conversation and its sub-agents made to a file, with the
+   * diffs, oldest first. Only the lines the last scan recorded for the file
+   * are parsed, and each transcript is read no further than the last of them.
+   */
+  async getFileEdits(id: string, filePath: string, locations: FileEditLocation[]): Promise<FileEdit[]> {
+    const meta = this.metadataCache.get(id)
+    if (!meta) return []
+
+    // Sub-agent id ('' for the session itself) → line in its transcript → location
+    const transcripts = new Map<string, Map<number, FileEditLocation>>()
+    for (const location of locations) {
+      const agentId = location.agentId ?? ''
+      const lines = transcripts.get(agentId) ?? new Map<number, FileEditLocation>()
+      lines.set(location.agentLine ?? location.lineNumber, location)
+      transcripts.set(agentId, lines)
+    }
+
+    const edits: FileEdit[] = []
+    for (const [agentId, lines] of transcripts) {
+      const transcriptPath = agentId ? this.getSubagentPath(meta.filePath, agentId) : meta.filePath
+      if (!transcriptPath) continue
+      try {
+        for (const [lineNumber, line] of await this.readLines(transcriptPath, new Set(lines.keys()))) {
+          try {
+            const edit = toFileEdit(JSON.parse(line), lines.get(lineNumber)!)
+            if (edit?.result.filePath === filePath) edits.push(edit)
+          } catch {
+            // Skip malformed JSON lines
+          }
+        }
+      } catch (err) {
+        // A sub-agent transcript that was not kept has no changes to add
+        if (!agentId) console.error(`Error reading file edits of ${id}:`, err)
+      }
+    }
+
+    return edits.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  }
+
+  /** The given lines of a file by line number, reading no further than the last of them. */
+  private async readLines(filePath: string, lineNumbers: Set<number>): Promise<Map<number, string>> {
+    const lines = new Map<number, string>()
+    if (lineNumbers.size === 0) return lines
+    const last = Math.max(...lineNumbers)
+    const input = createReadStream(filePath)
+    try {
+      const rl = createInterface({ input, crlfDelay: Infinity })
+      let lineNumber = 0
+      for await (const line of rl) {
+        lineNumber++
+        if (lineNumbers.has(lineNumber)) lines.set(lineNumber, line)
+        if (lineNumber >= last) break
+      }
+    } finally {
+      input.destroy()
+    }
+    return lines
+  }
+
+  /**
+   * The absolute path of a persisted tool output of a conversation, or null
+   * unless it lies inside that session's tool-results directory.
+   */
+  resolveToolOutputPath(id: string, outputPath: string): string | null {
+    const meta = this.metadataCache.get(id)
+    if (!meta) return null
+    const dir = join(meta.filePath.replace(/\.jsonl$/, ''), 'tool-results')
+    const resolved = resolve(dir, outputPath)
+    return resolved.startsWith(dir + sep) ? resolved : null
+  }
+
+  getAllMeta(): ConversationMeta[] {
+    return Array.from(this.metadataCache.values())
+  }
+
   getLatestForProject(projectPath: string): ConversationMeta | null {
     let latest: ConversationMeta | null = null
     for (const meta of this.metadataCache.values()) {
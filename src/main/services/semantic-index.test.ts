@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { SemanticIndex, chunkConversation } from './semantic-index'
+import { EMBEDDING_DIMENSIONS } from './embedding'
+import {
+  buildAssistantMessage,
+  buildConversation,
+  buildConversationMeta,
+  buildMessage,
+  buildToolResultMessage,
+  resetFactoryCounter
+} from '../../test/factories'
+import type { Conversation, ConversationMeta } from '../../shared/types'
+
+// Stands in for the model, which embedding.test.ts covers: a text lies on the
+// axis of each topic it has a word of, so texts on one topic are similar
+const TOPICS = [
+  ['crashes', 'exception'],
+  ['sidebar', 'button'],
+  ['deploy', 'release', 'production', 'prod'],
+  ['build', 'compile'],
+  ['docker', 'container', 'kubernetes', 'pod'],
+  ['git', 'rebase']
+]
+
+async function embedTopics(texts: string[]): Promise<Float32Array[]> {
+  return texts.map((text) => {
+    const vector = new Float32Array(EMBEDDING_DIMENSIONS)
+    const words = text.toLowerCase().split(/\W+/)
+    TOPICS.forEach((topic, i) => {
+      if (topic.some((word) => words.includes(word))) vector[i] = 1
+    })
+    const norm = Math.hypot(...vector)
+    return norm > 0 ? vector.map((value) => value / norm) : vector
+  })
+}
+
+function conversationFor(meta: ConversationMeta, texts: string[]): Conversation {
+  return buildConversation({
+    id: meta.id,
+    messages: texts.map((content, i) => buildMessage({ content, lineNumber: i + 1 }))
+  })
+}
+
+describe('chunkConversation', () => {
+  it('embeds user and assistant text, splitting long messages', () => {
+    const conversation = buildConversation({
+      messages: [
+        buildMessage({ content: 'why is the build failing?', lineNumber: 1 }),
+        buildToolResultMessage([], { content: 'tool output', lineNumber: 2 }),
+        buildMessage({ type: 'system', content: 'compacted', lineNumber: 3 }),
+        buildAssistantMessage({ content: 'x'.repeat(2500), lineNumber: 4 }),
+        buildMessage({ content: 'no line number' })
+      ]
+    })
+
+    const chunks = chunkConversation(conversation)
+
+    expect(chunks.map((c) => c.lineNumber)).toEqual([1, 4, 4, 4])
+    expect(chunks[0].excerpt).toBe('why is the build failing?')
+    expect(chunks[1].excerpt).toHaveLength(203)
+  })
+})
+
+describe('SemanticIndex', () => {
+  let index: SemanticIndex
+
+  beforeEach(() => {
+    resetFactoryCounter()
+    index = new SemanticIndex(embedTopics)
+  })
+
+  it('finds the conversation closest in meaning, at the message that matched', async () => {
+    const crash = buildConversationMeta()
+    const styling = buildConversationMeta()
+    const conversations = new Map([
+      [crash.id, conversationFor(crash, ['hello', 'an exception is thrown while the application boots'])],
+      [styling.id, conversationFor(styling, ['make the sidebar button blue'])]
+    ])
+
+    await index.sync([crash, styling], async (id) => conversations.get(id) ?? null)
+    const hits = await index.search('the app crashes on startup', 10)
+
+    expect(hits).toHaveLength(1)
+    expect(hits[0]).toMatchObject({ conversationId: crash.id, lineNumber: 2 })
+    expect(hits[0].similarity).toBeGreaterThan(0.4)
+  })
+
+  it('only embeds conversations that are new or changed, and forgets removed ones', async () => {
+    const kept = buildConversationMeta()
+    const changed = buildConversationMeta()
+    const removed = buildConversationMeta()
+    const load = vi.fn(async (id: string) => conversationFor(buildConversationMeta({ id }), ['deploy to production']))
+
+    await index.sync([kept, changed, removed], load)
+    load.mockClear()
+    const updated = { ...changed, messageCount: changed.messageCount + 1 }
+    await index.sync([kept, updated], load)
+
+    expect(load.mock.calls.map(([id]) => id)).toEqual([changed.id])
+    expect((await index.search('release to prod', 10)).map((hit) => hit.conversationId).sort()).toEqual(
+      [kept.id, changed.id].sort()
+    )
+    expect(index.getStatus()).toEqual({ embedded: 2, total: 2, building: false })
+  })
+
+  it('embeds the chunks of each conversation through the given embedder', async () => {
+    const embed = vi.fn(embedTopics)
+    const meta = buildConversationMeta()
+    const withEmbedder = new SemanticIndex(embed)
+
+    await withEmbedder.sync([meta], async () => conversationFor(meta, ['the build fails', 'rerun the build']))
+
+    expect(embed).toHaveBeenCalledWith(['the build fails', 'rerun the build'])
+    expect((await withEmbedder.search('compile error', 10)).map((hit) => hit.conversationId)).toEqual([meta.id])
+  })
+
+  it('embeds a query once while it is searched again', async () => {
+    const embed = vi.fn(embedTopics)
+    const withEmbedder = new SemanticIndex(embed)
+
+    await withEmbedder.search('compile error', 10)
+    await withEmbedder.search('compile error', 20)
+    await withEmbedder.search('git rebase', 10)
+
+    expect(embed.mock.calls).toEqual([[['compile error']], [['git rebase']]])
+  })
+
+  it('reports progress and can be stopped', async () => {
+    const metas = Array.from({ length: 12 }, () => buildConversationMeta())
+    const progress: number[] = []
+
+    const finished = await index.sync(
+      metas,
+      async (id) => conversationFor(buildConversationMeta({ id }), ['git rebase']),
+      (status) => {
+        progress.push(status.embedded)
+        if (status.embedded === 5) index.stop()
+      }
+    )
+
+    expect(finished).toBe(false)
+    expect(progress).toEqual([0, 5])
+    expect(index.getStatus().building).toBe(false)
+  })
+
+  describe('persistence', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'semantic-index-test-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('restores saved vectors without embedding again', async () => {
+      const meta = buildConversationMeta()
+      await index.sync([meta], async () => conversationFor(meta, ['docker container keeps restarting']))
+      const filePath = join(dir, 'semantic-index.json')
+      await index.save(filePath)
+
+      const restored = await SemanticIndex.load(filePath, embedTopics)
+      const load = vi.fn()
+      await restored.sync([meta], load)
+
+      expect(load).not.toHaveBeenCalled()
+      expect(await restored.search('kubernetes pod restarts', 10)).toEqual(await index.search('kubernetes pod restarts', 10))
+    })
+
+    it('starts empty from a missing or foreign file', async () => {
+      const filePath = join(dir, 'semantic-index.json')
+      expect(await (await SemanticIndex.load(filePath, embedTopics)).search('anything', 10)).toEqual([])
+
+      await writeFile(filePath, JSON.stringify({ model: 'other-model', conversations: {} }), 'utf-8')
+      expect((await SemanticIndex.load(filePath, embedTopics)).getStatus()).toEqual({ embedded: 0, total: 0, building: false })
+    })
+  })
+})
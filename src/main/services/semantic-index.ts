@@ -0,0 +1,230 @@
+import { readFile, writeFile, mkdir, rename, rm } from 'fs/promises'
+import { dirname } from 'path'
+import { EMBEDDING_DIMENSIONS, EMBEDDING_MODEL, cosineSimilarity } from './embedding'
+import type { Conversation, ConversationMeta, SemanticIndexStatus } from '../../shared/types'
+
+// Characters per embedded chunk; longer messages are split
+const CHUNK_SIZE = 1000
+// Later parts of very long messages (pasted logs, file dumps) add little meaning
+const MAX_CHUNKS_PER_MESSAGE = 4
+const EXCERPT_LENGTH = 200
+// Below this a nearest neighbour is about something else
+export const MIN_SIMILARITY = 0.4
+// Conversations embedded between two yields to the event loop
+const BATCH_SIZE = 5
+
+interface Chunk {
+  lineNumber: number
+  excerpt: string
+  vector: Float32Array
+}
+
+// A message part before it is embedded
+export interface ChunkText {
+  lineNumber: number
+  excerpt: string
+  text: string
+}
+
+/** Unit-length vectors of the given texts, in order; see `EmbeddingWorker`. */
+export type Embedder = (texts: string[]) => Promise<Float32Array[]>
+
+interface EmbeddedConversation {
+  // Changes whenever the conversation does, see getSignature()
+  signature: string
+  chunks: Chunk[]
+}
+
+interface SemanticIndexFile {
+  model: string
+  conversations: Record<string, {
+    signature: string
+    chunks: Array<{ lineNumber: number; excerpt: string; vector: string }>
+  }>
+}
+
+/** The message chunk of a conversation closest to a query. */
+export interface SemanticHit {
+  conversationId: string
+  lineNumber: number
+  excerpt: string
+  similarity: number
+}
+
+function getSignature(meta: ConversationMeta): string {
+  return `${meta.messageCount}:${meta.timestamp}`
+}
+
+/** Split the user and assistant messages of a conversation into the chunks to embed. */
+export function chunkConversation(conversation: Conversation): ChunkText[] {
+  const chunks: ChunkText[] = []
+  for (const message of conversation.messages) {
+    if (message.type === 'system' || message.isToolResult || message.lineNumber === undefined) continue
+    const text = message.content.trim()
+    for (let i = 0; i < text.length && i < CHUNK_SIZE * MAX_CHUNKS_PER_MESSAGE; i += CHUNK_SIZE) {
+      const part = text.slice(i, i + CHUNK_SIZE)
+      chunks.push({
+        lineNumber: message.lineNumber,
+        excerpt: part.length > EXCERPT_LENGTH ? part.slice(0, EXCERPT_LENGTH) + '...' : part,
+        text: part
+      })
+    }
+  }
+  return chunks
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64')
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64')
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength))
+}
+
+/**
+ * Embedded message chunks of every conversation, for finding conversations
+ * by meaning (see `embedTexts()`). Conversations are embedded in the
+ * background by `sync()`, newest first, through `embed`, and stored in a file
+ * of their own next to the index cache.
+ */
+export class SemanticIndex {
+  private conversations: Map<string, EmbeddedConversation> = new Map()
+  private status: SemanticIndexStatus = { embedded: 0, total: 0, building: false }
+  // Bumped by stop() and by every sync(), which ends any sync still running
+  private generation = 0
+  // Paging through results searches the same text again
+  private lastQuery: { text: string; vector: Promise<Float32Array> } | null = null
+
+  constructor(private readonly embed: Embedder) {}
+
+  /**
+   * Embed the conversations that are new or changed since they were last
+   * embedded and forget the ones that are gone. Resolves to false when
+   * stopped or superseded by another sync before finishing.
+   */
+  async sync(
+    metas: ConversationMeta[],
+    load: (id: string) => Promise<Conversation | null>,
+    onProgress?: (status: SemanticIndexStatus) => void
+  ): Promise<boolean> {
+    const generation = ++this.generation
+    const current = new Map(metas.map((meta) => [meta.id, meta]))
+    for (const id of this.conversations.keys()) {
+      if (!current.has(id)) this.conversations.delete(id)
+    }
+
+    const pending = metas
+      .filter((meta) => this.conversations.get(meta.id)?.signature !== getSignature(meta))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    this.status = { embedded: metas.length - pending.length, total: metas.length, building: pending.length > 0 }
+    onProgress?.({ ...this.status })
+
+    for (let i = 0; i < pending.length; i++) {
+      const meta = pending[i]
+      try {
+        const conversation = await load(meta.id)
+        if (generation !== this.generation) return false
+        if (conversation) {
+          const texts = chunkConversation(conversation)
+          const vectors = await this.embed(texts.map((chunk) => chunk.text))
+          if (generation !== this.generation) return false
+          const chunks = texts.map(({ lineNumber, excerpt }, j) => ({ lineNumber, excerpt, vector: vectors[j] }))
+          this.conversations.set(meta.id, { signature: getSignature(meta), chunks })
+        }
+      } catch (err) {
+        console.error(`Failed to embed conversation ${meta.id}:`, err)
+      }
+      this.status.embedded++
+
+      if ((i + 1) % BATCH_SIZE === 0) {
+        onProgress?.({ ...this.status })
+        await new Promise((resolve) => setImmediate(resolve))
+        if (generation !== this.generation) return false
+      }
+    }
+
+    this.status.building = false
+    onProgress?.({ ...this.status })
+    return true
+  }
+
+  stop(): void {
+    this.generation++
+    this.status.building = false
+  }
+
+  getStatus(): SemanticIndexStatus {
+    return { ...this.status }
+  }
+
+  /** The best matching chunk of each conversation close enough to the text, most similar first. */
+  async search(text: string, limit: number): Promise<SemanticHit[]> {
+    if (this.lastQuery?.text !== text) {
+      const vector = this.embed([text]).then(([embedded]) => embedded)
+      // A failed embedding is not kept for the next search
+      vector.catch(() => {
+        if (this.lastQuery?.vector === vector) this.lastQuery = null
+      })
+      this.lastQuery = { text, vector }
+    }
+    const query = await this.lastQuery.vector
+    const hits: SemanticHit[] = []
+
+    for (const [conversationId, { chunks }] of this.conversations) {
+      let best: Chunk | null = null
+      let bestSimilarity = MIN_SIMILARITY
+      for (const chunk of chunks) {
+        const similarity = cosineSimilarity(query, chunk.vector)
+        if (similarity >= bestSimilarity) {
+          best = chunk
+          bestSimilarity = similarity
+        }
+      }
+      if (best) {
+        hits.push({ conversationId, lineNumber: best.lineNumber, excerpt: best.excerpt, similarity: bestSimilarity })
+      }
+    }
+
+    return hits.sort((a, b) => b.similarity - a.similarity).slice(0, limit)
+  }
+
+  async save(filePath: string): Promise<void> {
+    const payload: SemanticIndexFile = { model: EMBEDDING_MODEL, conversations: {} }
+    for (const [id, { signature, chunks }] of this.conversations) {
+      payload.conversations[id] = {
+        signature,
+        chunks: chunks.map((chunk) => ({ ...chunk, vector: encodeVector(chunk.vector) }))
+      }
+    }
+    await mkdir(dirname(filePath), { recursive: true })
+    // Same temp-file dance as the index cache, so a crash never leaves half a file
+    const tmpPath = `${filePath}.tmp`
+    await writeFile(tmpPath, JSON.stringify(payload), 'utf-8')
+    await rename(tmpPath, filePath)
+  }
+
+  /** Restore a saved index; anything missing, corrupt or embedded by another model starts empty. */
+  static async load(filePath: string, embed: Embedder): Promise<SemanticIndex> {
+    const index = new SemanticIndex(embed)
+    try {
+      const parsed = JSON.parse(await readFile(filePath, 'utf-8')) as SemanticIndexFile
+      if (parsed.model !== EMBEDDING_MODEL || !parsed.conversations) return index
+      for (const [id, { signature, chunks }] of Object.entries(parsed.conversations)) {
+        index.conversations.set(id, {
+          signature,
+          chunks: chunks
+            .map((chunk) => ({ ...chunk, vector: decodeVector(chunk.vector) }))
+            .filter((chunk) => chunk.vector.length === EMBEDDING_DIMENSIONS)
+        })
+      }
+    } catch {
+      // Missing or corrupt — everything gets embedded again
+    }
+    return index
+  }
+
+  static async clear(filePath: string): Promise<void> {
+    await rm(filePath, { force: true })
+  }
+}
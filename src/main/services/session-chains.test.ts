@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { buildSessionChains } from './session-chains'
+import { buildConversationMeta, resetFactoryCounter } from '../../test/factories'
+import type { ConversationMeta } from '../../shared/types'
+
+function session(name: string, timestamp: string, overrides: Partial<ConversationMeta> = {}): ConversationMeta {
+  const filePath = `/projects/app/${name}.jsonl`
+  return buildConversationMeta({ id: filePath, filePath, timestamp, ...overrides })
+}
+
+describe('buildSessionChains', () => {
+  beforeEach(() => {
+    resetFactoryCounter()
+  })
+
+  it('links a continued session to the file holding the thread it continues', () => {
+    const first = session('first', '2025-01-01T10:00:00Z', { leafUuids: ['u-9'] })
+    const second = session('second', '2025-01-02T10:00:00Z', {
+      continuesFrom: { uuids: ['u-9'], sessionIds: [] },
+    })
+
+    const chains = buildSessionChains([second, first])
+
+    expect(chains.get(first.id)).toEqual([first.id, second.id])
+    expect(chains.get(second.id)).toBe(chains.get(first.id))
+  })
+
+  it('links a resumed session by the session ids it copied', () => {
+    const first = session('aaa', '2025-01-01T10:00:00Z')
+    const second = session('bbb', '2025-01-02T10:00:00Z', { continuesFrom: { uuids: [], sessionIds: ['aaa'] } })
+    const third = session('ccc', '2025-01-03T10:00:00Z', { continuesFrom: { uuids: [], sessionIds: ['bbb'] } })
+
+    expect(buildSessionChains([third, first, second]).get(third.id)).toEqual([first.id, second.id, third.id])
+  })
+
+  it('leaves out sessions that stand alone or refer to files that are gone', () => {
+    const alone = session('alone', '2025-01-01T10:00:00Z', { leafUuids: ['u-1'] })
+    const orphan = session('orphan', '2025-01-02T10:00:00Z', {
+      continuesFrom: { uuids: ['deleted-leaf'], sessionIds: ['deleted-session'] },
+    })
+
+    expect(buildSessionChains([alone, orphan]).size).toBe(0)
+  })
+
+  it('does not link sessions of different accounts', () => {
+    const first = session('first', '2025-01-01T10:00:00Z', { leafUuids: ['u-9'], account: 'work' })
+    const second = session('second', '2025-01-02T10:00:00Z', {
+      continuesFrom: { uuids: ['u-9'], sessionIds: ['first'] },
+    })
+
+    expect(buildSessionChains([first, second]).size).toBe(0)
+  })
+})
@@ -0,0 +1,64 @@
+import { basename } from 'path'
+import type { ConversationMeta } from '../../shared/types'
+
+/**
+ * Group files that continue one another — a resumed session copying its
+ * predecessor's messages under the old session id, or a continued one opening
+ * with summaries and parents that point into the previous file — into chains.
+ * Files only link within their own account.
+ *
+ * Returns, for every file in a chain of two or more, the ids of the whole
+ * chain oldest first; files that stand alone are left out.
+ */
+export function buildSessionChains(metas: ConversationMeta[]): Map<string, string[]> {
+  const byLeafUuid = new Map<string, string>()
+  const bySessionId = new Map<string, string>()
+  for (const meta of metas) {
+    for (const uuid of meta.leafUuids ?? []) byLeafUuid.set(`${meta.account}\0${uuid}`, meta.id)
+    bySessionId.set(`${meta.account}\0${basename(meta.filePath, '.jsonl')}`, meta.id)
+  }
+
+  // Union-find over conversation ids
+  const roots = new Map<string, string>()
+  const find = (id: string): string => {
+    let root = id
+    while (roots.has(root) && roots.get(root) !== root) root = roots.get(root)!
+    roots.set(id, root)
+    return root
+  }
+  const link = (a: string, b: string): void => {
+    if (a === b) return
+    roots.set(find(a), find(b))
+  }
+
+  for (const meta of metas) {
+    if (!meta.continuesFrom) continue
+    for (const uuid of meta.continuesFrom.uuids) {
+      const previous = byLeafUuid.get(`${meta.account}\0${uuid}`)
+      if (previous) link(meta.id, previous)
+    }
+    for (const sessionId of meta.continuesFrom.sessionIds) {
+      const previous = bySessionId.get(`${meta.account}\0${sessionId}`)
+      if (previous) link(meta.id, previous)
+    }
+  }
+
+  const groups = new Map<string, ConversationMeta[]>()
+  for (const meta of metas) {
+    if (!roots.has(meta.id)) continue
+    const root = find(meta.id)
+    const group = groups.get(root)
+    if (group) group.push(meta)
+    else groups.set(root, [meta])
+  }
+
+  const chains = new Map<string, string[]>()
+  for (const group of groups.values()) {
+    if (group.length < 2) continue
+    const ids = group
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .map((meta) => meta.id)
+    for (const id of ids) chains.set(id, ids)
+  }
+  return chains
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { readToolOutputPage } from './tool-output'
+
+let tempDirs: string[] = []
+
+afterEach(async () => {
+  for (const dir of tempDirs) {
+    await rm(dir, { recursive: true, force: true }).catch(() => {})
+  }
+  tempDirs = []
+})
+
+async function outputFile(content: string): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'tool-output-test-'))
+  tempDirs.push(dir)
+  const path = join(dir, 'toolu_1.txt')
+  await writeFile(path, content, 'utf-8')
+  return path
+}
+
+describe('readToolOutputPage', () => {
+  it('reads a small output in one page', async () => {
+    const path = await outputFile('line 1\nline 2\n')
+
+    expect(await readToolOutputPage(path)).toEqual({ text: 'line 1\nline 2\n', offset: 0, nextOffset: null, totalSize: 14 })
+  })
+
+  it('ends pages after the last full line and continues from there', async () => {
+    const path = await outputFile('aaaa\nbbbb\ncccc\n')
+
+    const first = await readToolOutputPage(path, 0, 12)
+    expect(first).toMatchObject({ text: 'aaaa\nbbbb\n', nextOffset: 10 })
+
+    const second = await readToolOutputPage(path, first.nextOffset!, 12)
+    expect(second).toMatchObject({ text: 'cccc\n', offset: 10, nextOffset: null })
+  })
+
+  it('does not split a multi-byte character in a page without newlines', async () => {
+    const path = await outputFile('ab€€€')
+
+    const pages: string[] = []
+    let offset: number | null = 0
+    while (offset !== null) {
+      const page = await readToolOutputPage(path, offset, 4)
+      pages.push(page.text)
+      offset = page.nextOffset
+    }
+
+    expect(pages).toEqual(['ab', '€', '€', '€'])
+  })
+
+  it('returns an empty last page for an offset past the end', async () => {
+    const path = await outputFile('done')
+
+    expect(await readToolOutputPage(path, 99)).toEqual({ text: '', offset: 4, nextOffset: null, totalSize: 4 })
+  })
+})
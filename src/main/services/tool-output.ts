@@ -0,0 +1,46 @@
+import { open } from 'fs/promises'
+import type { ToolOutputPage } from '../../shared/types'
+
+// Bytes read per page, small enough for the renderer to show at once
+export const TOOL_OUTPUT_PAGE_SIZE = 64 * 1024
+
+/**
+ * Read one page of a persisted tool output. Pages end after the last full
+ * line they hold, or otherwise on a character boundary, so none splits a
+ * multi-byte character.
+ */
+export async function readToolOutputPage(
+  filePath: string,
+  offset = 0,
+  pageSize = TOOL_OUTPUT_PAGE_SIZE
+): Promise<ToolOutputPage> {
+  const file = await open(filePath, 'r')
+  try {
+    const { size } = await file.stat()
+    const start = Math.min(Math.max(0, offset), size)
+    const buffer = Buffer.alloc(Math.min(pageSize, size - start))
+    const { bytesRead } = await file.read(buffer, 0, buffer.length, start)
+
+    let end = bytesRead
+    if (start + bytesRead < size) {
+      const newline = buffer.lastIndexOf(0x0a, bytesRead - 1)
+      if (newline >= 0) {
+        end = newline + 1
+      } else {
+        // Back off continuation bytes (10xxxxxx) to the start of the last character
+        while (end > 1 && (buffer[end - 1] & 0xc0) === 0x80) end--
+        if (end > 0 && buffer[end - 1] >= 0xc0) end--
+        if (end === 0) end = bytesRead
+      }
+    }
+
+    return {
+      text: buffer.subarray(0, end).toString('utf-8'),
+      offset: start,
+      nextOffset: start + end < size ? start + end : null,
+      totalSize: size
+    }
+  } finally {
+    await file.close()
+  }
+}
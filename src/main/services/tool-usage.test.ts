@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { ToolTally, mergeToolUsage } from './tool-usage'
+import { buildToolResultEntry, buildToolUseEntry } from '../../test/factories'
+
+describe('ToolTally', () => {
+  it('counts calls by day and tool, with the ones that failed', () => {
+    const tally = new ToolTally('s1')
+    tally.add(buildToolUseEntry('t1', 'Read'))
+    tally.add(buildToolResultEntry('t1'))
+    tally.add(buildToolUseEntry('t2', 'Read'))
+    tally.add(buildToolResultEntry('t2', '<tool_use_error>File does not exist.</tool_use_error>'))
+    tally.add(buildToolUseEntry('t3', 'Bash'))
+    tally.add(buildToolResultEntry('t3', 'rm: cannot remove', { toolUseResult: { stdout: '', stderr: 'rm: cannot remove', interrupted: false } }))
+    tally.add(buildToolUseEntry('t4', 'mcp__github__create_issue', { timestamp: '2025-03-02T09:00:00' }))
+    tally.add({ type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 't4', is_error: true, content: [{ type: 'text', text: 'Bad credentials' }] }] } })
+
+    expect(tally.entries()).toEqual([
+      { date: '2025-03-01', tool: 'Bash', calls: 1, failures: 1 },
+      { date: '2025-03-01', tool: 'Read', calls: 2, failures: 1 },
+      { date: '2025-03-02', tool: 'mcp__github__create_issue', calls: 1, failures: 1 }
+    ])
+  })
+
+  it('counts a call written again once, and leaves calls copied from another session out', () => {
+    const tally = new ToolTally('s1')
+    tally.add(buildToolUseEntry('t1', 'Grep'))
+    tally.add(buildToolUseEntry('t1', 'Grep'))
+    tally.add(buildToolUseEntry('t0', 'Edit', { timestamp: '2025-03-01T09:00:00', sessionId: 's0' }))
+
+    expect(tally.entries()).toEqual([{ date: '2025-03-01', tool: 'Grep', calls: 1, failures: 0 }])
+  })
+
+  it('adds the counts of sub-agents', () => {
+    const tally = new ToolTally()
+    tally.add(buildToolUseEntry('t1', 'Task'))
+    tally.addEntries([{ date: '2025-03-01', tool: 'Grep', calls: 4, failures: 1 }])
+
+    expect(tally.entries()).toEqual([
+      { date: '2025-03-01', tool: 'Grep', calls: 4, failures: 1 },
+      { date: '2025-03-01', tool: 'Task', calls: 1, failures: 0 }
+    ])
+  })
+})
+
+describe('mergeToolUsage', () => {
+  it('sums entries of the same day and tool', () => {
+    expect(
+      mergeToolUsage([
+        { date: '2025-03-02', tool: 'Bash', calls: 1, failures: 0 },
+        { date: '2025-03-01', tool: 'Bash', calls: 2, failures: 1 },
+        { date: '2025-03-02', tool: 'Bash', calls: 3, failures: 2 }
+      ])
+    ).toEqual([
+      { date: '2025-03-01', tool: 'Bash', calls: 2, failures: 1 },
+      { date: '2025-03-02', tool: 'Bash', calls: 4, failures: 2 }
+    ])
+  })
+})
@@ -0,0 +1,95 @@
+import { toDayString } from '../../shared/date-range'
+import type { ToolUsageEntry } from '../../shared/types'
+import { contentBlocks, isFromOtherSession, type TranscriptEntry, type TranscriptTally } from './transcript-tally'
+
+interface ToolCall {
+  date: string
+  tool: string
+  failed: boolean
+}
+
+// Text of a tool_result block, whose content is a string or a list of parts
+function resultText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+  return content.map((part) => (typeof part?.text === 'string' ? part.text : '')).join('\n')
+}
+
+function hasStderr(toolUseResult: unknown): boolean {
+  if (!toolUseResult || typeof toolUseResult !== 'object') return false
+  const stderr = (toolUseResult as { stderr?: unknown }).stderr
+  return typeof stderr === 'string' && stderr.trim() !== ''
+}
+
+/**
+ * Counts a transcript's tool calls by local day and tool, and how many
+ * failed: results flagged `is_error` or wrapped in `<tool_use_error>`, and
+ * Bash runs that wrote to stderr. Calls are keyed by their tool_use id, so
+ * one written again in a later entry is counted once.
+ */
+export class ToolTally implements TranscriptTally<ToolUsageEntry> {
+  private calls = new Map<string, ToolCall>()
+  private counted: ToolUsageEntry[] = []
+
+  constructor(private readonly sessionId?: string) {}
+
+  add(entry: TranscriptEntry): void {
+    if ((entry.type !== 'user' && entry.type !== 'assistant') || entry.isMeta) return
+    if (isFromOtherSession(entry, this.sessionId)) return
+    const blocks = contentBlocks(entry)
+
+    if (entry.type === 'assistant') {
+      const time = entry.timestamp ? new Date(entry.timestamp) : null
+      if (!time || isNaN(time.getTime())) return
+      for (const block of blocks) {
+        if (block.type !== 'tool_use' || typeof block.id !== 'string' || typeof block.name !== 'string') continue
+        if (!this.calls.has(block.id)) this.calls.set(block.id, { date: toDayString(time), tool: block.name, failed: false })
+      }
+      return
+    }
+
+    for (const block of blocks) {
+      if (block.type !== 'tool_result' || !block.tool_use_id) continue
+      const call = this.calls.get(block.tool_use_id)
+      if (!call) continue
+      if (
+        block.is_error === true ||
+        resultText(block.content).includes('<tool_use_error>') ||
+        (call.tool === 'Bash' && hasStderr(entry.toolUseResult))
+      ) {
+        call.failed = true
+      }
+    }
+  }
+
+  addEntries(entries: ToolUsageEntry[]): void {
+    this.counted.push(...entries)
+  }
+
+  /** One entry per day and tool, oldest first. */
+  entries(): ToolUsageEntry[] {
+    const calls = Array.from(this.calls.values(), (call) => ({
+      date: call.date,
+      tool: call.tool,
+      calls: 1,
+      failures: call.failed ? 1 : 0
+    }))
+    return mergeToolUsage([...calls, ...this.counted])
+  }
+}
+
+/** Sum entries of the same day and tool, oldest first. */
+export function mergeToolUsage(entries: ToolUsageEntry[]): ToolUsageEntry[] {
+  const merged = new Map<string, ToolUsageEntry>()
+  for (const entry of entries) {
+    const key = `${entry.date}\0${entry.tool}`
+    const existing = merged.get(key)
+    if (existing) {
+      existing.calls += entry.calls
+      existing.failures += entry.failures
+    } else {
+      merged.set(key, { ...entry })
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date) || a.tool.localeCompare(b.tool))
+}
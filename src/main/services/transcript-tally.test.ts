@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { ToolNames, contentBlocks, isFromOtherSession, toTokenCounts } from './transcript-tally'
+
+describe('isFromOtherSession', () => {
+  it('flags entries of another session only when the file has a session id', () => {
+    expect(isFromOtherSession({ sessionId: 's0' }, 's1')).toBe(true)
+    expect(isFromOtherSession({ sessionId: 's1' }, 's1')).toBe(false)
+    expect(isFromOtherSession({}, 's1')).toBe(false)
+    expect(isFromOtherSession({ sessionId: 's0' }, undefined)).toBe(false)
+  })
+})
+
+describe('contentBlocks', () => {
+  it('lists the object blocks of a message and none for plain text', () => {
+    expect(contentBlocks({ message: { content: [{ type: 'text', text: 'hi' }, null, 'stray'] } })).toEqual([{ type: 'text', text: 'hi' }])
+    expect(contentBlocks({ message: { content: 'hi' } })).toEqual([])
+  })
+})
+
+describe('toTokenCounts', () => {
+  it('reads missing counts as zero', () => {
+    expect(toTokenCounts({ input_tokens: 3, cache_read_input_tokens: 40 })).toEqual({
+      inputTokens: 3,
+      outputTokens: 0,
+      cacheReadTokens: 40,
+      cacheCreationTokens: 0
+    })
+  })
+})
+
+describe('ToolNames', () => {
+  it('names a tool result by the call it answers', () => {
+    const names = new ToolNames()
+    names.add([{ type: 'tool_use', id: 't1', name: 'Bash' }, { type: 'text', text: 'running' }])
+
+    expect(names.get('t1')).toBe('Bash')
+    expect(names.get('t2')).toBeUndefined()
+    expect(names.get(undefined)).toBeUndefined()
+  })
+})
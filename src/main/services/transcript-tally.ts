@@ -0,0 +1,89 @@
+import type { TokenCounts } from '../../shared/types'
+
+// The parts of a transcript entry the tallies read
+export interface TranscriptEntry {
+  type?: string
+  isMeta?: boolean
+  uuid?: string
+  sessionId?: string
+  timestamp?: string
+  requestId?: string
+  toolUseResult?: unknown
+  message?: {
+    id?: string
+    model?: string
+    content?: unknown
+    usage?: ResponseUsage
+  }
+}
+
+// Token usage as a response reports it
+interface ResponseUsage {
+  input_tokens?: number
+  output_tokens?: number
+  cache_read_input_tokens?: number
+  cache_creation_input_tokens?: number
+}
+
+// A block of a message's content, of whichever type
+export interface ContentBlock {
+  type?: string
+  id?: string
+  name?: string
+  text?: string
+  tool_use_id?: string
+  is_error?: boolean
+  content?: unknown
+}
+
+/**
+ * Counts one kind of thing over a transcript's entries, fed in file order
+ * with their line numbers. Constructed with the file's session id, a tally
+ * skips the entries a resumed session copied from an earlier one, so they are
+ * counted once, in the file they were first written to. `addEntries` takes
+ * what another tally counted, e.g. over a sub-agent's transcript.
+ */
+export interface TranscriptTally<T> {
+  add(entry: TranscriptEntry, lineNumber: number): void
+  addEntries(entries: T[]): void
+  entries(): T[]
+}
+
+/** Whether an entry was copied from another session than the given one. */
+export function isFromOtherSession(entry: TranscriptEntry, sessionId: string | undefined): boolean {
+  return !!sessionId && !!entry.sessionId && entry.sessionId !== sessionId
+}
+
+/** The blocks of an entry's message, or none when its content is plain text. */
+export function contentBlocks(entry: TranscriptEntry): ContentBlock[] {
+  const content = entry.message?.content
+  return Array.isArray(content) ? content.filter((block) => block && typeof block === 'object') : []
+}
+
+/** The token counts of a response's usage, zero where missing. */
+export function toTokenCounts(usage: ResponseUsage): TokenCounts {
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens || 0
+  }
+}
+
+/** The names of the tools called so far, by tool_use id, to name their results by. */
+export class ToolNames {
+  private names = new Map<string, string>()
+
+  /** Records the tool calls of an assistant entry. */
+  add(blocks: ContentBlock[]): void {
+    for (const block of blocks) {
+      if (block.type === 'tool_use' && typeof block.id === 'string' && typeof block.name === 'string') {
+        this.names.set(block.id, block.name)
+      }
+    }
+  }
+
+  get(toolUseId: string | undefined): string | undefined {
+    return toolUseId === undefined ? undefined : this.names.get(toolUseId)
+  }
+}
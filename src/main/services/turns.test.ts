@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { TurnRecorder } from './turns'
+import { buildToolResultEntry } from '../../test/factories'
+
+const usage = { input_tokens: 5, output_tokens: 50, cache_read_input_tokens: 1000, cache_creation_input_tokens: 200 }
+
+describe('TurnRecorder', () => {
+  it('records each response once with the wait before it and the tools that ran', () => {
+    const recorder = new TurnRecorder()
+    const entries = [
+      { type: 'user', timestamp: '2025-01-01T10:00:00Z', message: { content: 'run the tests' } },
+      {
+        type: 'assistant',
+        timestamp: '2025-01-01T10:00:04Z',
+        message: { id: 'm1', model: 'claude-opus-4-1', content: [{ type: 'text', text: 'Running' }], usage: { ...usage, output_tokens: 1 } }
+      },
+      {
+        type: 'assistant',
+        timestamp: '2025-01-01T10:00:05Z',
+        message: { id: 'm1', model: 'claude-opus-4-1', content: [{ type: 'tool_use', id: 't1', name: 'Bash', input: {} }], usage }
+      },
+      buildToolResultEntry('t1', 'ok', { timestamp: '2025-01-01T10:00:35Z' }),
+      { type: 'assistant', timestamp: '2025-01-01T10:00:37Z', message: { id: 'm2', model: 'claude-opus-4-1', content: [], usage } }
+    ]
+    entries.forEach((entry, i) => recorder.add(entry, i + 1))
+
+    expect(recorder.result()).toEqual([
+      {
+        lineNumber: 2,
+        timestamp: '2025-01-01T10:00:04Z',
+        model: 'claude-opus-4-1',
+        inputTokens: 5,
+        outputTokens: 50,
+        cacheReadTokens: 1000,
+        cacheCreationTokens: 200,
+        waitMs: 4000,
+        toolsBefore: []
+      },
+      expect.objectContaining({ lineNumber: 5, waitMs: 2000, toolsBefore: ['Bash'] })
+    ])
+  })
+
+  it('skips synthetic replies and meta entries', () => {
+    const recorder = new TurnRecorder()
+    recorder.add({ type: 'assistant', timestamp: '2025-01-01T10:00:00Z', message: { model: '<synthetic>', usage } }, 1)
+    recorder.add({ type: 'assistant', isMeta: true, timestamp: '2025-01-01T10:00:00Z', message: { model: 'claude-opus-4-1', usage } }, 2)
+
+    expect(recorder.result()).toEqual([])
+  })
+})
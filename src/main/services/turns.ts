@@ -0,0 +1,68 @@
+import type { TurnStat } from '../../shared/types'
+import { ToolNames, contentBlocks, toTokenCounts, type TranscriptEntry } from './transcript-tally'
+
+/**
+ * Collects the model responses of a transcript as turns, in file order. A
+ * response written as one entry per content block is one turn, placed at its
+ * first line and counted with the usage of its last. A turn's wait runs from
+ * the entry before it, the prompt or the last tool result, so it covers both
+ * the tools running and the model answering. Its `messageUuid` starts as the
+ * uuid of the response's first entry.
+ */
+export class TurnRecorder {
+  private turns: TurnStat[] = []
+  private byResponse = new Map<string, TurnStat>()
+  private toolNames = new ToolNames()
+  private toolsSinceResponse: string[] = []
+  private previousTime: number | null = null
+
+  add(entry: TranscriptEntry, lineNumber: number): void {
+    if ((entry.type !== 'user' && entry.type !== 'assistant') || entry.isMeta) return
+    const time = entry.timestamp ? new Date(entry.timestamp).getTime() : NaN
+    const blocks = contentBlocks(entry)
+
+    if (entry.type === 'user') {
+      for (const block of blocks) {
+        if (block.type !== 'tool_result') continue
+        const name = this.toolNames.get(block.tool_use_id)
+        if (name) this.toolsSinceResponse.push(name)
+      }
+    } else {
+      this.toolNames.add(blocks)
+      this.addResponse(entry, lineNumber, time)
+    }
+
+    if (!isNaN(time)) this.previousTime = time
+  }
+
+  private addResponse(entry: TranscriptEntry, lineNumber: number, time: number): void {
+    const usage = entry.message?.usage
+    const model = entry.message?.model
+    if (!usage || !model || model === '<synthetic>') return
+    const counts = toTokenCounts(usage)
+
+    const id = entry.message?.id ?? entry.requestId
+    const existing = id ? this.byResponse.get(id) : undefined
+    if (existing) {
+      Object.assign(existing, counts)
+      return
+    }
+
+    const turn: TurnStat = {
+      lineNumber,
+      timestamp: entry.timestamp ?? '',
+      model,
+      ...counts,
+      waitMs: !isNaN(time) && this.previousTime !== null ? Math.max(0, time - this.previousTime) : null,
+      toolsBefore: this.toolsSinceResponse,
+      ...(entry.uuid && { messageUuid: entry.uuid })
+    }
+    this.toolsSinceResponse = []
+    this.turns.push(turn)
+    if (id) this.byResponse.set(id, turn)
+  }
+
+  result(): TurnStat[] {
+    return this.turns
+  }
+}
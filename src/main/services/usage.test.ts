@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { UsageTally } from './usage'
+
+function response(id: string, timestamp: string, outputTokens: number, model = 'claude-sonnet-4-5', overrides = {}) {
+  return {
+    type: 'assistant',
+    sessionId: 's1',
+    timestamp,
+    message: {
+      id,
+      model,
+      usage: { input_tokens: 10, output_tokens: outputTokens, cache_read_input_tokens: 100, cache_creation_input_tokens: 5 }
+    },
+    ...overrides
+  }
+}
+
+describe('UsageTally', () => {
+  it('counts a response written as several entries once', () => {
+    const tally = new UsageTally('s1')
+    tally.add(response('msg_1', '2025-03-01T10:00:00', 2))
+    tally.add(response('msg_1', '2025-03-01T10:00:01', 40))
+    tally.add(response('msg_2', '2025-03-01T11:00:00', 8))
+
+    expect(tally.entries()).toEqual([
+      {
+        date: '2025-03-01',
+        model: 'claude-sonnet-4-5',
+        inputTokens: 20,
+        outputTokens: 48,
+        cacheReadTokens: 200,
+        cacheCreationTokens: 10
+      }
+    ])
+  })
+
+  it('splits by day and model', () => {
+    const tally = new UsageTally()
+    tally.add(response('msg_1', '2025-03-01T10:00:00', 1))
+    tally.add(response('msg_2', '2025-03-02T10:00:00', 1))
+    tally.add(response('msg_3', '2025-03-02T10:00:00', 1, 'claude-opus-4-1'))
+
+    expect(tally.entries().map((e) => [e.date, e.model])).toEqual([
+      ['2025-03-01', 'claude-sonnet-4-5'],
+      ['2025-03-02', 'claude-opus-4-1'],
+      ['2025-03-02', 'claude-sonnet-4-5']
+    ])
+  })
+
+  it('skips copied entries of a resumed session, synthetic replies and user entries', () => {
+    const tally = new UsageTally('s2')
+    tally.add(response('msg_1', '2025-03-01T10:00:00', 1))
+    tally.add(response('msg_2', '2025-03-01T10:00:00', 1, '<synthetic>', { sessionId: 's2' }))
+    tally.add(response('msg_3', '2025-03-01T10:00:00', 1, 'claude-sonnet-4-5', { sessionId: 's2', type: 'user' }))
+
+    expect(tally.entries()).toEqual([])
+  })
+})
@@ -0,0 +1,52 @@
+import { toDayString } from '../../shared/date-range'
+import { addTokenCounts, emptyTokenCounts } from '../../shared/pricing'
+import type { UsageEntry } from '../../shared/types'
+import { isFromOtherSession, toTokenCounts, type TranscriptEntry, type TranscriptTally } from './transcript-tally'
+
+/**
+ * Sums the tokens of a transcript's assistant responses by local day and
+ * model. Claude Code writes a response with several content blocks as one
+ * entry per block, each carrying the response's usage, so a message id is
+ * counted once, with the counts of its last entry.
+ */
+export class UsageTally implements TranscriptTally<UsageEntry> {
+  private responses = new Map<string, UsageEntry>()
+  private unidentified: UsageEntry[] = []
+
+  constructor(private readonly sessionId?: string) {}
+
+  add(entry: TranscriptEntry): void {
+    const usage = entry.message?.usage
+    const model = entry.message?.model
+    if (entry.type !== 'assistant' || !usage || !model || model === '<synthetic>' || !entry.timestamp) return
+    if (isFromOtherSession(entry, this.sessionId)) return
+
+    const time = new Date(entry.timestamp)
+    if (isNaN(time.getTime())) return
+    const response: UsageEntry = { date: toDayString(time), model, ...toTokenCounts(usage) }
+    const id = entry.message?.id ?? entry.requestId
+    if (id) this.responses.set(id, response)
+    else this.unidentified.push(response)
+  }
+
+  addEntries(entries: UsageEntry[]): void {
+    this.unidentified.push(...entries)
+  }
+
+  /** One entry per day and model, oldest first. */
+  entries(): UsageEntry[] {
+    return mergeUsage([...this.responses.values(), ...this.unidentified])
+  }
+}
+
+/** Sum entries of the same day and model, oldest first. */
+export function mergeUsage(entries: UsageEntry[]): UsageEntry[] {
+  const merged = new Map<string, UsageEntry>()
+  for (const entry of entries) {
+    const key = `${entry.date}\0${entry.model}`
+    const existing = merged.get(key)
+    if (existing) addTokenCounts(existing, entry)
+    else merged.set(key, addTokenCounts({ date: entry.date, model: entry.model, ...emptyTokenCounts() }, entry))
+  }
+  return Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date) || a.model.localeCompare(b.model))
+}
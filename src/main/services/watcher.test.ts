@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile, appendFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { ConversationWatcher } from './watcher'
+
+let tempDirs: string[] = []
+let watchers: ConversationWatcher[] = []
+
+afterEach(async () => {
+  for (const w of watchers) w.stop()
+  watchers = []
+  for (const dir of tempDirs) {
+    await rm(dir, { recursive: true, force: true }).catch(() => {})
+  }
+  tempDirs = []
+})
+
+async function createProjectsDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'watcher-test-'))
+  tempDirs.push(dir)
+  await mkdir(join(dir, '-p'), { recursive: true })
+  return dir
+}
+
+async function startWatcher(
+  projectsDir: string,
+  onChange: () => Promise<void>,
+  debounceMs = 50
+): Promise<ConversationWatcher> {
+  const watcher = new ConversationWatcher([projectsDir], debounceMs, 500)
+  watcher.setChangeCallback(onChange)
+  await watcher.start()
+  watchers.push(watcher)
+  return watcher
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((r) => setTimeout(r, ms))
+
+describe('ConversationWatcher', () => {
+  it('calls back when a session file is written inside a project dir', async () => {
+    const projectsDir = await createProjectsDir()
+    const onChange = vi.fn().mockResolvedValue(undefined)
+    await startWatcher(projectsDir, onChange)
+
+    await writeFile(join(projectsDir, '-p', 's1.jsonl'), '{}\n')
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 2000 })
+  })
+
+  it('collapses a burst of appends into a single callback', async () => {
+    const projectsDir = await createProjectsDir()
+    const filePath = join(projectsDir, '-p', 's1.jsonl')
+    await writeFile(filePath, '')
+    const onChange = vi.fn().mockResolvedValue(undefined)
+    await startWatcher(projectsDir, onChange, 100)
+
+    for (let i = 0; i < 5; i++) {
+      await appendFile(filePath, `{"line":${i}}\n`)
+    }
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 2000 })
+    await sleep(250)
+    expect(onChange).toHaveBeenCalledTimes(1)
+  })
+
+  it('watches project directories created after start', async () => {
+    const projectsDir = await createProjectsDir()
+    const onChange = vi.fn().mockResolvedValue(undefined)
+    await startWatcher(projectsDir, onChange)
+
+    await mkdir(join(projectsDir, '-new-project'))
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 2000 })
+    await sleep(100)
+    onChange.mockClear()
+
+    await writeFile(join(projectsDir, '-new-project', 's2.jsonl'), '{}\n')
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 2000 })
+  })
+
+  it('never runs callbacks concurrently and reruns once after a busy sync', async () => {
+    const projectsDir = await createProjectsDir()
+    const filePath = join(projectsDir, '-p', 's1.jsonl')
+    let active = 0
+    let maxActive = 0
+    const onChange = vi.fn(async () => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      await sleep(150)
+      active--
+    })
+    await startWatcher(projectsDir, onChange, 20)
+
+    await writeFile(filePath, 'a\n')
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), { timeout: 2000 })
+    await appendFile(filePath, 'b\n')
+    await sleep(50)
+    await appendFile(filePath, 'c\n')
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(2), { timeout: 2000 })
+    await sleep(200)
+    expect(maxActive).toBe(1)
+    expect(onChange).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops calling back after stop()', async () => {
+    const projectsDir = await createProjectsDir()
+    const onChange = vi.fn().mockResolvedValue(undefined)
+    const watcher = await startWatcher(projectsDir, onChange)
+
+    watcher.stop()
+    await writeFile(join(projectsDir, '-p', 's1.jsonl'), '{}\n')
+    await sleep(200)
+
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('ignores projects directories that do not exist', async () => {
+    const watcher = new ConversationWatcher([join(tmpdir(), 'does-not-exist-watcher')])
+    watchers.push(watcher)
+    await expect(watcher.start()).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,133 @@
+import { watch, type FSWatcher } from 'fs'
+import { readdir } from 'fs/promises'
+import { join } from 'path'
+
+// Recursive fs.watch is only available on macOS and Windows in Electron's Node
+const SUPPORTS_RECURSIVE = process.platform === 'darwin' || process.platform === 'win32'
+
+/**
+ * Watches every profile's projects directory and calls back (debounced) when
+ * any JSONL file is created, appended to, or removed.
+ *
+ * Claude appends to a session file line-by-line while it is running, so events
+ * arrive in bursts. Each burst is collapsed into one callback after a quiet
+ * period, with a max wait so a session that keeps streaming still refreshes.
+ * Callbacks never overlap: events arriving mid-sync schedule exactly one rerun.
+ */
+export class ConversationWatcher {
+  private watchers: Map<string, FSWatcher> = new Map()
+  private debounceTimer: NodeJS.Timeout | null = null
+  private firstEventAt = 0
+  private running = false
+  private pending = false
+  private stopped = false
+  private onChange?: () => Promise<void>
+
+  constructor(
+    private projectsDirs: string[],
+    private readonly debounceMs = 500,
+    private readonly maxWaitMs = 3000
+  ) {}
+
+  setChangeCallback(cb: () => Promise<void>): void {
+    this.onChange = cb
+  }
+
+  async start(): Promise<void> {
+    for (const dir of this.projectsDirs) {
+      this.watchDir(dir, SUPPORTS_RECURSIVE)
+      if (!SUPPORTS_RECURSIVE) await this.watchProjectDirs(dir)
+    }
+  }
+
+  /** Schedule a sync as if a change had been observed. */
+  requestSync(): void {
+    if (!this.stopped) this.schedule()
+  }
+
+  stop(): void {
+    this.stopped = true
+    if (this.debounceTimer) clearTimeout(this.debounceTimer)
+    this.debounceTimer = null
+    for (const w of this.watchers.values()) w.close()
+    this.watchers.clear()
+  }
+
+  private watchDir(dir: string, recursive: boolean): void {
+    if (this.watchers.has(dir)) return
+    try {
+      const watcher = watch(dir, { recursive }, (_eventType, filename) => {
+        this.handleEvent(dir, filename ? String(filename) : null)
+      })
+      watcher.on('error', () => {
+        watcher.close()
+        this.watchers.delete(dir)
+      })
+      this.watchers.set(dir, watcher)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error watching ${dir}:`, err)
+      }
+    }
+  }
+
+  // Without recursive support, each project directory needs its own watcher
+  private async watchProjectDirs(projectsDir: string): Promise<void> {
+    try {
+      const entries = await readdir(projectsDir, { withFileTypes: true })
+      for (const entry of entries) {
+        if (this.stopped) return
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          this.watchDir(join(projectsDir, entry.name), false)
+        }
+      }
+    } catch {
+      // Projects dir may not exist yet
+    }
+  }
+
+  private handleEvent(dir: string, filename: string | null): void {
+    if (this.stopped) return
+
+    // A new project directory appeared at the top level
+    if (!SUPPORTS_RECURSIVE && filename && this.projectsDirs.includes(dir)) {
+      this.watchProjectDirs(dir)
+    }
+
+    this.schedule()
+  }
+
+  private schedule(): void {
+    const now = Date.now()
+    if (!this.debounceTimer) this.firstEventAt = now
+    else clearTimeout(this.debounceTimer)
+
+    const delay = Math.min(this.debounceMs, Math.max(0, this.firstEventAt + this.maxWaitMs - now))
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null
+      this.flush()
+    }, delay)
+  }
+
+  private async flush(): Promise<void> {
+    if (this.stopped) return
+    if (this.running) {
+      this.pending = true
+      return
+    }
+
+    this.running = true
+    try {
+      await this.onChange?.()
+    } catch (err) {
+      console.error('Error applying conversation changes:', err)
+    } finally {
+      this.running = false
+    }
+
+    if (this.pending) {
+      this.pending = false
+      this.flush()
+    }
+  }
+}
@@ -22,7 +22,15 @@ describe('Preload API Contract', () => {
     // Each preload method should invoke the correct IPC channel
     const expectedChannels = [
       { method: 'search', channel: 'search' },
+      { method: 'searchPage', channel: 'search-page' },
+      { method: 'getSearchSuggestions', channel: 'get-search-suggestions' },
+      { method: 'regexSearchStart', channel: 'regex-search-start' },
+      { method: 'regexSearchCancel', channel: 'regex-search-cancel' },
+      { method: 'findSimilarConversations', channel: 'find-similar-conversations' },
       { method: 'getConversation', channel: 'get-conversation' },
+      { method: 'getSubagentTranscript', channel: 'get-subagent-transcript' },
+      { method: 'readToolOutput', channel: 'read-tool-output' },
+      { method: 'getSessionChain', channel: 'get-session-chain' },
       { method: 'getProjects', channel: 'get-projects' },
       { method: 'getStats', channel: 'get-stats' },
       { method: 'rebuildIndex', channel: 'rebuild-index' },
@@ -39,6 +47,12 @@ describe('Preload API Contract', () => {
       { method: 'setSettings', channel: 'set-settings' },
       { method: 'selectDirectory', channel: 'select-directory' },
       { method: 'getDailyStats', channel: 'get-daily-stats' },
+      { method: 'getUsageStats', channel: 'get-usage-stats' },
+      { method: 'getToolStats', channel: 'get-tool-stats' },
+      { method: 'getFileHotspots', channel: 'get-file-hotspots' },
+      { method: 'getFileTimeline', channel: 'get-file-timeline' },
+      { method: 'getSessionUsage', channel: 'get-session-usage' },
+      { method: 'exportCacheReport', channel: 'export-cache-report' },
       { method: 'getProfilesUsage', channel: 'get-profiles-usage' },
       { method: 'getProfiles', channel: 'get-profiles' },
       { method: 'saveProfiles', channel: 'save-profiles' },
@@ -65,6 +79,10 @@ describe('Preload API Contract', () => {
       expect(preloadSource).toContain("'scan-progress'")
     })
 
+    it('onConversationsChanged listens to conversations-changed', () => {
+      expect(preloadSource).toContain("'conversations-changed'")
+    })
+
     it('onPtyData listens to pty-data', () => {
       expect(preloadSource).toContain("'pty-data'")
     })
@@ -72,6 +90,14 @@ describe('Preload API Contract', () => {
     it('onPtyExit listens to pty-exit', () => {
       expect(preloadSource).toContain("'pty-exit'")
     })
+
+    it('onRegexSearchEvent listens to regex-search-event', () => {
+      expect(preloadSource).toContain("'regex-search-event'")
+    })
+
+    it('onSemanticIndexProgress listens to semantic-index-progress', () => {
+      expect(preloadSource).toContain("'semantic-index-progress'")
+    })
   })
 
   describe('IPC method types', () => {
@@ -102,6 +128,10 @@ describe('Preload API Contract', () => {
     it('onPtyExit returns cleanup function', () => {
       expect(preloadSource).toContain("removeListener('pty-exit'")
     })
+
+    it('onConversationsChanged returns cleanup function', () => {
+      expect(preloadSource).toContain("removeListener('conversations-changed'")
+    })
   })
 
   describe('API completeness', () => {
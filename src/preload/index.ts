@@ -1,8 +1,12 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import type {
   SearchResult,
+  DateRangeOption,
+  SearchPage,
+  SearchPageOptions,
   Conversation,
   ExportFormat,
+  ExportOptions,
   ExportResult,
   UserPreferences,
   PtySpawnOptions,
@@ -11,26 +15,58 @@ import type {
   AppSettings,
   StatsGranularity,
   PeriodStat,
+  UsageRow,
+  SessionUsage,
+  ModelPrice,
+  ToolUsageEntry,
+  FileHotspot,
+  FileTimelineEntry,
+  FileTimelinePage,
   Worktree,
   GitInfo,
   CreateWorktreeOptions,
-  CreateWorktreeResult
+  CreateWorktreeResult,
+  ConversationsChangedEvent,
+  SearchSuggestions,
+  RegexSearchOptions,
+  RegexSearchStartResult,
+  RegexSearchEvent,
+  SemanticIndexStatus,
+  ToolOutputPage
 } from '../shared/types'
 
-export type { SearchResult, Conversation, ExportFormat, ExportResult, UserPreferences, PtySpawnOptions, PtyStatus, Profile, AppSettings, StatsGranularity, PeriodStat, Worktree, GitInfo, CreateWorktreeOptions, CreateWorktreeResult }
+export type { SearchResult, SearchPage, SearchPageOptions, Conversation, ExportFormat, ExportOptions, ExportResult, UserPreferences, PtySpawnOptions, PtyStatus, Profile, AppSettings, StatsGranularity, PeriodStat, UsageRow, SessionUsage, ModelPrice, ToolUsageEntry, FileHotspot, FileTimelineEntry, FileTimelinePage, Worktree, GitInfo, CreateWorktreeOptions, CreateWorktreeResult, ConversationsChangedEvent, SearchSuggestions, RegexSearchOptions, RegexSearchStartResult, RegexSearchEvent, SemanticIndexStatus, ToolOutputPage }
 
 export interface ElectronAPI {
-  search: (query: string, filters?: { project?: string; limit?: number }) => Promise<SearchResult[]>
+  search: (
+    query: string,
+    filters?: { project?: string; limit?: number; fuzzy?: boolean; semantic?: boolean; thinking?: boolean; dateRange?: DateRangeOption }
+  ) => Promise<SearchResult[]>
+  // One page of results in the chosen order, with the total number of matches
+  searchPage: (query: string, options?: SearchPageOptions) => Promise<SearchPage>
+  onSemanticIndexProgress: (callback: (status: SemanticIndexStatus) => void) => (() => void)
+  getSearchSuggestions: () => Promise<SearchSuggestions>
+  regexSearchStart: (pattern: string, options?: RegexSearchOptions) => Promise<RegexSearchStartResult>
+  regexSearchCancel: (searchId: string) => Promise<boolean>
+  onRegexSearchEvent: (callback: (event: RegexSearchEvent) => void) => (() => void)
+  findSimilarConversations: (id: string, limit?: number) => Promise<SearchResult[]>
   getConversation: (id: string) => Promise<Conversation | null>
+  // The transcript of a sub-agent spawned by the conversation, or null when it was not kept
+  getSubagentTranscript: (id: string, agentId: string) => Promise<Conversation | null>
+  // A page of a tool output saved under the conversation's tool-results directory
+  readToolOutput: (id: string, path: string, offset?: number) => Promise<ToolOutputPage | null>
+  // The resumed and continued sessions the conversation belongs to as one conversation, or null when it stands alone
+  getSessionChain: (id: string) => Promise<Conversation | null>
   getProjects: () => Promise<string[]>
   getStats: () => Promise<{ conversations: number; projects: number }>
   rebuildIndex: () => Promise<boolean>
   getLatestConversation: (projectPath: string) => Promise<Conversation | null>
-  exportConversation: (id: string, format: ExportFormat) => Promise<ExportResult>
+  exportConversation: (id: string, format: ExportFormat, options?: ExportOptions) => Promise<ExportResult>
   getPreferences: () => Promise<Partial<UserPreferences>>
   setPreferences: (prefs: Partial<UserPreferences>) => Promise<boolean>
   onIndexReady: (callback: () => void) => void
   onScanProgress: (callback: (progress: { scanned: number; total: number }) => void) => (() => void)
+  onConversationsChanged: (callback: (changes: ConversationsChangedEvent) => void) => (() => void)
   // PTY
   ptySpawn: (options: PtySpawnOptions) => Promise<{ success: boolean; error?: string }>
   ptyInput: (instanceId: string, data: string) => void
@@ -44,6 +80,18 @@ export interface ElectronAPI {
   setSettings: (settings: Partial<AppSettings>) => Promise<boolean>
   selectDirectory: () => Promise<string | null>
   getDailyStats: (granularity: StatsGranularity, limit: number) => Promise<PeriodStat[]>
+  // Token usage by day, model, project and profile; priced in the renderer
+  getUsageStats: () => Promise<UsageRow[]>
+  // Tool calls and failures by day and tool
+  getToolStats: () => Promise<ToolUsageEntry[]>
+  // Changed files with their edits summed per project, most edited first
+  getFileHotspots: () => Promise<FileHotspot[]>
+  // A page of the project's conversations that changed a file, newest first, with each change and its diff
+  getFileTimeline: (projectPath: string, filePath: string, offset?: number) => Promise<FileTimelinePage>
+  // Token usage of each conversation, for the cache report
+  getSessionUsage: () => Promise<SessionUsage[]>
+  // Saves the cache report for usage since a YYYY-MM-DD day as CSV, priced with the given table
+  exportCacheReport: (since: string, pricing: ModelPrice[]) => Promise<ExportResult>
   getProfilesUsage: () => Promise<Record<string, { conversations: number; lastUsed: string | null; tokensThisMonth: number }>>
   getProfiles: () => Promise<Profile[]>
   saveProfiles: (profiles: Profile[]) => Promise<boolean>
@@ -56,12 +104,34 @@ export interface ElectronAPI {
 
 const api: ElectronAPI = {
   search: (query, filters) => ipcRenderer.invoke('search', query, filters),
+  searchPage: (query, options) => ipcRenderer.invoke('search-page', query, options),
+  onSemanticIndexProgress: (callback) => {
+    const handler = (_event: Electron.IpcRendererEvent, status: SemanticIndexStatus): void => {
+      callback(status)
+    }
+    ipcRenderer.on('semantic-index-progress', handler)
+    return () => ipcRenderer.removeListener('semantic-index-progress', handler)
+  },
+  getSearchSuggestions: () => ipcRenderer.invoke('get-search-suggestions'),
+  regexSearchStart: (pattern, options) => ipcRenderer.invoke('regex-search-start', pattern, options),
+  regexSearchCancel: (searchId) => ipcRenderer.invoke('regex-search-cancel', searchId),
+  onRegexSearchEvent: (callback) => {
+    const handler = (_event: Electron.IpcRendererEvent, searchEvent: RegexSearchEvent): void => {
+      callback(searchEvent)
+    }
+    ipcRenderer.on('regex-search-event', handler)
+    return () => ipcRenderer.removeListener('regex-search-event', handler)
+  },
+  findSimilarConversations: (id, limit) => ipcRenderer.invoke('find-similar-conversations', id, limit),
   getConversation: (id) => ipcRenderer.invoke('get-conversation', id),
+  getSubagentTranscript: (id, agentId) => ipcRenderer.invoke('get-subagent-transcript', id, agentId),
+  readToolOutput: (id, path, offset) => ipcRenderer.invoke('read-tool-output', id, path, offset),
+  getSessionChain: (id) => ipcRenderer.invoke('get-session-chain', id),
   getProjects: () => ipcRenderer.invoke('get-projects'),
   getStats: () => ipcRenderer.invoke('get-stats'),
   rebuildIndex: () => ipcRenderer.invoke('rebuild-index'),
   getLatestConversation: (projectPath) => ipcRenderer.invoke('get-latest-conversation', projectPath),
-  exportConversation: (id, format) => ipcRenderer.invoke('export-conversation', id, format),
+  exportConversation: (id, format, options) => ipcRenderer.invoke('export-conversation', id, format, options),
   getPreferences: () => ipcRenderer.invoke('get-preferences'),
   setPreferences: (prefs) => ipcRenderer.invoke('set-preferences', prefs),
   onIndexReady: (callback) => ipcRenderer.once('index-ready', callback),
@@ -72,6 +142,13 @@ const api: ElectronAPI = {
     ipcRenderer.on('scan-progress', handler)
     return () => ipcRenderer.removeListener('scan-progress', handler)
   },
+  onConversationsChanged: (callback) => {
+    const handler = (_event: Electron.IpcRendererEvent, changes: ConversationsChangedEvent): void => {
+      callback(changes)
+    }
+    ipcRenderer.on('conversations-changed', handler)
+    return () => ipcRenderer.removeListener('conversations-changed', handler)
+  },
   // PTY
   ptySpawn: (options) => ipcRenderer.invoke('pty-spawn', options),
   ptyInput: (instanceId, data) => ipcRenderer.send('pty-input', { instanceId, data }),
@@ -97,6 +174,12 @@ const api: ElectronAPI = {
   setSettings: (settings) => ipcRenderer.invoke('set-settings', settings),
   selectDirectory: () => ipcRenderer.invoke('select-directory'),
   getDailyStats: (granularity, limit) => ipcRenderer.invoke('get-daily-stats', granularity, limit),
+  getUsageStats: () => ipcRenderer.invoke('get-usage-stats'),
+  getToolStats: () => ipcRenderer.invoke('get-tool-stats'),
+  getFileHotspots: () => ipcRenderer.invoke('get-file-hotspots'),
+  getFileTimeline: (projectPath, filePath, offset) => ipcRenderer.invoke('get-file-timeline', projectPath, filePath, offset),
+  getSessionUsage: () => ipcRenderer.invoke('get-session-usage'),
+  exportCacheReport: (since, pricing) => ipcRenderer.invoke('export-cache-report', since, pricing),
   getProfilesUsage: () => ipcRenderer.invoke('get-profiles-usage'),
   getProfiles: () => ipcRenderer.invoke('get-profiles'),
   saveProfiles: (profiles) => ipcRenderer.invoke('save-profiles', profiles),
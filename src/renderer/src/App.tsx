@@ -6,19 +6,35 @@ import FilterPanel from "./components/FilterPanel";
 import ErrorBoundary from "./components/ErrorBoundary";
 import ChatTerminal from "./components/ChatTerminal";
 import { useSearch } from "./hooks/useSearch";
+import { useRegexSearch } from "./hooks/useRegexSearch";
+import { useSavedSearches } from "./hooks/useSavedSearches";
+import { useSearchHistory } from "./hooks/useSearchHistory";
+import { usePricing } from "./hooks/usePricing";
+import { sortResults } from "../../shared/result-order";
 import ProfilePickerModal from "./components/ProfilePickerModal";
 import SettingsModal from "./components/SettingsModal";
 import ProfilesPanel from "./components/ProfilesPanel";
 import ActiveChatList from "./components/ActiveChatList";
 import WorktreesPanel from "./components/WorktreesPanel";
+import FilesPanel from "./components/FilesPanel";
+import SimilarConversationsPanel from "./components/SimilarConversationsPanel";
+import SavedSearches from "./components/SavedSearches";
 import type {
   Conversation,
   SortOption,
   DateRangeOption,
   Profile,
   GitInfo,
+  SearchSuggestions,
+} from "../../shared/types";
+import type {
+  ChatInstance,
+  AppSettings,
+  SemanticIndexStatus,
+  SavedSearch,
+  SavedSearchFilters,
+  SearchHistoryEntry,
 } from "../../shared/types";
-import type { ChatInstance, AppSettings } from "../../shared/types";
 import { v4 as uuidv4 } from "uuid";
 
 type RightPanelView =
@@ -26,11 +42,24 @@ type RightPanelView =
   | "profiles"
   | "settings"
   | "worktrees"
+  | "files"
   | "empty";
 
+const SEARCH_HISTORY_DELAY_MS = 1500;
+
 export default function App(): JSX.Element {
   const [selectedConversation, setSelectedConversation] =
     useState<Conversation | null>(null);
+  // Line of the message that matched the search, to jump to on open
+  const [focusLineNumber, setFocusLineNumber] = useState<number | undefined>();
+  // Words an approximate result matched, highlighted instead of the query
+  const [matchedTerms, setMatchedTerms] = useState<string[] | undefined>();
+  // Conversation whose similar conversations are listed beside the open one
+  const [similarToId, setSimilarToId] = useState<string | null>(null);
+  // Messages a regex result matched, marked in the conversation view
+  const [matchedLines, setMatchedLines] = useState<number[] | undefined>();
+  // Sessions in the chain of resumed sessions the open result stands for
+  const [chainLength, setChainLength] = useState<number | undefined>();
   const [selectedProject, setSelectedProject] = useState<string>("");
   const [sortBy, setSortBy] = useState<SortOption>("recent");
   const [dateRange, setDateRange] = useState<DateRangeOption>("all");
@@ -65,6 +94,8 @@ export default function App(): JSX.Element {
   const [accountFilter, setAccountFilter] = useState<string | null>(null);
   const [defaultProfileId, setDefaultProfileId] = useState<string | null>(null);
   const [gitInfo, setGitInfo] = useState<Record<string, GitInfo>>({});
+  const [searchSuggestions, setSearchSuggestions] =
+    useState<SearchSuggestions>();
 
   // Sidebar resize state
   const [sidebarWidth, setSidebarWidth] = useState(384); // w-96 = 384px
@@ -94,11 +125,83 @@ export default function App(): JSX.Element {
     document.addEventListener('mouseup', onMouseUp);
   }, []);
 
-  const { query, setQuery, results, searching, hasSearched, refresh } =
-    useSearch(selectedProject, !isIndexing);
+  // Regex mode scans the raw conversation files instead of querying the index
+  const [regexMode, setRegexMode] = useState(false);
+  const {
+    query,
+    setQuery,
+    fuzzy,
+    setFuzzy,
+    semantic,
+    setSemantic,
+    thinking,
+    setThinking,
+    results: indexResults,
+    total: indexTotal,
+    hasMore,
+    loadMore,
+    loadingMore,
+    searching: indexSearching,
+    hasSearched,
+    refresh,
+  } = useSearch(selectedProject, !isIndexing && !regexMode, {
+    dateRange,
+    sortBy,
+    account: accountFilter,
+  });
+  const regexSearch = useRegexSearch(
+    query,
+    regexMode && !isIndexing,
+    selectedProject,
+    dateRange,
+    accountFilter,
+  );
+  const results = regexMode ? regexSearch.results : indexResults;
+  const searching = regexMode ? regexSearch.searching : indexSearching;
   const refreshRef = useRef(refresh);
   refreshRef.current = refresh;
 
+  const { savedSearches, newCounts, saveSearch, removeSearch, markOpened } =
+    useSavedSearches(!isIndexing);
+  const currentFilters: SavedSearchFilters = useMemo(
+    () => ({
+      query,
+      project: selectedProject,
+      account: accountFilter,
+      dateRange,
+      sortBy,
+    }),
+    [query, selectedProject, accountFilter, dateRange, sortBy],
+  );
+
+  const handleOpenSavedSearch = useCallback(
+    (search: SavedSearch) => {
+      setQuery(search.query);
+      setSelectedProject(search.project);
+      setAccountFilter(search.account);
+      setDateRange(search.dateRange);
+      setSortBy(search.sortBy);
+      markOpened(search.id);
+    },
+    [setQuery, markOpened],
+  );
+
+  // Conversations embedded in the background become findable by meaning
+  const [semanticStatus, setSemanticStatus] =
+    useState<SemanticIndexStatus | null>(null);
+  useEffect(() => {
+    return window.electronAPI.onSemanticIndexProgress((status) => {
+      setSemanticStatus(status);
+      if (!status.building) refreshRef.current();
+    });
+  }, []);
+
+  // A new query highlights its own words in the open conversation
+  useEffect(() => {
+    setMatchedTerms(undefined);
+    setMatchedLines(undefined);
+  }, [query]);
+
   useEffect(() => {
     const loadData = async (): Promise<void> => {
       try {
@@ -124,6 +227,10 @@ export default function App(): JSX.Element {
         if (indexReady) {
           setIsIndexing(false);
           window.electronAPI.getGitInfo().then(setGitInfo).catch(console.error);
+          window.electronAPI
+            .getSearchSuggestions()
+            .then(setSearchSuggestions)
+            .catch(console.error);
         }
 
         // Restore saved preferences (non-filter prefs only)
@@ -155,58 +262,82 @@ export default function App(): JSX.Element {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Filter and sort results
-  const sortedResults = useMemo(() => {
-    // First, filter by date range
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const monthAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
-
-    const filtered = results.filter((result) => {
-      if (dateRange === "all") return true;
-      const resultDate = new Date(result.timestamp);
-
-      switch (dateRange) {
-        case "today":
-          return resultDate >= today;
-        case "week":
-          return resultDate >= weekAgo;
-        case "month":
-          return resultDate >= monthAgo;
-        default:
-          return true;
-      }
+  // Pick up sessions created or appended to while the app is open
+  useEffect(() => {
+    const cleanup = window.electronAPI.onConversationsChanged(() => {
+      refreshRef.current();
+      Promise.all([
+        window.electronAPI.getProjects(),
+        window.electronAPI.getStats(),
+        window.electronAPI.getSearchSuggestions(),
+      ])
+        .then(([projectList, statsData, suggestions]) => {
+          setProjects(projectList);
+          setStats(statsData);
+          setSearchSuggestions(suggestions);
+        })
+        .catch(console.error);
     });
+    return cleanup;
+  }, []);
 
-    // Then, sort
-    const sorted = [...filtered];
-    switch (sortBy) {
-      case "recent":
-        sorted.sort(
-          (a, b) =>
-            new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-        );
-        break;
-      case "oldest":
-        sorted.sort(
-          (a, b) =>
-            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
-        );
-        break;
-      case "most-messages":
-        sorted.sort((a, b) => b.messageCount - a.messageCount);
-        break;
-      case "least-messages":
-        sorted.sort((a, b) => a.messageCount - b.messageCount);
-        break;
-      case "alphabetical":
-        sorted.sort((a, b) => a.projectName.localeCompare(b.projectName));
-        break;
-    }
+  // Index results arrive filtered and sorted a page at a time; regex matches
+  // stream in as files are scanned, so they are sorted here
+  const sortedResults = useMemo(
+    () => (regexMode ? sortResults(results, sortBy) : results),
+    [regexMode, results, sortBy],
+  );
+  const totalResults = regexMode ? results.length : indexTotal;
 
-    return sorted;
-  }, [results, sortBy, dateRange]);
+  const { pricing, setPricing } = usePricing();
+
+  // A search joins the history once its query has stayed put for a moment,
+  // so the words typed on the way there don't
+  const searchHistory = useSearchHistory();
+  const recordSearch = searchHistory.record;
+  useEffect(() => {
+    if (isIndexing || searching || !hasSearched || !query.trim()) return;
+    const timer = setTimeout(
+      () =>
+        recordSearch({
+          ...currentFilters,
+          fuzzy,
+          semantic,
+          thinking,
+          regex: regexMode,
+          resultCount: totalResults,
+        }),
+      SEARCH_HISTORY_DELAY_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [
+    isIndexing,
+    searching,
+    hasSearched,
+    query,
+    currentFilters,
+    fuzzy,
+    semantic,
+    thinking,
+    regexMode,
+    totalResults,
+    recordSearch,
+  ]);
+
+  const handleRecallSearch = useCallback(
+    (entry: SearchHistoryEntry) => {
+      setQuery(entry.query);
+      setSelectedProject(entry.project);
+      setAccountFilter(entry.account);
+      setDateRange(entry.dateRange);
+      setSortBy(entry.sortBy);
+      setFuzzy(entry.fuzzy);
+      setSemantic(entry.semantic);
+      setThinking(entry.thinking ?? false);
+      setRegexMode(entry.regex);
+    },
+    [setQuery, setFuzzy, setSemantic, setThinking],
+  );
 
   // Persist preferences on change (debounced)
   useEffect(() => {
@@ -273,15 +404,79 @@ export default function App(): JSX.Element {
     return cleanup;
   }, []);
 
-  const handleSelectResult = useCallback(async (id: string) => {
-    try {
-      const conversation = await window.electronAPI.getConversation(id);
-      setSelectedConversation(conversation);
-      setRightPanel(conversation ? "conversation" : "empty");
-    } catch (err) {
-      console.error("Failed to load conversation:", err);
-    }
-  }, []);
+  const handleSelectResult = useCallback(
+    async (id: string) => {
+      try {
+        const conversation = await window.electronAPI.getConversation(id);
+        const result = results.find((r) => r.id === id);
+        // A matched tool call is the more specific anchor ("which session touched auth.ts")
+        const lineNumber = result?.matchedTool?.lineNumber ?? result?.matchedMessage?.lineNumber;
+        setFocusLineNumber(query.trim() ? lineNumber : undefined);
+        // A regex result highlights the text its first match found
+        const firstRegexMatch = result?.regexMatches?.[0];
+        setMatchedTerms(
+          firstRegexMatch
+            ? [firstRegexMatch.excerpt.slice(firstRegexMatch.start, firstRegexMatch.end)]
+            : result?.matchedTerms,
+        );
+        setMatchedLines(result?.regexMatches?.map((m) => m.lineNumber));
+        setChainLength(result?.chainLength);
+        setSelectedConversation(conversation);
+        setRightPanel(conversation ? "conversation" : "empty");
+      } catch (err) {
+        console.error("Failed to load conversation:", err);
+      }
+    },
+    [results, query],
+  );
+
+  // Line numbers belong to one file, so search anchors don't carry over
+  // between a session and its whole chain
+  const showChainConversation = useCallback(
+    async (load: () => Promise<Conversation | null>) => {
+      try {
+        const conversation = await load();
+        if (!conversation) return;
+        setFocusLineNumber(undefined);
+        setMatchedLines(undefined);
+        setSelectedConversation(conversation);
+      } catch (err) {
+        console.error("Failed to load session chain:", err);
+      }
+    },
+    [],
+  );
+
+  const handleViewChain = useCallback(() => {
+    if (!selectedConversation) return;
+    const id = selectedConversation.id;
+    showChainConversation(() => window.electronAPI.getSessionChain(id));
+  }, [selectedConversation, showChainConversation]);
+
+  // Opens a conversation at a change from the Files panel
+  const handleOpenFileChange = useCallback(
+    async (id: string, lineNumber: number) => {
+      try {
+        const conversation = await window.electronAPI.getConversation(id);
+        setFocusLineNumber(lineNumber);
+        setMatchedTerms(undefined);
+        setMatchedLines(undefined);
+        setChainLength(undefined);
+        setSelectedConversation(conversation);
+        setRightPanel(conversation ? "conversation" : "empty");
+      } catch (err) {
+        console.error("Failed to load conversation:", err);
+      }
+    },
+    [],
+  );
+
+  const handleOpenChainSession = useCallback(
+    (id: string) => {
+      showChainConversation(() => window.electronAPI.getConversation(id));
+    },
+    [showChainConversation],
+  );
 
   const handleRefresh = useCallback(async () => {
     setIsLoading(true);
@@ -453,6 +648,7 @@ export default function App(): JSX.Element {
         const conversation =
           await window.electronAPI.getLatestConversation(rootProjectPath);
         if (conversation) {
+          setChainLength(undefined);
           setSelectedConversation(conversation);
           setActiveChatInstanceId(null);
           setRightPanel("conversation");
@@ -510,6 +706,15 @@ export default function App(): JSX.Element {
     [selectedConversation],
   );
 
+  // Opens the conversations that used a tool, from the tool usage analytics
+  const handleSearchTool = useCallback(
+    (filter: string) => {
+      setQuery(`tool:${filter}`);
+      setRightPanel(selectedConversation ? "conversation" : "empty");
+    },
+    [setQuery, selectedConversation],
+  );
+
   const handleSaveSettings = useCallback(
     async (partial: Partial<AppSettings>) => {
       const updated = { ...appSettings, ...partial };
@@ -566,6 +771,26 @@ export default function App(): JSX.Element {
             </svg>
             Chat
           </button>
+          <button
+            onClick={() => setRightPanel("files")}
+            disabled={isLoading}
+            className="hover:text-neutral-300 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+            title="Most edited files"
+          >
+            <svg
+              className="w-4 h-4"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+              />
+            </svg>
+          </button>
           <button
             onClick={() => setRightPanel("worktrees")}
             disabled={isLoading}
@@ -657,6 +882,20 @@ export default function App(): JSX.Element {
               value={query}
               onChange={setQuery}
               isSearching={searching}
+              suggestions={searchSuggestions}
+              fuzzy={fuzzy}
+              onFuzzyChange={setFuzzy}
+              semantic={semantic}
+              onSemanticChange={setSemantic}
+              thinking={thinking}
+              onThinkingChange={setThinking}
+              regex={regexMode}
+              onRegexChange={setRegexMode}
+              error={regexMode ? regexSearch.error : null}
+              history={searchHistory.history}
+              onRecall={handleRecallSearch}
+              onRemoveHistory={searchHistory.remove}
+              onClearHistory={searchHistory.clear}
             />
             <FilterPanel
               projects={projects}
@@ -674,10 +913,20 @@ export default function App(): JSX.Element {
             />
           </div>
 
+          {/* Saved Searches */}
+          <SavedSearches
+            searches={savedSearches}
+            newCounts={newCounts}
+            current={currentFilters}
+            onOpen={handleOpenSavedSearch}
+            onSave={(name) => saveSearch(name, currentFilters)}
+            onRemove={removeSearch}
+          />
+
           {/* Results Counter */}
           <div className="px-4 py-2 border-b border-neutral-800">
             <div className="text-xs text-neutral-500">
-              {sortedResults.length === results.length ? (
+              {sortedResults.length === totalResults ? (
                 <>
                   Showing{" "}
                   <span className="font-medium text-neutral-400">
@@ -693,12 +942,41 @@ export default function App(): JSX.Element {
                   </span>{" "}
                   of{" "}
                   <span className="font-medium text-neutral-400">
-                    {results.length}
+                    {totalResults}
                   </span>{" "}
                   conversations
                 </>
               )}
             </div>
+            {semantic && !regexMode && semanticStatus?.building && (
+              <div className="mt-1 text-[11px] text-neutral-500">
+                {`Embedding conversations ${semanticStatus.embedded}/${semanticStatus.total}… meaning matches cover those done so far`}
+              </div>
+            )}
+            {regexMode && (regexSearch.searching || regexSearch.progress) && (
+              <div className="flex items-center gap-2 mt-1 text-[11px] text-neutral-500">
+                <span>
+                  {regexSearch.searching
+                    ? "Scanning"
+                    : regexSearch.progress &&
+                        regexSearch.progress.scanned < regexSearch.progress.total
+                      ? "Stopped after"
+                      : "Scanned"}
+                  {regexSearch.progress &&
+                    ` ${regexSearch.progress.scanned}/${regexSearch.progress.total}`}{" "}
+                  conversations
+                  {regexSearch.searching && "…"}
+                </span>
+                {regexSearch.searching && (
+                  <button
+                    onClick={regexSearch.cancel}
+                    className="text-claude-orange hover:underline"
+                  >
+                    Stop
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Results */}
@@ -763,7 +1041,11 @@ export default function App(): JSX.Element {
                 }
                 accountFilter={accountFilter}
                 profiles={profiles}
+                pricing={pricing}
                 groupByProject={appSettings.groupByProject}
+                hasMore={!regexMode && hasMore}
+                loadingMore={!regexMode && loadingMore}
+                onLoadMore={regexMode ? undefined : loadMore}
               />
             )}
           </div>
@@ -811,12 +1093,28 @@ export default function App(): JSX.Element {
                   }
                   defaultProfileId={defaultProfileId}
                   onClearDefaultProfile={handleClearDefaultProfile}
+                  pricing={pricing}
+                  onPricingChange={setPricing}
+                  onSearchTool={handleSearchTool}
                 />
               );
             }
             if (rightPanel === "worktrees") {
               return <WorktreesPanel onChatInWorktree={handleChatInProject} onClose={() => setRightPanel(selectedConversation ? "conversation" : "empty")} />;
             }
+            if (rightPanel === "files") {
+              return (
+                <FilesPanel
+                  onOpenConversation={handleOpenFileChange}
+                  onClose={() =>
+                    setRightPanel(
+                      selectedConversation ? "conversation" : "empty",
+                    )
+                  }
+                  profiles={profiles}
+                />
+              );
+            }
             if (rightPanel === "profiles") {
               return (
                 <ProfilesPanel
@@ -828,16 +1126,45 @@ export default function App(): JSX.Element {
             }
             if (selectedConversation) {
               return (
-                <ErrorBoundary>
-                  <ConversationView
-                    conversation={selectedConversation}
-                    query={query}
-                    onContinueChat={handleContinueChat}
-                    gitInfo={gitInfo}
-                    onGoToRootProject={handleGoToRootProject}
-                    onCreateWorktree={handleCreateWorktree}
-                  />
-                </ErrorBoundary>
+                <div className="flex h-full">
+                  <div className="flex-1 min-w-0">
+                    <ErrorBoundary>
+                      <ConversationView
+                        conversation={selectedConversation}
+                        query={matchedTerms?.join(" ") ?? query}
+                        focusLineNumber={focusLineNumber}
+                        matchedLineNumbers={matchedLines}
+                        onContinueChat={handleContinueChat}
+                        onFindSimilar={() =>
+                          setSimilarToId(
+                            similarToId ? null : selectedConversation.id,
+                          )
+                        }
+                        similarOpen={similarToId !== null}
+                        gitInfo={gitInfo}
+                        onGoToRootProject={handleGoToRootProject}
+                        onCreateWorktree={handleCreateWorktree}
+                        chainLength={chainLength}
+                        onViewChain={handleViewChain}
+                        onOpenSession={handleOpenChainSession}
+                        pricing={pricing}
+                      />
+                    </ErrorBoundary>
+                  </div>
+                  {similarToId && (
+                    <div className="w-80 shrink-0 border-l border-neutral-800">
+                      <SimilarConversationsPanel
+                        conversationId={similarToId}
+                        selectedId={selectedConversation.id}
+                        onSelect={handleSelectResult}
+                        onNewChat={handleChatInProject}
+                        onClose={() => setSimilarToId(null)}
+                        gitInfo={gitInfo}
+                        profiles={profiles}
+                      />
+                    </div>
+                  )}
+                </div>
               );
             }
             return (
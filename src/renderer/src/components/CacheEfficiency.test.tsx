@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import CacheEfficiency from './CacheEfficiency'
+import { toDayString } from '../../../shared/date-range'
+import { buildProfile } from '../../../test/factories'
+import type { ModelPrice, SessionUsage } from '../../../shared/types'
+
+const pricing: ModelPrice[] = [{ model: 'claude-opus-4', input: 10, output: 50, cacheRead: 1, cacheWrite: 12 }]
+
+function session(id: string, inputTokens: number, cacheReadTokens: number, overrides: Partial<SessionUsage> = {}): SessionUsage {
+  return {
+    id,
+    title: `Session ${id}`,
+    projectPath: '/dev/api',
+    projectName: 'dev/api',
+    account: 'default',
+    timestamp: new Date().toISOString(),
+    usage: [{ date: toDayString(new Date()), model: 'claude-opus-4-1', inputTokens, outputTokens: 0, cacheReadTokens, cacheCreationTokens: 0 }],
+    ...overrides
+  }
+}
+
+describe('CacheEfficiency', () => {
+  beforeEach(() => {
+    vi.mocked(window.electronAPI.getSessionUsage).mockResolvedValue([
+      session('1', 100_000, 900_000),
+      session('2', 100_000, 900_000, { projectPath: '/dev/web', projectName: 'dev/web' }),
+      session('3', 900_000, 100_000, { title: 'Rewrite the parser' })
+    ])
+  })
+
+  function renderReport() {
+    render(<CacheEfficiency pricing={pricing} profiles={[buildProfile({ id: 'default', label: 'Default', emoji: '🤖' })]} />)
+  }
+
+  it('shows the hit ratio, what caching saved and the sessions that reused it least', async () => {
+    renderReport()
+
+    await waitFor(() => expect(screen.getByTestId('cache-hit-ratio')).toHaveTextContent('63%'))
+    // 3M prompt tokens at $10, against 1.1M fresh and 1.9M read
+    expect(screen.getByTestId('cache-saved')).toHaveTextContent('$17.10')
+    expect(screen.getByText('dev/web')).toBeInTheDocument()
+    expect(screen.getByText('🤖 Default')).toBeInTheDocument()
+
+    const lowReuse = screen.getByRole('list', { name: 'Sessions with low cache reuse' })
+    expect(lowReuse).toHaveTextContent('Rewrite the parser')
+    expect(lowReuse).not.toHaveTextContent('Session 1')
+  })
+
+  it('exports the period as CSV with the current prices', async () => {
+    vi.mocked(window.electronAPI.exportCacheReport).mockResolvedValue({ success: true, filePath: '/tmp/cache.csv' })
+    renderReport()
+    await waitFor(() => expect(screen.getByTestId('cache-hit-ratio')).toHaveTextContent('63%'))
+
+    await userEvent.click(screen.getByRole('button', { name: '7 Days' }))
+    await userEvent.click(screen.getByRole('button', { name: 'Export CSV' }))
+
+    const now = new Date()
+    const since = toDayString(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 6))
+    expect(window.electronAPI.exportCacheReport).toHaveBeenCalledWith(since, pricing)
+    expect(await screen.findByText('Saved to /tmp/cache.csv')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,233 @@
+import { useState, useEffect, useMemo } from 'react'
+import { PERIOD_OPTIONS, formatDay, toDayString } from '../../../shared/date-range'
+import { formatCost, formatTokens } from '../../../shared/pricing'
+import { MIN_COMPARED_PROMPT_TOKENS, buildCacheReport, formatHitRatio, promptTokens } from '../../../shared/cache-report'
+import { useProfileLabels } from '../hooks/useProfileLabels'
+import type { CacheGroupStats, CacheStats, ModelPrice, Profile, SessionUsage } from '../../../shared/types'
+
+// Groups and flagged sessions listed before the rest are left to the CSV
+const LIST_MAX = 8
+
+interface CacheEfficiencyProps {
+  pricing: ModelPrice[]
+  profiles: Profile[]
+}
+
+function startOfPeriod(days: number): string {
+  const now = new Date()
+  return toDayString(new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1)))
+}
+
+// What caching saved, signed: writes cost more than fresh input, so it can lose money
+function formatSaved(stats: CacheStats): string {
+  const saved = stats.uncachedCost - stats.cost
+  return saved < 0 ? `−${formatCost(-saved)}` : formatCost(saved)
+}
+
+function describeStats(stats: CacheStats): string {
+  return [
+    `Cache read ${stats.cacheReadTokens.toLocaleString()} · Cache write ${stats.cacheCreationTokens.toLocaleString()} · Input ${stats.inputTokens.toLocaleString()}`,
+    `${formatCost(stats.cost)} billed, ${formatCost(stats.uncachedCost)} without caching`
+  ].join('\n')
+}
+
+function GroupTable({ title, groups }: { title: string; groups: CacheGroupStats[] }): JSX.Element {
+  return (
+    <div>
+      <h4 className="text-[10px] font-semibold text-neutral-500 uppercase tracking-wider mb-2">{title}</h4>
+      {groups.length === 0 ? (
+        <p className="text-xs text-neutral-600">No usage in this period</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {groups.slice(0, LIST_MAX).map((group) => (
+            <li key={group.key} className="text-xs" title={describeStats(group)}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-neutral-300">{group.label}</span>
+                <span className="shrink-0 text-neutral-400 tabular-nums">
+                  {formatHitRatio(group.hitRatio)} · saved {formatSaved(group)}
+                </span>
+              </div>
+              <div className="mt-0.5 h-1 rounded bg-neutral-800">
+                <div className="h-1 rounded bg-sky-500/60" style={{ width: `${(group.hitRatio ?? 0) * 100}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+/**
+ * How much of the prompt context was served from the cache: the hit ratio by
+ * day, project and profile, what caching saved, and the sessions that reused
+ * it unusually little. The full report can be saved as CSV.
+ */
+export default function CacheEfficiency({ pricing, profiles }: CacheEfficiencyProps): JSX.Element {
+  const [sessions, setSessions] = useState<SessionUsage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(30)
+  const [hoveredDay, setHoveredDay] = useState<string | null>(null)
+  const [exportStatus, setExportStatus] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    window.electronAPI
+      .getSessionUsage()
+      .then((data) => {
+        if (!cancelled) setSessions(data)
+      })
+      .catch(() => {
+        if (!cancelled) setSessions([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const since = useMemo(() => startOfPeriod(days), [days])
+  const profileLabel = useProfileLabels(profiles)
+  const report = useMemo(
+    () => buildCacheReport(sessions, pricing, since, profileLabel),
+    [sessions, pricing, since, profileLabel]
+  )
+  const lowReuse = report.sessions.filter((session) => session.lowReuse)
+
+  const handleExport = async (): Promise<void> => {
+    setExportStatus(null)
+    const result = await window.electronAPI.exportCacheReport(since, pricing)
+    if (result.success) setExportStatus(`Saved to ${result.filePath}`)
+    else if (!result.canceled) setExportStatus(`Export failed: ${result.error}`)
+  }
+
+  return (
+    <div>
+      {/* Controls */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-1">
+          {PERIOD_OPTIONS.map((opt) => (
+            <button
+              key={opt.days}
+              onClick={() => setDays(opt.days)}
+              className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                days === opt.days
+                  ? 'bg-claude-orange text-white'
+                  : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-800'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={loading || report.sessions.length === 0}
+          className="px-2.5 py-1 text-xs rounded-md text-neutral-400 hover:text-neutral-200 hover:bg-neutral-800 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          Export CSV
+        </button>
+      </div>
+      {exportStatus && <p className="-mt-2 mb-3 text-xs text-neutral-500 truncate">{exportStatus}</p>}
+
+      {loading ? (
+        <div className="h-28 flex items-center justify-center">
+          <span className="text-xs text-neutral-600 animate-pulse">Loading usage...</span>
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-4 gap-3 mb-4 max-w-2xl">
+            {[
+              { label: 'Hit ratio', value: formatHitRatio(report.totals.hitRatio), testId: 'cache-hit-ratio' },
+              { label: 'Billed', value: formatCost(report.totals.cost) },
+              { label: 'Without caching', value: formatCost(report.totals.uncachedCost) },
+              { label: 'Saved', value: formatSaved(report.totals), testId: 'cache-saved' }
+            ].map(({ label, value, testId }) => (
+              <div key={label}>
+                <p className="text-[10px] uppercase tracking-wider text-neutral-500">{label}</p>
+                <p className="text-lg font-semibold text-neutral-200" data-testid={testId}>
+                  {value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Daily hit ratio */}
+          <div className="flex items-end gap-px h-20">
+            {report.daily.map((day) => {
+              const isHovered = hoveredDay === day.date
+              return (
+                <div
+                  key={day.date}
+                  className="relative flex-1 flex flex-col items-center justify-end h-full cursor-default"
+                  onMouseEnter={() => setHoveredDay(day.date)}
+                  onMouseLeave={() => setHoveredDay(null)}
+                >
+                  {isHovered && (
+                    <div className="absolute bottom-full mb-1.5 left-1/2 -translate-x-1/2 z-10 pointer-events-none">
+                      <div className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 whitespace-nowrap shadow-lg">
+                        <div className="font-medium">{formatDay(day.date)}</div>
+                        <div className="text-neutral-400">
+                          {formatHitRatio(day.hitRatio)} from cache · {formatTokens(promptTokens(day))} prompt tokens
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                  <div
+                    className={`w-full rounded-t-sm transition-colors ${isHovered ? 'bg-sky-400' : 'bg-sky-500/50'}`}
+                    style={{ height: `${(day.hitRatio ?? 0) * 100}%` }}
+                  />
+                </div>
+              )
+            })}
+          </div>
+          {report.daily.length > 0 && (
+            <div className="flex justify-between mt-1 text-[9px] text-neutral-600">
+              <span>{formatDay(report.daily[0].date)}</span>
+              <span>{formatDay(report.daily[report.daily.length - 1].date)}</span>
+            </div>
+          )}
+
+          {/* Breakdowns */}
+          <div className="grid grid-cols-2 gap-6 mt-5 max-w-3xl">
+            <GroupTable title="By project" groups={report.byProject} />
+            <GroupTable title="By profile" groups={report.byProfile} />
+          </div>
+
+          {/* Sessions with low reuse */}
+          <div className="mt-5 max-w-3xl">
+            <h4 className="text-[10px] font-semibold text-neutral-500 uppercase tracking-wider mb-2">
+              Low cache reuse
+            </h4>
+            {lowReuse.length === 0 ? (
+              <p className="text-xs text-neutral-600">
+                No session with {formatTokens(MIN_COMPARED_PROMPT_TOKENS)}+ prompt tokens reused the cache far less
+                than usual
+              </p>
+            ) : (
+              <ul className="space-y-1" aria-label="Sessions with low cache reuse">
+                {lowReuse.slice(0, LIST_MAX).map((session) => (
+                  <li key={session.id} className="flex items-center gap-2 text-xs" title={describeStats(session)}>
+                    <span className="truncate text-neutral-300">{session.title || session.id}</span>
+                    <span className="shrink-0 text-neutral-500">
+                      {session.projectName} · {profileLabel(session.account)}
+                    </span>
+                    <span className="ml-auto shrink-0 text-amber-400/80 tabular-nums">
+                      {formatHitRatio(session.hitRatio)} · {formatCost(session.cost)}
+                    </span>
+                  </li>
+                ))}
+                {lowReuse.length > LIST_MAX && (
+                  <li className="text-xs text-neutral-600">{lowReuse.length - LIST_MAX} more in the CSV export</li>
+                )}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
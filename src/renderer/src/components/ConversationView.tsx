@@ -14,19 +14,48 @@ import MessageNavigation from "./MessageNavigation";
 import MessageContent from "./MessageContent";
 import ToolResultCard from "./ToolResultCard";
 import ToolInvocationBadge from "./ToolInvocationBadge";
+import TurnWaterfall from "./TurnWaterfall";
+import { getHighlightText } from "../../../shared/query-parser";
+import { describeCompaction } from "../../../shared/compaction";
+import {
+  buildThread,
+  selectBranchesFor,
+  type BranchPoint,
+  type BranchSelections,
+} from "../../../shared/message-tree";
+import {
+  DEFAULT_PRICING,
+  estimateCost,
+  formatCost,
+  formatTokens,
+  sumTokens,
+  totalTokens,
+} from "../../../shared/pricing";
 import type {
+  CompactionInfo,
   Conversation,
   ConversationMessage,
   MessageMetadata,
   ExportFormat,
+  ExportOptions,
   GitInfo,
+  ModelPrice,
   CreateWorktreeResult,
+  SessionChainPart,
+  TurnStat,
 } from "../../../shared/types";
 
 interface ConversationViewProps {
   conversation: Conversation;
   query: string;
+  // Line number of the message to scroll to instead of the newest one
+  focusLineNumber?: number;
+  // Line numbers of messages a regex search matched, marked in the transcript
+  matchedLineNumbers?: number[];
   onContinueChat?: (projectPath: string, sessionId: string, account?: string) => void;
+  // Toggles the list of similar conversations; the button is shown only when provided
+  onFindSimilar?: () => void;
+  similarOpen?: boolean;
   gitInfo?: Record<string, GitInfo>;
   onGoToRootProject?: (rootProjectPath: string) => void;
   onCreateWorktree?: (
@@ -34,19 +63,36 @@ interface ConversationViewProps {
     worktreePath: string,
     branch: string,
   ) => Promise<CreateWorktreeResult>;
+  // Number of resumed or continued sessions the conversation is one of
+  chainLength?: number;
+  // Opens the whole session chain; the link is shown only when provided
+  onViewChain?: () => void;
+  // Opens one session of the chain on its own
+  onOpenSession?: (id: string) => void;
+  // Prices for the estimated cost in the header; list prices when not given
+  pricing?: ModelPrice[];
 }
 
 export default function ConversationView({
   conversation,
   query,
+  focusLineNumber,
+  matchedLineNumbers,
   onContinueChat,
+  onFindSimilar,
+  similarOpen = false,
   gitInfo,
   onGoToRootProject,
   onCreateWorktree,
+  chainLength,
+  onViewChain,
+  onOpenSession,
+  pricing = DEFAULT_PRICING,
 }: ConversationViewProps): JSX.Element {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [exportThinking, setExportThinking] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement>(null);
 
   // Worktree creation form state
@@ -66,38 +112,125 @@ export default function ConversationView({
   // Message navigation state
   const [currentMessageIndex, setCurrentMessageIndex] = useState(0);
 
+  // Branch chosen at each fork where the session was rewound or forked
+  const [branchSelections, setBranchSelections] = useState<BranchSelections>(
+    {},
+  );
+
+  // The thread shown, oldest first (top) to newest last (bottom): the
+  // selected branches, by default the ones the session went on with
+  const thread = useMemo(
+    () => buildThread(conversation.messages, branchSelections),
+    [conversation.messages, branchSelections],
+  );
+  const displayMessages = thread.messages;
+
+  const branchPointsByIndex = useMemo(
+    () => new Map(thread.branchPoints.map((p) => [p.threadIndex, p])),
+    [thread.branchPoints],
+  );
+  const forkIndices = useMemo(
+    () => thread.branchPoints.map((p) => p.threadIndex),
+    [thread.branchPoints],
+  );
+  const compactionIndices = useMemo(
+    () =>
+      displayMessages.flatMap((message, i) => (message.compaction ? [i] : [])),
+    [displayMessages],
+  );
+
+  const usageSummary = useMemo(() => {
+    if (!conversation.usage) return null;
+    const counts = sumTokens(conversation.usage);
+    return {
+      tokens: totalTokens(counts),
+      cost: estimateCost(conversation.usage, pricing),
+      detail: [
+        `Input ${counts.inputTokens.toLocaleString()}`,
+        `Output ${counts.outputTokens.toLocaleString()}`,
+        `Cache write ${counts.cacheCreationTokens.toLocaleString()}`,
+        `Cache read ${counts.cacheReadTokens.toLocaleString()}`,
+      ].join("\n"),
+    };
+  }, [conversation.usage, pricing]);
+
+  const hasThinking = useMemo(
+    () => conversation.messages.some((message) => message.thinking?.length),
+    [conversation.messages],
+  );
+
+  // In a whole session chain: the file each message comes from, and the
+  // message each session starts at
+  const chainLayout = useMemo(() => {
+    const fileByMessage = new Map<ConversationMessage, string>();
+    const partStarts = new Map<ConversationMessage, number>();
+    conversation.chain?.forEach((part, i) => {
+      partStarts.set(conversation.messages[part.firstMessageIndex], i);
+      const end = part.firstMessageIndex + part.messageCount;
+      for (let m = part.firstMessageIndex; m < end; m++) {
+        fileByMessage.set(conversation.messages[m], part.id);
+      }
+    });
+    return { fileByMessage, partStarts };
+  }, [conversation]);
+
   // ─── Virtualizer ─────────────────────────────────────────────────
   const virtualizer = useVirtualizer({
-    count: conversation.messages.length,
+    count: displayMessages.length,
     getScrollElement: () => scrollContainerRef.current,
     estimateSize: () => 120,
     overscan: 5,
   });
 
-  // Messages in chronological order: oldest first (top), newest last (bottom)
-  const displayMessages = useMemo(
-    () => conversation.messages,
-    [conversation.messages],
-  );
-
-  // When conversation changes: scroll to bottom (newest message) for chat-like UX
+  // When conversation changes: jump to the matched message if a search hit
+  // points at one, switching to its branch, otherwise scroll to bottom
+  // (newest message) for chat-like UX
   useEffect(() => {
-    const lastIndex = conversation.messages.length - 1;
+    const focusSource =
+      focusLineNumber !== undefined
+        ? conversation.messages.findIndex(
+            (m) => m.lineNumber === focusLineNumber,
+          )
+        : -1;
+    const selections =
+      focusSource >= 0
+        ? selectBranchesFor(conversation.messages, focusSource)
+        : {};
+    setBranchSelections(selections);
+    const { messages } = buildThread(conversation.messages, selections);
+    const lastIndex = messages.length - 1;
     if (lastIndex < 0) return;
-    setCurrentMessageIndex(lastIndex);
+    const focusIndex =
+      focusSource >= 0
+        ? messages.indexOf(conversation.messages[focusSource])
+        : -1;
+    const targetIndex = focusIndex >= 0 ? focusIndex : lastIndex;
+    setCurrentMessageIndex(targetIndex);
     // Double-raf: wait two paint cycles so the virtualizer can measure sizes
-    // before we jump to the end (avoids landing mid-list with estimated sizes)
+    // before we jump (avoids landing mid-list with estimated sizes)
     let raf1: number, raf2: number;
     raf1 = requestAnimationFrame(() => {
       raf2 = requestAnimationFrame(() => {
-        virtualizer.scrollToIndex(lastIndex, { align: "end" });
+        virtualizer.scrollToIndex(targetIndex, {
+          align: focusIndex >= 0 ? "center" : "end",
+        });
       });
     });
     return () => {
       cancelAnimationFrame(raf1);
       cancelAnimationFrame(raf2);
     };
-  }, [conversation.id, conversation.messages.length, virtualizer]);
+  }, [
+    conversation.id,
+    conversation.messages,
+    focusLineNumber,
+    virtualizer,
+  ]);
+
+  const matchedLines = useMemo(
+    () => new Set(matchedLineNumbers ?? []),
+    [matchedLineNumbers],
+  );
 
   // ─── In-chat search state ──────────────────────────────────────────
   const [chatSearchOpen, setChatSearchOpen] = useState(false);
@@ -118,9 +251,11 @@ export default function ConversationView({
     return matches;
   }, [chatSearchQuery, displayMessages]);
 
-  // The effective highlight query: local search takes priority over global
+  // The effective highlight query: local search takes priority over global,
+  // whose operators (tool:, from:, ...) are not text to highlight
+  const globalHighlight = useMemo(() => getHighlightText(query), [query]);
   const effectiveQuery =
-    chatSearchOpen && chatSearchQuery ? chatSearchQuery : query;
+    chatSearchOpen && chatSearchQuery ? chatSearchQuery : globalHighlight;
 
   // Reset current match when matches change
   useEffect(() => {
@@ -234,6 +369,41 @@ export default function ConversationView({
     [virtualizer],
   );
 
+  // The shown message each turn scrolls to, or -1 when its response is on a
+  // branch not shown. Transcripts without uuids have no branches, so their
+  // turns go to the first message from the turn's line on.
+  const turnTargets = useMemo(() => {
+    const indexByUuid = new Map<string, number>();
+    displayMessages.forEach((message, i) => {
+      if (message.uuid) indexByUuid.set(message.uuid, i);
+    });
+    const targets = new Map<TurnStat, number>();
+    for (const turn of conversation.turns ?? []) {
+      if (turn.messageUuid || indexByUuid.size > 0) {
+        targets.set(turn, indexByUuid.get(turn.messageUuid ?? "") ?? -1);
+      } else {
+        const index = displayMessages.findIndex(
+          (message) => (message.lineNumber ?? 0) >= turn.lineNumber,
+        );
+        targets.set(turn, index >= 0 ? index : displayMessages.length - 1);
+      }
+    }
+    return targets;
+  }, [conversation.turns, displayMessages]);
+
+  const isTurnShown = useCallback(
+    (turn: TurnStat) => (turnTargets.get(turn) ?? -1) >= 0,
+    [turnTargets],
+  );
+
+  const handleSelectTurn = useCallback(
+    (turn: TurnStat) => {
+      const index = turnTargets.get(turn) ?? -1;
+      if (index >= 0) scrollToMessage(index);
+    },
+    [turnTargets, scrollToMessage],
+  );
+
   const handleNavigate = useCallback(
     (index: number) => {
       scrollToMessage(index);
@@ -249,10 +419,22 @@ export default function ConversationView({
 
   const handleJumpToLast = useCallback(() => {
     // Jump to newest message (bottom)
-    const lastIndex = conversation.messages.length - 1;
+    const lastIndex = displayMessages.length - 1;
     virtualizer.scrollToIndex(lastIndex, { align: "end" });
     setCurrentMessageIndex(lastIndex);
-  }, [conversation.messages.length, virtualizer]);
+  }, [displayMessages.length, virtualizer]);
+
+  // Show another branch at a fork; the messages before it stay in place
+  const handleSelectBranch = useCallback(
+    (point: BranchPoint, branch: number) => {
+      setBranchSelections((prev) => ({
+        ...prev,
+        [point.forkKey]: point.branches[branch].key,
+      }));
+      setCurrentMessageIndex(point.threadIndex);
+    },
+    [],
+  );
 
   // Keyboard navigation (only when chat search is NOT focused)
   useEffect(() => {
@@ -268,7 +450,7 @@ export default function ConversationView({
         scrollToMessage(currentMessageIndex - 1);
       } else if (
         e.key === "ArrowDown" &&
-        currentMessageIndex < conversation.messages.length - 1
+        currentMessageIndex < displayMessages.length - 1
       ) {
         e.preventDefault();
         scrollToMessage(currentMessageIndex + 1);
@@ -278,7 +460,7 @@ export default function ConversationView({
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [
     currentMessageIndex,
-    conversation.messages.length,
+    displayMessages.length,
     scrollToMessage,
     chatSearchOpen,
   ]);
@@ -301,11 +483,19 @@ export default function ConversationView({
     setShowExportMenu(false);
     setExportStatus("Exporting...");
 
+    const options: ExportOptions = {};
+    if (conversation.chain) options.chain = true;
+    if (exportThinking && hasThinking) options.thinking = true;
+
     try {
-      const result = await window.electronAPI.exportConversation(
-        conversation.id,
-        format,
-      );
+      const result =
+        Object.keys(options).length > 0
+          ? await window.electronAPI.exportConversation(
+              conversation.id,
+              format,
+              options,
+            )
+          : await window.electronAPI.exportConversation(conversation.id, format);
       if (result.success) {
         setExportStatus("Exported!");
         setTimeout(() => setExportStatus(null), 2000);
@@ -451,6 +641,35 @@ export default function ConversationView({
               Find
             </button>
 
+            {/* Similar Conversations Toggle */}
+            {onFindSimilar && (
+              <button
+                onClick={onFindSimilar}
+                aria-pressed={similarOpen}
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium border rounded-md transition-colors ${
+                  similarOpen
+                    ? "text-claude-orange bg-claude-orange/10 border-claude-orange/40"
+                    : "text-neutral-300 bg-neutral-800 hover:bg-neutral-700 border-neutral-700"
+                }`}
+                title="Find conversations that touched the same files, ran the same commands or discussed the same things"
+              >
+                <svg
+                  className="w-3.5 h-3.5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2"
+                  />
+                </svg>
+                Similar
+              </button>
+            )}
+
             {/* Export Button */}
             <div className="relative" ref={exportMenuRef}>
               <button
@@ -475,9 +694,20 @@ export default function ConversationView({
 
               {showExportMenu && (
                 <div className="absolute right-0 mt-1 w-40 bg-neutral-800 border border-neutral-700 rounded-md shadow-lg z-10">
+                  {hasThinking && (
+                    <label className="flex items-center gap-2 px-3 py-2 text-xs text-neutral-400 border-b border-neutral-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={exportThinking}
+                        onChange={(e) => setExportThinking(e.target.checked)}
+                        className="accent-blue-500"
+                      />
+                      Include thinking
+                    </label>
+                  )}
                   <button
                     onClick={() => handleExport("markdown")}
-                    className="w-full px-3 py-2 text-left text-xs text-neutral-300 hover:bg-neutral-700 rounded-t-md"
+                    className={`w-full px-3 py-2 text-left text-xs text-neutral-300 hover:bg-neutral-700 ${hasThinking ? "" : "rounded-t-md"}`}
                   >
                     Markdown (.md)
                   </button>
@@ -500,7 +730,9 @@ export default function ConversationView({
             {/* Message Navigation */}
             <MessageNavigation
               currentIndex={currentMessageIndex}
-              totalMessages={conversation.messages.length}
+              totalMessages={displayMessages.length}
+              forkIndices={forkIndices}
+              compactionIndices={compactionIndices}
               onNavigate={handleNavigate}
               onJumpToFirst={handleJumpToFirst}
               onJumpToLast={handleJumpToLast}
@@ -509,11 +741,51 @@ export default function ConversationView({
             <div className="text-right text-xs text-neutral-500">
               <div>{formatFullDate(conversation.timestamp)}</div>
               <div className="mt-1">{conversation.messageCount} messages</div>
+              {usageSummary && (
+                <div className="mt-1" title={usageSummary.detail}>
+                  {formatTokens(usageSummary.tokens)} tokens ·{" "}
+                  {formatCost(usageSummary.cost)}
+                </div>
+              )}
             </div>
           </div>
         </div>
       </div>
 
+      {/* Turn timeline */}
+      {conversation.turns && (
+        <TurnWaterfall
+          turns={conversation.turns}
+          onSelect={handleSelectTurn}
+          isShown={isTurnShown}
+        />
+      )}
+
+      {/* Session chain */}
+      {conversation.chain ? (
+        <div className="flex items-center gap-2 px-4 py-1.5 text-xs text-neutral-400 border-b border-neutral-800 bg-neutral-900/50">
+          <span>⛓</span>
+          <span>
+            Whole session chain: {conversation.chain.length} resumed or
+            continued sessions
+          </span>
+        </div>
+      ) : (
+        chainLength &&
+        onViewChain && (
+          <div className="flex items-center gap-2 px-4 py-1.5 text-xs text-neutral-400 border-b border-neutral-800 bg-neutral-900/50">
+            <span>⛓</span>
+            <span>One of {chainLength} resumed or continued sessions</span>
+            <button
+              onClick={onViewChain}
+              className="ml-auto text-claude-orange hover:underline"
+            >
+              View whole chain
+            </button>
+          </div>
+        )
+      )}
+
       {/* In-chat Search Bar */}
       {chatSearchOpen && (
         <ChatSearchBar
@@ -634,12 +906,47 @@ export default function ConversationView({
                 ref={virtualizer.measureElement}
                 className="px-4 py-2"
               >
-                <MessageBubble
-                  message={displayMessages[virtualRow.index]}
-                  query={effectiveQuery}
-                  filePath={conversation.filePath}
-                  isCurrentMessage={virtualRow.index === currentMessageIndex}
-                />
+                {chainLayout.partStarts.has(
+                  displayMessages[virtualRow.index],
+                ) && (
+                  <ChainPartDivider
+                    parts={conversation.chain!}
+                    index={chainLayout.partStarts.get(
+                      displayMessages[virtualRow.index],
+                    )!}
+                    onOpen={onOpenSession}
+                  />
+                )}
+                {branchPointsByIndex.has(virtualRow.index) && (
+                  <BranchSwitcher
+                    point={branchPointsByIndex.get(virtualRow.index)!}
+                    onSelect={handleSelectBranch}
+                  />
+                )}
+                {displayMessages[virtualRow.index].compaction ? (
+                  <CompactionDivider
+                    compaction={
+                      displayMessages[virtualRow.index].compaction!
+                    }
+                    summary={displayMessages[virtualRow.index].content}
+                    query={effectiveQuery}
+                    isCurrentMessage={virtualRow.index === currentMessageIndex}
+                  />
+                ) : (
+                  <MessageBubble
+                    message={displayMessages[virtualRow.index]}
+                    query={effectiveQuery}
+                    filePath={
+                      chainLayout.fileByMessage.get(
+                        displayMessages[virtualRow.index],
+                      ) ?? conversation.filePath
+                    }
+                    isCurrentMessage={virtualRow.index === currentMessageIndex}
+                    isMatch={matchedLines.has(
+                      displayMessages[virtualRow.index].lineNumber ?? -1,
+                    )}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -649,6 +956,191 @@ export default function ConversationView({
   );
 }
 
+// ─── Compaction Divider ────────────────────────────────────────────────
+
+interface CompactionDividerProps {
+  compaction: CompactionInfo;
+  summary: string;
+  query: string;
+  isCurrentMessage: boolean;
+}
+
+// Stands in for the messages a compaction replaced; the summary is long, so
+// it stays collapsed until asked for
+const CompactionDivider = memo(function CompactionDivider({
+  compaction,
+  summary,
+  query,
+  isCurrentMessage,
+}: CompactionDividerProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div
+      className={`rounded-md border border-dashed text-xs ${
+        isCurrentMessage
+          ? "border-claude-orange/50 bg-claude-orange/5"
+          : "border-neutral-700 bg-neutral-900/50"
+      }`}
+    >
+      <div className="flex items-center gap-2 px-3 py-1.5 text-neutral-400">
+        <span className="text-claude-orange">⇣</span>
+        <span className="font-medium">{describeCompaction(compaction)}</span>
+        {summary && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="ml-auto text-neutral-500 hover:text-neutral-300 transition-colors"
+          >
+            {expanded ? "▼ Hide summary" : "▶ Show summary"}
+          </button>
+        )}
+      </div>
+      {expanded && (
+        <div className="px-3 pb-3 pt-1 border-t border-neutral-800 text-neutral-300">
+          <MessageContent content={summary} query={query} />
+        </div>
+      )}
+    </div>
+  );
+});
+
+// ─── Session Chain Divider ─────────────────────────────────────────────
+
+interface ChainPartDividerProps {
+  parts: SessionChainPart[];
+  index: number;
+  onOpen?: (id: string) => void;
+}
+
+// Shown above the first message of each session in a whole session chain
+function ChainPartDivider({
+  parts,
+  index,
+  onOpen,
+}: ChainPartDividerProps): JSX.Element {
+  const part = parts[index];
+  return (
+    <div className="flex items-center gap-3 mb-2 text-[10px] text-neutral-500">
+      <div className="flex-1 border-t border-neutral-800" />
+      <span className="font-medium text-neutral-400">
+        Session {index + 1} of {parts.length}
+      </span>
+      <span className="font-mono truncate max-w-[12rem]">{part.sessionId}</span>
+      <span>{formatFullDate(part.timestamp)}</span>
+      {onOpen && (
+        <button
+          onClick={() => onOpen(part.id)}
+          className="hover:text-claude-orange transition-colors"
+        >
+          Open on its own
+        </button>
+      )}
+      <div className="flex-1 border-t border-neutral-800" />
+    </div>
+  );
+}
+
+// ─── Branch Switcher ───────────────────────────────────────────────────
+
+const BRANCH_PREVIEW_MAX = 80;
+
+function previewBranch(message: ConversationMessage): string {
+  const text = message.content.replace(/\s+/g, " ").trim();
+  if (!text) return message.isToolResult ? "Tool result" : "(no text)";
+  return text.length > BRANCH_PREVIEW_MAX
+    ? text.slice(0, BRANCH_PREVIEW_MAX) + "…"
+    : text;
+}
+
+interface BranchSwitcherProps {
+  point: BranchPoint;
+  onSelect: (point: BranchPoint, branch: number) => void;
+}
+
+// Shown above the first message after a fork; the other branches stay
+// collapsed until asked for
+const BranchSwitcher = memo(function BranchSwitcher({
+  point,
+  onSelect,
+}: BranchSwitcherProps) {
+  const [showOthers, setShowOthers] = useState(false);
+  const count = point.branches.length;
+
+  return (
+    <div className="mb-2 rounded-md border border-dashed border-neutral-700 bg-neutral-900/50 text-xs">
+      <div className="flex items-center gap-2 px-3 py-1.5 text-neutral-400">
+        <svg
+          className="w-3.5 h-3.5 text-claude-orange shrink-0"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z"
+          />
+        </svg>
+        <button
+          onClick={() => onSelect(point, point.selected - 1)}
+          disabled={point.selected === 0}
+          className="px-1 hover:text-neutral-200 disabled:opacity-30"
+          aria-label="Previous branch"
+        >
+          ‹
+        </button>
+        <span>
+          Branch {point.selected + 1} of {count}
+        </span>
+        <button
+          onClick={() => onSelect(point, point.selected + 1)}
+          disabled={point.selected === count - 1}
+          className="px-1 hover:text-neutral-200 disabled:opacity-30"
+          aria-label="Next branch"
+        >
+          ›
+        </button>
+        <button
+          onClick={() => setShowOthers(!showOthers)}
+          className="ml-auto text-[10px] text-neutral-500 hover:text-neutral-300 transition-colors"
+        >
+          {showOthers
+            ? "▼ Hide other branches"
+            : `▶ ${count - 1} other ${count === 2 ? "branch" : "branches"}`}
+        </button>
+      </div>
+      {showOthers && (
+        <ul className="border-t border-neutral-800 py-1">
+          {point.branches.map((branch, i) =>
+            i === point.selected ? null : (
+              <li key={branch.key}>
+                <button
+                  onClick={() => onSelect(point, i)}
+                  className="w-full flex items-center gap-2 px-3 py-1 text-left text-neutral-400 hover:bg-neutral-800 hover:text-neutral-200"
+                  title="Show this branch"
+                >
+                  <span className="shrink-0 text-neutral-600">
+                    {i + 1}.
+                  </span>
+                  <span className="truncate">
+                    {previewBranch(branch.message)}
+                  </span>
+                  {branch.message.timestamp && (
+                    <span className="ml-auto shrink-0 text-neutral-600">
+                      {formatTime(branch.message.timestamp)}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ),
+          )}
+        </ul>
+      )}
+    </div>
+  );
+});
+
 // ─── In-Chat Search Bar ────────────────────────────────────────────────
 
 interface ChatSearchBarProps {
@@ -794,6 +1286,7 @@ interface MessageBubbleProps {
   query: string;
   filePath: string;
   isCurrentMessage?: boolean;
+  isMatch?: boolean;
 }
 
 const MessageBubble = memo(function MessageBubble({
@@ -801,6 +1294,7 @@ const MessageBubble = memo(function MessageBubble({
   query,
   filePath,
   isCurrentMessage = false,
+  isMatch = false,
 }: MessageBubbleProps) {
   const isUser = message.type === "user";
   const isToolResult = message.isToolResult;
@@ -861,6 +1355,11 @@ const MessageBubble = memo(function MessageBubble({
               {formatTime(message.timestamp)}
             </span>
           )}
+          {isMatch && (
+            <span className="text-[10px] font-medium text-claude-orange border border-claude-orange/40 px-1.5 py-0.5 rounded">
+              Match
+            </span>
+          )}
           {!isToolResult &&
             message.metadata?.toolUses &&
             message.metadata.toolUses.length > 0 && (
@@ -964,6 +1463,10 @@ const MessageBubble = memo(function MessageBubble({
           </div>
         </div>
 
+        {message.thinking && message.thinking.length > 0 && (
+          <ThinkingSection blocks={message.thinking} query={query} />
+        )}
+
         {/* Tool invocation badges for assistant messages */}
         {hasToolUseBlocks && !isUser && (
           <ToolInvocationBadge blocks={message.metadata!.toolUseBlocks!} />
@@ -971,7 +1474,10 @@ const MessageBubble = memo(function MessageBubble({
 
         {/* Render tool result cards and/or standard message content */}
         {hasToolResults && (
-          <ToolResultCard results={message.metadata!.toolResults!} />
+          <ToolResultCard
+            results={message.metadata!.toolResults!}
+            conversationId={filePath}
+          />
         )}
         {(!hasToolResults || !isToolResult) && message.content && (
           <MessageContent content={message.content} query={query} />
@@ -981,6 +1487,35 @@ const MessageBubble = memo(function MessageBubble({
   );
 });
 
+interface ThinkingSectionProps {
+  blocks: string[];
+  query: string;
+}
+
+// The assistant's thinking before its answer, collapsed until asked for
+function ThinkingSection({ blocks, query }: ThinkingSectionProps): JSX.Element {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="mb-2 rounded-md border border-neutral-700/60 bg-neutral-900/40 text-xs">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        className="w-full px-2 py-1 text-left text-neutral-500 hover:text-neutral-300 transition-colors"
+      >
+        {expanded ? "▼ Thinking" : "▶ Thinking"}
+      </button>
+      {expanded && (
+        <div className="px-3 pb-2 pt-1 border-t border-neutral-800 text-neutral-400 italic space-y-2">
+          {blocks.map((block, i) => (
+            <MessageContent key={i} content={block} query={query} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface MetadataTooltipProps {
   metadata?: MessageMetadata;
   isUser: boolean;
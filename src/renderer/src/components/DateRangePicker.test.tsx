@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import DateRangePicker from './DateRangePicker'
+
+describe('DateRangePicker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(2025, 2, 20, 12))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('applies a quick range counted from today', () => {
+    const onApply = vi.fn()
+    render(<DateRangePicker value={null} onApply={onApply} onCancel={vi.fn()} />)
+
+    fireEvent.click(screen.getByText('Last 14 days'))
+    expect(onApply).toHaveBeenCalledWith({ start: '2025-03-07', end: '2025-03-20' })
+
+    fireEvent.click(screen.getByText('Last month'))
+    expect(onApply).toHaveBeenLastCalledWith({ start: '2025-02-01', end: '2025-02-28' })
+  })
+
+  it('moves the start when the second pick comes before it', () => {
+    const onApply = vi.fn()
+    render(<DateRangePicker value={null} onApply={onApply} onCancel={vi.fn()} />)
+
+    fireEvent.click(screen.getByLabelText('2025-03-10'))
+    fireEvent.click(screen.getByLabelText('2025-03-04'))
+    fireEvent.click(screen.getByText('Apply'))
+
+    expect(onApply).toHaveBeenCalledWith({ start: '2025-03-04', end: '2025-03-04' })
+  })
+
+  it('opens at the month of the range being edited and pages between months', () => {
+    render(<DateRangePicker value={{ start: '2025-01-06', end: '2025-01-17' }} onApply={vi.fn()} onCancel={vi.fn()} />)
+
+    expect(screen.getByText('January 2025')).toBeInTheDocument()
+    expect(screen.getByLabelText('2025-01-06')).toHaveAttribute('aria-pressed', 'true')
+
+    fireEvent.click(screen.getByLabelText('Next month'))
+    expect(screen.getByText('February 2025')).toBeInTheDocument()
+  })
+
+  it('does not offer days after today', () => {
+    render(<DateRangePicker value={null} onApply={vi.fn()} onCancel={vi.fn()} />)
+
+    expect(screen.getByLabelText('2025-03-21')).toBeDisabled()
+    expect(screen.getByLabelText('Next month')).toBeDisabled()
+  })
+
+  it('cancels on Escape', () => {
+    const onCancel = vi.fn()
+    render(<DateRangePicker value={null} onApply={vi.fn()} onCancel={onCancel} />)
+
+    fireEvent.keyDown(window, { key: 'Escape' })
+    expect(onCancel).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react'
+import { describeDateRange, parseDayString, toDayString } from '../../../shared/date-range'
+import type { CustomDateRange } from '../../../shared/types'
+
+interface DateRangePickerProps {
+  // The range being edited, if any
+  value: CustomDateRange | null
+  onApply: (range: CustomDateRange) => void
+  onCancel: () => void
+}
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa']
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+/** Common ranges, counted from today. */
+function getQuickRanges(today: Date): Array<{ label: string; range: CustomDateRange }> {
+  const firstOfMonth = new Date(today.getFullYear(), today.getMonth(), 1)
+  return [
+    { label: 'Last 14 days', range: { start: toDayString(addDays(today, -13)), end: toDayString(today) } },
+    { label: 'This month', range: { start: toDayString(firstOfMonth), end: toDayString(today) } },
+    {
+      label: 'Last month',
+      range: {
+        start: toDayString(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+        end: toDayString(addDays(firstOfMonth, -1))
+      }
+    }
+  ]
+}
+
+/** The days shown for a month, padded with nulls to start on Sunday. */
+function getMonthDays(month: Date): Array<Date | null> {
+  const days: Array<Date | null> = Array.from({ length: month.getDay() }, () => null)
+  const count = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+  for (let day = 1; day <= count; day++) days.push(new Date(month.getFullYear(), month.getMonth(), day))
+  return days
+}
+
+/**
+ * Month calendar for picking a start and an end day. The first click picks
+ * the start, the second the end; picking before the start moves the start.
+ */
+export default function DateRangePicker({ value, onApply, onCancel }: DateRangePickerProps): JSX.Element {
+  const today = new Date()
+  const todayString = toDayString(today)
+  const [start, setStart] = useState<string | null>(value?.start ?? null)
+  const [end, setEnd] = useState<string | null>(value?.end ?? null)
+  const [hovered, setHovered] = useState<string | null>(null)
+  const [month, setMonth] = useState(() => {
+    const shown = (value && parseDayString(value.end)) || today
+    return new Date(shown.getFullYear(), shown.getMonth(), 1)
+  })
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') onCancel()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onCancel])
+
+  const pickDay = (day: string): void => {
+    if (!start || end || day < start) {
+      setStart(day)
+      setEnd(null)
+    } else {
+      setEnd(day)
+    }
+  }
+
+  // While choosing the end, preview the range up to the hovered day
+  const rangeEnd = end ?? (start && hovered && hovered >= start ? hovered : start)
+  const draft = start ? { start, end: end ?? start } : null
+
+  return (
+    <div className="absolute z-30 top-full left-0 right-0 mt-1 p-3 bg-neutral-900 border border-neutral-700 rounded-lg shadow-lg">
+      <div className="flex gap-1 mb-3">
+        {getQuickRanges(today).map(({ label, range }) => (
+          <button
+            key={label}
+            onClick={() => onApply(range)}
+            className="flex-1 px-2 py-1 text-[11px] text-neutral-400 bg-neutral-800 hover:text-neutral-200 hover:bg-neutral-700 rounded transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <button
+          onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+          className="px-2 text-neutral-500 hover:text-neutral-300"
+          aria-label="Previous month"
+        >
+          ‹
+        </button>
+        <span className="text-xs font-medium text-neutral-300">
+          {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        </span>
+        <button
+          onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+          disabled={toDayString(new Date(month.getFullYear(), month.getMonth() + 1, 1)) > todayString}
+          className="px-2 text-neutral-500 hover:text-neutral-300 disabled:opacity-30 disabled:hover:text-neutral-500"
+          aria-label="Next month"
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-y-0.5 text-center" onMouseLeave={() => setHovered(null)}>
+        {WEEKDAYS.map((weekday) => (
+          <span key={weekday} className="text-[10px] text-neutral-600 pb-1">{weekday}</span>
+        ))}
+        {getMonthDays(month).map((date, i) => {
+          if (!date) return <span key={`blank-${i}`} />
+          const day = toDayString(date)
+          const isEndpoint = day === start || day === end
+          const inRange = !!start && !!rangeEnd && day >= start && day <= rangeEnd
+          return (
+            <button
+              key={day}
+              onClick={() => pickDay(day)}
+              onMouseEnter={() => setHovered(day)}
+              disabled={day > todayString}
+              aria-label={day}
+              aria-pressed={isEndpoint}
+              className={`py-1 text-xs rounded transition-colors disabled:text-neutral-700 disabled:cursor-default ${
+                isEndpoint
+                  ? 'bg-claude-orange text-white'
+                  : inRange
+                    ? 'bg-claude-orange/20 text-neutral-200'
+                    : day === todayString
+                      ? 'text-claude-orange hover:bg-neutral-800'
+                      : 'text-neutral-400 hover:bg-neutral-800'
+              }`}
+            >
+              {date.getDate()}
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-between mt-3">
+        <span className="text-[11px] text-neutral-500">
+          {draft ? describeDateRange(draft) : 'Pick a start day'}
+        </span>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="px-2 py-1 text-xs text-neutral-500 hover:text-neutral-300">
+            Cancel
+          </button>
+          <button
+            onClick={() => draft && onApply(draft)}
+            disabled={!draft}
+            className="px-2 py-1 text-xs font-medium text-claude-orange bg-claude-orange/10 hover:bg-claude-orange/20 border border-claude-orange/30 rounded disabled:opacity-40"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
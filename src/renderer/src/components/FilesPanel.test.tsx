@@ -0,0 +1,151 @@
+// @vitest-environment jsdom
+import { render, screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import FilesPanel from './FilesPanel'
+import { buildEditToolResult, buildProfile } from '../../../test/factories'
+import type { FileHotspot, FileTimelineEntry } from '../../../shared/types'
+
+function hotspot(overrides: Partial<FileHotspot>): FileHotspot {
+  return {
+    filePath: '/proj/app/src/index.ts',
+    projectPath: '/proj/app',
+    projectName: 'app',
+    edits: 1,
+    linesAdded: 1,
+    linesRemoved: 0,
+    sessions: 1,
+    lastEdited: '2025-03-01T10:00:00Z',
+    ...overrides
+  }
+}
+
+function timelineEntry(overrides: Partial<FileTimelineEntry>): FileTimelineEntry {
+  return {
+    id: 'conv-1',
+    title: 'Refactor the entry point',
+    projectName: 'app',
+    account: 'default',
+    timestamp: '2025-03-01T10:00:00Z',
+    edits: [
+      {
+        lineNumber: 7,
+        timestamp: '2025-03-01T10:00:00Z',
+        tool: 'Write',
+        linesAdded: 1,
+        linesRemoved: 0,
+        result: { type: 'write', filePath: '/proj/app/src/index.ts' }
+      }
+    ],
+    ...overrides
+  }
+}
+
+describe('FilesPanel', () => {
+  beforeEach(() => {
+    vi.mocked(window.electronAPI.getFileHotspots).mockResolvedValue([
+      hotspot({ filePath: '/proj/app/src/index.ts', edits: 12, linesAdded: 40, linesRemoved: 10, sessions: 2 }),
+      hotspot({ filePath: '/proj/app/README.md', edits: 3, linesAdded: 300, linesRemoved: 0, sessions: 3 }),
+      hotspot({ filePath: '/proj/api/server.ts', projectPath: '/proj/api', projectName: 'api', edits: 5, sessions: 1 })
+    ])
+  })
+
+  function listedFiles(): string[] {
+    return within(screen.getByRole('list', { name: 'Files' }))
+      .getAllByRole('button')
+      .map((button) => button.getAttribute('title') ?? '')
+  }
+
+  it('ranks the files by edits, lines or sessions, within a project', async () => {
+    render(<FilesPanel onOpenConversation={vi.fn()} onClose={vi.fn()} profiles={[]} />)
+
+    await waitFor(() => expect(screen.getByRole('list', { name: 'Files' })).toBeInTheDocument())
+    expect(listedFiles()).toEqual(['/proj/app/src/index.ts', '/proj/api/server.ts', '/proj/app/README.md'])
+    expect(screen.getByText('src/index.ts')).toBeInTheDocument()
+
+    await userEvent.click(screen.getByRole('button', { name: 'Lines' }))
+    expect(listedFiles()[0]).toBe('/proj/app/README.md')
+
+    await userEvent.click(screen.getByRole('button', { name: 'Sessions' }))
+    expect(listedFiles()).toEqual(['/proj/app/README.md', '/proj/app/src/index.ts', '/proj/api/server.ts'])
+
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Project' }), '/proj/api')
+    expect(listedFiles()).toEqual(['/proj/api/server.ts'])
+  })
+
+  it('shows the changes of a picked file and opens the conversation at one', async () => {
+    vi.mocked(window.electronAPI.getFileTimeline).mockResolvedValue({
+      entries: [
+        timelineEntry({
+          edits: [
+            {
+              lineNumber: 7,
+              timestamp: '2025-03-01T10:00:00Z',
+              tool: 'Edit',
+              linesAdded: 1,
+              linesRemoved: 1,
+              result: buildEditToolResult({ filePath: '/proj/app/src/index.ts', oldString: 'const a = 1', newString: 'const a = 2' })
+            },
+            {
+              lineNumber: 12,
+              timestamp: '2025-03-01T10:05:00Z',
+              tool: 'Write',
+              agentId: 'agent-1',
+              linesAdded: 3,
+              linesRemoved: 0,
+              result: { type: 'write', filePath: '/proj/app/src/index.ts' }
+            }
+          ]
+        })
+      ],
+      total: 1,
+      nextOffset: null
+    })
+    const onOpenConversation = vi.fn()
+    render(
+      <FilesPanel
+        onOpenConversation={onOpenConversation}
+        onClose={vi.fn()}
+        profiles={[buildProfile({ id: 'default', label: 'Personal', emoji: '🏠' })]}
+      />
+    )
+    await waitFor(() => expect(screen.getByRole('list', { name: 'Files' })).toBeInTheDocument())
+
+    await userEvent.click(screen.getByText('src/index.ts'))
+
+    const timeline = await screen.findByRole('list', { name: 'Conversations that changed the file' })
+    expect(window.electronAPI.getFileTimeline).toHaveBeenCalledWith('/proj/app', '/proj/app/src/index.ts')
+    expect(timeline).toHaveTextContent('Refactor the entry point')
+    expect(timeline).toHaveTextContent('app · 🏠 Personal')
+    expect(timeline).toHaveTextContent('by a sub-agent')
+
+    const [, secondChange] = screen.getAllByRole('button', { name: 'Show in conversation' })
+    await userEvent.click(secondChange)
+    expect(onOpenConversation).toHaveBeenLastCalledWith('conv-1', 12)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Open conversation' }))
+    expect(onOpenConversation).toHaveBeenLastCalledWith('conv-1', 7)
+
+    await userEvent.click(screen.getByRole('button', { name: '← All files' }))
+    expect(screen.getByRole('list', { name: 'Files' })).toBeInTheDocument()
+  })
+
+  it('loads older conversations of a file a page at a time', async () => {
+    vi.mocked(window.electronAPI.getFileTimeline)
+      .mockResolvedValueOnce({ entries: [timelineEntry({ id: 'conv-2', title: 'Newer change' })], total: 2, nextOffset: 1 })
+      .mockResolvedValueOnce({ entries: [timelineEntry({ id: 'conv-1', title: 'Older change' })], total: 2, nextOffset: null })
+    render(<FilesPanel onOpenConversation={vi.fn()} onClose={vi.fn()} profiles={[]} />)
+    await waitFor(() => expect(screen.getByRole('list', { name: 'Files' })).toBeInTheDocument())
+
+    await userEvent.click(screen.getByText('src/index.ts'))
+    const timeline = await screen.findByRole('list', { name: 'Conversations that changed the file' })
+    expect(timeline).toHaveTextContent('Newer change')
+    expect(timeline).not.toHaveTextContent('Older change')
+
+    await userEvent.click(screen.getByRole('button', { name: 'Load older conversations' }))
+    await waitFor(() => expect(timeline).toHaveTextContent('Older change'))
+    expect(window.electronAPI.getFileTimeline).toHaveBeenLastCalledWith('/proj/app', '/proj/app/src/index.ts', 1)
+    expect(timeline).toHaveTextContent('Newer change')
+    expect(screen.queryByRole('button', { name: 'Load older conversations' })).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,339 @@
+import { useState, useEffect, useMemo } from 'react'
+import EditDiffCard from './tool-cards/EditDiffCard'
+import WriteFileCard from './tool-cards/WriteFileCard'
+import { useProfileLabels } from '../hooks/useProfileLabels'
+import type { FileHotspot, FileTimelineEntry, Profile } from '../../../shared/types'
+
+type FileSort = 'edits' | 'lines' | 'sessions'
+
+const SORT_OPTIONS: Array<{ key: FileSort; label: string }> = [
+  { key: 'edits', label: 'Edits' },
+  { key: 'lines', label: 'Lines' },
+  { key: 'sessions', label: 'Sessions' }
+]
+
+// Files listed before the rest are left to the filter
+const LIST_MAX = 200
+
+interface FilesPanelProps {
+  // Opens a conversation at the line of a change
+  onOpenConversation: (id: string, lineNumber: number) => void
+  onClose: () => void
+  profiles: Profile[]
+}
+
+function sortValue(file: FileHotspot, sort: FileSort): number {
+  if (sort === 'lines') return file.linesAdded + file.linesRemoved
+  if (sort === 'sessions') return file.sessions
+  return file.edits
+}
+
+// The path under its project, or the whole path for files outside it
+function relativePath(file: FileHotspot): string {
+  const prefix = file.projectPath.endsWith('/') ? file.projectPath : `${file.projectPath}/`
+  return file.filePath.startsWith(prefix) ? file.filePath.slice(prefix.length) : file.filePath
+}
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp)
+  if (isNaN(date.getTime())) return ''
+  return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+function LineCounts({ added, removed }: { added: number; removed: number }): JSX.Element {
+  return (
+    <span className="tabular-nums">
+      <span className="text-green-400/80">+{added.toLocaleString()}</span>{' '}
+      <span className="text-red-400/80">−{removed.toLocaleString()}</span>
+    </span>
+  )
+}
+
+function FileTimeline({
+  file,
+  onBack,
+  onOpenConversation,
+  profileLabel
+}: {
+  file: FileHotspot
+  onBack: () => void
+  onOpenConversation: (id: string, lineNumber: number) => void
+  profileLabel: (account: string) => string
+}): JSX.Element {
+  const [timeline, setTimeline] = useState<FileTimelineEntry[]>([])
+  const [nextOffset, setNextOffset] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    window.electronAPI
+      .getFileTimeline(file.projectPath, file.filePath)
+      .then((page) => {
+        if (cancelled) return
+        setTimeline(page.entries)
+        setNextOffset(page.nextOffset)
+      })
+      .catch(() => {
+        if (cancelled) return
+        setTimeline([])
+        setNextOffset(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [file.projectPath, file.filePath])
+
+  const loadMore = (): void => {
+    if (nextOffset === null || loadingMore) return
+    setLoadingMore(true)
+    window.electronAPI
+      .getFileTimeline(file.projectPath, file.filePath, nextOffset)
+      .then((page) => {
+        setTimeline((current) => [...current, ...page.entries])
+        setNextOffset(page.nextOffset)
+      })
+      .catch(() => setNextOffset(null))
+      .finally(() => setLoadingMore(false))
+  }
+
+  return (
+    <div>
+      <button onClick={onBack} className="text-xs text-neutral-500 hover:text-neutral-300 transition-colors mb-3">
+        ← All files
+      </button>
+      <h3 className="text-sm font-mono text-neutral-200 break-all">{file.filePath}</h3>
+      <p className="text-xs text-neutral-500 mt-1 mb-5">
+        {file.edits.toLocaleString()} {file.edits === 1 ? 'edit' : 'edits'} ·{' '}
+        <LineCounts added={file.linesAdded} removed={file.linesRemoved} /> · {file.sessions}{' '}
+        {file.sessions === 1 ? 'session' : 'sessions'}
+      </p>
+
+      {loading ? (
+        <div className="h-28 flex items-center justify-center">
+          <span className="text-xs text-neutral-600 animate-pulse">Loading changes...</span>
+        </div>
+      ) : timeline.length === 0 && nextOffset === null ? (
+        <p className="text-xs text-neutral-600">The conversations that changed this file could not be read</p>
+      ) : (
+        <ol className="space-y-6" aria-label="Conversations that changed the file">
+          {timeline.map((entry) => (
+            <li key={entry.id}>
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-sm text-neutral-200 truncate">{entry.title || entry.id}</span>
+                <span className="shrink-0 text-xs text-neutral-500">
+                  {entry.projectName} · {profileLabel(entry.account)}
+                </span>
+                <button
+                  onClick={() => onOpenConversation(entry.id, entry.edits[0].lineNumber)}
+                  className="ml-auto shrink-0 text-xs text-claude-orange hover:underline"
+                >
+                  Open conversation
+                </button>
+              </div>
+              <ol className="space-y-3 border-l border-neutral-800 pl-4">
+                {entry.edits.map((edit, i) => (
+                  <li key={`${edit.lineNumber}-${i}`}>
+                    <div className="flex items-center gap-2 text-[11px] text-neutral-500 mb-1">
+                      <span className="font-mono text-neutral-400">{edit.tool}</span>
+                      <span>{formatTime(edit.timestamp)}</span>
+                      <LineCounts added={edit.linesAdded} removed={edit.linesRemoved} />
+                      {edit.agentId && <span className="text-neutral-600">by a sub-agent</span>}
+                      <button
+                        onClick={() => onOpenConversation(entry.id, edit.lineNumber)}
+                        className="ml-auto hover:text-neutral-300 transition-colors"
+                      >
+                        Show in conversation
+                      </button>
+                    </div>
+                    {edit.result.type === 'edit' ? (
+                      <EditDiffCard result={edit.result} />
+                    ) : (
+                      <WriteFileCard result={edit.result} />
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </li>
+          ))}
+        </ol>
+      )}
+      {!loading && nextOffset !== null && (
+        <button
+          onClick={loadMore}
+          disabled={loadingMore}
+          className="mt-6 text-xs text-neutral-500 hover:text-neutral-300 disabled:opacity-50 transition-colors"
+        >
+          {loadingMore ? 'Loading...' : 'Load older conversations'}
+        </button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * The files Claude changed most, per project, ranked by edits, lines changed
+ * or sessions. Picking a file shows every conversation that changed it, oldest
+ * change first, with the diffs.
+ */
+export default function FilesPanel({ onOpenConversation, onClose, profiles }: FilesPanelProps): JSX.Element {
+  const [files, setFiles] = useState<FileHotspot[]>([])
+  const [loading, setLoading] = useState(true)
+  const [project, setProject] = useState('')
+  const [sort, setSort] = useState<FileSort>('edits')
+  const [filter, setFilter] = useState('')
+  const [selected, setSelected] = useState<FileHotspot | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    window.electronAPI
+      .getFileHotspots()
+      .then((data) => {
+        if (!cancelled) setFiles(data)
+      })
+      .catch(() => {
+        if (!cancelled) setFiles([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const projects = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const file of files) names.set(file.projectPath, file.projectName || file.projectPath)
+    return Array.from(names, ([path, name]) => ({ path, name })).sort((a, b) => a.name.localeCompare(b.name))
+  }, [files])
+
+  const shown = useMemo(() => {
+    const needle = filter.trim().toLowerCase()
+    return files
+      .filter((file) => !project || file.projectPath === project)
+      .filter((file) => !needle || file.filePath.toLowerCase().includes(needle))
+      .sort((a, b) => sortValue(b, sort) - sortValue(a, sort) || b.lastEdited.localeCompare(a.lastEdited))
+  }, [files, project, filter, sort])
+  const max = Math.max(...shown.map((file) => sortValue(file, sort)), 1)
+  const profileLabel = useProfileLabels(profiles)
+
+  return (
+    <div className="h-full overflow-y-auto bg-claude-darker">
+      {/* Header */}
+      <div className="px-8 py-6 border-b border-neutral-800 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-neutral-200">Files</h2>
+        <button
+          onClick={onClose}
+          className="text-neutral-500 hover:text-neutral-300 transition-colors"
+          title="Close files"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="px-8 py-5">
+        {selected ? (
+          <FileTimeline
+            file={selected}
+            onBack={() => setSelected(null)}
+            onOpenConversation={onOpenConversation}
+            profileLabel={profileLabel}
+          />
+        ) : (
+          <>
+            {/* Controls */}
+            <div className="flex items-center gap-3 mb-4">
+              <select
+                value={project}
+                onChange={(e) => setProject(e.target.value)}
+                aria-label="Project"
+                className="bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:outline-none focus:border-claude-orange"
+              >
+                <option value="">All projects</option>
+                {projects.map((p) => (
+                  <option key={p.path} value={p.path}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter files"
+                aria-label="Filter files"
+                className="flex-1 max-w-xs bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 placeholder-neutral-600 focus:outline-none focus:border-claude-orange"
+              />
+              <div className="flex items-center gap-1 ml-auto">
+                {SORT_OPTIONS.map((opt) => (
+                  <button
+                    key={opt.key}
+                    onClick={() => setSort(opt.key)}
+                    className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                      sort === opt.key
+                        ? 'bg-neutral-700 text-neutral-100'
+                        : 'text-neutral-500 hover:text-neutral-300 hover:bg-neutral-800'
+                    }`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="h-28 flex items-center justify-center">
+                <span className="text-xs text-neutral-600 animate-pulse">Loading files...</span>
+              </div>
+            ) : shown.length === 0 ? (
+              <p className="text-xs text-neutral-600">
+                {files.length === 0 ? 'No file changes have been indexed' : 'No files match'}
+              </p>
+            ) : (
+              <ul className="space-y-1" aria-label="Files">
+                {shown.slice(0, LIST_MAX).map((file) => (
+                  <li key={`${file.projectPath}\0${file.filePath}`}>
+                    <button
+                      onClick={() => setSelected(file)}
+                      title={file.filePath}
+                      className="w-full text-left px-2 py-1.5 rounded hover:bg-neutral-800/80 transition-colors group"
+                    >
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className="truncate font-mono text-neutral-300 group-hover:text-claude-orange transition-colors">
+                          {relativePath(file)}
+                        </span>
+                        {!project && <span className="shrink-0 text-neutral-600">{file.projectName}</span>}
+                        <span className="ml-auto shrink-0 text-neutral-500">
+                          {file.edits.toLocaleString()} {file.edits === 1 ? 'edit' : 'edits'} ·{' '}
+                          <LineCounts added={file.linesAdded} removed={file.linesRemoved} /> · {file.sessions}{' '}
+                          {file.sessions === 1 ? 'session' : 'sessions'}
+                        </span>
+                      </div>
+                      <div className="mt-1 h-1 rounded bg-neutral-800">
+                        <div
+                          className="h-1 rounded bg-claude-orange/60"
+                          style={{ width: `${(sortValue(file, sort) / max) * 100}%` }}
+                        />
+                      </div>
+                    </button>
+                  </li>
+                ))}
+                {shown.length > LIST_MAX && (
+                  <li className="px-2 pt-1 text-xs text-neutral-600">
+                    {(shown.length - LIST_MAX).toLocaleString()} more — narrow the list with the filter
+                  </li>
+                )}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -54,6 +54,7 @@ describe('FilterPanel', () => {
     const sortSelect = screen.getByTitle('Sort conversations')
     const options = within(sortSelect).getAllByRole('option')
     expect(options.map((o) => o.textContent)).toEqual([
+      'Relevance',
       'Most Recent',
       'Oldest First',
       'Most Messages',
@@ -79,10 +80,38 @@ describe('FilterPanel', () => {
       'All Time',
       'Today',
       'Last 7 Days',
-      'Last 30 Days'
+      'Last 30 Days',
+      'Custom Range…'
     ])
   })
 
+  it('picks a custom range from the calendar', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(2025, 2, 20, 12))
+    try {
+      const { props } = renderPanel()
+      fireEvent.change(screen.getByTitle('Filter by date'), { target: { value: 'custom' } })
+
+      fireEvent.click(screen.getByLabelText('2025-03-03'))
+      fireEvent.click(screen.getByLabelText('2025-03-17'))
+      expect(screen.getByText('Mar 3 – Mar 17')).toBeInTheDocument()
+      fireEvent.click(screen.getByText('Apply'))
+
+      expect(props.onDateRangeChange).toHaveBeenCalledWith({ start: '2025-03-03', end: '2025-03-17' })
+      expect(screen.queryByText('Apply')).not.toBeInTheDocument()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('shows an active custom range with a way to clear it', () => {
+    const { props } = renderPanel({ dateRange: { start: '2024-12-01', end: '2024-12-14' } })
+
+    expect(screen.getByTitle('Filter by date')).toHaveValue('custom')
+    fireEvent.click(screen.getByTitle('Clear date range'))
+    expect(props.onDateRangeChange).toHaveBeenCalledWith('all')
+  })
+
   it('calls onDateRangeChange when date range selection changes', async () => {
     const { props } = renderPanel()
     const dateSelect = screen.getByTitle('Filter by date')
@@ -1,5 +1,7 @@
 import { useState, useRef, useEffect, useMemo, useCallback, Fragment } from 'react'
-import type { SortOption, DateRangeOption, Profile } from '../../../shared/types'
+import DateRangePicker from './DateRangePicker'
+import { describeDateRange, isCustomDateRange } from '../../../shared/date-range'
+import type { SortOption, DateRangeOption, DateRangePreset, Profile } from '../../../shared/types'
 
 interface FilterPanelProps {
   projects: string[]
@@ -32,6 +34,8 @@ export default function FilterPanel({
 }: FilterPanelProps): JSX.Element {
   const enabledProfiles = profiles.filter((p) => p.enabled)
   const activeProfile = accountFilter ? enabledProfiles.find((p) => p.id === accountFilter) : null
+  const [pickingDates, setPickingDates] = useState(false)
+  const customRange = isCustomDateRange(dateRange) ? dateRange : null
 
   return (
     <div className={`mt-3 space-y-2${disabled ? " opacity-50 pointer-events-none" : ""}`}>
@@ -55,13 +59,14 @@ export default function FilterPanel({
       )}
 
       {/* Sort and Date Range */}
-      <div className="flex gap-2">
+      <div className="relative flex gap-2">
         <select
           value={sortBy}
           onChange={(e) => onSortChange(e.target.value as SortOption)}
           className="custom-select flex-1 pl-3 pr-8 py-2 bg-neutral-900 border border-neutral-700 rounded-lg text-neutral-300 text-sm focus:outline-none focus:border-claude-orange cursor-pointer"
           title="Sort conversations"
         >
+          <option value="relevance">Relevance</option>
           <option value="recent">Most Recent</option>
           <option value="oldest">Oldest First</option>
           <option value="most-messages">Most Messages</option>
@@ -70,8 +75,11 @@ export default function FilterPanel({
         </select>
 
         <select
-          value={dateRange}
-          onChange={(e) => onDateRangeChange(e.target.value as DateRangeOption)}
+          value={isCustomDateRange(dateRange) ? 'custom' : dateRange}
+          onChange={(e) => {
+            if (e.target.value === 'custom') setPickingDates(true)
+            else onDateRangeChange(e.target.value as DateRangePreset)
+          }}
           className="custom-select flex-1 pl-3 pr-8 py-2 bg-neutral-900 border border-neutral-700 rounded-lg text-neutral-300 text-sm focus:outline-none focus:border-claude-orange cursor-pointer"
           title="Filter by date"
         >
@@ -79,9 +87,40 @@ export default function FilterPanel({
           <option value="today">Today</option>
           <option value="week">Last 7 Days</option>
           <option value="month">Last 30 Days</option>
+          <option value="custom">{customRange ? describeDateRange(customRange) : 'Custom Range…'}</option>
         </select>
+
+        {pickingDates && (
+          <DateRangePicker
+            value={customRange}
+            onApply={(range) => {
+              onDateRangeChange(range)
+              setPickingDates(false)
+            }}
+            onCancel={() => setPickingDates(false)}
+          />
+        )}
       </div>
 
+      {customRange && !pickingDates && (
+        <div className="flex items-center justify-between px-1 text-[11px] text-neutral-500">
+          <button
+            onClick={() => setPickingDates(true)}
+            className="hover:text-claude-orange transition-colors"
+            title="Change the date range"
+          >
+            {describeDateRange(customRange)}
+          </button>
+          <button
+            onClick={() => onDateRangeChange('all')}
+            className="hover:text-neutral-300 transition-colors"
+            title="Clear date range"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
       {/* Profile Filter */}
       {enabledProfiles.length > 1 && (
         <div className="relative">
@@ -170,4 +170,40 @@ describe('MessageNavigation', () => {
       expect(screen.queryByRole('spinbutton')).not.toBeInTheDocument()
     })
   })
+
+  describe('forks', () => {
+    it('is hidden when the branch has no forks', () => {
+      renderNav()
+      expect(screen.queryByLabelText('Next fork')).not.toBeInTheDocument()
+    })
+
+    it('jumps to the forks before and after the current message', async () => {
+      const onNavigate = vi.fn()
+      renderNav({ currentIndex: 5, forkIndices: [2, 4, 9], onNavigate })
+
+      expect(screen.getByText(/3 forks/)).toBeInTheDocument()
+      await userEvent.click(screen.getByLabelText('Previous fork'))
+      expect(onNavigate).toHaveBeenLastCalledWith(4)
+      await userEvent.click(screen.getByLabelText('Next fork'))
+      expect(onNavigate).toHaveBeenLastCalledWith(9)
+    })
+
+    it('disables the jump past the last fork', () => {
+      renderNav({ currentIndex: 9, forkIndices: [2, 9] })
+      expect(screen.getByLabelText('Next fork')).toBeDisabled()
+      expect(screen.getByLabelText('Previous fork')).toBeEnabled()
+    })
+  })
+
+  describe('compactions', () => {
+    it('jumps between compaction boundaries next to the forks', async () => {
+      const onNavigate = vi.fn()
+      renderNav({ currentIndex: 5, forkIndices: [7], compactionIndices: [3], onNavigate })
+
+      expect(screen.getByText(/1 compaction/)).toBeInTheDocument()
+      expect(screen.getByLabelText('Next compaction')).toBeDisabled()
+      await userEvent.click(screen.getByLabelText('Previous compaction'))
+      expect(onNavigate).toHaveBeenLastCalledWith(3)
+    })
+  })
 })
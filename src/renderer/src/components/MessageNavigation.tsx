@@ -3,6 +3,10 @@ import { useRef, useState } from 'react'
 interface MessageNavigationProps {
     currentIndex: number
     totalMessages: number
+    // Indices of the messages that follow a fork in the shown branch
+    forkIndices?: number[]
+    // Indices of the compaction boundaries in the shown branch
+    compactionIndices?: number[]
     onNavigate: (index: number) => void
     onJumpToFirst: () => void
     onJumpToLast: () => void
@@ -11,6 +15,8 @@ interface MessageNavigationProps {
 export default function MessageNavigation({
     currentIndex,
     totalMessages,
+    forkIndices = [],
+    compactionIndices = [],
     onNavigate,
     onJumpToFirst,
     onJumpToLast
@@ -136,6 +142,20 @@ export default function MessageNavigation({
                         {totalMessages}
                     </span>
                 </span>
+                <LandmarkJumps
+                    indices={forkIndices}
+                    currentIndex={currentIndex}
+                    singular="fork"
+                    plural="forks"
+                    onNavigate={onNavigate}
+                />
+                <LandmarkJumps
+                    indices={compactionIndices}
+                    currentIndex={currentIndex}
+                    singular="compaction"
+                    plural="compactions"
+                    onNavigate={onNavigate}
+                />
             </div>
 
             {/* Next Message */}
@@ -186,3 +206,42 @@ export default function MessageNavigation({
         </div>
     )
 }
+
+interface LandmarkJumpsProps {
+    indices: number[]
+    currentIndex: number
+    singular: string
+    plural: string
+    onNavigate: (index: number) => void
+}
+
+// "‹ 3 forks ›": the count of a kind of landmark, stepping to the one before or after the current message
+function LandmarkJumps({ indices, currentIndex, singular, plural, onNavigate }: LandmarkJumpsProps): JSX.Element | null {
+    if (indices.length === 0) return null
+    const previous = [...indices].reverse().find((i) => i < currentIndex)
+    const next = indices.find((i) => i > currentIndex)
+
+    return (
+        <span className="ml-2 inline-flex items-center gap-1 text-[10px] text-neutral-500">
+            <button
+                onClick={() => previous !== undefined && onNavigate(previous)}
+                disabled={previous === undefined}
+                className="hover:text-neutral-300 disabled:opacity-30 disabled:cursor-not-allowed"
+                title={`Previous ${singular}`}
+                aria-label={`Previous ${singular}`}
+            >
+                ‹
+            </button>
+            {indices.length} {indices.length === 1 ? singular : plural}
+            <button
+                onClick={() => next !== undefined && onNavigate(next)}
+                disabled={next === undefined}
+                className="hover:text-neutral-300 disabled:opacity-30 disabled:cursor-not-allowed"
+                title={`Next ${singular}`}
+                aria-label={`Next ${singular}`}
+            >
+                ›
+            </button>
+        </span>
+    )
+}
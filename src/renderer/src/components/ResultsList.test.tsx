@@ -161,6 +161,130 @@ describe('ResultsList', () => {
     })
   })
 
+  describe('matched tool call', () => {
+    it('shows the tool call that matched, with the query highlighted', () => {
+      const matchedTool = { lineNumber: 9, toolName: 'Edit', field: 'filePath' as const, summary: '/repo/src/auth.ts' }
+      const results = [buildSearchResult({ matchedTool })]
+      const { container } = renderList({ results, query: 'auth' })
+      expect(screen.getByText('Edit')).toBeInTheDocument()
+      const highlighted = Array.from(container.querySelectorAll('.font-mono .highlight'))
+      expect(highlighted.map((el) => el.textContent)).toEqual(['auth'])
+    })
+
+    it('marks matches found in the command output', () => {
+      const matchedTool = { lineNumber: 3, toolName: 'Bash', field: 'output' as const, summary: 'pnpm test' }
+      renderList({ results: [buildSearchResult({ matchedTool })], query: 'FAIL' })
+      expect(screen.getByText('pnpm test')).toBeInTheDocument()
+      expect(screen.getByText('(output)')).toBeInTheDocument()
+    })
+  })
+
+  describe('approximate results', () => {
+    it('marks approximate results and highlights the word that matched', () => {
+      const results = [
+        buildSearchResult({ preview: 'restart the docker daemon', approximate: true, matchedTerms: ['docker'] }),
+      ]
+      const { container } = renderList({ results, query: 'dokcer' })
+      expect(screen.getByText('≈ Approximate')).toBeInTheDocument()
+      expect(container.querySelector('.highlight')?.textContent).toBe('docker')
+    })
+
+    it('does not mark exact results', () => {
+      renderList({ results: [buildSearchResult()], query: 'feature' })
+      expect(screen.queryByText('≈ Approximate')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('semantic results', () => {
+    it('marks results found only by meaning and includes similarity in the tooltip', () => {
+      const scoreBreakdown = { fields: 0, termFrequency: 0, proximity: 0, recency: 0.5, meaning: 2.4 }
+      const results = [buildSearchResult({ projectName: 'similar', score: 2.9, scoreBreakdown, semantic: true })]
+      renderList({ results, query: 'app crashes on start' })
+      expect(screen.getByText('∼ Similar meaning')).toBeInTheDocument()
+      expect(screen.getByText('similar').closest('button')).toHaveAttribute(
+        'title',
+        'Relevance 2.9 — fields 0, term frequency 0, proximity 0, recency 0.5, meaning 2.4'
+      )
+    })
+  })
+
+  describe('session chains', () => {
+    it('marks a result that stands for several resumed sessions', () => {
+      renderList({ results: [buildSearchResult({ chainLength: 3 }), buildSearchResult()], query: '' })
+      expect(screen.getAllByText('⛓ 3 sessions')).toHaveLength(1)
+    })
+  })
+
+  describe('token usage', () => {
+    it('shows the tokens and estimated cost of a conversation with its own prices', () => {
+      const usage = [
+        { date: '2025-03-01', model: 'claude-opus-4-1', inputTokens: 1_000_000, outputTokens: 200_000, cacheReadTokens: 0, cacheCreationTokens: 0 },
+      ]
+      const pricing = [{ model: 'claude-opus-4', input: 10, output: 50, cacheRead: 1, cacheWrite: 12 }]
+      renderList({ results: [buildSearchResult({ messageCount: 12, usage })], pricing })
+
+      expect(screen.getByText(/12 messages/)).toHaveTextContent('12 messages · 1.2M tokens · $20.00')
+    })
+  })
+
+  describe('similar conversations', () => {
+    it('lists what a similar conversation shares with the open one', () => {
+      const similarity = {
+        files: ['/repo/src/auth.ts', '/repo/src/session.ts'],
+        commands: ['pnpm test auth'],
+        terms: ['websocket', 'reconnect', 'backoff', 'jitter'],
+        sameProject: true,
+        branch: 'fix-login',
+      }
+      renderList({ results: [buildSearchResult({ similarity })], query: '' })
+      expect(screen.getByText('2 shared files')).toHaveAttribute('title', '/repo/src/auth.ts\n/repo/src/session.ts')
+      expect(screen.getByText('1 shared command')).toBeInTheDocument()
+      expect(screen.getByText('branch fix-login')).toBeInTheDocument()
+      expect(screen.getByText('same project')).toBeInTheDocument()
+      expect(screen.getByText('websocket, reconnect, backoff…')).toBeInTheDocument()
+    })
+  })
+
+  describe('regex matches', () => {
+    const regexMatches = [
+      { lineNumber: 4, role: 'assistant' as const, excerpt: 'Error: ECONNREFUSED 127.0.0.1', start: 7, end: 19 },
+      { lineNumber: 9, role: 'user' as const, excerpt: 'still ECONNREFUSED', start: 6, end: 18 },
+    ]
+
+    it('shows the matching lines with the match highlighted', () => {
+      const results = [buildSearchResult({ regexMatches, regexMatchCount: 2 })]
+      const { container } = renderList({ results, query: 'E[A-Z]+' })
+      const highlights = Array.from(container.querySelectorAll('.highlight')).map((el) => el.textContent)
+      expect(highlights).toEqual(['ECONNREFUSED', 'ECONNREFUSED'])
+      expect(screen.queryByText(/more match/)).not.toBeInTheDocument()
+    })
+
+    it('counts the matches beyond the excerpts', () => {
+      const results = [buildSearchResult({ regexMatches, regexMatchCount: 7 })]
+      renderList({ results, query: 'E[A-Z]+' })
+      expect(screen.getByText('+5 more matches')).toBeInTheDocument()
+    })
+  })
+
+  describe('relevance tooltip', () => {
+    const scoreBreakdown = { fields: 3, termFrequency: 1.58, proximity: 0, recency: 0.5 }
+
+    it('explains the score of a search result', () => {
+      const results = [buildSearchResult({ projectName: 'scored', score: 5.08, scoreBreakdown })]
+      renderList({ results, query: 'feature' })
+      expect(screen.getByText('scored').closest('button')).toHaveAttribute(
+        'title',
+        'Relevance 5.08 — fields 3, term frequency 1.58, proximity 0, recency 0.5'
+      )
+    })
+
+    it('has no tooltip when there is no query', () => {
+      const results = [buildSearchResult({ projectName: 'recent', score: 0.5, scoreBreakdown })]
+      renderList({ results, query: '' })
+      expect(screen.getByText('recent').closest('button')).not.toHaveAttribute('title')
+    })
+  })
+
   describe('new chat button', () => {
     it('renders a new-chat button for each result item', () => {
       const results = [
@@ -221,4 +345,31 @@ describe('ResultsList', () => {
       expect(screen.getByText('1 chat')).toBeInTheDocument()
     })
   })
+
+  describe('infinite scrolling', () => {
+    it('asks for the next page once the end of the loaded results is in view', () => {
+      const onLoadMore = vi.fn()
+      const results = Array.from({ length: 5 }, () => buildSearchResult())
+      renderList({ results, hasMore: true, onLoadMore })
+      expect(onLoadMore).toHaveBeenCalled()
+    })
+
+    it('waits while a page is loading and stops on the last page', () => {
+      const onLoadMore = vi.fn()
+      const results = [buildSearchResult()]
+      const { rerender } = renderList({ results, hasMore: true, loadingMore: true, onLoadMore })
+      expect(screen.getByText('Loading more…')).toBeInTheDocument()
+
+      rerender(<ResultsList {...defaultProps} results={results} hasMore={false} onLoadMore={onLoadMore} />)
+      expect(onLoadMore).not.toHaveBeenCalled()
+      expect(screen.queryByText('Load more conversations')).not.toBeInTheDocument()
+    })
+
+    it('offers a button in the grouped list', async () => {
+      const onLoadMore = vi.fn()
+      renderList({ results: [buildSearchResult()], groupByProject: true, hasMore: true, onLoadMore })
+      await userEvent.click(screen.getByText('Load more conversations'))
+      expect(onLoadMore).toHaveBeenCalled()
+    })
+  })
 })
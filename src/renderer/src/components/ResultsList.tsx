@@ -1,6 +1,8 @@
-import { useMemo, useRef, useState, useCallback } from 'react'
+import { useMemo, useRef, useState, useCallback, useEffect } from 'react'
 import { useVirtualizer } from '@tanstack/react-virtual'
-import type { ClaudeProfile, GitInfo, Profile, SearchResult } from '../../../shared/types'
+import { getHighlightText } from '../../../shared/query-parser'
+import { DEFAULT_PRICING, estimateCost, formatCost, formatTokens, sumTokens, totalTokens } from '../../../shared/pricing'
+import type { ClaudeProfile, GitInfo, ModelPrice, Profile, SearchResult, SimilarityReasons, UsageEntry } from '../../../shared/types'
 
 interface ResultsListProps {
   results: SearchResult[]
@@ -16,8 +18,19 @@ interface ResultsListProps {
   accountFilter: string | null
   profiles: Profile[]
   groupByProject: boolean
+  // Infinite scrolling: onLoadMore is called as the end of the loaded results comes into view
+  hasMore?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
+  // Prices for the per-conversation cost; list prices when not given
+  pricing?: ModelPrice[]
 }
 
+// Rows left below the visible ones when the next page is requested
+const LOAD_MORE_THRESHOLD = 10
+// Pixels left to scroll in the grouped list when the next page is requested
+const LOAD_MORE_DISTANCE = 300
+
 export default function ResultsList({
   results,
   selectedId,
@@ -31,7 +44,11 @@ export default function ResultsList({
   activeChatProfile,
   accountFilter,
   profiles,
-  groupByProject
+  groupByProject,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  pricing = DEFAULT_PRICING
 }: ResultsListProps): JSX.Element {
   const enabledProfiles = profiles.filter((p) => p.enabled)
   const showProfileBadge = enabledProfiles.length > 1
@@ -40,7 +57,7 @@ export default function ResultsList({
     ? results.filter((r) => r.account === accountFilter)
     : results
 
-  if (filteredResults.length === 0) {
+  if (filteredResults.length === 0 && !hasMore) {
     return (
       <div className="flex items-center justify-center h-32 text-neutral-500 text-sm">
         {query ? 'No results found' : 'Start typing to search'}
@@ -63,6 +80,10 @@ export default function ResultsList({
         activeChatProfile={activeChatProfile}
         showProfileBadge={showProfileBadge}
         enabledProfiles={enabledProfiles}
+        hasMore={hasMore}
+        loadingMore={loadingMore}
+        onLoadMore={onLoadMore}
+        pricing={pricing}
       />
     )
   }
@@ -81,6 +102,10 @@ export default function ResultsList({
       activeChatProfile={activeChatProfile}
       showProfileBadge={showProfileBadge}
       enabledProfiles={enabledProfiles}
+      hasMore={hasMore}
+      loadingMore={loadingMore}
+      onLoadMore={onLoadMore}
+      pricing={pricing}
     />
   )
 }
@@ -100,6 +125,24 @@ interface InternalListProps {
   activeChatProfile: ClaudeProfile | null
   showProfileBadge: boolean
   enabledProfiles: Profile[]
+  hasMore: boolean
+  loadingMore: boolean
+  onLoadMore?: () => void
+  pricing: ModelPrice[]
+}
+
+function LoadMoreFooter({ loadingMore, onLoadMore }: { loadingMore: boolean; onLoadMore?: () => void }): JSX.Element {
+  return (
+    <div className="py-3 text-center text-xs text-neutral-500">
+      {loadingMore ? (
+        <span className="animate-pulse">Loading more…</span>
+      ) : (
+        <button onClick={onLoadMore} className="hover:text-claude-orange transition-colors">
+          Load more conversations
+        </button>
+      )}
+    </div>
+  )
 }
 
 function FlatResultsList({
@@ -114,7 +157,11 @@ function FlatResultsList({
   isClaudeTyping,
   activeChatProfile,
   showProfileBadge,
-  enabledProfiles
+  enabledProfiles,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  pricing
 }: InternalListProps): JSX.Element {
   const scrollContainerRef = useRef<HTMLDivElement>(null)
 
@@ -126,6 +173,11 @@ function FlatResultsList({
   })
 
   const virtualItems = virtualizer.getVirtualItems()
+  const lastVisibleIndex = virtualItems[virtualItems.length - 1]?.index ?? -1
+
+  useEffect(() => {
+    if (hasMore && !loadingMore && lastVisibleIndex >= results.length - LOAD_MORE_THRESHOLD) onLoadMore?.()
+  }, [hasMore, loadingMore, lastVisibleIndex, results.length, onLoadMore])
 
   return (
     <div className="flex flex-col h-full">
@@ -156,11 +208,13 @@ function FlatResultsList({
                 isClaudeTyping={isClaudeTyping}
                 activeChatProfile={activeChatProfile}
                 profileBadge={showProfileBadge ? enabledProfiles.find((p) => p.id === results[virtualRow.index].account) : undefined}
+                pricing={pricing}
               />
             </div>
           ))}
         </div>
       </div>
+      {hasMore && <LoadMoreFooter loadingMore={loadingMore} onLoadMore={onLoadMore} />}
     </div>
     </div>
   )
@@ -188,7 +242,11 @@ function GroupedResultsList({
   isClaudeTyping,
   activeChatProfile,
   showProfileBadge,
-  enabledProfiles
+  enabledProfiles,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  pricing
 }: InternalListProps): JSX.Element {
   const [expandedProjects, setExpandedProjects] = useState<Set<string>>(new Set())
 
@@ -243,7 +301,13 @@ function GroupedResultsList({
 
   return (
     <div className="flex flex-col h-full">
-      <div className="h-full overflow-y-auto">
+      <div
+        className="h-full overflow-y-auto"
+        onScroll={(e) => {
+          const { scrollHeight, scrollTop, clientHeight } = e.currentTarget
+          if (hasMore && !loadingMore && scrollHeight - scrollTop - clientHeight < LOAD_MORE_DISTANCE) onLoadMore?.()
+        }}
+      >
         {groups.map((group) => {
           const isExpanded = expandedProjects.has(group.projectPath)
           const groupGitInfo = gitInfo[group.projectPath]
@@ -290,12 +354,14 @@ function GroupedResultsList({
                     isClaudeTyping={isClaudeTyping}
                     activeChatProfile={activeChatProfile}
                     profileBadge={showProfileBadge ? enabledProfiles.find((p) => p.id === result.account) : undefined}
+                    pricing={pricing}
                   />
                 </div>
               ))}
             </div>
           )
         })}
+        {hasMore && <LoadMoreFooter loadingMore={loadingMore} onLoadMore={onLoadMore} />}
       </div>
     </div>
   )
@@ -315,22 +381,37 @@ interface ResultItemProps {
   isClaudeTyping: boolean
   activeChatProfile: ClaudeProfile | null
   profileBadge: Profile | undefined
+  pricing: ModelPrice[]
 }
 
-function ResultItem({ result, isSelected, onSelect, onNewChat, query, gitInfo, activeCwd, activeChatSessionId, isClaudeTyping, activeChatProfile, profileBadge }: ResultItemProps): JSX.Element {
+function ResultItem({ result, isSelected, onSelect, onNewChat, query, gitInfo, activeCwd, activeChatSessionId, isClaudeTyping, activeChatProfile, profileBadge, pricing }: ResultItemProps): JSX.Element {
   // Note: dangerouslySetInnerHTML is safe here — content passes through
   // escapeHtml() which sanitizes all HTML entities before highlightText()
   // wraps matched terms in <span> tags using the escaped content.
+  // Operators such as tool:Bash filter results but are never highlighted, and
+  // an approximate result highlights the words that were actually found.
+  const highlightQuery = useMemo(
+    () => result.matchedTerms?.join(' ') ?? getHighlightText(query),
+    [result.matchedTerms, query]
+  )
+
   const highlightedPreview = useMemo(() => {
-    if (!query) return escapeHtml(result.preview)
-    return highlightText(result.preview, query)
-  }, [result.preview, query])
+    if (!highlightQuery) return escapeHtml(result.preview)
+    return highlightText(result.preview, highlightQuery)
+  }, [result.preview, highlightQuery])
 
   const highlightedSessionId = useMemo(() => {
     const short = result.sessionId?.slice(0, 8) || ''
-    if (!query || !short) return escapeHtml(short)
-    return highlightText(short, query)
-  }, [result.sessionId, query])
+    if (!highlightQuery || !short) return escapeHtml(short)
+    return highlightText(short, highlightQuery)
+  }, [result.sessionId, highlightQuery])
+
+  const highlightedToolSummary = useMemo(() => {
+    const summary = result.matchedTool?.summary
+    if (!summary) return ''
+    if (!highlightQuery) return escapeHtml(summary)
+    return highlightText(summary, highlightQuery)
+  }, [result.matchedTool, highlightQuery])
 
   const formattedDate = useMemo(() => {
     return formatDate(result.timestamp)
@@ -344,6 +425,7 @@ function ResultItem({ result, isSelected, onSelect, onNewChat, query, gitInfo, a
   return (
     <button
       onClick={onSelect}
+      title={query ? formatScoreTooltip(result) : undefined}
       className={`group/item w-full text-left p-4 transition-colors hover:bg-neutral-800/50 border-b border-neutral-800 ${isSelected ? 'bg-neutral-800 border-l-2 border-claude-orange' : ''
         }`}
     >
@@ -368,6 +450,9 @@ function ResultItem({ result, isSelected, onSelect, onNewChat, query, gitInfo, a
             <AwaitingReplyBadge />
           ) : null}
           {isActive && activeChatProfile && <LiveProfileBadge profile={activeChatProfile} />}
+          {result.approximate && <ApproximateBadge />}
+          {result.semantic && <SemanticBadge />}
+          {result.chainLength && <ChainBadge length={result.chainLength} />}
           <span className="text-xs text-neutral-500 whitespace-nowrap">{formattedDate}</span>
           <button
             onClick={(e) => {
@@ -392,15 +477,98 @@ function ResultItem({ result, isSelected, onSelect, onNewChat, query, gitInfo, a
           dangerouslySetInnerHTML={{ __html: highlightedSessionId }}
         />
       )}
-      <p
-        className="text-sm text-neutral-300 line-clamp-2"
-        dangerouslySetInnerHTML={{ __html: highlightedPreview }}
-      />
-      <div className="mt-2 text-xs text-neutral-500">{result.messageCount} messages</div>
+      {result.regexMatches ? (
+        <RegexExcerpts result={result} />
+      ) : (
+        <p
+          className="text-sm text-neutral-300 line-clamp-2"
+          dangerouslySetInnerHTML={{ __html: highlightedPreview }}
+        />
+      )}
+      {result.matchedTool && (
+        <p className="mt-1 flex items-center gap-1.5 text-xs text-neutral-400 min-w-0">
+          <span className="shrink-0 px-1 rounded bg-neutral-700/60 text-[10px] font-medium text-neutral-300">
+            {result.matchedTool.toolName}
+          </span>
+          <span
+            className="font-mono truncate"
+            dangerouslySetInnerHTML={{ __html: highlightedToolSummary }}
+          />
+          {result.matchedTool.field === 'output' && (
+            <span className="shrink-0 text-[10px] text-neutral-500">(output)</span>
+          )}
+        </p>
+      )}
+      {result.similarity && <SimilarityReasonsLine reasons={result.similarity} />}
+      <div className="mt-2 text-xs text-neutral-500">
+        {result.messageCount} messages
+        {result.usage && <UsageSummary usage={result.usage} pricing={pricing} />}
+      </div>
     </button>
   )
 }
 
+const MAX_SIMILAR_TERMS = 3
+
+// What a similar conversation shares with the open one, most telling first
+function SimilarityReasonsLine({ reasons }: { reasons: SimilarityReasons }): JSX.Element {
+  const plural = (count: number, word: string): string => `${count} shared ${word}${count === 1 ? '' : 's'}`
+  const chips: Array<{ label: string; title?: string }> = []
+  if (reasons.files.length > 0) chips.push({ label: plural(reasons.files.length, 'file'), title: reasons.files.join('\n') })
+  if (reasons.commands.length > 0) {
+    chips.push({ label: plural(reasons.commands.length, 'command'), title: reasons.commands.join('\n') })
+  }
+  if (reasons.branch) chips.push({ label: `branch ${reasons.branch}` })
+  if (reasons.sameProject) chips.push({ label: 'same project' })
+  if (reasons.terms.length > 0) {
+    const more = reasons.terms.length > MAX_SIMILAR_TERMS ? '…' : ''
+    chips.push({ label: reasons.terms.slice(0, MAX_SIMILAR_TERMS).join(', ') + more, title: reasons.terms.join(', ') })
+  }
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {chips.map((chip) => (
+        <span
+          key={chip.label}
+          title={chip.title}
+          className="px-1 rounded bg-neutral-700/60 text-[10px] font-medium text-neutral-300"
+        >
+          {chip.label}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+const MAX_REGEX_EXCERPTS = 3
+
+// The first lines a regex matched, with the match itself highlighted
+function RegexExcerpts({ result }: { result: SearchResult }): JSX.Element {
+  const matches = result.regexMatches ?? []
+  const more = (result.regexMatchCount ?? matches.length) - Math.min(matches.length, MAX_REGEX_EXCERPTS)
+  return (
+    <div className="space-y-0.5">
+      {matches.slice(0, MAX_REGEX_EXCERPTS).map((match, i) => (
+        <p key={i} className="text-xs font-mono text-neutral-300 truncate">
+          <span className="text-neutral-600 mr-1.5">{match.role === 'user' ? 'You' : 'Claude'}</span>
+          {match.excerpt.slice(0, match.start)}
+          <span className="highlight">{match.excerpt.slice(match.start, match.end)}</span>
+          {match.excerpt.slice(match.end)}
+        </p>
+      ))}
+      {more > 0 && <p className="text-[10px] text-neutral-500">+{more} more {more === 1 ? 'match' : 'matches'}</p>}
+    </div>
+  )
+}
+
+// Explains a result's rank, e.g. "Relevance 4.1 — fields 3, term frequency 1, ..."
+function formatScoreTooltip(result: SearchResult): string | undefined {
+  const breakdown = result.scoreBreakdown
+  if (!breakdown) return undefined
+  const meaning = breakdown.meaning !== undefined ? `, meaning ${breakdown.meaning}` : ''
+  return `Relevance ${result.score} — fields ${breakdown.fields}, term frequency ${breakdown.termFrequency}, proximity ${breakdown.proximity}, recency ${breakdown.recency}${meaning}`
+}
+
 function LiveProfileBadge({ profile }: { profile: ClaudeProfile }): JSX.Element {
   const emoji = profile === 'work' ? '💼' : '🏠'
   return (
@@ -410,6 +578,40 @@ function LiveProfileBadge({ profile }: { profile: ClaudeProfile }): JSX.Element
   )
 }
 
+function ApproximateBadge(): JSX.Element {
+  return (
+    <span className="text-[10px] font-medium text-neutral-400" title="No exact match; found by fuzzy matching">
+      ≈ Approximate
+    </span>
+  )
+}
+
+function SemanticBadge(): JSX.Element {
+  return (
+    <span className="text-[10px] font-medium text-neutral-400" title="No keyword match; a message is similar in meaning">
+      ∼ Similar meaning
+    </span>
+  )
+}
+
+// Tokens and estimated cost of a conversation, after its message count
+function UsageSummary({ usage, pricing }: { usage: UsageEntry[]; pricing: ModelPrice[] }): JSX.Element {
+  const tokens = totalTokens(sumTokens(usage))
+  return (
+    <span title="Tokens used by the session and its sub-agents, and their estimated cost">
+      {` · ${formatTokens(tokens)} tokens · ${formatCost(estimateCost(usage, pricing))}`}
+    </span>
+  )
+}
+
+function ChainBadge({ length }: { length: number }): JSX.Element {
+  return (
+    <span className="text-[10px] font-medium text-neutral-400" title="Resumed or continued across several sessions, listed once">
+      ⛓ {length} sessions
+    </span>
+  )
+}
+
 function LiveBadge(): JSX.Element {
   return (
     <span className="flex items-center gap-1 text-[10px] font-medium text-green-400">
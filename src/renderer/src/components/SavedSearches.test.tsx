@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import SavedSearches from './SavedSearches'
+import type { SavedSearch, SavedSearchFilters } from '../../../shared/types'
+
+const current: SavedSearchFilters = { query: 'deploy', project: '', account: null, dateRange: 'all', sortBy: 'recent' }
+
+const search: SavedSearch = {
+  ...current,
+  id: 'saved-1',
+  name: 'Deploys',
+  query: 'deploy failed',
+  lastOpenedAt: '2025-01-10T00:00:00.000Z'
+}
+
+function renderSavedSearches(overrides: Partial<Parameters<typeof SavedSearches>[0]> = {}) {
+  const props = {
+    searches: [search],
+    newCounts: { 'saved-1': 3 },
+    current,
+    onOpen: vi.fn(),
+    onSave: vi.fn(),
+    onRemove: vi.fn(),
+    ...overrides
+  }
+  render(<SavedSearches {...props} />)
+  return props
+}
+
+describe('SavedSearches', () => {
+  it('lists saved searches with their new-match counts', () => {
+    const props = renderSavedSearches()
+
+    expect(screen.getByTitle('3 new matches since last opened')).toHaveTextContent('3')
+    fireEvent.click(screen.getByText('Deploys'))
+    expect(props.onOpen).toHaveBeenCalledWith(search)
+
+    fireEvent.click(screen.getByLabelText('Remove Deploys'))
+    expect(props.onRemove).toHaveBeenCalledWith('saved-1')
+  })
+
+  it('hides the count when nothing is new', () => {
+    renderSavedSearches({ newCounts: { 'saved-1': 0 } })
+    expect(screen.queryByTitle(/new match/)).not.toBeInTheDocument()
+  })
+
+  it('saves the current search under a name, defaulting to the query', () => {
+    const props = renderSavedSearches({ searches: [] })
+
+    fireEvent.click(screen.getByText('+ Save'))
+    const input = screen.getByLabelText('Saved search name')
+    expect(input).toHaveValue('deploy')
+
+    fireEvent.change(input, { target: { value: 'Release work' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(props.onSave).toHaveBeenCalledWith('Release work')
+    expect(screen.queryByLabelText('Saved search name')).not.toBeInTheDocument()
+  })
+
+  it('cancels naming on Escape', () => {
+    const props = renderSavedSearches()
+
+    fireEvent.click(screen.getByText('+ Save'))
+    fireEvent.keyDown(screen.getByLabelText('Saved search name'), { key: 'Escape' })
+
+    expect(props.onSave).not.toHaveBeenCalled()
+    expect(screen.queryByLabelText('Saved search name')).not.toBeInTheDocument()
+  })
+})
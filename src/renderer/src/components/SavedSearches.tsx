@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import { describeDateRange, isSameDateRange } from '../../../shared/date-range'
+import type { SavedSearch, SavedSearchFilters } from '../../../shared/types'
+
+interface SavedSearchesProps {
+  searches: SavedSearch[]
+  newCounts: Record<string, number>
+  // The query and filters in effect, saved by "Save" and used to mark the open search
+  current: SavedSearchFilters
+  onOpen: (search: SavedSearch) => void
+  onSave: (name: string) => void
+  onRemove: (id: string) => void
+}
+
+function isCurrent(search: SavedSearch, current: SavedSearchFilters): boolean {
+  return (
+    search.query === current.query &&
+    search.project === current.project &&
+    search.account === current.account &&
+    isSameDateRange(search.dateRange, current.dateRange) &&
+    search.sortBy === current.sortBy
+  )
+}
+
+function describe(search: SavedSearch): string {
+  const parts = [
+    search.query ? `"${search.query}"` : 'All conversations',
+    search.project && search.project.split('/').pop(),
+    search.dateRange !== 'all' && describeDateRange(search.dateRange)
+  ]
+  return parts.filter(Boolean).join(' · ')
+}
+
+export default function SavedSearches({
+  searches,
+  newCounts,
+  current,
+  onOpen,
+  onSave,
+  onRemove
+}: SavedSearchesProps): JSX.Element {
+  const [naming, setNaming] = useState(false)
+  const [name, setName] = useState('')
+
+  const startNaming = (): void => {
+    setName(current.query.trim())
+    setNaming(true)
+  }
+
+  const confirm = (): void => {
+    const trimmed = name.trim() || current.query.trim() || 'All conversations'
+    onSave(trimmed)
+    setNaming(false)
+  }
+
+  return (
+    <div className="px-4 py-2 border-b border-neutral-800">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-neutral-500">Saved searches</span>
+        {!naming && (
+          <button
+            onClick={startNaming}
+            className="text-[11px] text-neutral-500 hover:text-claude-orange transition-colors"
+            title="Save the current query and filters"
+          >
+            + Save
+          </button>
+        )}
+      </div>
+
+      {naming && (
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') confirm()
+            if (e.key === 'Escape') setNaming(false)
+          }}
+          onBlur={() => setNaming(false)}
+          placeholder="Name this search"
+          aria-label="Saved search name"
+          className="mt-1.5 w-full px-2 py-1 bg-neutral-900 border border-neutral-700 rounded text-xs text-neutral-200 placeholder-neutral-600 focus:outline-none focus:border-claude-orange"
+        />
+      )}
+
+      {searches.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {searches.map((search) => {
+            const count = newCounts[search.id] ?? 0
+            const active = isCurrent(search, current)
+            return (
+              <li key={search.id} className="group flex items-center gap-1">
+                <button
+                  onClick={() => onOpen(search)}
+                  className={`flex-1 min-w-0 flex items-center justify-between gap-2 px-2 py-1 rounded text-left text-xs transition-colors ${
+                    active ? 'bg-claude-orange/10 text-claude-orange' : 'text-neutral-300 hover:bg-neutral-800'
+                  }`}
+                  title={describe(search)}
+                >
+                  <span className="truncate">{search.name}</span>
+                  {count > 0 && (
+                    <span
+                      className="shrink-0 px-1.5 rounded-full bg-claude-orange/20 text-claude-orange text-[10px] font-medium"
+                      title={`${count} new ${count === 1 ? 'match' : 'matches'} since last opened`}
+                    >
+                      {count}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => onRemove(search.id)}
+                  className="opacity-0 group-hover:opacity-100 text-neutral-500 hover:text-neutral-300 transition-opacity"
+                  aria-label={`Remove ${search.name}`}
+                  title="Remove saved search"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,24 @@
 // @vitest-environment jsdom
+import { useState } from 'react'
 import { render, screen, fireEvent } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { describe, it, expect, vi } from 'vitest'
 import SearchBar from './SearchBar'
+import type { SearchHistoryEntry, SearchSuggestions } from '../../../shared/types'
+
+const suggestions: SearchSuggestions = {
+  projects: ['dev/api', 'my app'],
+  branches: ['main'],
+  models: ['claude-opus-4'],
+  tools: ['Bash', 'Edit', 'Read'],
+  accounts: ['default', 'work'],
+}
+
+// SearchBar is controlled; keep the value in state so typed text sticks
+function ControlledSearchBar({ initial = '' }: { initial?: string }): JSX.Element {
+  const [value, setValue] = useState(initial)
+  return <SearchBar value={value} onChange={setValue} isSearching={false} suggestions={suggestions} />
+}
 
 describe('SearchBar', () => {
   it('renders input with placeholder', () => {
@@ -81,4 +97,222 @@ describe('SearchBar', () => {
     fireEvent.keyDown(window, { key: 'Escape' })
     expect(document.activeElement).not.toBe(input)
   })
+
+  describe('fuzzy toggle', () => {
+    it('is hidden without onFuzzyChange', () => {
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} />)
+      expect(screen.queryByRole('button', { name: 'Fuzzy' })).not.toBeInTheDocument()
+    })
+
+    it('reports the toggled state', async () => {
+      const onFuzzyChange = vi.fn()
+      render(<SearchBar value="dokcer" onChange={vi.fn()} isSearching={false} fuzzy={false} onFuzzyChange={onFuzzyChange} />)
+      const toggle = screen.getByRole('button', { name: 'Fuzzy' })
+      expect(toggle).toHaveAttribute('aria-pressed', 'false')
+
+      await userEvent.click(toggle)
+      expect(onFuzzyChange).toHaveBeenCalledWith(true)
+    })
+  })
+
+  describe('meaning toggle', () => {
+    it('is hidden without onSemanticChange', () => {
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} />)
+      expect(screen.queryByRole('button', { name: 'Meaning' })).not.toBeInTheDocument()
+    })
+
+    it('reports the toggled state', async () => {
+      const onSemanticChange = vi.fn()
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} semantic onSemanticChange={onSemanticChange} />)
+      const toggle = screen.getByRole('button', { name: 'Meaning' })
+      expect(toggle).toHaveAttribute('aria-pressed', 'true')
+
+      await userEvent.click(toggle)
+      expect(onSemanticChange).toHaveBeenCalledWith(false)
+    })
+  })
+
+  describe('thinking toggle', () => {
+    it('is hidden without onThinkingChange', () => {
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} />)
+      expect(screen.queryByRole('button', { name: 'Thinking' })).not.toBeInTheDocument()
+    })
+
+    it('reports the toggled state', async () => {
+      const onThinkingChange = vi.fn()
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} onThinkingChange={onThinkingChange} />)
+      const toggle = screen.getByRole('button', { name: 'Thinking' })
+      expect(toggle).toHaveAttribute('aria-pressed', 'false')
+
+      await userEvent.click(toggle)
+      expect(onThinkingChange).toHaveBeenCalledWith(true)
+    })
+  })
+
+  describe('regex mode', () => {
+    it('reports the toggled state', async () => {
+      const onRegexChange = vi.fn()
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} regex={false} onRegexChange={onRegexChange} />)
+      await userEvent.click(screen.getByRole('button', { name: 'Regex' }))
+      expect(onRegexChange).toHaveBeenCalledWith(true)
+    })
+
+    it('does not offer operator completions for a pattern', async () => {
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} suggestions={suggestions} regex onRegexChange={vi.fn()} />)
+      await userEvent.type(screen.getByRole('combobox'), 'to')
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    })
+
+    it('shows an error under the input', () => {
+      render(<SearchBar value="(" onChange={vi.fn()} isSearching={false} regex onRegexChange={vi.fn()} error="Unterminated group" />)
+      expect(screen.getByText('Unterminated group')).toBeInTheDocument()
+    })
+  })
+
+  describe('operator autocomplete', () => {
+    it('shows nothing without suggestions', async () => {
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} />)
+      await userEvent.type(screen.getByRole('combobox'), 'to')
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    })
+
+    it('suggests operator names matching the word being typed', async () => {
+      render(<ControlledSearchBar />)
+      await userEvent.type(screen.getByRole('combobox'), 'bug f')
+
+      const options = screen.getAllByRole('option').map((o) => o.textContent)
+      expect(options).toEqual([expect.stringContaining('file:'), expect.stringContaining('from:')])
+    })
+
+    it('suggests known values once an operator is typed', async () => {
+      render(<ControlledSearchBar />)
+      await userEvent.type(screen.getByRole('combobox'), 'tool:e')
+
+      expect(screen.getAllByRole('option').map((o) => o.textContent)).toEqual(['Edit', 'Read'])
+    })
+
+    it('completes the word with Enter and keeps a leading dash', async () => {
+      render(<ControlledSearchBar />)
+      const input = screen.getByRole('combobox')
+      await userEvent.type(input, 'x -tool:b{Enter}')
+
+      expect(input).toHaveValue('x -tool:Bash ')
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    })
+
+    it('moves the selection with the arrow keys', async () => {
+      render(<ControlledSearchBar />)
+      const input = screen.getByRole('combobox')
+      await userEvent.type(input, 'account:{ArrowDown}{Enter}')
+
+      expect(input).toHaveValue('account:work ')
+    })
+
+    it('quotes values that contain spaces', async () => {
+      render(<ControlledSearchBar />)
+      const input = screen.getByRole('combobox')
+      await userEvent.type(input, 'project:my')
+      await userEvent.click(screen.getByRole('option', { name: 'my app' }))
+
+      expect(input).toHaveValue('project:"my app" ')
+    })
+
+    it('closes the list on Escape without blurring the input', async () => {
+      render(<ControlledSearchBar />)
+      const input = screen.getByRole('combobox')
+      await userEvent.type(input, 'mod{Escape}')
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+      expect(document.activeElement).toBe(input)
+    })
+  })
+
+  describe('search history', () => {
+    const history: SearchHistoryEntry[] = [
+      {
+        query: 'auth token',
+        project: '/home/user/dev/api',
+        account: null,
+        dateRange: 'week',
+        sortBy: 'recent',
+        fuzzy: true,
+        semantic: false,
+        regex: false,
+        resultCount: 4,
+        lastRunAt: '2025-01-15T10:00:00.000Z'
+      },
+      {
+        query: 'ERR_[A-Z]+',
+        project: '',
+        account: 'work',
+        dateRange: 'all',
+        sortBy: 'relevance',
+        fuzzy: false,
+        semantic: false,
+        regex: true,
+        resultCount: 1,
+        lastRunAt: '2025-01-14T10:00:00.000Z'
+      }
+    ]
+
+    function renderWithHistory() {
+      const handlers = { onRecall: vi.fn(), onRemoveHistory: vi.fn(), onClearHistory: vi.fn() }
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} history={history} {...handlers} />)
+      return handlers
+    }
+
+    it('opens on ArrowUp with the filters and result count of each search', () => {
+      renderWithHistory()
+      const input = screen.getByRole('combobox')
+      fireEvent.focus(input)
+      fireEvent.keyDown(input, { key: 'ArrowUp' })
+
+      const options = screen.getAllByRole('option')
+      expect(options).toHaveLength(2)
+      expect(options[0]).toHaveTextContent('auth token')
+      expect(options[0]).toHaveTextContent('api · Last 7 days · Fuzzy')
+      expect(options[0]).toHaveTextContent('4 results')
+      expect(options[1]).toHaveTextContent('All projects · work · by relevance · Regex')
+      expect(options[1]).toHaveTextContent('1 result')
+    })
+
+    it('walks back with ArrowUp and re-runs the selected search on Enter', () => {
+      const { onRecall } = renderWithHistory()
+      const input = screen.getByRole('combobox')
+      fireEvent.focus(input)
+      fireEvent.keyDown(input, { key: 'ArrowUp' })
+      fireEvent.keyDown(input, { key: 'ArrowUp' })
+      fireEvent.keyDown(input, { key: 'Enter' })
+
+      expect(onRecall).toHaveBeenCalledWith(history[1])
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    })
+
+    it('opens with the ⌘⇧H shortcut', () => {
+      renderWithHistory()
+      fireEvent.keyDown(window, { key: 'H', metaKey: true, shiftKey: true })
+      expect(screen.getByRole('listbox', { name: 'Search history' })).toBeInTheDocument()
+    })
+
+    it('deletes one entry or all of them', () => {
+      const { onRemoveHistory, onClearHistory } = renderWithHistory()
+      const input = screen.getByRole('combobox')
+      fireEvent.focus(input)
+      fireEvent.keyDown(input, { key: 'ArrowUp' })
+
+      fireEvent.mouseDown(screen.getByLabelText('Remove "auth token" from history'))
+      expect(onRemoveHistory).toHaveBeenCalledWith('auth token')
+
+      fireEvent.mouseDown(screen.getByText('Clear history'))
+      expect(onClearHistory).toHaveBeenCalled()
+    })
+
+    it('does not open without history', () => {
+      render(<SearchBar value="" onChange={vi.fn()} isSearching={false} history={[]} onRecall={vi.fn()} />)
+      const input = screen.getByRole('combobox')
+      fireEvent.focus(input)
+      fireEvent.keyDown(input, { key: 'ArrowUp' })
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    })
+  })
 })
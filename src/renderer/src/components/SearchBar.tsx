@@ -1,13 +1,231 @@
-import { useRef, useEffect } from 'react'
+import { useRef, useEffect, useMemo, useState } from 'react'
+import { SEARCH_OPERATORS, isSearchOperator } from '../../../shared/query-parser'
+import { describeDateRange } from '../../../shared/date-range'
+import type { SearchHistoryEntry, SearchOperator, SearchSuggestions, SortOption } from '../../../shared/types'
 
 interface SearchBarProps {
   value: string
   onChange: (value: string) => void
   isSearching: boolean
+  // Values known to the index; operator autocomplete is shown only when provided
+  suggestions?: SearchSuggestions
+  // Typo-tolerant matching; the toggle is shown only when onFuzzyChange is provided
+  fuzzy?: boolean
+  onFuzzyChange?: (fuzzy: boolean) => void
+  // Also find conversations similar in meaning; the toggle is shown only when onSemanticChange is provided
+  semantic?: boolean
+  onSemanticChange?: (semantic: boolean) => void
+  // Also match the assistant's thinking; the toggle is shown only when onThinkingChange is provided
+  thinking?: boolean
+  onThinkingChange?: (thinking: boolean) => void
+  // Treat the input as a regular expression; the toggle is shown only when onRegexChange is provided
+  regex?: boolean
+  onRegexChange?: (regex: boolean) => void
+  // Shown under the input, e.g. an invalid pattern
+  error?: string | null
+  // Earlier searches, most recent first; listed on ArrowUp or ⌘⇧H
+  history?: SearchHistoryEntry[]
+  onRecall?: (entry: SearchHistoryEntry) => void
+  onRemoveHistory?: (query: string) => void
+  onClearHistory?: () => void
 }
 
-export default function SearchBar({ value, onChange, isSearching }: SearchBarProps): JSX.Element {
+interface Completion {
+  label: string
+  hint?: string
+  // Replaces the word under the caret
+  insert: string
+}
+
+const OPERATOR_HINTS: Record<SearchOperator, string> = {
+  project: 'Project name or path',
+  branch: 'Git branch',
+  model: 'Model',
+  tool: 'Tool used, e.g. Bash',
+  file: 'File read or edited',
+  account: 'Profile',
+  before: 'Date, YYYY-MM-DD',
+  after: 'Date, YYYY-MM-DD',
+  from: 'user or assistant'
+}
+
+const MAX_COMPLETIONS = 8
+
+const SORT_LABELS: Record<SortOption, string> = {
+  relevance: 'by relevance',
+  recent: '',
+  oldest: 'oldest first',
+  'most-messages': 'most messages',
+  'least-messages': 'least messages',
+  alphabetical: 'A-Z'
+}
+
+/** The filters and modes a history entry ran with, e.g. "api · Last 7 days · Fuzzy". */
+function describeHistoryFilters(entry: SearchHistoryEntry): string {
+  const parts = [
+    entry.project ? entry.project.split('/').pop() : 'All projects',
+    entry.account,
+    entry.dateRange !== 'all' && describeDateRange(entry.dateRange),
+    SORT_LABELS[entry.sortBy],
+    entry.fuzzy && 'Fuzzy',
+    entry.semantic && 'Meaning',
+    entry.thinking && 'Thinking',
+    entry.regex && 'Regex'
+  ]
+  return parts.filter(Boolean).join(' · ')
+}
+
+function getOperatorValues(operator: SearchOperator, suggestions: SearchSuggestions): string[] {
+  switch (operator) {
+    case 'project': return suggestions.projects
+    case 'branch': return suggestions.branches
+    case 'model': return suggestions.models
+    case 'tool': return suggestions.tools
+    case 'account': return suggestions.accounts
+    case 'from': return ['user', 'assistant']
+    default: return []
+  }
+}
+
+/**
+ * Completions for the word that ends at the caret: operator names while the
+ * word has no colon yet, then the index's known values for that operator.
+ */
+function getCompletions(
+  value: string,
+  caret: number,
+  suggestions: SearchSuggestions
+): { start: number; items: Completion[] } {
+  let start = caret
+  while (start > 0 && !/\s/.test(value[start - 1])) start--
+  const word = value.slice(start, caret)
+  const negation = word.startsWith('-') ? '-' : ''
+  const body = word.slice(negation.length)
+  if (!body || body.includes('"')) return { start, items: [] }
+
+  const colon = body.indexOf(':')
+  if (colon === -1) {
+    const prefix = body.toLowerCase()
+    const items = SEARCH_OPERATORS.filter((op) => op.startsWith(prefix)).map((op) => ({
+      label: `${op}:`,
+      hint: OPERATOR_HINTS[op],
+      insert: `${negation}${op}:`
+    }))
+    return { start, items }
+  }
+
+  const operator = body.slice(0, colon).toLowerCase()
+  if (!isSearchOperator(operator)) return { start, items: [] }
+  const partial = body.slice(colon + 1).toLowerCase()
+  const items = getOperatorValues(operator, suggestions)
+    .filter((v) => v.toLowerCase().includes(partial) && v.toLowerCase() !== partial)
+    .slice(0, MAX_COMPLETIONS)
+    .map((v) => ({
+      label: v,
+      insert: `${negation}${operator}:${/\s/.test(v) ? `"${v}"` : v} `
+    }))
+  return { start, items }
+}
+
+export default function SearchBar({
+  value,
+  onChange,
+  isSearching,
+  suggestions,
+  fuzzy = false,
+  onFuzzyChange,
+  semantic = false,
+  onSemanticChange,
+  thinking = false,
+  onThinkingChange,
+  regex = false,
+  onRegexChange,
+  error,
+  history = [],
+  onRecall,
+  onRemoveHistory,
+  onClearHistory
+}: SearchBarProps): JSX.Element {
   const inputRef = useRef<HTMLInputElement>(null)
+  // null means the end of the input
+  const [caret, setCaret] = useState<number | null>(null)
+  const [focused, setFocused] = useState(false)
+  const [dismissed, setDismissed] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [historyIndex, setHistoryIndex] = useState(0)
+
+  const completions = useMemo(() => {
+    // Operators mean nothing in a regular expression
+    if (!suggestions || regex) return { start: 0, items: [] }
+    return getCompletions(value, Math.min(caret ?? value.length, value.length), suggestions)
+  }, [value, caret, suggestions, regex])
+
+  const showHistory = focused && historyOpen && !!onRecall && history.length > 0
+  const showCompletions = focused && !dismissed && !showHistory && completions.items.length > 0
+  const selectedHistoryIndex = Math.min(historyIndex, history.length - 1)
+
+  const openHistory = (): void => {
+    setHistoryIndex(0)
+    setHistoryOpen(true)
+  }
+
+  const recall = (entry: SearchHistoryEntry): void => {
+    setHistoryOpen(false)
+    onRecall?.(entry)
+  }
+  const selectedIndex = Math.min(activeIndex, completions.items.length - 1)
+
+  const applyCompletion = (completion: Completion): void => {
+    const end = Math.min(caret ?? value.length, value.length)
+    const next = value.slice(0, completions.start) + completion.insert + value.slice(end)
+    const nextCaret = completions.start + completion.insert.length
+    onChange(next)
+    setCaret(nextCaret)
+    setActiveIndex(0)
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret))
+  }
+
+  const handleHistoryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      // ArrowUp walks back in time, like a shell
+      const step = e.key === 'ArrowUp' ? 1 : -1
+      setHistoryIndex((selectedHistoryIndex + step + history.length) % history.length)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      recall(history[selectedHistoryIndex])
+    } else if (e.key === 'Escape') {
+      e.stopPropagation()
+      setHistoryOpen(false)
+    }
+  }
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (showHistory) {
+      handleHistoryKeyDown(e)
+      return
+    }
+    if (!showCompletions) {
+      if (e.key === 'ArrowUp' && onRecall && history.length > 0) {
+        e.preventDefault()
+        openHistory()
+      }
+      return
+    }
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex((selectedIndex + step + completions.items.length) % completions.items.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      applyCompletion(completions.items[selectedIndex])
+    } else if (e.key === 'Escape') {
+      // Close the list without also blurring the input
+      e.stopPropagation()
+      setDismissed(true)
+    }
+  }
 
   useEffect(() => {
     // Focus on mount
@@ -20,6 +238,12 @@ export default function SearchBar({ value, onChange, isSearching }: SearchBarPro
         inputRef.current?.focus()
         inputRef.current?.select()
       }
+      if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === 'h') {
+        e.preventDefault()
+        inputRef.current?.focus()
+        setHistoryIndex(0)
+        setHistoryOpen(true)
+      }
       if (e.key === 'Escape') {
         inputRef.current?.blur()
       }
@@ -30,67 +254,232 @@ export default function SearchBar({ value, onChange, isSearching }: SearchBarPro
   }, [])
 
   return (
-    <div className="relative">
-      <div className="absolute inset-y-0 left-3 flex items-center pointer-events-none">
-        {isSearching ? (
-          <svg
-            className="w-5 h-5 text-neutral-500 animate-spin"
-            fill="none"
-            viewBox="0 0 24 24"
-          >
-            <circle
-              className="opacity-25"
-              cx="12"
-              cy="12"
-              r="10"
+    <div>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-3 flex items-center pointer-events-none">
+          {isSearching ? (
+            <svg
+              className="w-5 h-5 text-neutral-500 animate-spin"
+              fill="none"
+              viewBox="0 0 24 24"
+            >
+              <circle
+                className="opacity-25"
+                cx="12"
+                cy="12"
+                r="10"
+                stroke="currentColor"
+                strokeWidth="4"
+              />
+              <path
+                className="opacity-75"
+                fill="currentColor"
+                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+              />
+            </svg>
+          ) : (
+            <svg
+              className="w-5 h-5 text-neutral-500"
+              fill="none"
               stroke="currentColor"
-              strokeWidth="4"
-            />
-            <path
-              className="opacity-75"
-              fill="currentColor"
-              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-            />
-          </svg>
-        ) : (
-          <svg
-            className="w-5 h-5 text-neutral-500"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+              />
+            </svg>
+          )}
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setCaret(e.target.selectionStart)
+            setDismissed(false)
+            setActiveIndex(0)
+            setHistoryOpen(false)
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onKeyDown={handleInputKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false)
+            setHistoryOpen(false)
+          }}
+          role="combobox"
+          aria-expanded={showCompletions || showHistory}
+          aria-autocomplete="list"
+          placeholder={regex ? 'Regular expression, e.g. ERR_[A-Z_]+' : 'Search conversations... (⌘⇧F)'}
+          spellCheck={!regex}
+          className={`w-full pl-10 ${onThinkingChange ? 'pr-60' : onSemanticChange ? 'pr-44' : onFuzzyChange || onRegexChange ? 'pr-28' : 'pr-4'} py-2.5 ${regex ? 'font-mono text-sm' : ''} bg-neutral-900 border border-neutral-700 rounded-lg text-neutral-200 placeholder-neutral-500 focus:outline-none focus:border-claude-orange focus:ring-1 focus:ring-claude-orange transition-colors`}
+        />
+        <div className="absolute inset-y-0 right-3 flex items-center gap-2">
+          {value && (
+            <button
+              onClick={() => onChange('')}
+              className="flex items-center text-neutral-500 hover:text-neutral-300"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          )}
+          {onFuzzyChange && (
+            <button
+              onClick={() => onFuzzyChange(!fuzzy)}
+              aria-pressed={fuzzy}
+              title="Fuzzy matching: tolerate typos, other word forms and parts of identifiers"
+              className={`px-1.5 py-0.5 rounded border text-[10px] font-medium transition-colors ${
+                fuzzy
+                  ? 'border-claude-orange text-claude-orange'
+                  : 'border-neutral-700 text-neutral-500 hover:text-neutral-300'
+              }`}
+            >
+              Fuzzy
+            </button>
+          )}
+          {onSemanticChange && (
+            <button
+              onClick={() => onSemanticChange(!semantic)}
+              aria-pressed={semantic}
+              title="Similar meaning: also find conversations that describe the same thing in other words"
+              className={`px-1.5 py-0.5 rounded border text-[10px] font-medium transition-colors ${
+                semantic
+                  ? 'border-claude-orange text-claude-orange'
+                  : 'border-neutral-700 text-neutral-500 hover:text-neutral-300'
+              }`}
+            >
+              Meaning
+            </button>
+          )}
+          {onThinkingChange && (
+            <button
+              onClick={() => onThinkingChange(!thinking)}
+              aria-pressed={thinking}
+              title="Include thinking: also match what Claude thought before answering"
+              className={`px-1.5 py-0.5 rounded border text-[10px] font-medium transition-colors ${
+                thinking
+                  ? 'border-claude-orange text-claude-orange'
+                  : 'border-neutral-700 text-neutral-500 hover:text-neutral-300'
+              }`}
+            >
+              Thinking
+            </button>
+          )}
+          {onRegexChange && (
+            <button
+              onClick={() => onRegexChange(!regex)}
+              aria-pressed={regex}
+              aria-label="Regex"
+              title="Regular expression search over the full conversation files"
+              className={`px-1.5 py-0.5 rounded border text-[10px] font-mono font-medium transition-colors ${
+                regex
+                  ? 'border-claude-orange text-claude-orange'
+                  : 'border-neutral-700 text-neutral-500 hover:text-neutral-300'
+              }`}
+            >
+              .*
+            </button>
+          )}
+        </div>
+
+        {showHistory && (
+          <div className="absolute z-20 top-full left-0 right-0 mt-1 bg-neutral-900 border border-neutral-700 rounded-lg shadow-lg overflow-hidden">
+            <ul role="listbox" aria-label="Search history" className="max-h-80 overflow-y-auto py-1">
+              {history.map((entry, i) => (
+                <li
+                  key={entry.query}
+                  role="option"
+                  aria-selected={i === selectedHistoryIndex}
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    recall(entry)
+                  }}
+                  onMouseEnter={() => setHistoryIndex(i)}
+                  className={`group flex items-center gap-3 px-3 py-1.5 cursor-pointer ${
+                    i === selectedHistoryIndex ? 'bg-neutral-800' : ''
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-sm truncate ${entry.regex ? 'font-mono' : ''} ${i === selectedHistoryIndex ? 'text-neutral-100' : 'text-neutral-300'}`}>
+                      {entry.query}
+                    </div>
+                    <div className="text-[11px] text-neutral-500 truncate">{describeHistoryFilters(entry)}</div>
+                  </div>
+                  <span className="text-xs text-neutral-500 shrink-0">
+                    {entry.resultCount} {entry.resultCount === 1 ? 'result' : 'results'}
+                  </span>
+                  {onRemoveHistory && (
+                    <button
+                      onMouseDown={(e) => {
+                        e.preventDefault()
+                        e.stopPropagation()
+                        onRemoveHistory(entry.query)
+                      }}
+                      aria-label={`Remove "${entry.query}" from history`}
+                      className="shrink-0 text-neutral-600 hover:text-neutral-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {onClearHistory && (
+              <button
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  onClearHistory()
+                  setHistoryOpen(false)
+                }}
+                className="w-full px-3 py-1.5 border-t border-neutral-800 text-left text-xs text-neutral-500 hover:text-claude-orange transition-colors"
+              >
+                Clear history
+              </button>
+            )}
+          </div>
+        )}
+
+        {showCompletions && (
+          <ul
+            role="listbox"
+            className="absolute z-20 top-full left-0 right-0 mt-1 py-1 bg-neutral-900 border border-neutral-700 rounded-lg shadow-lg overflow-hidden"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-            />
-          </svg>
+            {completions.items.map((item, i) => (
+              <li
+                key={item.insert}
+                role="option"
+                aria-selected={i === selectedIndex}
+                // mousedown instead of click so the input keeps focus
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  applyCompletion(item)
+                }}
+                onMouseEnter={() => setActiveIndex(i)}
+                className={`flex items-center justify-between gap-3 px-3 py-1.5 text-sm cursor-pointer ${
+                  i === selectedIndex ? 'bg-neutral-800 text-neutral-100' : 'text-neutral-300'
+                }`}
+              >
+                <span className="font-mono truncate">{item.label}</span>
+                {item.hint && <span className="text-xs text-neutral-500 shrink-0">{item.hint}</span>}
+              </li>
+            ))}
+          </ul>
         )}
       </div>
-      <input
-        ref={inputRef}
-        type="text"
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder="Search conversations... (⌘⇧F)"
-        className="w-full pl-10 pr-4 py-2.5 bg-neutral-900 border border-neutral-700 rounded-lg text-neutral-200 placeholder-neutral-500 focus:outline-none focus:border-claude-orange focus:ring-1 focus:ring-claude-orange transition-colors"
-      />
-      {value && (
-        <button
-          onClick={() => onChange('')}
-          className="absolute inset-y-0 right-3 flex items-center text-neutral-500 hover:text-neutral-300"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M6 18L18 6M6 6l12 12"
-            />
-          </svg>
-        </button>
-      )}
+      {error && <p className="mt-1 text-xs text-red-400 break-words">{error}</p>}
     </div>
   )
 }
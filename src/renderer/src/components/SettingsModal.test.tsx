@@ -11,6 +11,20 @@ vi.mock('./SystemStats', () => ({
   default: () => <div data-testid="system-stats">SystemStats</div>,
 }))
 
+vi.mock('./UsageAnalytics', () => ({
+  default: () => <div data-testid="usage-analytics">UsageAnalytics</div>,
+}))
+
+vi.mock('./CacheEfficiency', () => ({
+  default: () => <div data-testid="cache-efficiency">CacheEfficiency</div>,
+}))
+
+vi.mock('./ToolAnalytics', () => ({
+  default: ({ onSelectTool }: { onSelectTool: (filter: string) => void }) => (
+    <button onClick={() => onSelectTool('Bash')}>ToolAnalytics</button>
+  ),
+}))
+
 vi.mock('./ProfilesPanel', () => ({
   default: ({ profiles }: { profiles: Profile[] }) => (
     <div data-testid="profiles-panel">ProfilesPanel ({profiles.length})</div>
@@ -36,6 +50,9 @@ describe('SettingsModal', () => {
       onClose: vi.fn(),
       defaultProfileId: overrides.defaultProfileId ?? null,
       onClearDefaultProfile: vi.fn(),
+      pricing: [],
+      onPricingChange: vi.fn(),
+      onSearchTool: vi.fn(),
     }
     const result = render(<SettingsModal {...props} />)
     return { ...result, props }
@@ -124,6 +141,21 @@ describe('SettingsModal', () => {
     expect(screen.getByTestId('system-stats')).toBeInTheDocument()
   })
 
+  it('renders the Cache Efficiency section', () => {
+    renderModal()
+    expect(screen.getByText('Cache Efficiency')).toBeInTheDocument()
+    expect(screen.getByTestId('cache-efficiency')).toBeInTheDocument()
+  })
+
+  it('searches for a tool picked in the Tool Usage section', async () => {
+    const { props } = renderModal()
+    expect(screen.getByText('Tool Usage')).toBeInTheDocument()
+
+    await userEvent.click(screen.getByRole('button', { name: 'ToolAnalytics' }))
+
+    expect(props.onSearchTool).toHaveBeenCalledWith('Bash')
+  })
+
   it('renders Display and Chat section headings', () => {
     renderModal()
     expect(screen.getByText('Display')).toBeInTheDocument()
@@ -1,7 +1,10 @@
 import { useState, useCallback } from 'react'
-import type { AppSettings, Profile } from '../../../shared/types'
+import type { AppSettings, ModelPrice, Profile } from '../../../shared/types'
 import ProfilesPanel from './ProfilesPanel'
 import SystemStats from './SystemStats'
+import UsageAnalytics from './UsageAnalytics'
+import CacheEfficiency from './CacheEfficiency'
+import ToolAnalytics from './ToolAnalytics'
 
 interface SettingsModalProps {
   settings: AppSettings
@@ -12,9 +15,14 @@ interface SettingsModalProps {
   onClose: () => void
   defaultProfileId: string | null
   onClearDefaultProfile: () => void
+  // Prices the usage section estimates costs with
+  pricing: ModelPrice[]
+  onPricingChange: (pricing: ModelPrice[]) => void
+  // Searches for the conversations that used a tool, given a `tool:` value
+  onSearchTool: (filter: string) => void
 }
 
-export default function SettingsModal({ settings, onSave, profiles, onFilterByProfile, onProfilesSaved, onClose, defaultProfileId, onClearDefaultProfile }: SettingsModalProps): JSX.Element {
+export default function SettingsModal({ settings, onSave, profiles, onFilterByProfile, onProfilesSaved, onClose, defaultProfileId, onClearDefaultProfile, pricing, onPricingChange, onSearchTool }: SettingsModalProps): JSX.Element {
   const [maxChatInstances, setMaxChatInstances] = useState(settings.maxChatInstances)
   const [groupByProject, setGroupByProject] = useState(settings.groupByProject)
 
@@ -111,6 +119,24 @@ export default function SettingsModal({ settings, onSave, profiles, onFilterByPr
         <SystemStats />
       </div>
 
+      {/* Usage section */}
+      <div className="px-8 py-5 border-b border-neutral-800">
+        <h3 className="text-xs font-semibold text-neutral-400 uppercase tracking-wider mb-4">Usage &amp; Cost</h3>
+        <UsageAnalytics pricing={pricing} onPricingChange={onPricingChange} profiles={profiles} />
+      </div>
+
+      {/* Cache section */}
+      <div className="px-8 py-5 border-b border-neutral-800">
+        <h3 className="text-xs font-semibold text-neutral-400 uppercase tracking-wider mb-4">Cache Efficiency</h3>
+        <CacheEfficiency pricing={pricing} profiles={profiles} />
+      </div>
+
+      {/* Tool usage section */}
+      <div className="px-8 py-5 border-b border-neutral-800">
+        <h3 className="text-xs font-semibold text-neutral-400 uppercase tracking-wider mb-4">Tool Usage</h3>
+        <ToolAnalytics onSelectTool={onSearchTool} />
+      </div>
+
       {/* Profiles section */}
       <div>
         <ProfilesPanel
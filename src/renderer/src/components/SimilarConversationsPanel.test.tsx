@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import SimilarConversationsPanel from './SimilarConversationsPanel'
+import { buildSearchResult } from '../../../test/factories'
+
+// jsdom has no layout, so the virtualized list would render no rows
+vi.mock('@tanstack/react-virtual', () => ({
+  useVirtualizer: ({ count }: { count: number }) => ({
+    getVirtualItems: () =>
+      Array.from({ length: count }, (_, i) => ({ index: i, key: String(i), start: i * 100, size: 100 })),
+    getTotalSize: () => count * 100,
+    measureElement: () => {},
+  }),
+}))
+
+function renderPanel(overrides: Partial<Parameters<typeof SimilarConversationsPanel>[0]> = {}) {
+  const props = {
+    conversationId: 'open',
+    selectedId: 'open',
+    onSelect: vi.fn(),
+    onNewChat: vi.fn(),
+    onClose: vi.fn(),
+    gitInfo: {},
+    profiles: [],
+    ...overrides,
+  }
+  render(<SimilarConversationsPanel {...props} />)
+  return props
+}
+
+beforeEach(() => {
+  vi.mocked(window.electronAPI.findSimilarConversations).mockReset()
+})
+
+describe('SimilarConversationsPanel', () => {
+  it('lists similar conversations and opens them like search results', async () => {
+    vi.mocked(window.electronAPI.findSimilarConversations).mockResolvedValue([
+      buildSearchResult({
+        id: 'earlier',
+        projectName: 'earlier-attempt',
+        similarity: { files: ['/repo/auth.ts'], commands: [], terms: [], sameProject: true },
+      }),
+    ])
+
+    const props = renderPanel()
+
+    expect(window.electronAPI.findSimilarConversations).toHaveBeenCalledWith('open')
+    await userEvent.click(await screen.findByText('earlier-attempt'))
+    expect(props.onSelect).toHaveBeenCalledWith('earlier')
+  })
+
+  it('explains an empty list', async () => {
+    vi.mocked(window.electronAPI.findSimilarConversations).mockResolvedValue([])
+    renderPanel()
+    await waitFor(() => {
+      expect(screen.getByText(/No conversation shares files/)).toBeInTheDocument()
+    })
+  })
+
+  it('can be closed', async () => {
+    vi.mocked(window.electronAPI.findSimilarConversations).mockResolvedValue([])
+    const props = renderPanel()
+    await userEvent.click(screen.getByTitle('Close'))
+    expect(props.onClose).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,102 @@
+import { useState, useEffect } from "react";
+import ResultsList from "./ResultsList";
+import type { GitInfo, Profile, SearchResult } from "../../../shared/types";
+
+interface SimilarConversationsPanelProps {
+  // The conversation to find relatives of; the list stays put while opening them
+  conversationId: string;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onNewChat: (projectPath: string) => void;
+  onClose: () => void;
+  gitInfo: Record<string, GitInfo>;
+  profiles: Profile[];
+}
+
+export default function SimilarConversationsPanel({
+  conversationId,
+  selectedId,
+  onSelect,
+  onNewChat,
+  onClose,
+  gitInfo,
+  profiles,
+}: SimilarConversationsPanelProps): JSX.Element {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    window.electronAPI
+      .findSimilarConversations(conversationId)
+      .then((similar) => {
+        if (!cancelled) setResults(similar);
+      })
+      .catch((err) => {
+        console.error("Failed to find similar conversations:", err);
+        if (!cancelled) setResults([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  return (
+    <div className="flex flex-col h-full bg-claude-darker">
+      <div className="px-4 py-3 border-b border-neutral-800 flex items-center justify-between">
+        <h2 className="text-xs font-semibold text-neutral-300">
+          Similar conversations
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-neutral-500 hover:text-neutral-300 transition-colors"
+          title="Close"
+        >
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+      <div className="flex-1 overflow-hidden">
+        {loading ? (
+          <p className="px-4 py-6 text-xs text-neutral-500">Looking for similar conversations…</p>
+        ) : results.length === 0 ? (
+          <p className="px-4 py-6 text-xs text-neutral-500">
+            No conversation shares files, commands, a branch or distinctive
+            words with this one.
+          </p>
+        ) : (
+          <ResultsList
+            results={results}
+            selectedId={selectedId}
+            onSelect={onSelect}
+            onNewChat={onNewChat}
+            query=""
+            gitInfo={gitInfo}
+            activeCwd={null}
+            activeChatSessionId={undefined}
+            isClaudeTyping={false}
+            activeChatProfile={null}
+            accountFilter={null}
+            profiles={profiles}
+            groupByProject={false}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
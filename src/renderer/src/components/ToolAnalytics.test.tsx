@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import ToolAnalytics from './ToolAnalytics'
+import { toDayString } from '../../../shared/date-range'
+
+const today = toDayString(new Date())
+
+describe('ToolAnalytics', () => {
+  beforeEach(() => {
+    vi.mocked(window.electronAPI.getToolStats).mockResolvedValue([
+      { date: today, tool: 'Bash', calls: 40, failures: 10 },
+      { date: today, tool: 'Read', calls: 25, failures: 0 },
+      { date: today, tool: 'mcp__github__create_issue', calls: 3, failures: 1 },
+      { date: today, tool: 'mcp__github__search_code', calls: 2, failures: 0 },
+      { date: '2001-01-01', tool: 'Bash', calls: 500, failures: 0 }
+    ])
+  })
+
+  it('counts the calls and failures of the period by tool, with MCP tools under their server', async () => {
+    render(<ToolAnalytics onSelectTool={vi.fn()} />)
+
+    await waitFor(() => expect(screen.getByTestId('tool-total-calls')).toHaveTextContent('70'))
+    expect(screen.getByTestId('tool-failure-rate')).toHaveTextContent('16%')
+
+    const tools = screen.getByRole('list', { name: 'Tools' })
+    expect(tools).toHaveTextContent(/Bash40 · 25% failed/)
+    expect(tools).toHaveTextContent(/github5 · 20% failed/)
+    expect(screen.queryByText('create_issue')).not.toBeInTheDocument()
+
+    await userEvent.click(screen.getByRole('button', { name: 'Show tools of github' }))
+    expect(screen.getByText('create_issue')).toBeInTheDocument()
+  })
+
+  it('searches for the conversations that used a clicked tool or server', async () => {
+    const onSelectTool = vi.fn()
+    render(<ToolAnalytics onSelectTool={onSelectTool} />)
+    await waitFor(() => expect(screen.getByTestId('tool-total-calls')).toHaveTextContent('70'))
+
+    await userEvent.click(screen.getByText('Bash'))
+    expect(onSelectTool).toHaveBeenLastCalledWith('Bash')
+
+    await userEvent.click(screen.getByText('github'))
+    expect(onSelectTool).toHaveBeenLastCalledWith('mcp__github__*')
+
+    await userEvent.click(screen.getByRole('button', { name: 'Show tools of github' }))
+    await userEvent.click(screen.getByText('search_code'))
+    expect(onSelectTool).toHaveBeenLastCalledWith('mcp__github__search_code')
+  })
+})
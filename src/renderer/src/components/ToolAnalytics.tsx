@@ -0,0 +1,293 @@
+import { useState, useEffect, useMemo } from 'react'
+import { PERIOD_OPTIONS, formatDay, lastDays } from '../../../shared/date-range'
+import { parseMcpToolName } from '../../../shared/tool-names'
+import type { ToolUsageEntry } from '../../../shared/types'
+
+interface ToolStat {
+  key: string
+  label: string
+  // `tool:` search value for the conversations that used it
+  filter: string
+  calls: number
+  failures: number
+  // The tools of an MCP server, busiest first
+  tools?: ToolStat[]
+}
+
+interface ToolAnalyticsProps {
+  // Called with a `tool:` search value when a tool or MCP server is clicked
+  onSelectTool: (filter: string) => void
+}
+
+function failureRate(stat: { calls: number; failures: number }): string {
+  if (stat.failures === 0) return '0%'
+  const rate = (stat.failures / stat.calls) * 100
+  return rate < 1 ? '<1%' : `${Math.round(rate)}%`
+}
+
+function byCalls(a: ToolStat, b: ToolStat): number {
+  return b.calls - a.calls || a.label.localeCompare(b.label)
+}
+
+/** Calls per tool, with the tools of each MCP server gathered under it. */
+function toolStats(entries: ToolUsageEntry[]): ToolStat[] {
+  const tools = new Map<string, ToolStat>()
+  for (const entry of entries) {
+    const stat = tools.get(entry.tool)
+    if (stat) {
+      stat.calls += entry.calls
+      stat.failures += entry.failures
+    } else {
+      tools.set(entry.tool, {
+        key: entry.tool,
+        label: parseMcpToolName(entry.tool)?.tool ?? entry.tool,
+        filter: entry.tool,
+        calls: entry.calls,
+        failures: entry.failures
+      })
+    }
+  }
+
+  const stats: ToolStat[] = []
+  const servers = new Map<string, ToolStat>()
+  for (const stat of tools.values()) {
+    const mcp = parseMcpToolName(stat.key)
+    if (!mcp) {
+      stats.push(stat)
+      continue
+    }
+    let server = servers.get(mcp.server)
+    if (!server) {
+      server = { key: `mcp__${mcp.server}`, label: mcp.server, filter: `mcp__${mcp.server}__*`, calls: 0, failures: 0, tools: [] }
+      servers.set(mcp.server, server)
+      stats.push(server)
+    }
+    server.calls += stat.calls
+    server.failures += stat.failures
+    server.tools!.push(stat)
+  }
+  for (const server of servers.values()) server.tools!.sort(byCalls)
+  return stats.sort(byCalls)
+}
+
+function ToolBar({ stat, max, onSelect }: { stat: ToolStat; max: number; onSelect: () => void }): JSX.Element {
+  return (
+    <button
+      onClick={onSelect}
+      title={`${stat.calls.toLocaleString()} calls, ${stat.failures.toLocaleString()} failed — show conversations`}
+      className="flex-1 min-w-0 text-left group"
+    >
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="truncate font-mono text-neutral-300 group-hover:text-claude-orange transition-colors">
+          {stat.label}
+        </span>
+        <span className="shrink-0 text-neutral-400 tabular-nums">
+          {stat.calls.toLocaleString()}
+          <span className={stat.failures > 0 ? 'text-red-400/80' : 'text-neutral-600'}> · {failureRate(stat)} failed</span>
+        </span>
+      </div>
+      <div className="mt-0.5 h-1.5 rounded bg-neutral-800">
+        <div className="h-1.5 rounded flex overflow-hidden" style={{ width: `${(stat.calls / max) * 100}%` }}>
+          <div className="h-full bg-claude-orange/60 group-hover:bg-claude-orange transition-colors flex-1" />
+          {stat.failures > 0 && (
+            <div className="h-full bg-red-500/70" style={{ width: `${(stat.failures / stat.calls) * 100}%` }} />
+          )}
+        </div>
+      </div>
+    </button>
+  )
+}
+
+/**
+ * Tool calls across every indexed conversation: how often each tool ran and
+ * failed in the period, by day and by tool, with MCP tools grouped under
+ * their server. Clicking a tool or server searches for the conversations
+ * that used it.
+ */
+export default function ToolAnalytics({ onSelectTool }: ToolAnalyticsProps): JSX.Element {
+  const [rows, setRows] = useState<ToolUsageEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(30)
+  const [hoveredDay, setHoveredDay] = useState<string | null>(null)
+  const [expandedServers, setExpandedServers] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    let cancelled = false
+    window.electronAPI
+      .getToolStats()
+      .then((data) => {
+        if (!cancelled) setRows(data)
+      })
+      .catch(() => {
+        if (!cancelled) setRows([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const dayKeys = useMemo(() => lastDays(days), [days])
+  const inPeriod = useMemo(() => rows.filter((row) => row.date >= dayKeys[0]), [rows, dayKeys])
+  const stats = useMemo(() => toolStats(inPeriod), [inPeriod])
+  const totals = useMemo(
+    () => inPeriod.reduce((sum, row) => ({ calls: sum.calls + row.calls, failures: sum.failures + row.failures }), { calls: 0, failures: 0 }),
+    [inPeriod]
+  )
+
+  const daily = useMemo(() => {
+    const byDay = new Map<string, { calls: number; failures: number }>()
+    for (const row of inPeriod) {
+      const day = byDay.get(row.date) ?? { calls: 0, failures: 0 }
+      byDay.set(row.date, { calls: day.calls + row.calls, failures: day.failures + row.failures })
+    }
+    return dayKeys.map((day) => ({ day, ...(byDay.get(day) ?? { calls: 0, failures: 0 }) }))
+  }, [inPeriod, dayKeys])
+  const maxDaily = Math.max(...daily.map((d) => d.calls), 1)
+  const maxCalls = Math.max(...stats.map((s) => s.calls), 1)
+
+  const toggleServer = (key: string): void => {
+    setExpandedServers((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const every = days <= 7 ? 1 : days <= 30 ? 5 : 15
+
+  return (
+    <div>
+      {/* Controls */}
+      <div className="flex items-center gap-1 mb-4">
+        {PERIOD_OPTIONS.map((opt) => (
+          <button
+            key={opt.days}
+            onClick={() => setDays(opt.days)}
+            className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+              days === opt.days
+                ? 'bg-claude-orange text-white'
+                : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-800'
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="h-28 flex items-center justify-center">
+          <span className="text-xs text-neutral-600 animate-pulse">Loading tool calls...</span>
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-3 mb-4 max-w-md">
+            {[
+              { label: 'Calls', value: totals.calls.toLocaleString(), testId: 'tool-total-calls' },
+              { label: 'Failed', value: totals.failures.toLocaleString() },
+              { label: 'Failure rate', value: totals.calls > 0 ? failureRate(totals) : '—', testId: 'tool-failure-rate' }
+            ].map(({ label, value, testId }) => (
+              <div key={label}>
+                <p className="text-[10px] uppercase tracking-wider text-neutral-500">{label}</p>
+                <p className="text-lg font-semibold text-neutral-200" data-testid={testId}>
+                  {value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Daily calls, failures stacked on top */}
+          <div className="flex items-end gap-px h-20">
+            {daily.map((item) => {
+              const isHovered = hoveredDay === item.day
+              return (
+                <div
+                  key={item.day}
+                  className="relative flex-1 flex flex-col items-center justify-end h-full cursor-default"
+                  onMouseEnter={() => setHoveredDay(item.day)}
+                  onMouseLeave={() => setHoveredDay(null)}
+                >
+                  {isHovered && (
+                    <div className="absolute bottom-full mb-1.5 left-1/2 -translate-x-1/2 z-10 pointer-events-none">
+                      <div className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 whitespace-nowrap shadow-lg">
+                        <div className="font-medium">{formatDay(item.day)}</div>
+                        <div className="text-neutral-400">
+                          {item.calls.toLocaleString()} calls · {item.failures.toLocaleString()} failed
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                  <div
+                    className="w-full flex flex-col justify-end"
+                    style={{ height: `${(item.calls / maxDaily) * 100}%`, minHeight: item.calls > 0 ? '2px' : '0' }}
+                  >
+                    <div className="w-full bg-red-500/70 rounded-t-sm" style={{ height: `${item.calls > 0 ? (item.failures / item.calls) * 100 : 0}%` }} />
+                    <div className={`w-full flex-1 transition-colors ${isHovered ? 'bg-claude-orange' : 'bg-claude-orange/50'}`} />
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+          <div className="flex gap-px mt-1">
+            {daily.map((item, i) => (
+              <div key={item.day} className="flex-1 flex justify-center">
+                {i % every === 0 && (
+                  <span className="text-[9px] text-neutral-600 whitespace-nowrap">{formatDay(item.day)}</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* By tool */}
+          <div className="mt-5 max-w-3xl">
+            <h4 className="text-[10px] font-semibold text-neutral-500 uppercase tracking-wider mb-2">By tool</h4>
+            {stats.length === 0 ? (
+              <p className="text-xs text-neutral-600">No tool calls in this period</p>
+            ) : (
+              <ul className="space-y-1.5 max-h-96 overflow-y-auto pr-1" aria-label="Tools">
+                {stats.map((stat) => {
+                  const expanded = expandedServers.has(stat.key)
+                  return (
+                    <li key={stat.key}>
+                      <div className="flex items-center gap-1.5">
+                        {stat.tools ? (
+                          <button
+                            onClick={() => toggleServer(stat.key)}
+                            aria-expanded={expanded}
+                            aria-label={`${expanded ? 'Hide' : 'Show'} tools of ${stat.label}`}
+                            className="w-3 text-[10px] text-neutral-500 hover:text-neutral-300"
+                          >
+                            {expanded ? '▼' : '▶'}
+                          </button>
+                        ) : (
+                          <span className="w-3" />
+                        )}
+                        <ToolBar stat={stat} max={maxCalls} onSelect={() => onSelectTool(stat.filter)} />
+                        {stat.tools && (
+                          <span className="shrink-0 text-[9px] uppercase tracking-wider text-neutral-600">MCP</span>
+                        )}
+                      </div>
+                      {expanded && stat.tools && (
+                        <ul className="mt-1.5 ml-6 space-y-1.5">
+                          {stat.tools.map((tool) => (
+                            <li key={tool.key} className="flex">
+                              <ToolBar stat={tool} max={maxCalls} onSelect={() => onSelectTool(tool.filter)} />
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
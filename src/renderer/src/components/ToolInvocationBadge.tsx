@@ -1,4 +1,5 @@
 import { memo } from 'react'
+import { parseMcpToolName } from '../../../shared/tool-names'
 import type { ToolUseBlock } from '../../../shared/types'
 
 interface ToolInvocationBadgeProps {
@@ -27,11 +28,7 @@ export default memo(function ToolInvocationBadge({ blocks }: ToolInvocationBadge
 
 function getShortToolName(name: string): string {
   // MCP tools have long names like mcp__plugin_serena_serena__find_symbol
-  if (name.startsWith('mcp__')) {
-    const parts = name.split('__')
-    return parts[parts.length - 1] || name
-  }
-  return name
+  return parseMcpToolName(name)?.tool ?? name
 }
 
 function getKeyParam(block: ToolUseBlock): string {
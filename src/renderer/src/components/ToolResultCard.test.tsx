@@ -1,9 +1,13 @@
 // @vitest-environment jsdom
 import { render, screen } from '@testing-library/react'
-import { describe, it, expect } from 'vitest'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi } from 'vitest'
 import ToolResultCard from './ToolResultCard'
 import type { ToolResult } from '../../../shared/types'
 import {
+  buildAssistantMessage,
+  buildConversation,
+  buildMessage,
   buildEditToolResult,
   buildBashToolResult,
   buildGlobToolResult,
@@ -112,6 +116,92 @@ describe('ToolResultCard', () => {
     })
   })
 
+  describe('sub-agent transcripts', () => {
+    const result: ToolResult = {
+      type: 'taskAgent',
+      status: 'completed',
+      prompt: 'Find token handling',
+      agentId: 'a1b2',
+      description: 'Audit auth',
+      subagentType: 'Explore',
+    }
+
+    it('shows the spawning call and only offers the transcript inside a conversation', () => {
+      const { rerender } = render(<ToolResultCard results={[result]} />)
+      expect(screen.getByText('Explore')).toBeInTheDocument()
+      expect(screen.getByText('Audit auth')).toBeInTheDocument()
+      expect(screen.queryByText(/Show transcript/)).not.toBeInTheDocument()
+
+      rerender(<ToolResultCard results={[result]} conversationId="/p/s1.jsonl" />)
+      expect(screen.getByText(/Show transcript/)).toBeInTheDocument()
+    })
+
+    it('loads the transcript when expanded', async () => {
+      vi.mocked(window.electronAPI.getSubagentTranscript).mockResolvedValueOnce(
+        buildConversation({
+          messages: [
+            buildMessage({ content: 'Find token handling' }),
+            buildAssistantMessage({ content: 'refreshToken is rotated in token.ts' }),
+            buildMessage({ content: 'raw tool output', isToolResult: true }),
+          ],
+        })
+      )
+      render(<ToolResultCard results={[result]} conversationId="/p/s1.jsonl" />)
+
+      await userEvent.click(screen.getByText(/Show transcript/))
+
+      expect(window.electronAPI.getSubagentTranscript).toHaveBeenCalledWith('/p/s1.jsonl', 'a1b2')
+      expect(await screen.findByText('refreshToken is rotated in token.ts')).toBeInTheDocument()
+      expect(screen.getByText('Find token handling')).toBeInTheDocument()
+      expect(screen.queryByText('raw tool output')).not.toBeInTheDocument()
+    })
+
+    it('says so when no transcript was kept', async () => {
+      render(<ToolResultCard results={[result]} conversationId="/p/s1.jsonl" />)
+
+      await userEvent.click(screen.getByText(/Show transcript/))
+
+      expect(await screen.findByText(/No transcript was kept/)).toBeInTheDocument()
+    })
+  })
+
+  describe('persisted outputs', () => {
+    const result = buildBashToolResult({
+      stdout: 'PASS src/auth.test.ts',
+      persistedOutput: { path: '/p/s1/tool-results/toolu_1.txt', preview: 'PASS src/auth.test.ts' },
+    })
+
+    it('pages through the saved output', async () => {
+      vi.mocked(window.electronAPI.readToolOutput)
+        .mockResolvedValueOnce({ text: 'first page', offset: 0, nextOffset: 65536, totalSize: 100000 })
+        .mockResolvedValueOnce({ text: 'second page', offset: 65536, nextOffset: null, totalSize: 100000 })
+        .mockResolvedValueOnce({ text: 'first page', offset: 0, nextOffset: 65536, totalSize: 100000 })
+      render(<ToolResultCard results={[result]} conversationId="/p/s1.jsonl" />)
+
+      await userEvent.click(screen.getByText(/Load full output/))
+      expect(await screen.findByText('first page')).toBeInTheDocument()
+      expect(screen.getByText('0 B–64.0 KB of 97.7 KB')).toBeInTheDocument()
+      expect(screen.getByText(/Previous/)).toBeDisabled()
+
+      await userEvent.click(screen.getByText(/Next/))
+      expect(await screen.findByText('second page')).toBeInTheDocument()
+      expect(window.electronAPI.readToolOutput).toHaveBeenLastCalledWith('/p/s1.jsonl', '/p/s1/tool-results/toolu_1.txt', 65536)
+      expect(screen.getByText(/Next/)).toBeDisabled()
+
+      await userEvent.click(screen.getByText(/Previous/))
+      expect(await screen.findByText('first page')).toBeInTheDocument()
+      expect(window.electronAPI.readToolOutput).toHaveBeenLastCalledWith('/p/s1.jsonl', '/p/s1/tool-results/toolu_1.txt', 0)
+    })
+
+    it('says so when the saved output cannot be read', async () => {
+      render(<ToolResultCard results={[result]} conversationId="/p/s1.jsonl" />)
+
+      await userEvent.click(screen.getByText(/Load full output/))
+
+      expect(await screen.findByText('The saved output could not be read')).toBeInTheDocument()
+    })
+  })
+
   it('renders multiple results', () => {
     const results: ToolResult[] = [
       buildBashToolResult({ stdout: 'command output here' }),
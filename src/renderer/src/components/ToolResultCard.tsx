@@ -10,24 +10,26 @@ import { GenericToolCard, TaskAgentCard, TaskCreateCard, TaskUpdateCard } from '
 
 interface ToolResultCardProps {
   results: ToolResult[]
+  // The conversation the results belong to, for cards that load more of it
+  conversationId?: string
 }
 
-export default memo(function ToolResultCard({ results }: ToolResultCardProps) {
+export default memo(function ToolResultCard({ results, conversationId }: ToolResultCardProps) {
   return (
     <div className="space-y-2">
       {results.map((result, i) => (
-        <ToolResultDispatch key={i} result={result} />
+        <ToolResultDispatch key={i} result={result} conversationId={conversationId} />
       ))}
     </div>
   )
 })
 
-function ToolResultDispatch({ result }: { result: ToolResult }) {
+function ToolResultDispatch({ result, conversationId }: { result: ToolResult; conversationId?: string }) {
   switch (result.type) {
     case 'edit':
       return <EditDiffCard result={result} />
     case 'bash':
-      return <BashTerminalCard result={result} />
+      return <BashTerminalCard result={result} conversationId={conversationId} />
     case 'read':
       return <ReadFileCard result={result} />
     case 'write':
@@ -35,15 +37,15 @@ function ToolResultDispatch({ result }: { result: ToolResult }) {
     case 'glob':
       return <GlobResultCard result={result} />
     case 'grep':
-      return <GrepResultCard result={result} />
+      return <GrepResultCard result={result} conversationId={conversationId} />
     case 'taskAgent':
-      return <TaskAgentCard result={result} />
+      return <TaskAgentCard result={result} conversationId={conversationId} />
     case 'taskCreate':
       return <TaskCreateCard result={result} />
     case 'taskUpdate':
       return <TaskUpdateCard result={result} />
     case 'generic':
-      return <GenericToolCard result={result} />
+      return <GenericToolCard result={result} conversationId={conversationId} />
     default:
       return null
   }
@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi } from 'vitest'
+import TurnWaterfall from './TurnWaterfall'
+import type { TurnStat } from '../../../shared/types'
+
+function turn(overrides: Partial<TurnStat>): TurnStat {
+  return {
+    lineNumber: 2,
+    timestamp: '2025-01-01T10:00:04Z',
+    model: 'claude-opus-4-1',
+    inputTokens: 500,
+    outputTokens: 1500,
+    cacheReadTokens: 40_000,
+    cacheCreationTokens: 0,
+    waitMs: 4000,
+    toolsBefore: [],
+    ...overrides
+  }
+}
+
+describe('TurnWaterfall', () => {
+  const turns = [turn({}), turn({ lineNumber: 9, waitMs: 95_000, toolsBefore: ['Bash', 'Bash', 'Read'] })]
+
+  it('sums the turns while collapsed', () => {
+    render(<TurnWaterfall turns={turns} onSelect={vi.fn()} />)
+
+    expect(screen.getByRole('button', { name: /Turn timeline/ })).toHaveTextContent('2 turns · 84K tokens · 1m 39s waiting')
+    expect(screen.queryByRole('button', { name: 'Turn 1' })).not.toBeInTheDocument()
+  })
+
+  it('lists each turn with its wait and the tools before it, and opens a clicked turn', async () => {
+    const onSelect = vi.fn()
+    render(<TurnWaterfall turns={turns} onSelect={onSelect} />)
+    await userEvent.click(screen.getByRole('button', { name: /Turn timeline/ }))
+
+    const second = screen.getByRole('button', { name: 'Turn 2' })
+    expect(second).toHaveTextContent('Bash ×2, Read')
+    expect(second).toHaveTextContent('1m 35s')
+    expect(second).toHaveAttribute('title', expect.stringContaining('After Bash ×2, Read'))
+
+    await userEvent.click(second)
+    expect(onSelect).toHaveBeenCalledWith(turns[1])
+  })
+
+  it('disables the turns whose response is on a branch not shown', async () => {
+    const onSelect = vi.fn()
+    render(<TurnWaterfall turns={turns} onSelect={onSelect} isShown={(t) => t === turns[0]} />)
+    await userEvent.click(screen.getByRole('button', { name: /Turn timeline/ }))
+
+    const second = screen.getByRole('button', { name: 'Turn 2' })
+    expect(second).toBeDisabled()
+    expect(second).toHaveAttribute('title', expect.stringContaining('On a branch not shown'))
+    expect(screen.getByRole('button', { name: 'Turn 1' })).toBeEnabled()
+
+    await userEvent.click(second)
+    expect(onSelect).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,151 @@
+import { useState, useMemo } from 'react'
+import { formatTokens, sumTokens, totalTokens } from '../../../shared/pricing'
+import type { TokenCounts, TurnStat } from '../../../shared/types'
+
+interface TurnWaterfallProps {
+  turns: TurnStat[]
+  // Called with the turn when its bar is clicked
+  onSelect: (turn: TurnStat) => void
+  // Whether the turn's response is on a shown branch; bars of the others are disabled
+  isShown?: (turn: TurnStat) => boolean
+}
+
+// Token kinds in the order they are stacked, cheapest first
+const SEGMENTS: Array<{ key: keyof TokenCounts; label: string; className: string }> = [
+  { key: 'cacheReadTokens', label: 'Cache read', className: 'bg-sky-500/50' },
+  { key: 'cacheCreationTokens', label: 'Cache write', className: 'bg-violet-500/60' },
+  { key: 'inputTokens', label: 'Input', className: 'bg-claude-orange/70' },
+  { key: 'outputTokens', label: 'Output', className: 'bg-emerald-500/70' }
+]
+
+// Tool names shown on a row before the rest are counted
+const TOOLS_SHOWN = 3
+
+/** A duration for display, e.g. "850ms", "12.3s" or "4m 05s". */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`
+  const seconds = ms / 1000
+  if (seconds < 60) return `${seconds.toFixed(1)}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${String(Math.floor(seconds % 60)).padStart(2, '0')}s`
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`
+}
+
+// Repeated tool names as "Bash ×3"
+function countTools(tools: string[]): string[] {
+  const counts = new Map<string, number>()
+  for (const tool of tools) counts.set(tool, (counts.get(tool) ?? 0) + 1)
+  return Array.from(counts, ([tool, count]) => (count > 1 ? `${tool} ×${count}` : tool))
+}
+
+function describeTurn(turn: TurnStat, number: number): string {
+  const tokens = SEGMENTS.map(({ key, label }) => `${label} ${turn[key].toLocaleString()}`).join(' · ')
+  const wait = turn.waitMs === null ? '' : `\nWaited ${formatDuration(turn.waitMs)}`
+  const tools = turn.toolsBefore.length > 0 ? `\nAfter ${countTools(turn.toolsBefore).join(', ')}` : ''
+  return `Turn ${number} · ${turn.model}\n${tokens}${wait}${tools}`
+}
+
+/**
+ * Collapsible timeline of a conversation's model responses: for each, the
+ * time waited since the prompt or tool results before it, and its tokens by
+ * kind. Rows are scaled to the longest wait and the largest turn.
+ */
+export default function TurnWaterfall({ turns, onSelect, isShown }: TurnWaterfallProps): JSX.Element {
+  const [expanded, setExpanded] = useState(false)
+
+  const summary = useMemo(() => {
+    const totalWait = turns.reduce((sum, turn) => sum + (turn.waitMs ?? 0), 0)
+    return {
+      tokens: totalTokens(sumTokens(turns)),
+      totalWait,
+      maxWait: Math.max(...turns.map((turn) => turn.waitMs ?? 0), 1),
+      maxTokens: Math.max(...turns.map((turn) => totalTokens(turn)), 1)
+    }
+  }, [turns])
+
+  return (
+    <div className="border-b border-neutral-800 bg-claude-dark text-xs">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        className="w-full flex items-center gap-2 px-4 py-1.5 text-left text-neutral-400 hover:text-neutral-200 transition-colors"
+      >
+        <span>{expanded ? '▼' : '▶'}</span>
+        <span className="font-medium">Turn timeline</span>
+        <span className="text-neutral-500">
+          {turns.length} {turns.length === 1 ? 'turn' : 'turns'} · {formatTokens(summary.tokens)} tokens ·{' '}
+          {formatDuration(summary.totalWait)} waiting
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-3">
+          <div className="flex items-center gap-3 mb-2 text-[10px] text-neutral-500">
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-sm bg-neutral-500/60" />
+              Wait
+            </span>
+            {SEGMENTS.map((segment) => (
+              <span key={segment.key} className="flex items-center gap-1">
+                <span className={`w-2 h-2 rounded-sm ${segment.className}`} />
+                {segment.label}
+              </span>
+            ))}
+          </div>
+          <ol className="max-h-64 overflow-y-auto space-y-px" aria-label="Turns">
+            {turns.map((turn, i) => {
+              const tokens = totalTokens(turn)
+              const tools = countTools(turn.toolsBefore)
+              const shown = isShown?.(turn) ?? true
+              return (
+                <li key={i}>
+                  <button
+                    onClick={() => onSelect(turn)}
+                    disabled={!shown}
+                    title={describeTurn(turn, i + 1) + (shown ? '' : '\nOn a branch not shown')}
+                    aria-label={`Turn ${i + 1}`}
+                    className="w-full grid grid-cols-[2.5rem_9rem_1fr_1fr] items-center gap-2 px-1 py-0.5 rounded hover:bg-neutral-800/80 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                  >
+                    <span className="text-right text-neutral-600 tabular-nums">{i + 1}</span>
+                    <span className="truncate text-left font-mono text-[10px] text-neutral-500">
+                      {tools.slice(0, TOOLS_SHOWN).join(', ')}
+                      {tools.length > TOOLS_SHOWN && ` +${tools.length - TOOLS_SHOWN}`}
+                    </span>
+                    <span className="flex items-center justify-end gap-1.5">
+                      <span className="text-[10px] text-neutral-500 tabular-nums">
+                        {turn.waitMs === null ? '' : formatDuration(turn.waitMs)}
+                      </span>
+                      <span className="w-2/3 h-2 flex justify-end">
+                        <span
+                          className="h-2 rounded-sm bg-neutral-500/60"
+                          style={{ width: `${((turn.waitMs ?? 0) / summary.maxWait) * 100}%` }}
+                        />
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <span
+                        className="h-2 flex rounded-sm overflow-hidden"
+                        style={{ width: `${(tokens / summary.maxTokens) * 75}%` }}
+                      >
+                        {SEGMENTS.map((segment) =>
+                          turn[segment.key] > 0 ? (
+                            <span
+                              key={segment.key}
+                              className={segment.className}
+                              style={{ width: `${(turn[segment.key] / tokens) * 100}%` }}
+                            />
+                          ) : null
+                        )}
+                      </span>
+                      <span className="text-[10px] text-neutral-500 tabular-nums">{formatTokens(tokens)}</span>
+                    </span>
+                  </button>
+                </li>
+              )
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { render, screen, waitFor, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import UsageAnalytics from './UsageAnalytics'
+import { toDayString } from '../../../shared/date-range'
+import { buildProfile } from '../../../test/factories'
+import type { ModelPrice, UsageRow } from '../../../shared/types'
+
+const pricing: ModelPrice[] = [{ model: 'claude-opus-4', input: 10, output: 50, cacheRead: 1, cacheWrite: 12 }]
+
+function row(overrides: Partial<UsageRow>): UsageRow {
+  return {
+    date: toDayString(new Date()),
+    model: 'claude-opus-4-1',
+    projectPath: '/dev/api',
+    projectName: 'dev/api',
+    account: 'default',
+    inputTokens: 1_000_000,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    ...overrides
+  }
+}
+
+describe('UsageAnalytics', () => {
+  beforeEach(() => {
+    vi.mocked(window.electronAPI.getUsageStats).mockResolvedValue([
+      row({}),
+      row({ projectPath: '/dev/web', projectName: 'dev/web', model: 'local-llama' }),
+      row({ date: '2001-01-01', inputTokens: 9_000_000 })
+    ])
+  })
+
+  function renderAnalytics(onPricingChange = vi.fn()) {
+    render(
+      <UsageAnalytics
+        pricing={pricing}
+        onPricingChange={onPricingChange}
+        profiles={[buildProfile({ id: 'default', label: 'Default', emoji: '🤖' })]}
+      />
+    )
+    return onPricingChange
+  }
+
+  it('totals the cost of the period and breaks it down by project, model and profile', async () => {
+    renderAnalytics()
+
+    await waitFor(() => expect(screen.getByTestId('usage-total-cost')).toHaveTextContent('$10.00'))
+    expect(screen.getByText('dev/web')).toBeInTheDocument()
+    expect(screen.getByText('claude-opus-4-1')).toBeInTheDocument()
+    expect(screen.getByText('🤖 Default')).toBeInTheDocument()
+    expect(screen.getByText(/No price for local-llama/)).toBeInTheDocument()
+  })
+
+  it('edits the price table', async () => {
+    const onPricingChange = renderAnalytics()
+    await userEvent.click(screen.getByRole('button', { name: /Prices/ }))
+
+    fireEvent.change(screen.getByLabelText('Input price for claude-opus-4'), { target: { value: '15' } })
+
+    expect(onPricingChange).toHaveBeenCalledWith([{ ...pricing[0], input: 15 }])
+  })
+})
@@ -0,0 +1,373 @@
+import { useState, useEffect, useMemo } from 'react'
+import { PERIOD_OPTIONS, formatDay, lastDays } from '../../../shared/date-range'
+import {
+  DEFAULT_PRICING,
+  estimateCost,
+  formatCost,
+  formatTokens,
+  sumTokens,
+  totalTokens,
+  unpricedModels
+} from '../../../shared/pricing'
+import { useProfileLabels } from '../hooks/useProfileLabels'
+import type { ModelPrice, Profile, UsageRow } from '../../../shared/types'
+
+type Metric = 'cost' | 'tokens'
+
+// Rows listed per breakdown before the rest are summed into "Other"
+const BREAKDOWN_MAX = 8
+
+const PRICE_FIELDS: Array<{ key: Exclude<keyof ModelPrice, 'model'>; label: string }> = [
+  { key: 'input', label: 'Input' },
+  { key: 'output', label: 'Output' },
+  { key: 'cacheWrite', label: 'Cache write' },
+  { key: 'cacheRead', label: 'Cache read' }
+]
+
+interface BreakdownRow {
+  key: string
+  label: string
+  tokens: number
+  cost: number
+}
+
+interface UsageAnalyticsProps {
+  pricing: ModelPrice[]
+  onPricingChange: (pricing: ModelPrice[]) => void
+  profiles: Profile[]
+}
+
+/** Rows grouped by `keyOf`, largest first by the metric, the tail summed into "Other". */
+function breakdown(
+  rows: UsageRow[],
+  pricing: ModelPrice[],
+  metric: Metric,
+  keyOf: (row: UsageRow) => string,
+  labelOf: (row: UsageRow) => string
+): BreakdownRow[] {
+  const groups = new Map<string, { label: string; rows: UsageRow[] }>()
+  for (const row of rows) {
+    const key = keyOf(row)
+    const group = groups.get(key)
+    if (group) group.rows.push(row)
+    else groups.set(key, { label: labelOf(row), rows: [row] })
+  }
+
+  const sorted = Array.from(groups, ([key, group]) => ({
+    key,
+    label: group.label,
+    tokens: totalTokens(sumTokens(group.rows)),
+    cost: estimateCost(group.rows, pricing)
+  })).sort((a, b) => b[metric] - a[metric])
+
+  if (sorted.length <= BREAKDOWN_MAX) return sorted
+  const rest = sorted.slice(BREAKDOWN_MAX - 1)
+  return [
+    ...sorted.slice(0, BREAKDOWN_MAX - 1),
+    {
+      key: '\0other',
+      label: `Other (${rest.length})`,
+      tokens: rest.reduce((sum, row) => sum + row.tokens, 0),
+      cost: rest.reduce((sum, row) => sum + row.cost, 0)
+    }
+  ]
+}
+
+function formatMetric(metric: Metric, value: number): string {
+  return metric === 'cost' ? formatCost(value) : formatTokens(value)
+}
+
+export default function UsageAnalytics({ pricing, onPricingChange, profiles }: UsageAnalyticsProps): JSX.Element {
+  const [rows, setRows] = useState<UsageRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(30)
+  const [metric, setMetric] = useState<Metric>('cost')
+  const [hoveredDay, setHoveredDay] = useState<string | null>(null)
+  const [editingPrices, setEditingPrices] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    window.electronAPI
+      .getUsageStats()
+      .then((data) => {
+        if (!cancelled) setRows(data)
+      })
+      .catch(() => {
+        if (!cancelled) setRows([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const profileLabel = useProfileLabels(profiles)
+  const dayKeys = useMemo(() => lastDays(days), [days])
+  const inPeriod = useMemo(() => rows.filter((row) => row.date >= dayKeys[0]), [rows, dayKeys])
+
+  const totals = useMemo(() => sumTokens(inPeriod), [inPeriod])
+  const totalCost = useMemo(() => estimateCost(inPeriod, pricing), [inPeriod, pricing])
+  const unpriced = useMemo(() => unpricedModels(inPeriod, pricing), [inPeriod, pricing])
+
+  const daily = useMemo(() => {
+    const byDay = new Map<string, UsageRow[]>()
+    for (const row of inPeriod) byDay.set(row.date, [...(byDay.get(row.date) ?? []), row])
+    return dayKeys.map((day) => {
+      const dayRows = byDay.get(day) ?? []
+      return { day, tokens: totalTokens(sumTokens(dayRows)), cost: estimateCost(dayRows, pricing) }
+    })
+  }, [inPeriod, dayKeys, pricing])
+  const maxDaily = Math.max(...daily.map((d) => d[metric]), metric === 'cost' ? 0.01 : 1)
+
+  const breakdowns = useMemo(
+    () => [
+      {
+        title: 'By project',
+        rows: breakdown(inPeriod, pricing, metric, (r) => r.projectPath, (r) => r.projectName || r.projectPath)
+      },
+      { title: 'By model', rows: breakdown(inPeriod, pricing, metric, (r) => r.model, (r) => r.model) },
+      {
+        title: 'By profile',
+        rows: breakdown(inPeriod, pricing, metric, (r) => r.account, (r) => profileLabel(r.account))
+      }
+    ],
+    [inPeriod, pricing, metric, profileLabel]
+  )
+
+  const updatePrice = (index: number, change: Partial<ModelPrice>): void => {
+    onPricingChange(pricing.map((price, i) => (i === index ? { ...price, ...change } : price)))
+  }
+
+  const every = days <= 7 ? 1 : days <= 30 ? 5 : 15
+
+  return (
+    <div>
+      {/* Controls */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-1">
+          {PERIOD_OPTIONS.map((opt) => (
+            <button
+              key={opt.days}
+              onClick={() => setDays(opt.days)}
+              className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                days === opt.days
+                  ? 'bg-claude-orange text-white'
+                  : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-800'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          {(['cost', 'tokens'] as Metric[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-2.5 py-1 text-xs rounded-md transition-colors capitalize ${
+                metric === m
+                  ? 'bg-neutral-700 text-neutral-100'
+                  : 'text-neutral-500 hover:text-neutral-300 hover:bg-neutral-800'
+              }`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-28 flex items-center justify-center">
+          <span className="text-xs text-neutral-600 animate-pulse">Loading usage...</span>
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-5 gap-3 mb-4 max-w-3xl">
+            <div>
+              <p className="text-[10px] uppercase tracking-wider text-neutral-500">Estimated cost</p>
+              <p className="text-lg font-semibold text-neutral-100" data-testid="usage-total-cost">
+                {formatCost(totalCost)}
+              </p>
+            </div>
+            {[
+              { label: 'Input', value: totals.inputTokens },
+              { label: 'Output', value: totals.outputTokens },
+              { label: 'Cache write', value: totals.cacheCreationTokens },
+              { label: 'Cache read', value: totals.cacheReadTokens }
+            ].map(({ label, value }) => (
+              <div key={label}>
+                <p className="text-[10px] uppercase tracking-wider text-neutral-500">{label}</p>
+                <p className="text-lg font-semibold text-neutral-300">{formatTokens(value)}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Daily chart */}
+          <div className="flex items-end gap-px h-24">
+            {daily.map((item) => {
+              const value = item[metric]
+              const isHovered = hoveredDay === item.day
+              return (
+                <div
+                  key={item.day}
+                  className="relative flex-1 flex flex-col items-center justify-end h-full cursor-default"
+                  onMouseEnter={() => setHoveredDay(item.day)}
+                  onMouseLeave={() => setHoveredDay(null)}
+                >
+                  {isHovered && (
+                    <div className="absolute bottom-full mb-1.5 left-1/2 -translate-x-1/2 z-10 pointer-events-none">
+                      <div className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 whitespace-nowrap shadow-lg">
+                        <div className="font-medium">{formatDay(item.day)}</div>
+                        <div className="text-neutral-400">
+                          {formatCost(item.cost)} · {formatTokens(item.tokens)} tokens
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                  <div
+                    className={`w-full rounded-t-sm transition-colors ${isHovered ? 'bg-claude-orange' : 'bg-claude-orange/50'}`}
+                    style={{ height: `${(value / maxDaily) * 100}%`, minHeight: value > 0 ? '2px' : '0' }}
+                  />
+                </div>
+              )
+            })}
+          </div>
+          <div className="flex gap-px mt-1">
+            {daily.map((item, i) => (
+              <div key={item.day} className="flex-1 flex justify-center">
+                {i % every === 0 && (
+                  <span className="text-[9px] text-neutral-600 whitespace-nowrap">{formatDay(item.day)}</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Breakdowns */}
+          <div className="grid grid-cols-3 gap-6 mt-5">
+            {breakdowns.map(({ title, rows: groupRows }) => {
+              const max = Math.max(...groupRows.map((r) => r[metric]), Number.MIN_VALUE)
+              return (
+                <div key={title}>
+                  <h4 className="text-[10px] font-semibold text-neutral-500 uppercase tracking-wider mb-2">{title}</h4>
+                  {groupRows.length === 0 ? (
+                    <p className="text-xs text-neutral-600">No usage in this period</p>
+                  ) : (
+                    <ul className="space-y-1.5">
+                      {groupRows.map((row) => (
+                        <li key={row.key} className="text-xs">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="truncate text-neutral-300" title={row.label}>
+                              {row.label}
+                            </span>
+                            <span className="shrink-0 text-neutral-400 tabular-nums">
+                              {formatMetric(metric, row[metric])}
+                            </span>
+                          </div>
+                          <div className="mt-0.5 h-1 rounded bg-neutral-800">
+                            <div
+                              className="h-1 rounded bg-claude-orange/60"
+                              style={{ width: `${(row[metric] / max) * 100}%` }}
+                            />
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          {unpriced.length > 0 && (
+            <p className="mt-4 text-xs text-amber-400/80">
+              No price for {unpriced.join(', ')}; their tokens are left out of the cost.
+            </p>
+          )}
+        </>
+      )}
+
+      {/* Pricing table */}
+      <div className="mt-5">
+        <button
+          onClick={() => setEditingPrices(!editingPrices)}
+          aria-expanded={editingPrices}
+          className="text-xs text-neutral-500 hover:text-neutral-300 transition-colors"
+        >
+          {editingPrices ? '▼' : '▶'} Prices (USD per million tokens)
+        </button>
+        {editingPrices && (
+          <div className="mt-2 max-w-3xl">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-neutral-500 text-left">
+                  <th className="font-medium py-1">Model id prefix</th>
+                  {PRICE_FIELDS.map((field) => (
+                    <th key={field.key} className="font-medium py-1 w-24">
+                      {field.label}
+                    </th>
+                  ))}
+                  <th className="w-6" />
+                </tr>
+              </thead>
+              <tbody>
+                {pricing.map((price, i) => (
+                  <tr key={i}>
+                    <td className="py-0.5 pr-2">
+                      <input
+                        value={price.model}
+                        aria-label={`Model ${i + 1}`}
+                        onChange={(e) => updatePrice(i, { model: e.target.value.trim() })}
+                        className="w-full bg-neutral-900 border border-neutral-700 rounded px-2 py-1 font-mono text-neutral-200 focus:outline-none focus:border-claude-orange"
+                      />
+                    </td>
+                    {PRICE_FIELDS.map((field) => (
+                      <td key={field.key} className="py-0.5 pr-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={price[field.key]}
+                          aria-label={`${field.label} price for ${price.model || `model ${i + 1}`}`}
+                          onChange={(e) => updatePrice(i, { [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                          className="w-full bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-200 focus:outline-none focus:border-claude-orange"
+                        />
+                      </td>
+                    ))}
+                    <td>
+                      <button
+                        onClick={() => onPricingChange(pricing.filter((_, j) => j !== i))}
+                        aria-label={`Remove ${price.model || `model ${i + 1}`}`}
+                        className="text-neutral-600 hover:text-red-400 transition-colors"
+                      >
+                        ×
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="mt-2 flex items-center gap-3">
+              <button
+                onClick={() =>
+                  onPricingChange([...pricing, { model: '', input: 0, output: 0, cacheRead: 0, cacheWrite: 0 }])
+                }
+                className="text-xs text-claude-orange hover:underline"
+              >
+                Add model
+              </button>
+              <button
+                onClick={() => onPricingChange(DEFAULT_PRICING)}
+                className="text-xs text-neutral-500 hover:text-neutral-300 transition-colors"
+              >
+                Reset to list prices
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,16 @@
 import { memo, useState } from 'react'
+import PersistedOutput from './PersistedOutput'
 import type { BashToolResult } from '../../../../shared/types'
 
 const COLLAPSED_THRESHOLD = 15
 
-export default memo(function BashTerminalCard({ result }: { result: BashToolResult }) {
+export default memo(function BashTerminalCard({
+  result,
+  conversationId
+}: {
+  result: BashToolResult
+  conversationId?: string
+}) {
   const stdoutLines = result.stdout ? result.stdout.split('\n') : []
   const stderrLines = result.stderr ? result.stderr.split('\n') : []
   const totalLines = stdoutLines.length + stderrLines.length
@@ -59,6 +66,10 @@ export default memo(function BashTerminalCard({ result }: { result: BashToolResu
             {expanded ? '▲ Collapse' : `▼ Show all (${totalLines} lines)`}
           </button>
         )}
+
+        {result.persistedOutput && (
+          <PersistedOutput output={result.persistedOutput} conversationId={conversationId} />
+        )}
       </div>
     </div>
   )
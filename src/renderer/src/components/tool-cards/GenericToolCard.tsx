@@ -1,7 +1,15 @@
 import { memo, useState, useMemo, useCallback } from 'react'
+import SubagentTranscript from './SubagentTranscript'
+import PersistedOutput from './PersistedOutput'
 import type { GenericToolResult, TaskAgentToolResult, TaskCreateToolResult, TaskUpdateToolResult } from '../../../../shared/types'
 
-export const GenericToolCard = memo(function GenericToolCard({ result }: { result: GenericToolResult }) {
+export const GenericToolCard = memo(function GenericToolCard({
+  result,
+  conversationId
+}: {
+  result: GenericToolResult
+  conversationId?: string
+}) {
   const [collapsed, setCollapsed] = useState(true)
   const [copied, setCopied] = useState(false)
 
@@ -52,29 +60,57 @@ export const GenericToolCard = memo(function GenericToolCard({ result }: { resul
           {formatted}
         </pre>
       )}
+
+      {result.persistedOutput && (
+        <PersistedOutput output={result.persistedOutput} conversationId={conversationId} />
+      )}
     </div>
   )
 })
 
-export const TaskAgentCard = memo(function TaskAgentCard({ result }: { result: TaskAgentToolResult }) {
+// conversationId is the parent conversation; without it the transcript cannot be loaded
+export const TaskAgentCard = memo(function TaskAgentCard({
+  result,
+  conversationId
+}: {
+  result: TaskAgentToolResult
+  conversationId?: string
+}) {
+  const [expanded, setExpanded] = useState(false)
+
   return (
     <div className="tool-card">
-      <div className="tool-card-header rounded-lg">
+      <div className={`tool-card-header ${expanded ? 'rounded-t-lg' : 'rounded-lg'}`}>
         <div className="flex items-center gap-2 min-w-0">
           <svg className="w-3.5 h-3.5 text-indigo-400 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
           </svg>
-          <span className="text-neutral-300 text-xs">Sub-agent</span>
+          <span className="text-neutral-300 text-xs">{result.subagentType ?? 'Sub-agent'}</span>
+          {result.description && <span className="text-neutral-400 text-xs truncate">{result.description}</span>}
           <span className="text-neutral-500 text-[10px] font-mono">{result.agentId}</span>
         </div>
-        <span className={`text-[10px] px-1.5 py-0.5 rounded border ${
-          result.status === 'completed'
-            ? 'bg-green-900/40 text-green-400 border-green-700/40'
-            : 'bg-amber-900/40 text-amber-400 border-amber-700/40'
-        }`}>
-          {result.status}
-        </span>
+        <div className="flex items-center gap-1.5 shrink-0">
+          {conversationId && (
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="text-[10px] text-neutral-500 hover:text-neutral-300 transition-colors"
+            >
+              {expanded ? '▼ Hide transcript' : '▶ Show transcript'}
+            </button>
+          )}
+          <span className={`text-[10px] px-1.5 py-0.5 rounded border ${
+            result.status === 'completed'
+              ? 'bg-green-900/40 text-green-400 border-green-700/40'
+              : 'bg-amber-900/40 text-amber-400 border-amber-700/40'
+          }`}>
+            {result.status}
+          </span>
+        </div>
       </div>
+
+      {expanded && conversationId && (
+        <SubagentTranscript conversationId={conversationId} agentId={result.agentId} />
+      )}
     </div>
   )
 })
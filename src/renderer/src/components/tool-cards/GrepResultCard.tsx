@@ -1,9 +1,16 @@
 import { memo, useState } from 'react'
+import PersistedOutput from './PersistedOutput'
 import type { GrepToolResult } from '../../../../shared/types'
 
 const COLLAPSED_THRESHOLD = 15
 
-export default memo(function GrepResultCard({ result }: { result: GrepToolResult }) {
+export default memo(function GrepResultCard({
+  result,
+  conversationId
+}: {
+  result: GrepToolResult
+  conversationId?: string
+}) {
   const contentLines = result.content ? result.content.split('\n') : []
   const shouldCollapse = contentLines.length > COLLAPSED_THRESHOLD
   const [expanded, setExpanded] = useState(!shouldCollapse)
@@ -33,11 +40,13 @@ export default memo(function GrepResultCard({ result }: { result: GrepToolResult
         </div>
       </div>
 
-      {visibleContent && (
+      {(visibleContent || result.persistedOutput) && (
         <div className="bg-neutral-950 border border-neutral-800 rounded-b-lg overflow-x-auto">
-          <pre className="px-3 py-2 font-mono text-xs text-neutral-400 whitespace-pre-wrap break-all leading-5">
-            {visibleContent}
-          </pre>
+          {visibleContent && (
+            <pre className="px-3 py-2 font-mono text-xs text-neutral-400 whitespace-pre-wrap break-all leading-5">
+              {visibleContent}
+            </pre>
+          )}
           {shouldCollapse && (
             <button
               onClick={() => setExpanded(!expanded)}
@@ -46,6 +55,9 @@ export default memo(function GrepResultCard({ result }: { result: GrepToolResult
               {expanded ? '▲ Collapse' : `▼ Show all ${contentLines.length} lines`}
             </button>
           )}
+          {result.persistedOutput && (
+            <PersistedOutput output={result.persistedOutput} conversationId={conversationId} />
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import type { PersistedOutputRef, ToolOutputPage } from '../../../../shared/types'
+
+interface PersistedOutputProps {
+  output: PersistedOutputRef
+  // The conversation the output belongs to; without it the file cannot be read
+  conversationId?: string
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * The full text of a tool output saved out-of-line, read one page at a time
+ * when asked for so a multi-megabyte output never reaches the DOM at once.
+ */
+export default function PersistedOutput({ output, conversationId }: PersistedOutputProps): JSX.Element {
+  const [page, setPage] = useState<ToolOutputPage | null>(null)
+  // Offsets of the pages before the one shown, for going back
+  const [previousOffsets, setPreviousOffsets] = useState<number[]>([])
+  const [loading, setLoading] = useState(false)
+  const [failed, setFailed] = useState(false)
+
+  const load = async (offset: number, previous: number[]): Promise<void> => {
+    if (!conversationId) return
+    setLoading(true)
+    try {
+      const next = await window.electronAPI.readToolOutput(conversationId, output.path, offset)
+      setFailed(!next)
+      if (next) {
+        setPage(next)
+        setPreviousOffsets(previous)
+      }
+    } catch (err) {
+      console.error('Failed to read tool output:', err)
+      setFailed(true)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const footerClass = 'flex items-center justify-between gap-2 px-3 py-1.5 text-[10px] text-neutral-500 bg-neutral-900/30 border-t border-neutral-800/50'
+  const buttonClass = 'hover:text-neutral-300 disabled:opacity-40 disabled:hover:text-neutral-500 transition-colors'
+
+  if (!page) {
+    return (
+      <div className={footerClass}>
+        <span className="truncate" title={output.path}>
+          {failed ? 'The saved output could not be read' : 'Full output saved separately'}
+        </span>
+        {conversationId && (
+          <button onClick={() => load(0, [])} disabled={loading} className={buttonClass}>
+            {loading ? 'Loading…' : '▼ Load full output'}
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  const pageEnd = page.nextOffset ?? page.totalSize
+
+  return (
+    <div className="border-t border-neutral-800/50">
+      <pre className="px-3 py-2 max-h-96 overflow-y-auto font-mono text-xs text-neutral-300 whitespace-pre-wrap break-all leading-5">
+        {page.text}
+      </pre>
+      <div className={footerClass}>
+        <button
+          onClick={() => load(previousOffsets[previousOffsets.length - 1], previousOffsets.slice(0, -1))}
+          disabled={loading || previousOffsets.length === 0}
+          className={buttonClass}
+        >
+          ‹ Previous
+        </button>
+        <span>
+          {formatSize(page.offset)}–{formatSize(pageEnd)} of {formatSize(page.totalSize)}
+        </span>
+        <button
+          onClick={() => page.nextOffset !== null && load(page.nextOffset, [...previousOffsets, page.offset])}
+          disabled={loading || page.nextOffset === null}
+          className={buttonClass}
+        >
+          Next ›
+        </button>
+      </div>
+    </div>
+  )
+}
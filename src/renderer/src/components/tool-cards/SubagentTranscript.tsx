@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react'
+import MessageContent from '../MessageContent'
+import ToolInvocationBadge from '../ToolInvocationBadge'
+import type { ConversationMessage } from '../../../../shared/types'
+
+interface SubagentTranscriptProps {
+  conversationId: string
+  agentId: string
+}
+
+/**
+ * The messages of a sub-agent, loaded when its Task card is expanded. Tool
+ * results are left out; the calls that produced them are shown as badges.
+ */
+export default function SubagentTranscript({ conversationId, agentId }: SubagentTranscriptProps): JSX.Element {
+  const [messages, setMessages] = useState<ConversationMessage[] | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    window.electronAPI
+      .getSubagentTranscript(conversationId, agentId)
+      .then((transcript) => {
+        if (!cancelled) setMessages(transcript?.messages ?? null)
+      })
+      .catch((err) => {
+        console.error('Failed to load sub-agent transcript:', err)
+        if (!cancelled) setMessages(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [conversationId, agentId])
+
+  if (loading) {
+    return <p className="px-3 py-2 text-xs text-neutral-500">Loading transcript…</p>
+  }
+  if (!messages) {
+    return <p className="px-3 py-2 text-xs text-neutral-500">No transcript was kept for this sub-agent.</p>
+  }
+
+  const shown = messages.filter((m) => !m.isToolResult)
+
+  return (
+    <div className="max-h-96 overflow-y-auto px-3 py-2 space-y-2 border-t border-neutral-800">
+      {shown.map((message, i) => (
+        <div key={message.uuid ?? i} className="text-xs">
+          <span className={`font-medium ${message.type === 'user' ? 'text-claude-orange' : 'text-indigo-400'}`}>
+            {message.type === 'user' ? 'Prompt' : 'Sub-agent'}
+          </span>
+          {message.metadata?.toolUseBlocks && message.metadata.toolUseBlocks.length > 0 && (
+            <ToolInvocationBadge blocks={message.metadata.toolUseBlocks} />
+          )}
+          {message.content && <MessageContent content={message.content} />}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { usePricing } from './usePricing'
+import { DEFAULT_PRICING } from '../../../shared/pricing'
+import type { ModelPrice } from '../../../shared/types'
+
+const custom: ModelPrice[] = [{ model: 'claude-opus-4', input: 12, output: 60, cacheRead: 1.2, cacheWrite: 15 }]
+
+describe('usePricing', () => {
+  beforeEach(() => {
+    vi.mocked(window.electronAPI.setPreferences).mockClear()
+  })
+
+  it('uses list prices until the table is edited', async () => {
+    vi.mocked(window.electronAPI.getPreferences).mockResolvedValue({})
+    const { result } = renderHook(() => usePricing())
+
+    await waitFor(() => expect(window.electronAPI.getPreferences).toHaveBeenCalled())
+    expect(result.current.pricing).toBe(DEFAULT_PRICING)
+  })
+
+  it('loads and persists the edited table', async () => {
+    vi.mocked(window.electronAPI.getPreferences).mockResolvedValue({ pricing: custom })
+    const { result } = renderHook(() => usePricing())
+    await waitFor(() => expect(result.current.pricing).toEqual(custom))
+
+    const next = [{ ...custom[0], input: 10 }]
+    act(() => { result.current.setPricing(next) })
+
+    expect(result.current.pricing).toEqual(next)
+    expect(window.electronAPI.setPreferences).toHaveBeenCalledWith({ pricing: next })
+  })
+})
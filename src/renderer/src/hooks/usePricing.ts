@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react'
+import { DEFAULT_PRICING } from '../../../shared/pricing'
+import type { ModelPrice } from '../../../shared/types'
+
+interface UsePricingReturn {
+  pricing: ModelPrice[]
+  setPricing: (pricing: ModelPrice[]) => void
+}
+
+/** The price table costs are estimated with, persisted in the preferences file once edited. */
+export function usePricing(): UsePricingReturn {
+  const [pricing, setPricingState] = useState<ModelPrice[]>(DEFAULT_PRICING)
+
+  useEffect(() => {
+    window.electronAPI
+      .getPreferences()
+      .then((prefs) => {
+        if (prefs.pricing) setPricingState(prefs.pricing)
+      })
+      .catch(console.error)
+  }, [])
+
+  const setPricing = useCallback((next: ModelPrice[]) => {
+    setPricingState(next)
+    window.electronAPI.setPreferences({ pricing: next }).catch(console.error)
+  }, [])
+
+  return { pricing, setPricing }
+}
@@ -0,0 +1,25 @@
+// @vitest-environment jsdom
+import { renderHook } from '@testing-library/react'
+import { describe, it, expect } from 'vitest'
+import { useProfileLabels } from './useProfileLabels'
+import { buildProfile, buildWorkProfile } from '../../../test/factories'
+
+describe('useProfileLabels', () => {
+  it('labels accounts by their profile and leaves unknown ids as they are', () => {
+    const { result } = renderHook(() => useProfileLabels([buildProfile(), buildWorkProfile()]))
+
+    expect(result.current('work')).toBe('💼 Work')
+    expect(result.current('default')).toBe('🤖 Default')
+    expect(result.current('removed')).toBe('removed')
+  })
+
+  it('keeps the same function while the profiles stay the same', () => {
+    const profiles = [buildWorkProfile()]
+    const { result, rerender } = renderHook(() => useProfileLabels(profiles))
+    const first = result.current
+
+    rerender()
+
+    expect(result.current).toBe(first)
+  })
+})
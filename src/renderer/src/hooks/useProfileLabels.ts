@@ -0,0 +1,11 @@
+import { useCallback, useMemo } from 'react'
+import type { Profile } from '../../../shared/types'
+
+/**
+ * Labels an account id with its profile's emoji and name. Ids without a
+ * profile, such as a removed one, are shown as they are.
+ */
+export function useProfileLabels(profiles: Profile[]): (account: string) => string {
+  const labels = useMemo(() => new Map(profiles.map((p) => [p.id, `${p.emoji} ${p.label}`])), [profiles])
+  return useCallback((account: string) => labels.get(account) ?? account, [labels])
+}
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useRegexSearch } from './useRegexSearch'
+import { buildSearchResult } from '../../../test/factories'
+import type { RegexSearchEvent } from '../../../shared/types'
+
+describe('useRegexSearch', () => {
+  let emit: (event: RegexSearchEvent) => void
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.mocked(window.electronAPI.regexSearchStart).mockReset()
+    vi.mocked(window.electronAPI.regexSearchStart).mockResolvedValue({ success: true, searchId: 'regex-1' })
+    vi.mocked(window.electronAPI.regexSearchCancel).mockClear()
+    vi.mocked(window.electronAPI.onRegexSearchEvent).mockImplementation((callback) => {
+      emit = callback
+      return () => {}
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  async function startSearch(pattern = 'ERR_[A-Z]+', enabled = true) {
+    const hook = renderHook(({ p, e }) => useRegexSearch(p, e), { initialProps: { p: pattern, e: enabled } })
+    await act(async () => {
+      vi.advanceTimersByTime(400)
+    })
+    return hook
+  }
+
+  it('does nothing while disabled or without a pattern', async () => {
+    await startSearch('ERR', false)
+    await startSearch('', true)
+    expect(window.electronAPI.regexSearchStart).not.toHaveBeenCalled()
+  })
+
+  it('collects streamed results until the search is done', async () => {
+    const { result } = await startSearch()
+    expect(window.electronAPI.regexSearchStart).toHaveBeenCalledWith('ERR_[A-Z]+', { project: undefined, account: null, dateRange: 'all' })
+    expect(result.current.searching).toBe(true)
+
+    const first = buildSearchResult({ id: 'a' })
+    const second = buildSearchResult({ id: 'b' })
+    act(() => {
+      emit({ searchId: 'regex-1', type: 'result', result: first })
+      emit({ searchId: 'regex-1', type: 'progress', scanned: 25, total: 40 })
+      emit({ searchId: 'regex-1', type: 'result', result: second })
+      emit({ searchId: 'regex-1', type: 'done', scanned: 40, total: 40, cancelled: false })
+    })
+
+    expect(result.current.results).toEqual([first, second])
+    expect(result.current.progress).toEqual({ scanned: 40, total: 40 })
+    expect(result.current.searching).toBe(false)
+  })
+
+  it('scans only the conversations of the selected project, profile and dates', async () => {
+    renderHook(() => useRegexSearch('ERR', true, '/work/api', 'week', 'work'))
+    await act(async () => {
+      vi.advanceTimersByTime(400)
+    })
+
+    expect(window.electronAPI.regexSearchStart).toHaveBeenCalledWith('ERR', { project: '/work/api', account: 'work', dateRange: 'week' })
+  })
+
+  it('ignores events from other searches', async () => {
+    const { result } = await startSearch()
+    act(() => {
+      emit({ searchId: 'regex-0', type: 'result', result: buildSearchResult() })
+    })
+    expect(result.current.results).toEqual([])
+  })
+
+  it('reports an invalid pattern', async () => {
+    vi.mocked(window.electronAPI.regexSearchStart).mockResolvedValue({
+      success: false,
+      error: 'Invalid regular expression: /(/: Unterminated group',
+    })
+    const { result } = await startSearch('(')
+    expect(result.current.error).toMatch(/Unterminated group/)
+    expect(result.current.searching).toBe(false)
+  })
+
+  it('cancels the running search when the pattern changes', async () => {
+    const { rerender } = await startSearch()
+    rerender({ p: 'ERR_[0-9]+', e: true })
+    expect(window.electronAPI.regexSearchCancel).toHaveBeenCalledWith('regex-1')
+  })
+
+  it('can be cancelled explicitly', async () => {
+    const { result } = await startSearch()
+    act(() => result.current.cancel())
+    expect(window.electronAPI.regexSearchCancel).toHaveBeenCalledWith('regex-1')
+    expect(result.current.searching).toBe(false)
+  })
+})
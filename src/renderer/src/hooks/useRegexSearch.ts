@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { DateRangeOption, SearchResult } from '../../../shared/types'
+
+interface UseRegexSearchReturn {
+  results: SearchResult[]
+  searching: boolean
+  // Invalid pattern, or the worker failed
+  error: string | null
+  progress: { scanned: number; total: number } | null
+  cancel: () => void
+}
+
+/**
+ * Regex search over the raw conversation files. The main process scans them
+ * in a worker thread and streams each conversation with matches back as it
+ * is found; a new pattern cancels the search that is still running.
+ */
+export function useRegexSearch(
+  pattern: string,
+  enabled: boolean,
+  projectFilter?: string,
+  dateRange: DateRangeOption = 'all',
+  account: string | null = null
+): UseRegexSearchReturn {
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<{ scanned: number; total: number } | null>(null)
+  // Events of any other search are stale
+  const searchIdRef = useRef<string | null>(null)
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    return window.electronAPI.onRegexSearchEvent((event) => {
+      if (event.searchId !== searchIdRef.current) return
+      switch (event.type) {
+        case 'result':
+          setResults((prev) => [...prev, event.result])
+          break
+        case 'progress':
+          setProgress({ scanned: event.scanned, total: event.total })
+          break
+        case 'done':
+          searchIdRef.current = null
+          setSearching(false)
+          setProgress({ scanned: event.scanned, total: event.total })
+          if (event.error) setError(event.error)
+          break
+      }
+    })
+  }, [])
+
+  const cancel = useCallback(() => {
+    const searchId = searchIdRef.current
+    if (!searchId) return
+    searchIdRef.current = null
+    setSearching(false)
+    window.electronAPI.regexSearchCancel(searchId).catch(() => {})
+  }, [])
+
+  useEffect(() => {
+    const request = ++requestRef.current
+    cancel()
+    setResults([])
+    setError(null)
+    setProgress(null)
+    if (!enabled || !pattern) return
+
+    const timer = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const started = await window.electronAPI.regexSearchStart(pattern, { project: projectFilter, account, dateRange })
+        if (request !== requestRef.current) {
+          // Superseded while starting
+          if (started.searchId) window.electronAPI.regexSearchCancel(started.searchId).catch(() => {})
+          return
+        }
+        if (started.success && started.searchId) {
+          searchIdRef.current = started.searchId
+        } else {
+          setError(started.error ?? 'Search failed')
+          setSearching(false)
+        }
+      } catch (err) {
+        console.error('Regex search error:', err)
+        setSearching(false)
+      }
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [pattern, enabled, projectFilter, dateRange, account, cancel])
+
+  // Stop scanning when the component using the search goes away
+  useEffect(() => cancel, [cancel])
+
+  return { results, searching, error, progress, cancel }
+}
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { useSavedSearches } from './useSavedSearches'
+import { buildSearchResult } from '../../../test/factories'
+import type { SavedSearch } from '../../../shared/types'
+
+const saved: SavedSearch = {
+  id: 'saved-1',
+  name: 'Auth bugs',
+  query: 'auth',
+  project: '/dev/api',
+  account: 'work',
+  dateRange: 'all',
+  sortBy: 'recent',
+  lastOpenedAt: '2025-01-10T00:00:00.000Z'
+}
+
+describe('useSavedSearches', () => {
+  beforeEach(() => {
+    vi.mocked(window.electronAPI.getPreferences).mockResolvedValue({ savedSearches: [saved] })
+    vi.mocked(window.electronAPI.setPreferences).mockClear()
+    vi.mocked(window.electronAPI.search).mockReset()
+    vi.mocked(window.electronAPI.search).mockResolvedValue([])
+  })
+
+  it('counts matches newer than the last open that pass the saved filters', async () => {
+    vi.mocked(window.electronAPI.search).mockResolvedValue([
+      buildSearchResult({ account: 'work', timestamp: '2025-01-15T10:00:00Z' }),
+      buildSearchResult({ account: 'work', timestamp: '2025-01-05T10:00:00Z' }),
+      buildSearchResult({ account: 'personal', timestamp: '2025-01-15T10:00:00Z' })
+    ])
+
+    const { result } = renderHook(() => useSavedSearches())
+
+    await waitFor(() => expect(result.current.newCounts).toEqual({ 'saved-1': 1 }))
+    expect(window.electronAPI.search).toHaveBeenCalledWith('auth', { project: '/dev/api', dateRange: 'all' })
+  })
+
+  it('persists saved searches and resets the count when one is opened', async () => {
+    const { result } = renderHook(() => useSavedSearches())
+    await waitFor(() => expect(result.current.savedSearches).toHaveLength(1))
+
+    await act(async () => {
+      result.current.saveSearch('Everything', {
+        query: '',
+        project: '',
+        account: null,
+        dateRange: 'week',
+        sortBy: 'relevance'
+      })
+    })
+    expect(result.current.savedSearches.map((s) => s.name)).toEqual(['Auth bugs', 'Everything'])
+
+    await act(async () => {
+      result.current.markOpened('saved-1')
+    })
+    expect(result.current.savedSearches[0].lastOpenedAt > saved.lastOpenedAt).toBe(true)
+
+    await act(async () => {
+      result.current.removeSearch('saved-1')
+    })
+    const calls = vi.mocked(window.electronAPI.setPreferences).mock.calls
+    expect(calls).toHaveLength(3)
+    expect(calls[2][0].savedSearches?.map((s) => s.name)).toEqual(['Everything'])
+  })
+
+  it('does not count while disabled', async () => {
+    const { result } = renderHook(() => useSavedSearches(false))
+    await waitFor(() => expect(result.current.savedSearches).toHaveLength(1))
+    expect(window.electronAPI.search).not.toHaveBeenCalled()
+  })
+
+  it('recounts once for a burst of conversation changes', async () => {
+    let notify: () => void = () => {}
+    vi.mocked(window.electronAPI.onConversationsChanged).mockImplementation((callback) => {
+      notify = () => callback({ added: [], updated: [], removed: [] })
+      return () => {}
+    })
+    const { result } = renderHook(() => useSavedSearches())
+    await waitFor(() => expect(window.electronAPI.search).toHaveBeenCalledTimes(1))
+
+    vi.useFakeTimers()
+    try {
+      act(() => {
+        for (let i = 0; i < 5; i++) notify()
+      })
+      expect(window.electronAPI.search).toHaveBeenCalledTimes(1)
+      await act(async () => {
+        vi.advanceTimersByTime(30_000)
+      })
+    } finally {
+      vi.useRealTimers()
+    }
+    await waitFor(() => expect(window.electronAPI.search).toHaveBeenCalledTimes(2))
+    expect(result.current.newCounts).toEqual({ 'saved-1': 0 })
+  })
+})
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import type { SavedSearch, SavedSearchFilters } from '../../../shared/types'
+
+// Conversations change every few seconds while a session runs, so new-match
+// counts are refreshed at most this often, after the first change
+const REFRESH_INTERVAL_MS = 30_000
+
+interface UseSavedSearchesReturn {
+  savedSearches: SavedSearch[]
+  // Matches in conversations active since each search was last opened, by id
+  newCounts: Record<string, number>
+  saveSearch: (name: string, filters: SavedSearchFilters) => void
+  removeSearch: (id: string) => void
+  markOpened: (id: string) => void
+}
+
+/**
+ * Saved searches, persisted in the preferences file. Their new-match counts
+ * are recomputed when conversations are added or change, at most once per
+ * `REFRESH_INTERVAL_MS`.
+ */
+export function useSavedSearches(enabled = true): UseSavedSearchesReturn {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [newCounts, setNewCounts] = useState<Record<string, number>>({})
+  const [changeCount, setChangeCount] = useState(0)
+
+  useEffect(() => {
+    window.electronAPI
+      .getPreferences()
+      .then((prefs) => setSavedSearches(prefs.savedSearches ?? []))
+      .catch(console.error)
+  }, [])
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const unsubscribe = window.electronAPI.onConversationsChanged(() => {
+      if (timer) return
+      timer = setTimeout(() => {
+        timer = null
+        setChangeCount((count) => count + 1)
+      }, REFRESH_INTERVAL_MS)
+    })
+    return () => {
+      if (timer) clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || savedSearches.length === 0) return
+    let cancelled = false
+
+    Promise.all(
+      savedSearches.map(async (search): Promise<[string, number]> => {
+        const results = await window.electronAPI.search(search.query, {
+          project: search.project || undefined,
+          dateRange: search.dateRange
+        })
+        const since = new Date(search.lastOpenedAt).getTime()
+        const count = results.filter(
+          (r) =>
+            (!search.account || r.account === search.account) &&
+            new Date(r.timestamp).getTime() > since
+        ).length
+        return [search.id, count]
+      })
+    )
+      .then((entries) => {
+        if (!cancelled) setNewCounts(Object.fromEntries(entries))
+      })
+      .catch((err) => console.error('Saved search count error:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [savedSearches, enabled, changeCount])
+
+  const persist = useCallback((next: SavedSearch[]) => {
+    setSavedSearches(next)
+    window.electronAPI.setPreferences({ savedSearches: next }).catch(console.error)
+  }, [])
+
+  const saveSearch = useCallback(
+    (name: string, filters: SavedSearchFilters) => {
+      persist([...savedSearches, { ...filters, id: uuidv4(), name, lastOpenedAt: new Date().toISOString() }])
+    },
+    [savedSearches, persist]
+  )
+
+  const removeSearch = useCallback(
+    (id: string) => persist(savedSearches.filter((search) => search.id !== id)),
+    [savedSearches, persist]
+  )
+
+  const markOpened = useCallback(
+    (id: string) => {
+      const lastOpenedAt = new Date().toISOString()
+      persist(savedSearches.map((search) => (search.id === id ? { ...search, lastOpenedAt } : search)))
+    },
+    [savedSearches, persist]
+  )
+
+  return { savedSearches, newCounts, saveSearch, removeSearch, markOpened }
+}
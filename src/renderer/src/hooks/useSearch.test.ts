@@ -3,12 +3,17 @@ import { renderHook, act } from '@testing-library/react'
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { useSearch } from './useSearch'
 import { buildSearchResult } from '../../../test/factories'
+import type { SearchPage, SearchResult } from '../../../shared/types'
+
+function page(results: SearchResult[], total = results.length, nextCursor: string | null = null): SearchPage {
+  return { results, total, nextCursor }
+}
 
 describe('useSearch', () => {
   beforeEach(() => {
     vi.useFakeTimers()
-    vi.mocked(window.electronAPI.search).mockReset()
-    vi.mocked(window.electronAPI.search).mockResolvedValue([])
+    vi.mocked(window.electronAPI.searchPage).mockReset()
+    vi.mocked(window.electronAPI.searchPage).mockResolvedValue(page([]))
   })
 
   afterEach(() => {
@@ -23,7 +28,7 @@ describe('useSearch', () => {
 
   it('performs initial search after debounce', async () => {
     const mockResults = [buildSearchResult()]
-    vi.mocked(window.electronAPI.search).mockResolvedValue(mockResults)
+    vi.mocked(window.electronAPI.searchPage).mockResolvedValue(page(mockResults))
 
     const { result } = renderHook(() => useSearch())
 
@@ -48,7 +53,7 @@ describe('useSearch', () => {
     })
 
     // The search API should have been called with 'hel', not intermediate values
-    const calls = vi.mocked(window.electronAPI.search).mock.calls
+    const calls = vi.mocked(window.electronAPI.searchPage).mock.calls
     const lastCall = calls[calls.length - 1]
     expect(lastCall[0]).toBe('hel')
   })
@@ -60,14 +65,63 @@ describe('useSearch', () => {
       vi.advanceTimersByTime(200)
     })
 
-    expect(window.electronAPI.search).toHaveBeenCalledWith(
+    expect(window.electronAPI.searchPage).toHaveBeenCalledWith('', {
+      project: '/dev/my-project',
+      account: null,
+      dateRange: 'all',
+      sortBy: 'relevance',
+      fuzzy: false,
+      semantic: false,
+      thinking: false,
+      limit: 50
+    })
+  })
+
+  it('passes the date range, sort and profile to search API so they apply before paging', async () => {
+    const range = { start: '2025-03-03', end: '2025-03-17' }
+    renderHook(() => useSearch(undefined, true, { dateRange: range, sortBy: 'oldest', account: 'work' }))
+
+    await act(async () => {
+      vi.advanceTimersByTime(200)
+    })
+
+    expect(window.electronAPI.searchPage).toHaveBeenCalledWith(
       '',
-      { project: '/dev/my-project' }
+      expect.objectContaining({ dateRange: range, sortBy: 'oldest', account: 'work' })
+    )
+  })
+
+  it('searches again with fuzzy matching when it is turned on', async () => {
+    const { result } = renderHook(() => useSearch())
+    act(() => { result.current.setQuery('dokcer') })
+    await act(async () => {
+      vi.advanceTimersByTime(200)
+    })
+
+    act(() => { result.current.setFuzzy(true) })
+    await act(async () => {
+      vi.advanceTimersByTime(200)
+    })
+
+    expect(window.electronAPI.searchPage).toHaveBeenLastCalledWith('dokcer', expect.objectContaining({ fuzzy: true }))
+  })
+
+  it('asks for similar meaning when semantic search is turned on', async () => {
+    const { result } = renderHook(() => useSearch())
+    act(() => { result.current.setQuery('app crashes on start') })
+    act(() => { result.current.setSemantic(true) })
+    await act(async () => {
+      vi.advanceTimersByTime(200)
+    })
+
+    expect(window.electronAPI.searchPage).toHaveBeenLastCalledWith(
+      'app crashes on start',
+      expect.objectContaining({ fuzzy: false, semantic: true })
     )
   })
 
   it('handles search errors gracefully', async () => {
-    vi.mocked(window.electronAPI.search).mockRejectedValue(new Error('IPC failed'))
+    vi.mocked(window.electronAPI.searchPage).mockRejectedValue(new Error('IPC failed'))
     vi.spyOn(console, 'error').mockImplementation(() => {})
 
     const { result } = renderHook(() => useSearch())
@@ -88,9 +142,9 @@ describe('useSearch', () => {
       vi.advanceTimersByTime(200)
     })
 
-    vi.mocked(window.electronAPI.search).mockClear()
+    vi.mocked(window.electronAPI.searchPage).mockClear()
     const freshResults = [buildSearchResult()]
-    vi.mocked(window.electronAPI.search).mockResolvedValue(freshResults)
+    vi.mocked(window.electronAPI.searchPage).mockResolvedValue(page(freshResults))
 
     await act(async () => {
       result.current.refresh()
@@ -98,4 +152,73 @@ describe('useSearch', () => {
 
     expect(result.current.results).toEqual(freshResults)
   })
+
+  describe('pagination', () => {
+    it('appends the next page and reports the total', async () => {
+      const first = [buildSearchResult(), buildSearchResult()]
+      const second = [buildSearchResult()]
+      vi.mocked(window.electronAPI.searchPage)
+        .mockResolvedValueOnce(page(first, 3, 'cursor-1'))
+        .mockResolvedValueOnce(page(second, 3, null))
+
+      const { result } = renderHook(() => useSearch())
+      await act(async () => {
+        vi.advanceTimersByTime(200)
+      })
+      expect(result.current.total).toBe(3)
+      expect(result.current.hasMore).toBe(true)
+
+      await act(async () => {
+        result.current.loadMore()
+      })
+
+      expect(window.electronAPI.searchPage).toHaveBeenLastCalledWith('', expect.objectContaining({ cursor: 'cursor-1' }))
+      expect(result.current.results).toEqual([...first, ...second])
+      expect(result.current.hasMore).toBe(false)
+    })
+
+    it('drops a page that arrives after the query changed', async () => {
+      const stale = buildSearchResult({ preview: 'stale' })
+      let resolveMore: (value: SearchPage) => void = () => {}
+      vi.mocked(window.electronAPI.searchPage)
+        .mockResolvedValueOnce(page([buildSearchResult()], 2, 'cursor-1'))
+        .mockReturnValueOnce(new Promise((resolve) => { resolveMore = resolve }))
+        .mockResolvedValue(page([]))
+
+      const { result } = renderHook(() => useSearch())
+      await act(async () => {
+        vi.advanceTimersByTime(200)
+      })
+
+      act(() => { result.current.loadMore() })
+      act(() => { result.current.setQuery('docker') })
+      await act(async () => {
+        vi.advanceTimersByTime(200)
+      })
+      await act(async () => {
+        resolveMore(page([stale], 2, null))
+      })
+
+      expect(result.current.results).toEqual([])
+    })
+
+    it('refresh reloads as many results as are loaded', async () => {
+      vi.mocked(window.electronAPI.searchPage)
+        .mockResolvedValueOnce(page(Array.from({ length: 50 }, () => buildSearchResult()), 80, 'cursor-1'))
+        .mockResolvedValueOnce(page(Array.from({ length: 30 }, () => buildSearchResult()), 80, null))
+
+      const { result } = renderHook(() => useSearch())
+      await act(async () => {
+        vi.advanceTimersByTime(200)
+      })
+      await act(async () => {
+        result.current.loadMore()
+      })
+      await act(async () => {
+        result.current.refresh()
+      })
+
+      expect(window.electronAPI.searchPage).toHaveBeenLastCalledWith('', expect.objectContaining({ limit: 80 }))
+    })
+  })
 })
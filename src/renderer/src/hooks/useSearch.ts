@@ -1,42 +1,116 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import type { SearchResult } from '../../../shared/types'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import type { DateRangeOption, SearchPageOptions, SearchResult, SortOption } from '../../../shared/types'
+
+// Results fetched per page; more are loaded as the list scrolls
+const PAGE_SIZE = 50
+
+// Filters applied by the indexer, before results are paged
+interface SearchScope {
+  dateRange?: DateRangeOption
+  sortBy?: SortOption
+  account?: string | null
+}
 
 interface UseSearchReturn {
   query: string
   setQuery: (query: string) => void
+  // Typo-tolerant matching; exact searches with no results fall back to it anyway
+  fuzzy: boolean
+  setFuzzy: (fuzzy: boolean) => void
+  // Blend in conversations the semantic index finds similar in meaning
+  semantic: boolean
+  setSemantic: (semantic: boolean) => void
+  // Also match the assistant's thinking, which is left out of searches by default
+  thinking: boolean
+  setThinking: (thinking: boolean) => void
+  // The pages loaded so far
   results: SearchResult[]
+  // Matches across all pages
+  total: number
+  hasMore: boolean
+  loadMore: () => void
+  loadingMore: boolean
   searching: boolean
   hasSearched: boolean
   refresh: () => void
 }
 
-export function useSearch(projectFilter?: string, enabled = true): UseSearchReturn {
+export function useSearch(projectFilter?: string, enabled = true, scope: SearchScope = {}): UseSearchReturn {
+  const { dateRange = 'all', sortBy = 'relevance', account = null } = scope
   const [query, setQuery] = useState('')
+  const [fuzzy, setFuzzy] = useState(false)
+  const [semantic, setSemantic] = useState(false)
+  const [thinking, setThinking] = useState(false)
   const [results, setResults] = useState<SearchResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [searching, setSearching] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [hasSearched, setHasSearched] = useState(false)
   const debounceRef = useRef<NodeJS.Timeout>()
+  // Pages of an earlier search are dropped when they arrive
+  const requestRef = useRef(0)
+  // The query the loaded pages belong to, which trails `query` while debouncing
+  const searchedQueryRef = useRef('')
+
+  const options: SearchPageOptions = useMemo(
+    () => ({ project: projectFilter, account, dateRange, sortBy, fuzzy, semantic, thinking }),
+    [projectFilter, account, dateRange, sortBy, fuzzy, semantic, thinking]
+  )
 
   const performSearch = useCallback(
-    async (searchQuery: string) => {
+    async (searchQuery: string, limit = PAGE_SIZE) => {
+      const request = ++requestRef.current
+      searchedQueryRef.current = searchQuery
       setSearching(true)
+      setLoadingMore(false)
       try {
-        const searchResults = await window.electronAPI.search(searchQuery, {
-          project: projectFilter
-        })
-        setResults(searchResults)
+        const page = await window.electronAPI.searchPage(searchQuery, { ...options, limit })
+        if (request !== requestRef.current) return
+        setResults(page.results)
+        setTotal(page.total)
+        setNextCursor(page.nextCursor)
       } catch (err) {
+        if (request !== requestRef.current) return
         console.error('Search error:', err)
         setResults([])
+        setTotal(0)
+        setNextCursor(null)
       } finally {
-        setSearching(false)
-        setHasSearched(true)
+        if (request === requestRef.current) {
+          setSearching(false)
+          setHasSearched(true)
+        }
       }
     },
-    [projectFilter]
+    [options]
   )
 
-  // Single debounced effect handles both query and projectFilter changes
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore || searching) return
+    const request = requestRef.current
+    setLoadingMore(true)
+    try {
+      const page = await window.electronAPI.searchPage(searchedQueryRef.current, {
+        ...options,
+        limit: PAGE_SIZE,
+        cursor: nextCursor
+      })
+      if (request !== requestRef.current) return
+      setResults((prev) => {
+        const loaded = new Set(prev.map((r) => r.id))
+        return [...prev, ...page.results.filter((r) => !loaded.has(r.id))]
+      })
+      setTotal(page.total)
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      console.error('Search error:', err)
+    } finally {
+      if (request === requestRef.current) setLoadingMore(false)
+    }
+  }, [nextCursor, loadingMore, searching, options])
+
+  // Single debounced effect handles query and filter changes
   useEffect(() => {
     if (!enabled) return
 
@@ -55,14 +129,25 @@ export function useSearch(projectFilter?: string, enabled = true): UseSearchRetu
     }
   }, [query, performSearch, enabled])
 
+  // Reloads as many results as are loaded, so the list keeps its place
   const refresh = useCallback(() => {
-    performSearch(query)
-  }, [performSearch, query])
+    performSearch(query, Math.max(PAGE_SIZE, results.length))
+  }, [performSearch, query, results.length])
 
   return {
     query,
     setQuery,
+    fuzzy,
+    setFuzzy,
+    semantic,
+    setSemantic,
+    thinking,
+    setThinking,
     results,
+    total,
+    hasMore: nextCursor !== null,
+    loadMore,
+    loadingMore,
     searching,
     hasSearched,
     refresh
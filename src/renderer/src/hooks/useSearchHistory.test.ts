@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { useSearchHistory } from './useSearchHistory'
+import type { SearchHistoryEntry } from '../../../shared/types'
+
+function run(query: string, resultCount = 3): Omit<SearchHistoryEntry, 'lastRunAt'> {
+  return {
+    query,
+    project: '',
+    account: null,
+    dateRange: 'all',
+    sortBy: 'recent',
+    fuzzy: false,
+    semantic: false,
+    regex: false,
+    resultCount
+  }
+}
+
+describe('useSearchHistory', () => {
+  beforeEach(() => {
+    vi.mocked(window.electronAPI.getPreferences).mockResolvedValue({
+      searchHistory: [{ ...run('docker'), lastRunAt: '2025-01-10T00:00:00.000Z' }]
+    })
+    vi.mocked(window.electronAPI.setPreferences).mockClear()
+  })
+
+  it('loads the persisted history', async () => {
+    const { result } = renderHook(() => useSearchHistory())
+    await waitFor(() => expect(result.current.history.map((e) => e.query)).toEqual(['docker']))
+  })
+
+  it('moves a re-run query to the top instead of listing it twice', async () => {
+    const { result } = renderHook(() => useSearchHistory())
+    await waitFor(() => expect(result.current.history).toHaveLength(1))
+
+    act(() => { result.current.record(run('auth')) })
+    act(() => { result.current.record(run(' docker ', 7)) })
+
+    expect(result.current.history.map((e) => [e.query, e.resultCount])).toEqual([['docker', 7], ['auth', 3]])
+    expect(window.electronAPI.setPreferences).toHaveBeenLastCalledWith({ searchHistory: result.current.history })
+  })
+
+  it('ignores empty queries', async () => {
+    const { result } = renderHook(() => useSearchHistory())
+    await waitFor(() => expect(result.current.history).toHaveLength(1))
+
+    act(() => { result.current.record(run('   ')) })
+
+    expect(window.electronAPI.setPreferences).not.toHaveBeenCalled()
+  })
+
+  it('removes one entry or clears them all', async () => {
+    const { result } = renderHook(() => useSearchHistory())
+    await waitFor(() => expect(result.current.history).toHaveLength(1))
+
+    act(() => { result.current.record(run('auth')) })
+    act(() => { result.current.remove('docker') })
+    expect(result.current.history.map((e) => e.query)).toEqual(['auth'])
+
+    act(() => { result.current.clear() })
+    expect(result.current.history).toEqual([])
+  })
+})
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { SearchHistoryEntry } from '../../../shared/types'
+
+const MAX_HISTORY = 50
+
+interface UseSearchHistoryReturn {
+  history: SearchHistoryEntry[]
+  // Adds the search at the top, replacing an earlier run of the same query
+  record: (entry: Omit<SearchHistoryEntry, 'lastRunAt'>) => void
+  remove: (query: string) => void
+  clear: () => void
+}
+
+/** Searches run in the search bar, most recent first, persisted in the preferences file. */
+export function useSearchHistory(): UseSearchHistoryReturn {
+  const [history, setHistory] = useState<SearchHistoryEntry[]>([])
+  // Kept in a ref so record() stays stable and callers can run it from effects
+  const historyRef = useRef(history)
+
+  useEffect(() => {
+    window.electronAPI
+      .getPreferences()
+      .then((prefs) => {
+        historyRef.current = prefs.searchHistory ?? []
+        setHistory(historyRef.current)
+      })
+      .catch(console.error)
+  }, [])
+
+  const persist = useCallback((next: SearchHistoryEntry[]) => {
+    historyRef.current = next
+    setHistory(next)
+    window.electronAPI.setPreferences({ searchHistory: next }).catch(console.error)
+  }, [])
+
+  const record = useCallback(
+    (entry: Omit<SearchHistoryEntry, 'lastRunAt'>) => {
+      const query = entry.query.trim()
+      if (!query) return
+      const rest = historyRef.current.filter((e) => e.query !== query)
+      persist([{ ...entry, query, lastRunAt: new Date().toISOString() }, ...rest].slice(0, MAX_HISTORY))
+    },
+    [persist]
+  )
+
+  const remove = useCallback(
+    (query: string) => persist(historyRef.current.filter((e) => e.query !== query)),
+    [persist]
+  )
+
+  const clear = useCallback(() => persist([]), [persist])
+
+  return { history, record, remove, clear }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { buildCacheReport, cacheHitRatio, formatHitRatio, uncachedCost } from './cache-report'
+import { DEFAULT_PRICING } from './pricing'
+import type { SessionUsage } from './types'
+
+function entry(date: string, inputTokens: number, cacheReadTokens: number, cacheCreationTokens = 0) {
+  return { date, model: 'claude-sonnet-4-5', inputTokens, outputTokens: 0, cacheReadTokens, cacheCreationTokens }
+}
+
+function session(id: string, usage: SessionUsage['usage'], overrides: Partial<SessionUsage> = {}): SessionUsage {
+  return {
+    id,
+    title: `Session ${id}`,
+    projectPath: '/proj/a',
+    projectName: 'a',
+    account: 'work',
+    timestamp: '2025-03-02T12:00:00Z',
+    usage,
+    ...overrides
+  }
+}
+
+describe('cacheHitRatio', () => {
+  it('is the share of prompt tokens read from the cache', () => {
+    expect(cacheHitRatio({ inputTokens: 10, outputTokens: 500, cacheReadTokens: 800, cacheCreationTokens: 190 })).toBe(0.8)
+    expect(cacheHitRatio({ inputTokens: 0, outputTokens: 5, cacheReadTokens: 0, cacheCreationTokens: 0 })).toBeNull()
+  })
+})
+
+describe('uncachedCost', () => {
+  it('bills cache reads and writes as fresh input', () => {
+    // 3M prompt tokens at $3
+    expect(uncachedCost([{ ...entry('2025-03-01', 1_000_000, 1_500_000, 500_000) }], DEFAULT_PRICING)).toBeCloseTo(9)
+  })
+})
+
+describe('buildCacheReport', () => {
+  it('sums the period by day, project and profile, with what caching saved', () => {
+    const sessions = [
+      session('1', [entry('2025-02-01', 1_000_000, 0), entry('2025-03-01', 100_000, 900_000)]),
+      session('2', [entry('2025-03-02', 500_000, 500_000)], { projectPath: '/proj/b', projectName: 'b', account: 'home' })
+    ]
+
+    const report = buildCacheReport(sessions, DEFAULT_PRICING, '2025-03-01', (account) => account.toUpperCase())
+
+    expect(report.totals).toMatchObject({ inputTokens: 600_000, cacheReadTokens: 1_400_000, hitRatio: 0.7 })
+    // 0.6M input at $3 and 1.4M reads at $0.30, against 2M input at $3
+    expect(report.totals.cost).toBeCloseTo(2.22)
+    expect(report.totals.uncachedCost).toBeCloseTo(6)
+    expect(report.daily.map((day) => [day.date, day.hitRatio])).toEqual([
+      ['2025-03-01', 0.9],
+      ['2025-03-02', 0.5]
+    ])
+    expect(report.byProject.map((group) => [group.key, group.label])).toEqual([
+      ['/proj/b', 'b'],
+      ['/proj/a', 'a']
+    ])
+    expect(report.byProfile.map((group) => group.label)).toEqual(['HOME', 'WORK'])
+  })
+
+  it('flags sessions reusing the cache far less than the median, lowest first', () => {
+    const sessions = [
+      session('good', [entry('2025-03-01', 50_000, 950_000)]),
+      session('typical', [entry('2025-03-01', 200_000, 800_000)]),
+      session('poor', [entry('2025-03-01', 700_000, 100_000, 200_000)]),
+      session('short', [entry('2025-03-01', 5_000, 0)])
+    ]
+
+    const report = buildCacheReport(sessions, DEFAULT_PRICING, '2025-03-01')
+
+    expect(report.sessions.map((stats) => [stats.id, stats.lowReuse])).toEqual([
+      ['short', false],
+      ['poor', true],
+      ['typical', false],
+      ['good', false]
+    ])
+  })
+})
+
+describe('formatHitRatio', () => {
+  it('rounds to a percentage', () => {
+    expect(formatHitRatio(0.876)).toBe('88%')
+    expect(formatHitRatio(null)).toBe('—')
+  })
+})
@@ -0,0 +1,142 @@
+import { estimateCost, sumTokens } from './pricing'
+import type {
+  Account,
+  CacheGroupStats,
+  CacheReport,
+  CacheSessionStats,
+  CacheStats,
+  ModelPrice,
+  SessionUsage,
+  TokenCounts,
+  UsageEntry
+} from './types'
+
+// Sessions with fewer prompt tokens are too short to call their reuse low
+export const MIN_COMPARED_PROMPT_TOKENS = 100_000
+// A session reuses the cache unusually little under this share of the median hit ratio
+const LOW_REUSE_SHARE = 0.5
+
+/** Tokens sent to the model, whether fresh, written to the cache or read from it. */
+export function promptTokens(counts: TokenCounts): number {
+  return counts.inputTokens + counts.cacheCreationTokens + counts.cacheReadTokens
+}
+
+/** The share of prompt tokens read from the cache; null when there were none. */
+export function cacheHitRatio(counts: TokenCounts): number | null {
+  const prompt = promptTokens(counts)
+  return prompt > 0 ? counts.cacheReadTokens / prompt : null
+}
+
+/** What the entries would have cost with every prompt token billed as fresh input. */
+export function uncachedCost(entries: Array<TokenCounts & { model: string }>, pricing: ModelPrice[]): number {
+  return estimateCost(
+    entries.map((entry) => ({
+      ...entry,
+      inputTokens: promptTokens(entry),
+      cacheReadTokens: 0,
+      cacheCreationTokens: 0
+    })),
+    pricing
+  )
+}
+
+function cacheStats(entries: UsageEntry[], pricing: ModelPrice[]): CacheStats {
+  const totals = sumTokens(entries)
+  return {
+    ...totals,
+    hitRatio: cacheHitRatio(totals),
+    cost: estimateCost(entries, pricing),
+    uncachedCost: uncachedCost(entries, pricing)
+  }
+}
+
+// Groups keyed by `keyOf`, the most expensive first
+function groupStats(
+  sessions: SessionUsage[],
+  pricing: ModelPrice[],
+  keyOf: (session: SessionUsage) => string,
+  labelOf: (session: SessionUsage) => string
+): CacheGroupStats[] {
+  const groups = new Map<string, { label: string; entries: UsageEntry[] }>()
+  for (const session of sessions) {
+    const key = keyOf(session)
+    const group = groups.get(key)
+    if (group) group.entries.push(...session.usage)
+    else groups.set(key, { label: labelOf(session), entries: [...session.usage] })
+  }
+  return Array.from(groups, ([key, group]) => ({ key, label: group.label, ...cacheStats(group.entries, pricing) })).sort(
+    (a, b) => b.cost - a.cost
+  )
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * How well prompt caching worked for usage on or after `since` (YYYY-MM-DD):
+ * the hit ratio overall, by day, project, profile and session, and what
+ * caching saved against billing every prompt token as fresh input. Sessions
+ * long enough to judge are flagged when their hit ratio is under half the
+ * median of such sessions.
+ */
+export function buildCacheReport(
+  sessions: SessionUsage[],
+  pricing: ModelPrice[],
+  since: string,
+  labelProfile: (account: Account) => string = (account) => account
+): CacheReport {
+  const inPeriod = sessions
+    .map((session) => ({ ...session, usage: session.usage.filter((entry) => entry.date >= since) }))
+    .filter((session) => session.usage.length > 0)
+  const entries = inPeriod.flatMap((session) => session.usage)
+
+  const byDay = new Map<string, UsageEntry[]>()
+  for (const entry of entries) byDay.set(entry.date, [...(byDay.get(entry.date) ?? []), entry])
+  const daily = Array.from(byDay, ([date, dayEntries]) => ({ date, ...cacheStats(dayEntries, pricing) })).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  )
+
+  const sessionStats = inPeriod.map((session) => ({
+    id: session.id,
+    title: session.title,
+    projectName: session.projectName || session.projectPath,
+    account: session.account,
+    timestamp: session.timestamp,
+    ...cacheStats(session.usage, pricing)
+  }))
+  const compared = sessionStats.filter((stats) => promptTokens(stats) >= MIN_COMPARED_PROMPT_TOKENS)
+  const typical = median(compared.map((stats) => stats.hitRatio ?? 0))
+  const flagged = new Set(
+    typical === null ? [] : compared.filter((stats) => (stats.hitRatio ?? 0) < typical * LOW_REUSE_SHARE)
+  )
+
+  return {
+    totals: cacheStats(entries, pricing),
+    daily,
+    byProject: groupStats(
+      inPeriod,
+      pricing,
+      (session) => session.projectPath,
+      (session) => session.projectName || session.projectPath
+    ),
+    byProfile: groupStats(
+      inPeriod,
+      pricing,
+      (session) => session.account,
+      (session) => labelProfile(session.account)
+    ),
+    sessions: sessionStats
+      .map((stats): CacheSessionStats => ({ ...stats, lowReuse: flagged.has(stats) }))
+      // Ratios are at most 1, so sessions without prompt tokens sort last
+      .sort((a, b) => (a.hitRatio ?? 2) - (b.hitRatio ?? 2))
+  }
+}
+
+/** A hit ratio for display, e.g. "87%"; a dash without prompt tokens. */
+export function formatHitRatio(ratio: number | null): string {
+  return ratio === null ? '—' : `${Math.round(ratio * 100)}%`
+}
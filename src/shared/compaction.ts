@@ -0,0 +1,14 @@
+import type { CompactionInfo } from './types'
+
+const TRIGGER_WORDS: Record<NonNullable<CompactionInfo['trigger']>, string> = {
+  manual: ' manually',
+  auto: ' automatically'
+}
+
+/** What a compaction divider says happened, e.g. "Conversation compacted manually at 152,000 tokens". */
+export function describeCompaction(compaction: CompactionInfo): string {
+  if (compaction.fromSummaryEntries) return 'Continued from an earlier session'
+  const how = compaction.trigger ? TRIGGER_WORDS[compaction.trigger] : ''
+  const size = compaction.preTokens !== undefined ? ` at ${compaction.preTokens.toLocaleString('en-US')} tokens` : ''
+  return `Conversation compacted${how}${size}`
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { describeDateRange, formatDay, isInDateRange, isSameDateRange, lastDays } from './date-range'
+
+describe('isInDateRange', () => {
+  const now = new Date(2025, 5, 15, 18, 30)
+
+  it('keeps everything for all', () => {
+    expect(isInDateRange('2001-01-01T00:00:00Z', 'all', now)).toBe(true)
+  })
+
+  it('counts back from the start of today', () => {
+    expect(isInDateRange(new Date(2025, 5, 15, 0, 5).toISOString(), 'today', now)).toBe(true)
+    expect(isInDateRange(new Date(2025, 5, 14, 23, 55).toISOString(), 'today', now)).toBe(false)
+    expect(isInDateRange(new Date(2025, 5, 8, 1).toISOString(), 'week', now)).toBe(true)
+    expect(isInDateRange(new Date(2025, 5, 7, 23).toISOString(), 'week', now)).toBe(false)
+    expect(isInDateRange(new Date(2025, 4, 16, 1).toISOString(), 'month', now)).toBe(true)
+    expect(isInDateRange(new Date(2025, 4, 15, 1).toISOString(), 'month', now)).toBe(false)
+  })
+
+  it('covers whole local days of a custom range', () => {
+    const range = { start: '2025-03-03', end: '2025-03-17' }
+    expect(isInDateRange(new Date(2025, 2, 3, 0, 0).toISOString(), range, now)).toBe(true)
+    expect(isInDateRange(new Date(2025, 2, 17, 23, 59).toISOString(), range, now)).toBe(true)
+    expect(isInDateRange(new Date(2025, 2, 2, 23, 59).toISOString(), range, now)).toBe(false)
+    expect(isInDateRange(new Date(2025, 2, 18, 0, 0).toISOString(), range, now)).toBe(false)
+  })
+
+  it('ignores a malformed bound', () => {
+    expect(isInDateRange('2001-01-01T00:00:00Z', { start: '', end: '2025-03-17' }, now)).toBe(true)
+  })
+})
+
+describe('describeDateRange', () => {
+  const now = new Date(2025, 5, 15)
+
+  it('names presets and custom ranges', () => {
+    expect(describeDateRange('week', now)).toBe('Last 7 days')
+    expect(describeDateRange({ start: '2025-03-03', end: '2025-03-17' }, now)).toBe('Mar 3 – Mar 17')
+    expect(describeDateRange({ start: '2025-03-03', end: '2025-03-03' }, now)).toBe('Mar 3')
+    expect(describeDateRange({ start: '2024-12-20', end: '2025-01-03' }, now)).toBe('Dec 20, 2024 – Jan 3, 2025')
+  })
+})
+
+describe('isSameDateRange', () => {
+  it('compares custom ranges by their days', () => {
+    expect(isSameDateRange({ start: '2025-03-03', end: '2025-03-17' }, { start: '2025-03-03', end: '2025-03-17' })).toBe(true)
+    expect(isSameDateRange({ start: '2025-03-03', end: '2025-03-17' }, 'week')).toBe(false)
+    expect(isSameDateRange('week', 'week')).toBe(true)
+  })
+})
+
+describe('lastDays', () => {
+  it('lists the days up to today, oldest first, across month ends', () => {
+    expect(lastDays(3, new Date(2025, 2, 1, 15))).toEqual(['2025-02-27', '2025-02-28', '2025-03-01'])
+  })
+})
+
+describe('formatDay', () => {
+  it('shows a day as month and date', () => {
+    expect(formatDay('2025-03-03')).toBe('Mar 3')
+    expect(formatDay('not a day')).toBe('not a day')
+  })
+})
@@ -0,0 +1,94 @@
+import type { CustomDateRange, DateRangeOption, DateRangePreset } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const PRESET_LABELS: Record<DateRangePreset, string> = {
+  all: 'All time',
+  today: 'Today',
+  week: 'Last 7 days',
+  month: 'Last 30 days'
+}
+
+export function isCustomDateRange(range: DateRangeOption): range is CustomDateRange {
+  return typeof range === 'object'
+}
+
+/** A local calendar day as YYYY-MM-DD. */
+export function toDayString(date: Date): string {
+  const pad = (n: number): string => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/** The periods the analytics panels can show, in days up to today. */
+export const PERIOD_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 7, label: '7 Days' },
+  { days: 30, label: '30 Days' },
+  { days: 90, label: '90 Days' }
+]
+
+/** The last `count` local days as YYYY-MM-DD, oldest first, ending today. */
+export function lastDays(count: number, now: Date = new Date()): string[] {
+  const days: string[] = []
+  for (let i = count - 1; i >= 0; i--) {
+    days.push(toDayString(new Date(now.getFullYear(), now.getMonth(), now.getDate() - i)))
+  }
+  return days
+}
+
+/** A YYYY-MM-DD day as "Mar 3"; a malformed one is returned as it is. */
+export function formatDay(day: string): string {
+  const date = parseDayString(day)
+  return date ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : day
+}
+
+/** The local midnight starting a YYYY-MM-DD day, `offset` days later; null when malformed. */
+export function parseDayString(day: string, offset = 0): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + offset)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Whether a conversation last active at `timestamp` falls in a date range.
+ * Presets count back from the start of today in local time; custom ranges
+ * cover whole local days from start to end. A malformed bound is ignored.
+ */
+export function isInDateRange(timestamp: string, range: DateRangeOption, now: Date = new Date()): boolean {
+  if (range === 'all') return true
+  const time = new Date(timestamp).getTime()
+
+  if (isCustomDateRange(range)) {
+    const start = parseDayString(range.start)
+    const end = parseDayString(range.end, 1)
+    return (!start || time >= start.getTime()) && (!end || time < end.getTime())
+  }
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+  switch (range) {
+    case 'today':
+      return time >= today
+    case 'week':
+      return time >= today - 7 * DAY_MS
+    case 'month':
+      return time >= today - 30 * DAY_MS
+  }
+}
+
+export function isSameDateRange(a: DateRangeOption, b: DateRangeOption): boolean {
+  if (isCustomDateRange(a) && isCustomDateRange(b)) return a.start === b.start && a.end === b.end
+  return a === b
+}
+
+/** "Last 7 days", or a custom range such as "Mar 3 – Mar 17" (years shown when not the current one). */
+export function describeDateRange(range: DateRangeOption, now: Date = new Date()): string {
+  if (!isCustomDateRange(range)) return PRESET_LABELS[range]
+  const start = parseDayString(range.start)
+  const end = parseDayString(range.end)
+  if (!start || !end) return 'Custom range'
+
+  const withYear = start.getFullYear() !== now.getFullYear() || end.getFullYear() !== now.getFullYear()
+  const format = (date: Date): string =>
+    date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', ...(withYear && { year: 'numeric' }) })
+  return range.start === range.end ? format(start) : `${format(start)} – ${format(end)}`
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { buildThread, selectBranchesFor, THREAD_START } from './message-tree'
+import type { ConversationMessage } from './types'
+
+function msg(uuid: string, parentUuid: string | null | undefined, content = uuid): ConversationMessage {
+  return { type: 'user', content, timestamp: '', uuid, ...(parentUuid !== undefined && { parentUuid }) }
+}
+
+// a → b → c, then rewound to b and continued with d → e
+const forked = [msg('a', null), msg('b', 'a'), msg('c', 'b'), msg('d', 'b'), msg('e', 'd')]
+
+const contents = (messages: ConversationMessage[]): string[] => messages.map((m) => m.content)
+
+describe('buildThread', () => {
+  it('keeps messages without recorded parents in file order', () => {
+    const messages = [msg('a', undefined), msg('b', undefined), msg('c', undefined)]
+
+    const thread = buildThread(messages)
+
+    expect(contents(thread.messages)).toEqual(['a', 'b', 'c'])
+    expect(thread.branchPoints).toEqual([])
+  })
+
+  it('follows the branch holding the latest message by default', () => {
+    const thread = buildThread(forked)
+
+    expect(contents(thread.messages)).toEqual(['a', 'b', 'd', 'e'])
+    expect(thread.branchPoints).toEqual([
+      {
+        forkKey: 'b',
+        threadIndex: 2,
+        branches: [
+          { key: 'c', message: forked[2] },
+          { key: 'd', message: forked[3] },
+        ],
+        selected: 1,
+      },
+    ])
+  })
+
+  it('follows the selected branch', () => {
+    const thread = buildThread(forked, { b: 'c' })
+
+    expect(contents(thread.messages)).toEqual(['a', 'b', 'c'])
+    expect(thread.branchPoints[0].selected).toBe(0)
+  })
+
+  it('ignores selections of branches that no longer exist', () => {
+    expect(contents(buildThread(forked, { b: 'gone' }).messages)).toEqual(['a', 'b', 'd', 'e'])
+  })
+
+  it('treats several first messages as a fork at the start', () => {
+    const messages = [msg('a', null), msg('b', 'a'), msg('x', null)]
+
+    const thread = buildThread(messages)
+
+    expect(contents(thread.messages)).toEqual(['x'])
+    expect(thread.branchPoints[0]).toMatchObject({ forkKey: THREAD_START, threadIndex: 0, selected: 1 })
+  })
+
+  it('falls back to file order when a parent is missing', () => {
+    const messages = [msg('a', null), msg('b', 'not-in-file'), msg('c', 'b')]
+
+    expect(contents(buildThread(messages).messages)).toEqual(['a', 'b', 'c'])
+  })
+})
+
+describe('selectBranchesFor', () => {
+  it('selects every branch on the way to a message', () => {
+    const selections = selectBranchesFor(forked, 2)
+
+    expect(contents(buildThread(forked, selections).messages)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('keeps choices made at other forks', () => {
+    const selections = selectBranchesFor(forked, 4, { elsewhere: 'x' })
+
+    expect(selections).toMatchObject({ elsewhere: 'x', b: 'd' })
+  })
+})
@@ -0,0 +1,113 @@
+import type { ConversationMessage } from './types'
+
+// Key of the fork among the first messages of a conversation
+export const THREAD_START = ''
+
+// Chosen branch at each fork: key of the message the branches leave from → key of the chosen branch's first message
+export type BranchSelections = Record<string, string>
+
+// A place where the conversation was rewound or forked, seen from the thread shown
+export interface BranchPoint {
+  forkKey: string
+  // Position in the thread of the first message of the shown branch
+  threadIndex: number
+  // First message of each branch, oldest first
+  branches: Array<{ key: string; message: ConversationMessage }>
+  selected: number
+}
+
+export interface ConversationThread {
+  messages: ConversationMessage[]
+  branchPoints: BranchPoint[]
+}
+
+/** Identifies a message across re-parses: its uuid, else its line in the file. */
+export function messageKey(message: ConversationMessage, index: number): string {
+  return message.uuid ?? `line:${message.lineNumber ?? index}`
+}
+
+interface MessageLinks {
+  parents: number[]
+  // Children of each message, and of the thread start at the last index
+  children: number[][]
+  // Latest message in each message's subtree, which decides the default branch
+  latest: number[]
+}
+
+/**
+ * Link messages to their parents. Messages without a recorded parent, or
+ * whose parent is not among the messages, follow the message before them.
+ */
+function linkMessages(messages: ConversationMessage[]): MessageLinks {
+  const indexByUuid = new Map<string, number>()
+  messages.forEach((m, i) => m.uuid && indexByUuid.set(m.uuid, i))
+
+  const parents = messages.map((m, i) => {
+    if (m.parentUuid === null) return -1
+    const parent = m.parentUuid !== undefined ? indexByUuid.get(m.parentUuid) : undefined
+    return parent !== undefined && parent < i ? parent : i - 1
+  })
+
+  const children: number[][] = Array.from({ length: messages.length + 1 }, () => [])
+  parents.forEach((parent, i) => children[parent === -1 ? messages.length : parent].push(i))
+
+  // Parents always come first, so one backward pass sees every subtree
+  const latest = messages.map((_, i) => i)
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (parents[i] !== -1) latest[parents[i]] = Math.max(latest[parents[i]], latest[i])
+  }
+
+  return { parents, children, latest }
+}
+
+/**
+ * The thread to show: from the start, follow the selected branch at each
+ * fork, or by default the branch holding the latest message, which is the
+ * one the session went on with.
+ */
+export function buildThread(messages: ConversationMessage[], selections: BranchSelections = {}): ConversationThread {
+  const { children, latest } = linkMessages(messages)
+  const thread: ConversationThread = { messages: [], branchPoints: [] }
+
+  let node = messages.length
+  let forkKey = THREAD_START
+  for (;;) {
+    const branches = children[node]
+    if (branches.length === 0) break
+
+    let chosen = branches.reduce((best, child) => (latest[child] > latest[best] ? child : best))
+    if (branches.length > 1) {
+      const selectedKey = selections[forkKey]
+      const selected = branches.find((child) => messageKey(messages[child], child) === selectedKey)
+      if (selected !== undefined) chosen = selected
+      thread.branchPoints.push({
+        forkKey,
+        threadIndex: thread.messages.length,
+        branches: branches.map((child) => ({ key: messageKey(messages[child], child), message: messages[child] })),
+        selected: branches.indexOf(chosen)
+      })
+    }
+
+    thread.messages.push(messages[chosen])
+    node = chosen
+    forkKey = messageKey(messages[chosen], chosen)
+  }
+
+  return thread
+}
+
+/** Selections that put the message at `index` on the thread, keeping the other choices. */
+export function selectBranchesFor(
+  messages: ConversationMessage[],
+  index: number,
+  selections: BranchSelections = {}
+): BranchSelections {
+  const { parents } = linkMessages(messages)
+  const next = { ...selections }
+  for (let node = index; node !== -1; node = parents[node]) {
+    const parent = parents[node]
+    const forkKey = parent === -1 ? THREAD_START : messageKey(messages[parent], parent)
+    next[forkKey] = messageKey(messages[node], node)
+  }
+  return next
+}
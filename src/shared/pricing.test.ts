@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_PRICING, estimateCost, findPrice, formatCost, formatTokens, unpricedModels } from './pricing'
+
+function usage(model: string, inputTokens: number, outputTokens = 0, cacheReadTokens = 0, cacheCreationTokens = 0) {
+  return { model, inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens }
+}
+
+describe('findPrice', () => {
+  it('picks the longest prefix of the model id', () => {
+    expect(findPrice('claude-opus-4-5-20251101', DEFAULT_PRICING)?.input).toBe(5)
+    expect(findPrice('claude-opus-4-1-20250805', DEFAULT_PRICING)?.input).toBe(15)
+    expect(findPrice('gpt-4o', DEFAULT_PRICING)).toBeUndefined()
+  })
+})
+
+describe('estimateCost', () => {
+  it('prices each kind of token per million', () => {
+    const cost = estimateCost([usage('claude-sonnet-4-5', 1_000_000, 100_000, 2_000_000, 400_000)], DEFAULT_PRICING)
+    // 3 input + 1.5 output + 0.6 cache read + 1.5 cache write
+    expect(cost).toBeCloseTo(6.6)
+  })
+
+  it('leaves out models without a price', () => {
+    const entries = [usage('claude-3-5-haiku-20241022', 1_000_000), usage('local-llama', 5_000_000)]
+
+    expect(estimateCost(entries, DEFAULT_PRICING)).toBeCloseTo(0.8)
+    expect(unpricedModels(entries, DEFAULT_PRICING)).toEqual(['local-llama'])
+  })
+})
+
+describe('formatting', () => {
+  it('shows costs in dollars and cents', () => {
+    expect(formatCost(0)).toBe('$0')
+    expect(formatCost(0.004)).toBe('<$0.01')
+    expect(formatCost(1234.5)).toBe('$1,234.50')
+  })
+
+  it('shortens token counts', () => {
+    expect(formatTokens(950)).toBe('950')
+    expect(formatTokens(12_400)).toBe('12K')
+    expect(formatTokens(3_250_000)).toBe('3.3M')
+  })
+})
@@ -0,0 +1,84 @@
+import type { ModelPrice, TokenCounts } from './types'
+
+/**
+ * List prices in USD per million tokens. Cache writes are priced at the
+ * five-minute rate. Users can edit their copy of the table, which is kept
+ * in the preferences file.
+ */
+export const DEFAULT_PRICING: ModelPrice[] = [
+  { model: 'claude-opus-4-5', input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  { model: 'claude-opus-4', input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  { model: 'claude-sonnet-4', input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  { model: 'claude-haiku-4-5', input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  { model: 'claude-3-7-sonnet', input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  { model: 'claude-3-5-sonnet', input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  { model: 'claude-3-5-haiku', input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  { model: 'claude-3-opus', input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  { model: 'claude-3-haiku', input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 }
+]
+
+/** The price of a model: the entry with the longest `model` prefix of its id. */
+export function findPrice(model: string, pricing: ModelPrice[]): ModelPrice | undefined {
+  let best: ModelPrice | undefined
+  for (const price of pricing) {
+    if (!price.model || !model.startsWith(price.model)) continue
+    if (!best || price.model.length > best.model.length) best = price
+  }
+  return best
+}
+
+export function emptyTokenCounts(): TokenCounts {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0 }
+}
+
+export function addTokenCounts<T extends TokenCounts>(target: T, counts: TokenCounts): T {
+  target.inputTokens += counts.inputTokens
+  target.outputTokens += counts.outputTokens
+  target.cacheReadTokens += counts.cacheReadTokens
+  target.cacheCreationTokens += counts.cacheCreationTokens
+  return target
+}
+
+export function sumTokens(entries: TokenCounts[]): TokenCounts {
+  return entries.reduce(addTokenCounts, emptyTokenCounts())
+}
+
+export function totalTokens(counts: TokenCounts): number {
+  return counts.inputTokens + counts.outputTokens + counts.cacheReadTokens + counts.cacheCreationTokens
+}
+
+/** Estimated cost in USD; models missing from the table count as free. */
+export function estimateCost(entries: Array<TokenCounts & { model: string }>, pricing: ModelPrice[]): number {
+  let cost = 0
+  for (const entry of entries) {
+    const price = findPrice(entry.model, pricing)
+    if (!price) continue
+    cost +=
+      (entry.inputTokens * price.input +
+        entry.outputTokens * price.output +
+        entry.cacheReadTokens * price.cacheRead +
+        entry.cacheCreationTokens * price.cacheWrite) /
+      1_000_000
+  }
+  return cost
+}
+
+/** Models in the entries that the table has no price for, so their cost is left out. */
+export function unpricedModels(entries: Array<{ model: string }>, pricing: ModelPrice[]): string[] {
+  const models = new Set(entries.map((entry) => entry.model))
+  return Array.from(models).filter((model) => !findPrice(model, pricing))
+}
+
+/** A cost for display, e.g. "$12.40" or "<$0.01". */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0'
+  if (usd < 0.01) return '<$0.01'
+  return `$${usd.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/** A token count for display, e.g. "1.2M" or "850K". */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1_000) return `${Math.round(tokens / 1_000)}K`
+  return String(tokens)
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { parseQuery, getHighlightText, parseDateFilter } from './query-parser'
+
+describe('parseQuery', () => {
+  it('returns no groups for an empty or blank query', () => {
+    expect(parseQuery('').groups).toEqual([])
+    expect(parseQuery('   ').groups).toEqual([])
+  })
+
+  it('splits free text into words', () => {
+    expect(parseQuery('auth  bug').groups).toEqual([
+      [
+        { kind: 'text', value: 'auth', phrase: false, negated: false },
+        { kind: 'text', value: 'bug', phrase: false, negated: false },
+      ],
+    ])
+  })
+
+  it('keeps quoted phrases together', () => {
+    expect(parseQuery('"token refresh" retry').groups[0]).toEqual([
+      { kind: 'text', value: 'token refresh', phrase: true, negated: false },
+      { kind: 'text', value: 'retry', phrase: false, negated: false },
+    ])
+  })
+
+  it('treats an unclosed quote as a phrase running to the end', () => {
+    expect(parseQuery('"half typed').groups[0]).toEqual([
+      { kind: 'text', value: 'half typed', phrase: true, negated: false },
+    ])
+  })
+
+  it('parses known operators, case-insensitively', () => {
+    expect(parseQuery('tool:Bash FILE:src/auth.ts from:user').groups[0]).toEqual([
+      { kind: 'filter', operator: 'tool', value: 'Bash', negated: false },
+      { kind: 'filter', operator: 'file', value: 'src/auth.ts', negated: false },
+      { kind: 'filter', operator: 'from', value: 'user', negated: false },
+    ])
+  })
+
+  it('accepts quoted operator values', () => {
+    expect(parseQuery('project:"my app" x').groups[0]).toEqual([
+      { kind: 'filter', operator: 'project', value: 'my app', negated: false },
+      { kind: 'text', value: 'x', phrase: false, negated: false },
+    ])
+  })
+
+  it('keeps unknown name:value words as text', () => {
+    expect(parseQuery('http://localhost:3000').groups[0]).toEqual([
+      { kind: 'text', value: 'http://localhost:3000', phrase: false, negated: false },
+    ])
+  })
+
+  it('skips operators that have no value yet', () => {
+    expect(parseQuery('bug tool:').groups[0]).toEqual([
+      { kind: 'text', value: 'bug', phrase: false, negated: false },
+    ])
+  })
+
+  it('negates words, phrases and operators with a leading dash', () => {
+    expect(parseQuery('-draft -"work in progress" -tool:Edit').groups[0]).toEqual([
+      { kind: 'text', value: 'draft', phrase: false, negated: true },
+      { kind: 'text', value: 'work in progress', phrase: true, negated: true },
+      { kind: 'filter', operator: 'tool', value: 'Edit', negated: true },
+    ])
+  })
+
+  it('ignores a lone dash and stray punctuation', () => {
+    expect(parseQuery('bug - ...').groups[0]).toEqual([
+      { kind: 'text', value: 'bug', phrase: false, negated: false },
+    ])
+  })
+
+  it('splits groups on OR and drops empty ones', () => {
+    const { groups } = parseQuery('OR redis tool:Bash OR memcached OR')
+    expect(groups).toHaveLength(2)
+    expect(groups[0].map((c) => c.value)).toEqual(['redis', 'Bash'])
+    expect(groups[1].map((c) => c.value)).toEqual(['memcached'])
+  })
+
+  it('only treats uppercase OR as a separator', () => {
+    expect(parseQuery('this or that').groups).toHaveLength(1)
+  })
+})
+
+describe('getHighlightText', () => {
+  it('keeps positive free text and drops operators and exclusions', () => {
+    expect(getHighlightText('tool:Bash "exit code" -draft retry')).toBe('exit code retry')
+  })
+
+  it('returns an empty string for an operator-only query', () => {
+    expect(getHighlightText('model:opus after:2025-01-01')).toBe('')
+  })
+})
+
+describe('parseDateFilter', () => {
+  it('resolves a day to local midnight', () => {
+    expect(parseDateFilter('2025-03-09')).toEqual(new Date(2025, 2, 9))
+  })
+
+  it('resolves a month to its first day', () => {
+    expect(parseDateFilter('2025-03')).toEqual(new Date(2025, 2, 1))
+  })
+
+  it('returns null for unparseable values', () => {
+    expect(parseDateFilter('yesterday-ish')).toBeNull()
+  })
+})
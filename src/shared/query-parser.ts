@@ -0,0 +1,121 @@
+import type { ParsedQuery, QueryCondition, SearchOperator } from './types'
+
+export const SEARCH_OPERATORS: SearchOperator[] = [
+  'project',
+  'branch',
+  'model',
+  'tool',
+  'file',
+  'account',
+  'before',
+  'after',
+  'from',
+]
+
+export function isSearchOperator(name: string): name is SearchOperator {
+  return (SEARCH_OPERATORS as string[]).includes(name)
+}
+
+/**
+ * Parse a search box query into OR-separated groups of conditions.
+ *
+ *   auth bug                 both words, anywhere in the conversation
+ *   "token refresh"          phrase, within a single message
+ *   tool:Bash file:src/a.ts  field operators (values may be quoted)
+ *   -draft -tool:Edit        exclusion, for words, phrases and operators
+ *   redis OR memcached       alternatives
+ *
+ * Unknown `name:value` words and unfinished input (an unclosed quote, an
+ * operator with no value yet) are tolerated so results keep updating while
+ * the user types.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const groups: QueryCondition[][] = []
+  let current: QueryCondition[] = []
+  let i = 0
+
+  const readQuoted = (): string => {
+    // i points at the opening quote; an unclosed quote runs to the end
+    const close = query.indexOf('"', i + 1)
+    const end = close === -1 ? query.length : close
+    const value = query.slice(i + 1, end)
+    i = close === -1 ? query.length : close + 1
+    return value
+  }
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++
+      continue
+    }
+
+    let negated = false
+    if (query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      negated = true
+      i++
+    }
+
+    if (query[i] === '"') {
+      const value = readQuoted().trim()
+      if (isSearchable(value)) current.push({ kind: 'text', value, phrase: true, negated })
+      continue
+    }
+
+    const start = i
+    while (i < query.length && !/\s/.test(query[i]) && query[i] !== '"') i++
+    const word = query.slice(start, i)
+
+    if (word === 'OR' && !negated) {
+      if (current.length > 0) groups.push(current)
+      current = []
+      continue
+    }
+
+    const colon = word.indexOf(':')
+    const name = colon > 0 ? word.slice(0, colon).toLowerCase() : ''
+    if (isSearchOperator(name)) {
+      let value = word.slice(colon + 1)
+      if (!value && query[i] === '"') value = readQuoted()
+      value = value.trim()
+      if (value) current.push({ kind: 'filter', operator: name, value, negated })
+      continue
+    }
+
+    if (isSearchable(word)) current.push({ kind: 'text', value: word, phrase: false, negated })
+  }
+
+  if (current.length > 0) groups.push(current)
+  return { groups }
+}
+
+// A lone `-` or stray punctuation has nothing for the index to match
+function isSearchable(text: string): boolean {
+  return /[\p{L}\p{N}]/u.test(text)
+}
+
+/**
+ * The free text a user is looking for, without operators or exclusions —
+ * what result previews and the conversation view should highlight.
+ */
+export function getHighlightText(query: string): string {
+  const terms: string[] = []
+  for (const group of parseQuery(query).groups) {
+    for (const condition of group) {
+      if (condition.kind === 'text' && !condition.negated) terms.push(condition.value)
+    }
+  }
+  return terms.join(' ')
+}
+
+/**
+ * Resolve a `before:` / `after:` value to the start of that day in local
+ * time. Accepts YYYY-MM-DD, YYYY-MM, or anything Date can parse.
+ */
+export function parseDateFilter(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(value)
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, match[3] ? Number(match[3]) : 1)
+  }
+  const parsed = new Date(value)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
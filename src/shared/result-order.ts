@@ -0,0 +1,22 @@
+import type { SearchResult, SortOption } from './types'
+
+/** A copy of the results in the order of a sidebar sort option. Ties keep their order. */
+export function sortResults(results: SearchResult[], sortBy: SortOption): SearchResult[] {
+  const sorted = [...results]
+  const time = (result: SearchResult): number => new Date(result.timestamp).getTime()
+
+  switch (sortBy) {
+    case 'relevance':
+      return sorted.sort((a, b) => b.score - a.score)
+    case 'recent':
+      return sorted.sort((a, b) => time(b) - time(a))
+    case 'oldest':
+      return sorted.sort((a, b) => time(a) - time(b))
+    case 'most-messages':
+      return sorted.sort((a, b) => b.messageCount - a.messageCount)
+    case 'least-messages':
+      return sorted.sort((a, b) => a.messageCount - b.messageCount)
+    case 'alphabetical':
+      return sorted.sort((a, b) => a.projectName.localeCompare(b.projectName))
+  }
+}
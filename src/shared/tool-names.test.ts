@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest'
+import { parseMcpToolName } from './tool-names'
+
+describe('parseMcpToolName', () => {
+  it('splits an MCP tool name into its server and tool', () => {
+    expect(parseMcpToolName('mcp__github__create_issue')).toEqual({ server: 'github', tool: 'create_issue' })
+    expect(parseMcpToolName('mcp__plugin_serena_serena__find_symbol')).toEqual({
+      server: 'plugin_serena_serena',
+      tool: 'find_symbol'
+    })
+  })
+
+  it('returns null for built-in tools', () => {
+    expect(parseMcpToolName('Bash')).toBeNull()
+    expect(parseMcpToolName('mcp__')).toBeNull()
+  })
+})
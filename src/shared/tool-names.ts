@@ -0,0 +1,10 @@
+/**
+ * The server and tool of an MCP tool name, e.g. `mcp__github__create_issue`
+ * or `mcp__plugin_serena_serena__find_symbol`; null for built-in tools.
+ */
+export function parseMcpToolName(name: string): { server: string; tool: string } | null {
+  if (!name.startsWith('mcp__')) return null
+  const parts = name.split('__')
+  if (parts.length < 3 || !parts[1]) return null
+  return { server: parts[1], tool: parts.slice(2).join('__') || name }
+}
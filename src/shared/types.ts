@@ -5,9 +5,26 @@ export interface ConversationMessage {
   content: string
   timestamp: string
   uuid?: string
+  // uuid of the nearest earlier message shown in the transcript, null for the
+  // first message of a thread; unset when the JSONL does not record parents
+  parentUuid?: string | null
   metadata?: MessageMetadata
   lineNumber?: number
   isToolResult?: boolean
+  // Set on a compaction boundary, a system message whose content is the
+  // summary that replaced the messages before it
+  compaction?: CompactionInfo
+  // The model's extended thinking before this reply, one entry per block
+  thinking?: string[]
+}
+
+// How and when the conversation was compacted
+export interface CompactionInfo {
+  trigger?: 'manual' | 'auto'
+  // Context size in tokens just before compacting
+  preTokens?: number
+  // Summary entries a continued session opens with, rather than a /compact boundary
+  fromSummaryEntries?: boolean
 }
 
 export type Account = string  // profile id, e.g. "default", "work", custom uuid
@@ -25,6 +42,38 @@ export interface ConversationMeta {
   contentSnippet: string
   lastMessageSender: 'user' | 'assistant'
   account: Account
+  // Distinct values seen in the session, used by field operators in search queries
+  models: string[]
+  gitBranches: string[]
+  toolNames: string[]
+  filePaths: string[]
+  // Session continuity, linked up by buildSessionChains(): the uuids of the
+  // file's thread tips, and what it refers to outside itself
+  leafUuids?: string[]
+  continuesFrom?: SessionReferences
+  // Tokens used by the session and its sub-agents, unset when none were recorded
+  usage?: UsageEntry[]
+  // Tool calls of the session and its sub-agents, unset when it made none
+  toolUsage?: ToolUsageEntry[]
+  // Files the session and its sub-agents changed, unset when none
+  fileEdits?: FileEditStat[]
+}
+
+// Another session's messages a file builds on: summary leafUuids and parents
+// not in the file, and session ids of entries copied from a resumed session
+export interface SessionReferences {
+  uuids: string[]
+  sessionIds: string[]
+}
+
+// One file of a session chain, as laid out in the merged conversation
+export interface SessionChainPart {
+  id: string
+  sessionId: string
+  timestamp: string
+  // Index of the part's first message in Conversation.messages
+  firstMessageIndex: number
+  messageCount: number
 }
 
 export interface Conversation {
@@ -39,6 +88,50 @@ export interface Conversation {
   timestamp: string
   messageCount: number
   account: Account
+  // Set when the conversation is a whole session chain, oldest part first
+  chain?: SessionChainPart[]
+  usage?: UsageEntry[]
+  // Every model response in file order, also those shown only as tool calls;
+  // unset for a whole session chain
+  turns?: TurnStat[]
+}
+
+// Location of the message that matched a search inside its conversation
+export interface MessageLocation {
+  lineNumber: number
+}
+
+// One user/assistant message streamed from the scanner into the message index
+export interface IndexedMessage {
+  conversationId: string
+  lineNumber: number
+  role: 'user' | 'assistant'
+  content: string
+  // Set for the model's extended thinking, which is indexed apart and only
+  // searched when asked for
+  thinking?: boolean
+}
+
+// A tool call and its result, streamed from the scanner into the tool index.
+// lineNumber is the line of the tool result, where the conversation view shows the call.
+export interface IndexedToolCall {
+  conversationId: string
+  lineNumber: number
+  toolName: string
+  filePath?: string
+  command?: string
+  pattern?: string
+  output?: string
+}
+
+export type ToolCallField = 'filePath' | 'command' | 'pattern' | 'output'
+
+// The tool call that matched a search, e.g. { toolName: 'Edit', field: 'filePath', summary: 'src/auth.ts' }
+export interface ToolCallLocation {
+  lineNumber: number
+  toolName: string
+  field: ToolCallField
+  summary: string  // file path, command or pattern of the call
 }
 
 export interface SearchResult {
@@ -51,12 +144,44 @@ export interface SearchResult {
   timestamp: string
   messageCount: number
   score: number
+  // Set by the indexer; score is the sum of these parts
+  scoreBreakdown?: ScoreBreakdown
   lastMessageSender: 'user' | 'assistant'
   account: Account
+  matchedMessage?: MessageLocation
+  matchedTool?: ToolCallLocation
+  // Found by fuzzy matching; matchedTerms are the indexed words that matched
+  approximate?: boolean
+  matchedTerms?: string[]
+  // Regex search only: the first matching lines, and how many matches there are in total
+  regexMatches?: RegexLineMatch[]
+  regexMatchCount?: number
+  // Found only by the semantic index, through a message similar in meaning
+  semantic?: boolean
+  // Set on results of "find similar conversations": what they share with the open one
+  similarity?: SimilarityReasons
+  // Set when the conversation is one of several resumed or continued sessions
+  // listed as one result; the other parts are left out of the results
+  chainLength?: number
+  usage?: UsageEntry[]
+}
+
+// Components of a result's relevance score, shown in the result tooltip
+export interface ScoreBreakdown {
+  fields: number         // weighted by the field each term matched in
+  termFrequency: number  // how often the terms occur
+  proximity: number      // terms found together in one message or side by side
+  recency: number        // 1 for today, halving every 30 days
+  meaning?: number       // semantic similarity, when searching by meaning
 }
 
 export type ExportFormat = 'markdown' | 'json' | 'text'
 
+export interface ExportOptions {
+  chain?: boolean     // export the conversation's whole session chain as one
+  thinking?: boolean  // include the model's extended thinking
+}
+
 export interface ExportResult {
   success: boolean
   filePath?: string
@@ -64,8 +189,35 @@ export interface ExportResult {
   error?: string
 }
 
-export type SortOption = 'recent' | 'oldest' | 'most-messages' | 'least-messages' | 'alphabetical'
-export type DateRangeOption = 'all' | 'today' | 'week' | 'month'
+export type SortOption = 'relevance' | 'recent' | 'oldest' | 'most-messages' | 'least-messages' | 'alphabetical'
+export type DateRangePreset = 'all' | 'today' | 'week' | 'month'
+
+// Calendar days as YYYY-MM-DD in local time, both included
+export interface CustomDateRange {
+  start: string
+  end: string
+}
+
+export type DateRangeOption = DateRangePreset | CustomDateRange
+
+// What the sidebar asks for, one page at a time
+export interface SearchPageOptions {
+  project?: string
+  account?: string | null  // profile id
+  dateRange?: DateRangeOption
+  sortBy?: SortOption
+  fuzzy?: boolean
+  semantic?: boolean
+  thinking?: boolean       // also search the model's extended thinking
+  limit?: number           // page size
+  cursor?: string | null   // nextCursor of the previous page; omitted for the first
+}
+
+export interface SearchPage {
+  results: SearchResult[]
+  total: number              // matches across every page
+  nextCursor: string | null  // null on the last page
+}
 
 export interface UserPreferences {
   sortBy: SortOption
@@ -73,6 +225,151 @@ export interface UserPreferences {
   selectedProject: string
   defaultProfileId?: string
   sidebarWidth?: number
+  savedSearches?: SavedSearch[]
+  searchHistory?: SearchHistoryEntry[]  // most recent first
+  pricing?: ModelPrice[]                // DEFAULT_PRICING until edited
+}
+
+// The query and sidebar filters a saved search restores
+export interface SavedSearchFilters {
+  query: string
+  project: string          // '' for all projects
+  account: string | null   // profile id
+  dateRange: DateRangeOption
+  sortBy: SortOption
+}
+
+export interface SavedSearch extends SavedSearchFilters {
+  id: string
+  name: string
+  // Matches in conversations active after this count as new
+  lastOpenedAt: string
+}
+
+// A query as it was last run, recalled from the search bar
+export interface SearchHistoryEntry extends SavedSearchFilters {
+  fuzzy: boolean
+  semantic: boolean
+  regex: boolean
+  thinking?: boolean   // unset in entries recorded before thinking could be searched
+  resultCount: number  // conversations shown after filtering
+  lastRunAt: string
+}
+
+export interface SimilarityReasons {
+  files: string[]     // edited or written by both
+  commands: string[]  // Bash commands both ran
+  terms: string[]     // distinctive words both contain
+  sameProject: boolean
+  branch?: string     // a shared git branch other than main/master
+}
+
+// ─── Search Query Types ─────────────────────────────────────────────
+
+export type SearchOperator =
+  | 'project'
+  | 'branch'
+  | 'model'
+  | 'tool'
+  | 'file'
+  | 'account'
+  | 'before'
+  | 'after'
+  | 'from'
+
+// Free text: a single word, or a quoted phrase that must occur within one message
+export interface QueryTextTerm {
+  kind: 'text'
+  value: string
+  phrase: boolean
+  negated: boolean
+}
+
+// `operator:value`, e.g. `tool:Bash` or `-branch:main`
+export interface QueryFilter {
+  kind: 'filter'
+  operator: SearchOperator
+  value: string
+  negated: boolean
+}
+
+export type QueryCondition = QueryTextTerm | QueryFilter
+
+// Alternatives separated by `OR`; every condition within a group must hold
+export interface ParsedQuery {
+  groups: QueryCondition[][]
+}
+
+// Known operator values, for search bar autocomplete
+export interface SearchSuggestions {
+  projects: string[]
+  branches: string[]
+  models: string[]
+  tools: string[]
+  accounts: string[]
+}
+
+// ─── Regex Search Types ─────────────────────────────────────────────
+
+export interface RegexSearchOptions {
+  caseSensitive?: boolean
+  project?: string
+  account?: string | null  // profile id
+  dateRange?: DateRangeOption
+}
+
+// One regex match within a message; start/end delimit the match in excerpt
+export interface RegexLineMatch {
+  lineNumber: number
+  role: 'user' | 'assistant'
+  excerpt: string
+  start: number
+  end: number
+}
+
+export interface RegexSearchStartResult {
+  success: boolean
+  searchId?: string
+  error?: string  // e.g. an invalid pattern
+}
+
+// Pushed on the `regex-search-event` channel while a regex search runs
+export type RegexSearchEvent =
+  | { searchId: string; type: 'result'; result: SearchResult }
+  | { searchId: string; type: 'progress'; scanned: number; total: number }
+  | { searchId: string; type: 'done'; scanned: number; total: number; cancelled: boolean; error?: string }
+
+// ─── Semantic Search Types ──────────────────────────────────────────
+
+// Pushed on the `semantic-index-progress` channel while conversations are embedded
+export interface SemanticIndexStatus {
+  embedded: number
+  total: number
+  building: boolean
+}
+
+// ─── Live Index Updates ─────────────────────────────────────────────
+
+export interface ConversationChanges {
+  added: ConversationMeta[]
+  updated: ConversationMeta[]
+  removed: string[]  // conversation ids (file paths)
+}
+
+// Payload of the `conversations-changed` event pushed to the renderer
+export interface ConversationsChangedEvent {
+  added: string[]
+  updated: string[]
+  removed: string[]
+}
+
+// ─── Index Cache Types ──────────────────────────────────────────────
+
+// What the scanner knows about one JSONL file; meta is null for files with no messages
+export interface CachedFileEntry {
+  size: number
+  mtimeMs: number
+  meta: ConversationMeta | null
 }
 
 // ─── Tool Result Types ──────────────────────────────────────────────
@@ -96,11 +393,19 @@ export interface EditToolResult {
   replaceAll: boolean
 }
 
+// Output too large to keep inline, which Claude Code saved under the session's
+// tool-results directory; preview is the part kept in the transcript
+export interface PersistedOutputRef {
+  path: string
+  preview: string
+}
+
 export interface BashToolResult {
   type: 'bash'
   stdout: string
   stderr: string
   interrupted: boolean
+  persistedOutput?: PersistedOutputRef
 }
 
 export interface ReadToolResult {
@@ -127,6 +432,7 @@ export interface GrepToolResult {
   content: string
   numFiles: number
   numLines: number
+  persistedOutput?: PersistedOutputRef
 }
 
 export interface TaskAgentToolResult {
@@ -134,6 +440,9 @@ export interface TaskAgentToolResult {
   status: string
   prompt: string
   agentId: string
+  // From the Task call that spawned the sub-agent
+  description?: string
+  subagentType?: string
 }
 
 export interface TaskCreateToolResult {
@@ -153,6 +462,15 @@ export interface GenericToolResult {
   type: 'generic'
   toolName: string
   data: Record<string, unknown>
+  persistedOutput?: PersistedOutputRef
+}
+
+// One slice of a persisted tool output; nextOffset is null at the end of the file
+export interface ToolOutputPage {
+  text: string
+  offset: number
+  nextOffset: number | null
+  totalSize: number
 }
 
 export type ToolResult =
@@ -231,6 +549,159 @@ export interface PeriodStat {
   messages: number
 }
 
+// ─── Usage Types ─────────────────────────────────────────────────────
+
+export interface TokenCounts {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+}
+
+// Tokens one model used on one local day
+export interface UsageEntry extends TokenCounts {
+  date: string  // YYYY-MM-DD
+  model: string
+}
+
+// Usage of one project and profile, summed over its conversations
+export interface UsageRow extends UsageEntry {
+  projectPath: string
+  projectName: string
+  account: Account
+}
+
+// Usage of one conversation, for the cache report
+export interface SessionUsage {
+  id: string
+  title: string      // the session's name, else its preview
+  projectPath: string
+  projectName: string
+  account: Account
+  timestamp: string  // last activity
+  usage: UsageEntry[]
+}
+
+// Prompt tokens by how the cache served them, and what that cost
+export interface CacheStats extends TokenCounts {
+  hitRatio: number | null  // share of prompt tokens read from the cache; null without prompt tokens
+  cost: number             // USD as billed
+  uncachedCost: number     // USD had every prompt token been billed as fresh input
+}
+
+export interface CacheGroupStats extends CacheStats {
+  key: string
+  label: string
+}
+
+export interface CacheSessionStats extends CacheStats {
+  id: string
+  title: string
+  projectName: string
+  account: Account
+  timestamp: string
+  lowReuse: boolean  // hit ratio well under the typical session's
+}
+
+export interface CacheReport {
+  totals: CacheStats
+  daily: Array<CacheStats & { date: string }>
+  byProject: CacheGroupStats[]
+  byProfile: CacheGroupStats[]
+  sessions: CacheSessionStats[]  // lowest hit ratio first
+}
+
+// One model response, a bar of the turn waterfall
+export interface TurnStat extends TokenCounts {
+  lineNumber: number      // first transcript line of the response
+  timestamp: string
+  model: string
+  waitMs: number | null   // since the prompt or tool result it answers; null when unknown
+  toolsBefore: string[]   // tools whose results came in since the previous response
+  messageUuid?: string    // the message the response is shown as, on its branch; absent when none is
+}
+
+// USD per million tokens, for model ids starting with `model`
+export interface ModelPrice {
+  model: string
+  input: number
+  output: number
+  cacheRead: number
+  cacheWrite: number
+}
+
+// ─── Tool Usage Types ────────────────────────────────────────────────
+
+// Calls of one tool on one local day
+export interface ToolUsageEntry {
+  date: string  // YYYY-MM-DD
+  tool: string
+  calls: number
+  failures: number  // results marked as errors, or Bash runs that wrote to stderr
+}
+
+// ─── File Edit Types ─────────────────────────────────────────────────
+
+// Where a change to a file was recorded, so its timeline reads only those lines
+export interface FileEditLocation {
+  // Line in the conversation; a sub-agent's change is placed on the Task result that reported it
+  lineNumber: number
+  tool: string
+  agentId?: string    // set when a sub-agent made the change
+  agentLine?: number  // its line in the sub-agent's transcript
+}
+
+// Changes one session made to one file with Edit, MultiEdit or Write
+export interface FileEditStat {
+  filePath: string
+  edits: number
+  linesAdded: number
+  linesRemoved: number
+  lastEdited: string  // timestamp of the latest change
+  locations: FileEditLocation[]
+}
+
+// A file's changes across the sessions of its project
+export interface FileHotspot extends Omit<FileEditStat, 'locations'> {
+  projectPath: string
+  projectName: string
+  sessions: number
+}
+
+// One change to a file, a step of its timeline
+export interface FileEdit {
+  // Line in the conversation; a sub-agent's change is placed on the Task result that reported it
+  lineNumber: number
+  timestamp: string
+  tool: string
+  agentId?: string  // set when a sub-agent made the change
+  linesAdded: number
+  linesRemoved: number
+  result: EditToolResult | WriteToolResult
+}
+
+// The changes one conversation made to a file
+export interface FileTimelineEntry {
+  id: string
+  title: string  // the session's name, else its preview
+  projectName: string
+  account: Account
+  timestamp: string
+  edits: FileEdit[]
+}
+
+// A conversation that changed a file, before its changes are read
+export interface FileEditor extends Omit<FileTimelineEntry, 'edits'> {
+  locations: FileEditLocation[]
+}
+
+// Some of the conversations that changed a file, newest first
+export interface FileTimelinePage {
+  entries: FileTimelineEntry[]
+  total: number              // conversations across all pages
+  nextOffset: number | null  // pass back for the next page; null on the last
+}
+
 // ─── PTY / Chat Types ────────────────────────────────────────────────
 
 export interface PtySpawnOptions {
@@ -18,6 +18,7 @@ import type {
   AppSettings,
   UserPreferences,
 } from '../shared/types'
+import type { TranscriptEntry } from '../main/services/transcript-tally'
 
 let counter = 0
 function nextId(): string {
@@ -79,6 +80,10 @@ export function buildConversationMeta(overrides: Partial<ConversationMeta> = {})
     contentSnippet: 'Full content snippet for indexing purposes with more text here',
     lastMessageSender: 'assistant',
     account: 'default',
+    models: [],
+    gitBranches: [],
+    toolNames: [],
+    filePaths: [],
     ...overrides,
   }
 }
@@ -253,3 +258,25 @@ export function buildMessageMetadata(overrides: Partial<MessageMetadata> = {}):
     ...overrides,
   }
 }
+
+// ─── Transcript Entries ───────────────────────────────────────────
+
+export function buildToolUseEntry(id: string, name: string, overrides: TranscriptEntry = {}): TranscriptEntry {
+  return {
+    type: 'assistant',
+    sessionId: 's1',
+    timestamp: '2025-03-01T10:00:00',
+    message: { content: [{ type: 'tool_use', id, name, input: {} }] },
+    ...overrides,
+  }
+}
+
+export function buildToolResultEntry(id: string, content: unknown = 'ok', overrides: TranscriptEntry = {}): TranscriptEntry {
+  return {
+    type: 'user',
+    sessionId: 's1',
+    timestamp: '2025-03-01T10:00:00',
+    message: { content: [{ type: 'tool_result', tool_use_id: id, content }] },
+    ...overrides,
+  }
+}
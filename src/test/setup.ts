@@ -7,7 +7,17 @@ if (typeof window !== 'undefined') {
 
   window.electronAPI = {
     search: vi.fn().mockResolvedValue([]),
+    searchPage: vi.fn().mockResolvedValue({ results: [], total: 0, nextCursor: null }),
+    onSemanticIndexProgress: vi.fn(() => noop),
+    getSearchSuggestions: vi.fn().mockResolvedValue({ projects: [], branches: [], models: [], tools: [], accounts: [] }),
+    regexSearchStart: vi.fn().mockResolvedValue({ success: true, searchId: 'regex-1' }),
+    regexSearchCancel: vi.fn().mockResolvedValue(true),
+    onRegexSearchEvent: vi.fn(() => noop),
+    findSimilarConversations: vi.fn().mockResolvedValue([]),
     getConversation: vi.fn().mockResolvedValue(null),
+    getSubagentTranscript: vi.fn().mockResolvedValue(null),
+    readToolOutput: vi.fn().mockResolvedValue(null),
+    getSessionChain: vi.fn().mockResolvedValue(null),
     getProjects: vi.fn().mockResolvedValue([]),
     getStats: vi.fn().mockResolvedValue({ conversations: 0, projects: 0 }),
     rebuildIndex: vi.fn().mockResolvedValue(true),
@@ -17,6 +27,7 @@ if (typeof window !== 'undefined') {
     setPreferences: vi.fn().mockResolvedValue(true),
     onIndexReady: vi.fn(noop),
     onScanProgress: vi.fn(() => noop),
+    onConversationsChanged: vi.fn(() => noop),
     ptySpawn: vi.fn().mockResolvedValue({ success: true }),
     ptyInput: vi.fn(noop),
     ptyResize: vi.fn(noop),
@@ -28,6 +39,12 @@ if (typeof window !== 'undefined') {
     setSettings: vi.fn().mockResolvedValue(true),
     selectDirectory: vi.fn().mockResolvedValue(null),
     getDailyStats: vi.fn().mockResolvedValue([]),
+    getUsageStats: vi.fn().mockResolvedValue([]),
+    getToolStats: vi.fn().mockResolvedValue([]),
+    getFileHotspots: vi.fn().mockResolvedValue([]),
+    getFileTimeline: vi.fn().mockResolvedValue({ entries: [], total: 0, nextOffset: null }),
+    getSessionUsage: vi.fn().mockResolvedValue([]),
+    exportCacheReport: vi.fn().mockResolvedValue({ success: true }),
     getProfilesUsage: vi.fn().mockResolvedValue({}),
     getProfiles: vi.fn().mockResolvedValue([]),
     saveProfiles: vi.fn().mockResolvedValue(true),